@@ -1,23 +1,50 @@
-import type { TickerPrice, ArbitrageOpportunity } from './types/exchange.js';
-import type { Config } from './types/config.js';
+import type { TickerPrice, ArbitrageOpportunity, ExchangeName, FuturesExchange, PositionPair } from './types/exchange.js';
+import type { Config, ExchangeCredentials } from './types/config.js';
 import { Logger } from './utils/logger.js';
-import { BinanceFutures } from './exchanges/binance-futures.js';
-import { MexcFutures } from './exchanges/mexc-futures.js';
+import { ExchangeFactory } from './exchanges/exchange-factory.js';
+import { SimulatedExchange } from './exchanges/simulated-exchange.js';
+import { ConfigLoader } from './utils/config-loader.js';
+import { ContractMetadataService } from './utils/contract-metadata.js';
+import { LimitOrderExecutor } from './utils/limit-order-executor.js';
+import { LocalOrderBook } from './utils/order-book.js';
 import { TradeExecutor } from './trade-executor.js';
+import { HedgedQuoter } from './hedged-quoter.js';
 import { WebSocketMonitor } from './utils/websocket-monitor.js';
+import { UserDataBus } from './utils/user-data-bus.js';
+import { StateJournal } from './utils/state-journal.js';
+import { FundingRateService } from './utils/funding-rates.js';
+import { TickRecorder } from './utils/tick-recorder.js';
+import { Clock } from './utils/clock.js';
+import { StrategyFactory } from './strategies/strategy-factory.js';
+import type { MarketUpdate, Strategy, StrategyContext, StrategyIntent } from './strategies/strategy.js';
 import type { TuiDashboard } from './utils/tui.js';
 //
+/**
+ * Период таймера стратегий (таймауты, выходы и входы, не зависящие от котировок)
+ */
+const STRATEGY_TIMER_MS = 500;
+
 /**
  * Класс для детектирования арбитражных возможностей
  */
 export class ArbitrageDetector {
   private config: Config;
   private logger: Logger;
-  private binance: BinanceFutures;
-  private mexc: MexcFutures;
+  private exchanges: Map<ExchangeName, FuturesExchange> = new Map();
   private tradeExecutor: TradeExecutor;
+  private quoter?: HedgedQuoter; // Котирование maker-taker (config.hedgedQuoting)
+  private metadata: ContractMetadataService;
+  private userData = new UserDataBus(); // События приватных стримов (ордера, позиции, балансы)
   private commonSymbols: string[] = [];
+  private symbolExchanges: Map<string, ExchangeName[]> = new Map(); // Символ -> биржи, где он торгуется
   private wsMonitor: WebSocketMonitor;
+  private journal: StateJournal; // Журнал состояния сессии на диске
+  private funding: FundingRateService;
+  private recorder: TickRecorder; // Запись котировок на диск (config.recorder)
+  private strategies: Strategy[]; // Правила входа и выхода (config.strategies)
+  private strategyInterval: NodeJS.Timeout | null = null;
+  private strategyTickRunning = false;
+  private tradingStopped = false;
   private tui?: TuiDashboard;
 
   // Кэш для сканера TUI (чтобы не перерисовывать слишком часто)
@@ -31,45 +58,73 @@ export class ArbitrageDetector {
   constructor(
     config: Config,
     logger?: Logger,
-    apiKeys?: {
-      binanceKey?: string;
-      binanceSecret?: string;
-      mexcKey?: string;
-      mexcSecret?: string;
-    }
+    apiKeys?: Record<ExchangeName, ExchangeCredentials>,
+    exchanges?: FuturesExchange[] // Готовые адаптеры вместо создания по config.exchanges (бэктест)
   ) {
     this.config = config;
     this.logger = logger || new Logger();
 
-    this.wsMonitor = new WebSocketMonitor();
+    this.journal = new StateJournal(this.logger);
+    this.wsMonitor = new WebSocketMonitor(this.journal);
 
-    this.binance = new BinanceFutures(
-      config.exchanges.binance.restBaseUrl,
-      config.exchanges.binance.wsBaseUrl,
-      config.arbitrage.reconnectDelayMs,
-      this.logger,
-      this.wsMonitor,
-      apiKeys?.binanceKey,
-      apiKeys?.binanceSecret
-    );
+    if (exchanges) {
+      for (const exchange of exchanges) {
+        this.exchanges.set(exchange.name, exchange);
+      }
+    } else {
+      const paper = config.trading.testMode && config.paper?.enabled === true;
+
+      for (const [name, exchangeConfig] of ConfigLoader.getEnabledExchanges(config)) {
+        const exchange = ExchangeFactory.create(name, exchangeConfig, {
+          reconnectDelay: config.arbitrage.reconnectDelayMs,
+          logger: this.logger,
+          wsMonitor: this.wsMonitor,
+          apiKey: apiKeys?.[name]?.apiKey,
+          apiSecret: apiKeys?.[name]?.apiSecret,
+        });
 
-    this.mexc = new MexcFutures(
-      config.exchanges.mexc.restBaseUrl,
-      config.exchanges.mexc.wsBaseUrl,
-      config.arbitrage.reconnectDelayMs,
-      this.logger,
-      this.wsMonitor,
-      apiKeys?.mexcKey,
-      apiKeys?.mexcSecret
-    );
+        // Бумажная торговля: котировки настоящие, ордера исполняет симулятор
+        this.exchanges.set(name, paper ? new SimulatedExchange(exchange, config, this.logger) : exchange);
+      }
+    }
+
+    if (this.exchanges.size < 2) {
+      throw new Error('Для арбитража нужно минимум две включенные биржи в config.json');
+    }
+
+    this.metadata = new ContractMetadataService(Array.from(this.exchanges.values()), this.logger);
+    this.funding = new FundingRateService(Array.from(this.exchanges.values()), config.funding, this.logger);
+    this.recorder = new TickRecorder(config.recorder, this.logger);
 
     this.tradeExecutor = new TradeExecutor(
       config,
       this.logger,
-      this.binance,
-      this.mexc
+      Array.from(this.exchanges.values()),
+      this.metadata,
+      this.userData,
+      this.journal,
+      this.funding
     );
-    this.tradeExecutor.setPriceGetter((symbol: string) => this.getCurrentPrices(symbol));
+
+    this.strategies = StrategyFactory.createAll(config, this.createStrategyContext());
+
+    if (config.hedgedQuoting?.enabled) {
+      if (config.trading.testMode && config.paper?.enabled !== true) {
+        this.logger.warn('hedgedQuoting работает только с ордерами (реальными или paper.enabled) - котирование выключено');
+      } else {
+        // Пары котирования закрывает SPREAD (сходимость, таймаут)
+        const strategy = this.strategies.find((candidate) => candidate.id === 'SPREAD') ?? this.strategies[0];
+        this.quoter = new HedgedQuoter(
+          config,
+          Array.from(this.exchanges.values()),
+          this.tradeExecutor,
+          this.metadata,
+          this.userData,
+          strategy,
+          this.logger
+        );
+      }
+    }
   }
 
   // Метод для связи с TUI (вызывается из main.ts)
@@ -82,10 +137,17 @@ export class ArbitrageDetector {
   async start(): Promise<void> {
     this.logger.header('ЗАПУСК АРБИТРАЖНОГО БОТА');
 
+    this.restoreSession();
     await this.checkExchangesHealth();
+    await this.metadata.load();
+    await this.connectUserDataStreams();
+    await this.tradeExecutor.reconcilePositions();
     await this.fetchTopPairs();
+    await this.funding.start(this.commonSymbols);
 
     this.tradeExecutor.start();
+    this.startStrategies();
+    this.quoter?.start();
 
     // Минутные сводки больше не нужны в консоль, так как есть TUI.
     // Но оставим их в файл trades.log через логгер.
@@ -98,40 +160,93 @@ export class ArbitrageDetector {
     }
   }
 
+  /**
+   * Запуск без сети и таймеров (бэктест): параметры контрактов и символы берутся у адаптеров,
+   * котировки подаются через onPriceUpdate, проверки - через runTimers
+   */
+  async startOffline(): Promise<void> {
+    await this.metadata.load();
+    await this.fetchTopPairs();
+  }
+
+  /**
+   * Один шаг периодических проверок исполнителя и стратегий (в бэктесте вместо setInterval)
+   */
+  async runTimers(): Promise<void> {
+    await this.tradeExecutor.tick();
+    await this.runStrategyTimers();
+  }
+
   private async checkExchangesHealth(): Promise<void> {
     this.logger.info('Проверка доступности бирж...');
-    const binanceOk = await this.binance.healthCheck();
-    const mexcOk = await this.mexc.healthCheck();
 
-    if (!binanceOk) throw new Error('Binance API недоступен');
-    if (!mexcOk) throw new Error('MEXC API недоступен');
-    
+    for (const exchange of this.exchanges.values()) {
+      const ok = await exchange.healthCheck();
+      if (!ok) throw new Error(`${exchange.name.toUpperCase()} API недоступен`);
+    }
+
     this.logger.success('Биржи доступны');
   }
 
-  private async fetchTopPairs(): Promise<void> {
-    this.logger.info(`Получение топ ${this.config.arbitrage.topPairsCount} пар...`);
+  /**
+   * Продолжить оборванную сессию из журнала или начать новую
+   */
+  private restoreSession(): void {
+    const state = this.journal.begin(this.config.trading.testMode, this.config.trading.testBalanceUSD);
+    this.tradeExecutor.restoreState(state);
+    this.wsMonitor.restore(state.wsDowntimes);
+  }
 
-    const [binancePairs, mexcPairs] = await Promise.all([
-      this.binance.getTopPairs(this.config.arbitrage.topPairsCount),
-      this.mexc.getTopPairs(this.config.arbitrage.topPairsCount),
-    ]);
+  /**
+   * Приватные стримы нужны только при реальной и бумажной торговле.
+   * После загрузки контрактов: MEXC переводит объемы из контрактов в монеты
+   */
+  private async connectUserDataStreams(): Promise<void> {
+    if (!this.config.trading.enabled) return;
+    if (this.config.trading.testMode && !this.config.paper?.enabled) return;
+
+    await Promise.all(Array.from(this.exchanges.values()).map(async (exchange) => {
+      try {
+        await exchange.connectUserDataStream(this.userData);
+      } catch (error) {
+        this.logger.warn(
+          `${exchange.name.toUpperCase()}: user-data стрим не подключен, используем REST - ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }));
+  }
 
-    const binanceSymbols = new Set(binancePairs.map((p) => p.symbol));
-    const mexcSymbolsConverted = new Set(
-      mexcPairs.map((p) => MexcFutures.toCommonFormat(p.symbol))
-    );
+  private async fetchTopPairs(): Promise<void> {
+    this.logger.info(`Получение топ ${this.config.arbitrage.topPairsCount} пар...`);
 
-    this.commonSymbols = Array.from(binanceSymbols).filter((symbol) =>
-      mexcSymbolsConverted.has(symbol)
+    const exchanges = Array.from(this.exchanges.values());
+    const pairsByExchange = await Promise.all(
+      exchanges.map((exchange) => exchange.getTopPairs(this.config.arbitrage.topPairsCount))
     );
 
-    if (this.config.arbitrage.excludePairs.length > 0) {
-      this.commonSymbols = this.commonSymbols.filter(
-        (s) => !this.config.arbitrage.excludePairs.includes(s)
-      );
+    // Адаптеры возвращают символы в общем формате.
+    // Отслеживаем символ, если он торгуется хотя бы на двух биржах
+    this.symbolExchanges.clear();
+    pairsByExchange.forEach((pairs, index) => {
+      for (const pair of pairs) {
+        if (this.config.arbitrage.excludePairs.includes(pair.symbol)) continue;
+
+        // Контракт без параметров (делистинг, не USDT-M) нельзя корректно торговать
+        const name = exchanges[index].name;
+        if (this.metadata.isLoaded(name) && !this.metadata.hasSpec(name, pair.symbol)) continue;
+
+        const venues = this.symbolExchanges.get(pair.symbol) ?? [];
+        venues.push(name);
+        this.symbolExchanges.set(pair.symbol, venues);
+      }
+    });
+
+    for (const [symbol, venues] of this.symbolExchanges) {
+      if (venues.length < 2) this.symbolExchanges.delete(symbol);
     }
 
+    this.commonSymbols = Array.from(this.symbolExchanges.keys());
+
     this.logger.success(`Отслеживаем ${this.commonSymbols.length} пар`);
     if (this.commonSymbols.length === 0) {
       throw new Error('Не найдено общих пар!');
@@ -139,81 +254,120 @@ export class ArbitrageDetector {
   }
 
   private async startWebSocketMonitoring(): Promise<void> {
-    const mexcSymbols = this.commonSymbols.map((s) => MexcFutures.toMexcFormat(s));
+    this.recorder.start();
 
-    this.binance.connectWebSocket(this.commonSymbols, (price) => this.onPriceUpdate(price));
-    this.mexc.connectWebSocket(mexcSymbols, (price) => this.onPriceUpdate(price));
+    for (const exchange of this.exchanges.values()) {
+      const symbols = this.commonSymbols.filter((symbol) =>
+        this.symbolExchanges.get(symbol)?.includes(exchange.name)
+      );
+      exchange.connectWebSocket(symbols, (price) => this.onPriceUpdate(price));
+    }
 
     this.logger.success('WebSocket запущен');
   }
 
-  private async onPriceUpdate(price: TickerPrice): Promise<void> {
-    const normalizedSymbol = MexcFutures.toCommonFormat(price.symbol);
-    let otherPrice: TickerPrice | undefined;
+  /**
+   * Новая котировка биржи (WebSocket или проигрывание записи)
+   */
+  async onPriceUpdate(price: TickerPrice): Promise<void> {
+    this.recorder.record(price);
 
-    if (price.exchange === 'binance') {
-      const mexcSymbol = MexcFutures.toMexcFormat(normalizedSymbol);
-      otherPrice = this.mexc.getPrice(mexcSymbol);
-    } else {
-      otherPrice = this.binance.getPrice(normalizedSymbol);
+    // ВАЖНО: Обновляем цены для всех открытых позиций НЕЗАВИСИМО от наличия арбитража
+    // Это гарантирует что TUI показывает актуальные цены даже когда спред < minSpreadPercent
+    const now = Clock.now();
+    for (const pair of this.tradeExecutor.updatePositionSpread(price.symbol)) {
+      const strategy = this.strategyFor(pair);
+      await this.applyIntents(strategy, strategy.onPositionUpdate(pair, now));
     }
 
-    if (!otherPrice) return;
+    const tickers = this.getSymbolTickers(price.symbol);
+    if (tickers.length < 2) return;
+
+    await this.checkArbitrage(tickers, price.symbol);
+  }
+
+  /**
+   * Актуальные котировки символа со всех бирж, где он торгуется
+   */
+  private getSymbolTickers(symbol: string): TickerPrice[] {
+    const tickers: TickerPrice[] = [];
 
-    await this.checkArbitrage(price, otherPrice, normalizedSymbol);
+    for (const name of this.symbolExchanges.get(symbol) ?? []) {
+      const ticker = this.exchanges.get(name)?.getPrice(symbol);
+      if (ticker) tickers.push(ticker);
+    }
+
+    return tickers;
   }
 
-  private async checkArbitrage(
-    price1: TickerPrice,
-    price2: TickerPrice,
-    symbol: string
-  ): Promise<void> {
+  /**
+   * Передает обновление котировок символа стратегиям вместе с лучшей парой бирж по прибыли
+   * (она же показывается в сканере TUI)
+   */
+  private async checkArbitrage(tickers: TickerPrice[], symbol: string): Promise<void> {
     this.totalComparisons++;
 
-    let buyExchange: 'binance' | 'mexc';
-    let sellExchange: 'binance' | 'mexc';
-    let buyPrice: number;
-    let sellPrice: number;
-    
-    // Новое: сохраняем доступные объемы
-    let buyQtyAvailable: number | undefined;
-    let sellQtyAvailable: number | undefined;
-
-    if (price1.ask < price2.bid) {
-      buyExchange = price1.exchange;
-      sellExchange = price2.exchange;
-      buyPrice = price1.ask;
-      sellPrice = price2.bid;
-      buyQtyAvailable = price1.askQty; // Объем продавца на дешевой бирже
-      sellQtyAvailable = price2.bidQty; // Объем покупателя на дорогой бирже
-    } else if (price2.ask < price1.bid) {
-      buyExchange = price2.exchange;
-      sellExchange = price1.exchange;
-      buyPrice = price2.ask;
-      sellPrice = price1.bid;
-      buyQtyAvailable = price2.askQty;
-      sellQtyAvailable = price1.bidQty;
-    } else {
-      return;
+    const update: MarketUpdate = {
+      symbol,
+      tickers,
+      bestSpread: this.findBestSpread(symbol, tickers),
+      timestamp: Clock.now(),
+    };
+
+    this.updateScanner(symbol, update.bestSpread);
+
+    if (!this.config.trading.enabled) return;
+
+    for (const strategy of this.strategies) {
+      await this.applyIntents(strategy, strategy.onMarketData(update));
+    }
+  }
+
+  /**
+   * Перебирает все упорядоченные пары бирж (где купить / где продать)
+   * и выбирает комбинацию с максимальной прибылью после комиссий
+   */
+  private findBestSpread(symbol: string, tickers: TickerPrice[]): ArbitrageOpportunity | null {
+    const spreadStrategy = this.strategies.find((strategy) => strategy.id === 'SPREAD');
+    let best: ArbitrageOpportunity | null = null;
+
+    for (const buyTicker of tickers) {
+      for (const sellTicker of tickers) {
+        if (buyTicker.exchange === sellTicker.exchange) continue;
+        if (buyTicker.ask >= sellTicker.bid) continue;
+
+        const opportunity = this.buildOpportunity(symbol, buyTicker, sellTicker, spreadStrategy);
+        if (!best || opportunity.profitPercent > best.profitPercent) {
+          best = opportunity;
+        }
+      }
     }
 
-    const spreadPercent = ((sellPrice - buyPrice) / buyPrice) * 100;
+    if (best && best.spreadPercent >= this.config.arbitrage.minSpreadPercent) {
+      this.opportunitiesFound++;
+    }
+
+    return best;
+  }
+
+  private updateScanner(symbol: string, best: ArbitrageOpportunity | null): void {
+    if (!best) return;
 
     // --- ОБНОВЛЕНИЕ TUI SCANNER ---
     // Обновляем данные для сканера, даже если спред маленький (чтобы видеть движуху)
-    if (this.tui && spreadPercent > 0.05) {
-        // Формируем строку объема (например: "Bin:50k/Mex:12k")
+    if (this.tui && best.spreadPercent > 0.05) {
+        // Формируем строку объема (например: "$50000/$12000")
         // Если объем неизвестен, пишем "?"
-        const buyVol = buyQtyAvailable 
-            ? `$${(buyQtyAvailable * buyPrice).toFixed(0)}` 
+        const buyVol = best.buyQtyAvailable
+            ? `$${(best.buyQtyAvailable * best.buyPrice).toFixed(0)}`
             : '?';
-        const sellVol = sellQtyAvailable 
-            ? `$${(sellQtyAvailable * sellPrice).toFixed(0)}` 
+        const sellVol = best.sellQtyAvailable
+            ? `$${(best.sellQtyAvailable * best.sellPrice).toFixed(0)}`
             : '?';
-            
+
         this.scannerCache.set(symbol, {
-            spread: spreadPercent,
-            profit: spreadPercent - 0.12, // Примерный Net Profit для визуала
+            spread: best.spreadPercent,
+            profit: best.profitPercent,
             vol: `${buyVol}/${sellVol}`
         });
 
@@ -228,75 +382,170 @@ export class ArbitrageDetector {
         }
     }
     // -----------------------------
+  }
 
-    // ВАЖНО: Обновляем цены для всех открытых позиций НЕЗАВИСИМО от наличия арбитража
-    // Это гарантирует что TUI показывает актуальные цены даже когда спред < minSpreadPercent
-    await this.tradeExecutor.updatePositionSpread(symbol, buyPrice, sellPrice);
+  /**
+   * Исполнить намерения стратегии
+   */
+  private async applyIntents(strategy: Strategy, intents: StrategyIntent[]): Promise<void> {
+    for (const intent of intents) {
+      switch (intent.type) {
+        case 'OPEN':
+          this.handleNewOpportunity(intent.opportunity, strategy);
+          break;
+        case 'CLOSE':
+          await this.tradeExecutor.closePair(intent.pairId, intent.reason, intent.note);
+          break;
+        case 'ADJUST':
+          this.tradeExecutor.adjustPair(intent.pairId, intent.changes);
+          break;
+        case 'SKIP':
+          this.tradeExecutor.recordSkippedOpportunity(intent.opportunity, intent.reason);
+          break;
+      }
+    }
+  }
+
+  /**
+   * Таймер стратегий: каждая получает свои открытые пары
+   */
+  private startStrategies(): void {
+    if (!this.config.trading.enabled) return;
+
+    this.logger.info(`Стратегии: ${this.strategies.map((strategy) => strategy.id).join(', ')}`);
+    this.strategyInterval = setInterval(() => {
+      void this.runStrategyTimers();
+    }, STRATEGY_TIMER_MS);
+  }
+
+  private async runStrategyTimers(): Promise<void> {
+    // Закрытие реальных ордеров может идти дольше периода таймера
+    if (this.strategyTickRunning) return;
+    this.strategyTickRunning = true;
+
+    try {
+      const now = Clock.now();
+      const pairs = Array.from(this.tradeExecutor.getOpenPositions().values())
+        .filter((pair) => pair.closeTime === undefined);
+
+      for (const strategy of this.strategies) {
+        const own = pairs.filter((pair) => this.strategyFor(pair) === strategy);
+        await this.applyIntents(strategy, strategy.onTimer(own, now));
+      }
+    } catch (error) {
+      this.logger.error(`Ошибка таймера стратегий: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      this.strategyTickRunning = false;
+    }
+  }
+
+  /**
+   * Стратегия, ведущая пару. Пары стратегий, которых нет в конфиге (из журнала или сверки), ведет первая
+   */
+  private strategyFor(pair: PositionPair): Strategy {
+    return this.strategies.find((strategy) => strategy.id === (pair.strategy ?? 'SPREAD')) ?? this.strategies[0];
+  }
+
+  private createStrategyContext(): StrategyContext {
+    return {
+      config: this.config,
+      logger: this.logger,
+      funding: this.funding,
+      getSymbols: () => this.commonSymbols,
+      getTickers: (symbol) => this.getSymbolTickers(symbol),
+      getOpenPairs: () => Array.from(this.tradeExecutor.getOpenPositions().values()),
+      canOpenNewPosition: () => this.tradeExecutor.canOpenNewPosition(),
+      isTradingHalted: () => this.tradeExecutor.getTradingHalt() !== undefined,
+      buildOpportunity: (symbol, buyTicker, sellTicker, strategy) =>
+        this.buildOpportunity(symbol, buyTicker, sellTicker, strategy),
+    };
+  }
 
-    if (spreadPercent < this.config.arbitrage.minSpreadPercent) return;
+  /**
+   * Арбитражная возможность: покупка по ask на buyTicker.exchange, продажа по bid на sellTicker.exchange.
+   * Прибыль считается по VWAP на positionSizeUSD из локальных стаканов (или по лучшей цене + slippage, пока стакан не синхронизирован)
+   */
+  private buildOpportunity(
+    symbol: string,
+    buyTicker: TickerPrice,
+    sellTicker: TickerPrice,
+    strategy?: Strategy
+  ): ArbitrageOpportunity {
+    const buyPrice = buyTicker.ask;
+    const sellPrice = sellTicker.bid;
+    const spreadPercent = ((sellPrice - buyPrice) / buyPrice) * 100;
 
-    const buyFee = this.config.fees[buyExchange].taker / 100;
-    const sellFee = this.config.fees[sellExchange].taker / 100;
-    const slippage = this.config.slippage.percent / 100;
+    const sizeUSD = this.config.trading.positionSizeUSD;
+    const buyBook = this.exchanges.get(buyTicker.exchange)?.getOrderBook(symbol);
+    const sellBook = this.exchanges.get(sellTicker.exchange)?.getOrderBook(symbol);
 
-    const buyPriceWithFee = buyPrice * (1 + buyFee + slippage);
-    const sellPriceWithFee = sellPrice * (1 - sellFee - slippage);
-    const profitPercent = ((sellPriceWithFee - buyPriceWithFee) / buyPriceWithFee) * 100;
+    const buyFill = LocalOrderBook.estimate(
+      buyBook, 'BUY', sizeUSD, buyPrice, buyTicker.askQty, this.config.slippage.percent
+    );
+    const sellFill = LocalOrderBook.estimate(
+      sellBook, 'SELL', sizeUSD, sellPrice, sellTicker.bidQty, this.config.slippage.percent
+    );
 
-    const opportunity: ArbitrageOpportunity = {
+    // Комиссия maker при входе post-only ордерами, иначе taker
+    const buyFee = LimitOrderExecutor.feePercent(this.config, buyTicker.exchange) / 100;
+    const sellFee = LimitOrderExecutor.feePercent(this.config, sellTicker.exchange) / 100;
+
+    const buyPriceWithFee = buyFill.avgPrice * (1 + buyFee);
+    const sellPriceWithFee = sellFill.avgPrice * (1 - sellFee);
+    // Фандинг обеих ног за время удержания (до таймаута, без таймаута - ближайший расчет)
+    const timeoutSeconds = this.config.trading.positionTimeoutSeconds;
+    const holdMs = strategy ? strategy.maxHoldMs() : timeoutSeconds === 0 ? Infinity : timeoutSeconds * 1000;
+    const fundingPercent = this.funding.isEnabled()
+      ? this.funding.expectedPairPercent(
+          symbol,
+          buyTicker.exchange,
+          sellTicker.exchange,
+          holdMs === Infinity ? undefined : holdMs
+        )
+      : 0;
+
+    const profitPercent = ((sellPriceWithFee - buyPriceWithFee) / buyPriceWithFee) * 100 + fundingPercent;
+
+    return {
       symbol,
-      buyExchange,
-      sellExchange,
+      buyExchange: buyTicker.exchange,
+      sellExchange: sellTicker.exchange,
       buyPrice,
       sellPrice,
-      // Прокидываем объемы
-      buyQtyAvailable,
-      sellQtyAvailable,
+      buyQtyAvailable: buyTicker.askQty ?? buyBook?.asks[0]?.quantity, // Объем продавца на дешевой бирже
+      sellQtyAvailable: sellTicker.bidQty ?? sellBook?.bids[0]?.quantity, // Объем покупателя на дорогой бирже
+      buyAvgPrice: buyFill.avgPrice,
+      sellAvgPrice: sellFill.avgPrice,
+      fillableUSD: Math.min(buyFill.filledUSD, sellFill.filledUSD),
+      fundingPercent,
+      strategy: strategy?.id ?? 'SPREAD',
       spreadPercent,
       profitPercent,
-      timestamp: Date.now(),
+      timestamp: Clock.now(),
     };
-
-    this.opportunitiesFound++;
-
-    if (this.config.trading.enabled) {
-      this.handleNewOpportunity(opportunity);
-    }
   }
 
-  private handleNewOpportunity(opportunity: ArbitrageOpportunity): void {
+  private handleNewOpportunity(opportunity: ArbitrageOpportunity, strategy: Strategy): void {
+    if (this.tradingStopped) return;
+
     const openPositions = this.tradeExecutor.getOpenPositions();
     for (const [_, pair] of openPositions.entries()) {
       if (pair.symbol === opportunity.symbol) return;
     }
+    if (this.tradeExecutor.isOpening(opportunity.symbol)) return;
 
-    if (this.tradeExecutor.canOpenNewPosition()) {
-      this.tradeExecutor.openPositionPair(opportunity);
+    if (this.tradeExecutor.getTradingHalt()) {
+      this.tradeExecutor.recordSkippedOpportunity(opportunity, 'TRADING_HALTED');
       return;
     }
 
-    // Логика Smart Close осталась без изменений, просто сократил код для читаемости здесь
-    this.tradeExecutor.recordSkippedOpportunity(opportunity, 'NO_FREE_SLOTS');
-  }
-
-  getCurrentPrices(symbol: string): { buyPrice: number; sellPrice: number } | null {
-    const binancePrice = this.binance.getPrice(symbol);
-    const mexcPrice = this.mexc.getPrice(MexcFutures.toMexcFormat(symbol));
-
-    if (!binancePrice || !mexcPrice) return null;
-
-    let buyPrice: number;
-    let sellPrice: number;
-
-    if (binancePrice.ask < mexcPrice.bid) {
-      buyPrice = binancePrice.ask;
-      sellPrice = mexcPrice.bid;
-    } else {
-      buyPrice = mexcPrice.ask;
-      sellPrice = binancePrice.bid;
+    if (this.tradeExecutor.canOpenNewPosition()) {
+      this.tradeExecutor.openPositionPair(opportunity, strategy.maxHoldMs());
+      return;
     }
 
-    return { buyPrice, sellPrice };
+    // Освободить слот под новую возможность может только стратегия (CLOSE перед OPEN)
+    this.tradeExecutor.recordSkippedOpportunity(opportunity, 'NO_FREE_SLOTS');
   }
 
   private startMinuteSummary(): void {
@@ -304,9 +553,27 @@ export class ArbitrageDetector {
     // Или если мы хотим сохранить историю в файл
   }
 
+  /**
+   * Прекратить открытие пар: остановить таймер стратегий и снять котировки.
+   * Соединения с биржами остаются живы, чтобы можно было закрыть позиции
+   */
+  async stopTrading(): Promise<void> {
+    this.tradingStopped = true;
+    if (this.strategyInterval) {
+      clearInterval(this.strategyInterval);
+      this.strategyInterval = null;
+    }
+    await this.quoter?.stop();
+  }
+
   async stop(): Promise<void> {
-    this.binance.disconnect();
-    this.mexc.disconnect();
+    // Котировки снимаются, пока соединения с биржами живы
+    await this.stopTrading();
+    for (const exchange of this.exchanges.values()) {
+      exchange.disconnect();
+    }
+    this.funding.stop();
+    await this.recorder.stop();
     this.tradeExecutor.stop();
 
     if (this.config.trading.enabled) {
@@ -330,16 +597,23 @@ export class ArbitrageDetector {
   }
 
   /**
-   * Получить ссылку на Binance Futures (для API проверки)
+   * Получить ссылку на журнал состояния (начало сессии и ее завершение для отчета)
+   */
+  getJournal(): StateJournal {
+    return this.journal;
+  }
+
+  /**
+   * Символы, торгуемые минимум на двух биржах
    */
-  getBinanceFutures(): BinanceFutures {
-    return this.binance;
+  getSymbols(): string[] {
+    return this.commonSymbols;
   }
 
   /**
-   * Получить ссылку на MEXC Futures (для API проверки)
+   * Получить адаптеры всех включенных бирж (для API проверки)
    */
-  getMexcFutures(): MexcFutures {
-    return this.mexc;
+  getExchanges(): FuturesExchange[] {
+    return Array.from(this.exchanges.values());
   }
 }
@@ -0,0 +1,97 @@
+import fs from 'fs';
+import { ConfigLoader } from './utils/config-loader.js';
+import { Logger } from './utils/logger.js';
+import { ExcelReporter } from './utils/excel-reporter.js';
+import { Backtester, type BacktestResult } from './backtest/backtester.js';
+
+/**
+ * Бэктест по записанным тикам (config.recorder) без подключения к биржам
+ * npm run backtest                                   - все записи из data/ticks
+ * npm run backtest -- --from 2026-01-10 --to 2026-01-12
+ * npm run backtest -- --dir <каталог>                - другой каталог записей
+ * npm run backtest -- --set arbitrage.minSpreadPercent=0.4 --set trading.positionSizeUSD=50
+ * npm run backtest -- --no-report                    - только сводка, без Excel
+ */
+async function main() {
+  const logger = new Logger();
+  const args = process.argv.slice(2);
+  const overrides: Record<string, unknown> = {};
+  let dir = 'data/ticks';
+  let from: string | undefined;
+  let to: string | undefined;
+  let report = true;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--dir') dir = args[++i];
+    else if (arg === '--from') from = args[++i];
+    else if (arg === '--to') to = args[++i];
+    else if (arg === '--no-report') report = false;
+    else if (arg === '--set') {
+      const [path, ...rest] = (args[++i] ?? '').split('=');
+      const value = rest.join('=');
+      if (!path || rest.length === 0) throw new Error(`--set: ожидается путь=значение, получено "${args[i]}"`);
+      try {
+        overrides[path] = JSON.parse(value);
+      } catch {
+        overrides[path] = value;
+      }
+    } else {
+      throw new Error(`Неизвестный аргумент: ${arg}`);
+    }
+  }
+
+  const config = Backtester.withOverrides(new ConfigLoader().getConfig(), overrides);
+  const backtester = new Backtester(config, logger);
+
+  logger.header('БЭКТЕСТ');
+  const result = await backtester.run({ dir, from, to });
+  printSummary(result);
+
+  if (!report) return;
+
+  fs.mkdirSync('reports', { recursive: true });
+
+  const reporter = new ExcelReporter(logger);
+  await reporter.generateReport(
+    result.closedPositions,
+    {
+      openPositions: 0,
+      closedPositions: result.closedPositions.length,
+      testStats: result.testStats,
+      winRate: result.winRate,
+      netProfit: result.netProfitUSD,
+    },
+    [],
+    result.skippedOpportunities,
+    result.tradingErrors,
+    result.initialBalance,
+    result.finalBalance,
+    result.startTime,
+    result.endTime,
+    [],
+    result.legIncidents
+  );
+}
+
+function printSummary(result: BacktestResult): void {
+  const hours = (result.endTime - result.startTime) / 3600000;
+
+  console.log(`Период:          ${new Date(result.startTime).toISOString()} - ${new Date(result.endTime).toISOString()} (${hours.toFixed(1)} ч)`);
+  console.log(`Тиков:           ${result.ticks}, символов: ${result.symbols}`);
+  console.log(`Сделок:          ${result.trades}, winrate ${result.winRate.toFixed(1)}%`);
+  console.log(`Чистый PnL:      $${result.netProfitUSD.toFixed(2)} (${result.returnPercent.toFixed(2)}%)`);
+  console.log(`Баланс:          $${result.initialBalance.toFixed(2)} -> $${result.finalBalance.toFixed(2)}`);
+  console.log(`Макс. просадка:  $${result.maxDrawdownUSD.toFixed(2)} (${result.maxDrawdownPercent.toFixed(2)}%)`);
+  console.log(`Среднее удержание: ${result.avgHoldSeconds.toFixed(0)} сек`);
+  console.log(`Пропущено возможностей: ${result.skippedOpportunities.length}`);
+
+  for (const [reason, count] of Object.entries(result.byCloseReason)) {
+    console.log(`  ${reason}: ${count}`);
+  }
+}
+
+main().catch((error) => {
+  console.error(`Ошибка бэктеста: ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+});
@@ -0,0 +1,251 @@
+import type { Config } from '../types/config.js';
+import type {
+  ExchangeName,
+  PositionPair,
+  SkippedOpportunity,
+  TradingError,
+} from '../types/exchange.js';
+import { ArbitrageDetector } from '../arbitrage-detector.js';
+import { TradeExecutor } from '../trade-executor.js';
+import { Clock, SimulatedClock } from '../utils/clock.js';
+import { Logger } from '../utils/logger.js';
+import { ReplayExchange } from './replay-exchange.js';
+import { TickReader } from './tick-reader.js';
+
+export interface BacktestOptions {
+  dir: string;      // Каталог записей TickRecorder
+  from?: string;    // Первый день (YYYY-MM-DD, UTC), включительно
+  to?: string;      // Последний день, включительно
+}
+
+/**
+ * Итоги прогона: сводка и данные для Excel отчета
+ */
+export interface BacktestResult {
+  startTime: number;              // Время первого тика
+  endTime: number;                // Время последнего тика
+  ticks: number;
+  symbols: number;                // Символы, торгуемые минимум на двух биржах
+  trades: number;
+  winRate: number;                // %
+  netProfitUSD: number;
+  returnPercent: number;          // Чистая прибыль к начальному балансу
+  maxDrawdownUSD: number;         // Макс. просадка кривой закрытого PnL
+  maxDrawdownPercent: number;     // То же к пику баланса
+  avgHoldSeconds: number;
+  byCloseReason: Record<string, number>;
+  testStats: ReturnType<TradeExecutor['getStats']>['testStats'];
+  initialBalance: number;
+  finalBalance: number;
+  closedPositions: PositionPair[];
+  skippedOpportunities: SkippedOpportunity[];
+  tradingErrors: TradingError[];
+  legIncidents: PositionPair[];
+}
+
+/**
+ * Итоги без списков сделок (для перебора параметров)
+ */
+export type BacktestSummary = Omit<BacktestResult, 'closedPositions' | 'skippedOpportunities' | 'tradingErrors' | 'legIncidents'> & {
+  skipped: number;
+  errors: number;
+};
+
+/**
+ * Проигрывание записанных котировок через ArbitrageDetector в тестовом режиме.
+ * Время торговой логики - время получения тиков (SimulatedClock), таймеры исполнителя
+ * и стратегий срабатывают с теми же периодами, что и в работе. Сеть не используется:
+ * котировки отдают ReplayExchange, фандинг не проигрывается
+ */
+export class Backtester {
+  private config: Config;
+  private logger: Logger;
+
+  constructor(config: Config, logger?: Logger) {
+    this.logger = logger || new Logger();
+    this.config = {
+      ...config,
+      trading: { ...config.trading, enabled: true, testMode: true },
+      recorder: { enabled: false },
+      paper: undefined, // Бэктест считает PnL по ценам, без симулятора ордеров
+    };
+  }
+
+  async run(options: BacktestOptions): Promise<BacktestResult> {
+    const reader = new TickReader(options.dir, this.logger);
+    const names = reader.listExchanges();
+    if (names.length < 2) {
+      throw new Error(`В ${options.dir} нет записей минимум двух бирж`);
+    }
+
+    const symbols = await this.scanSymbols(reader, names, options);
+    const exchanges = new Map<ExchangeName, ReplayExchange>();
+    for (const name of names) {
+      // Объемов в записи нет - топ пар (topPairsCount) выбирается по активности котировок
+      const ranked = Array.from(symbols.get(name) ?? new Map<string, number>())
+        .sort((a, b) => b[1] - a[1])
+        .map(([symbol]) => symbol);
+      exchanges.set(name, new ReplayExchange(name, ranked));
+    }
+
+    const clock = new SimulatedClock(0);
+    Clock.use(clock);
+
+    try {
+      const detector = new ArbitrageDetector(this.config, this.logger, undefined, Array.from(exchanges.values()));
+      await detector.startOffline();
+      const executor = detector.getTradeExecutor();
+
+      let ticks = 0;
+      let startTime = 0;
+      let nextTimers = 0;
+      let nextHistory = 0;
+
+      for await (const tick of reader.read(names, options.from, options.to)) {
+        if (ticks === 0) {
+          startTime = tick.receivedAt;
+          nextTimers = startTime + TradeExecutor.TICK_INTERVAL_MS;
+          nextHistory = startTime + TradeExecutor.PRICE_HISTORY_INTERVAL_MS;
+        }
+
+        // Таймеры, которые сработали бы до этого тика
+        while (nextTimers <= tick.receivedAt) {
+          clock.set(nextTimers);
+          await detector.runTimers();
+          if (nextTimers >= nextHistory) {
+            executor.recordPriceHistory();
+            nextHistory += TradeExecutor.PRICE_HISTORY_INTERVAL_MS;
+          }
+          nextTimers += TradeExecutor.TICK_INTERVAL_MS;
+        }
+
+        clock.set(tick.receivedAt);
+        exchanges.get(tick.exchange)?.update(tick);
+        await detector.onPriceUpdate(tick);
+        // Открытие пары детектор не ждет - даем ему завершиться до следующего тика
+        await new Promise((resolve) => setImmediate(resolve));
+
+        ticks++;
+        if (ticks % 100000 === 0) {
+          this.logger.info(`Проиграно тиков: ${ticks} (${new Date(tick.receivedAt).toISOString()})`);
+        }
+      }
+
+      if (ticks === 0) {
+        throw new Error('За выбранный период тиков нет');
+      }
+
+      // Оставшиеся пары закрываются по последним котировкам
+      await executor.forceCloseAllPositions();
+
+      return this.summarize(executor, ticks, startTime, clock.now(), detector.getSymbols().length);
+    } finally {
+      Clock.reset();
+    }
+  }
+
+  /**
+   * Первый проход: сколько тиков каждого символа в записях каждой биржи
+   */
+  private async scanSymbols(
+    reader: TickReader,
+    names: ExchangeName[],
+    options: BacktestOptions
+  ): Promise<Map<ExchangeName, Map<string, number>>> {
+    const symbols = new Map<ExchangeName, Map<string, number>>(names.map((name) => [name, new Map<string, number>()]));
+
+    for await (const tick of reader.read(names, options.from, options.to)) {
+      const counts = symbols.get(tick.exchange);
+      counts?.set(tick.symbol, (counts.get(tick.symbol) ?? 0) + 1);
+    }
+
+    return symbols;
+  }
+
+  private summarize(
+    executor: TradeExecutor,
+    ticks: number,
+    startTime: number,
+    endTime: number,
+    symbols: number
+  ): BacktestResult {
+    const closed = [...executor.getClosedPositions()].sort((a, b) => (a.closeTime ?? 0) - (b.closeTime ?? 0));
+    const stats = executor.getStats();
+    const initialBalance = executor.getInitialBalance();
+
+    // Просадка по кривой баланса после каждого закрытия
+    let balance = initialBalance;
+    let peak = initialBalance;
+    let maxDrawdownUSD = 0;
+    let maxDrawdownPercent = 0;
+    let holdMs = 0;
+    const byCloseReason: Record<string, number> = {};
+
+    for (const pair of closed) {
+      balance += Backtester.pairPnlUSD(pair);
+      peak = Math.max(peak, balance);
+      if (peak - balance > maxDrawdownUSD) {
+        maxDrawdownUSD = peak - balance;
+        maxDrawdownPercent = (maxDrawdownUSD / peak) * 100;
+      }
+
+      holdMs += (pair.closeTime ?? pair.openTime) - pair.openTime;
+      const reason = pair.closeReason ?? 'UNKNOWN';
+      byCloseReason[reason] = (byCloseReason[reason] ?? 0) + 1;
+    }
+
+    return {
+      startTime,
+      endTime,
+      ticks,
+      symbols,
+      trades: stats.testStats.totalTrades,
+      winRate: stats.winRate,
+      netProfitUSD: stats.netProfit,
+      returnPercent: initialBalance > 0 ? (stats.netProfit / initialBalance) * 100 : 0,
+      maxDrawdownUSD,
+      maxDrawdownPercent,
+      avgHoldSeconds: closed.length > 0 ? holdMs / closed.length / 1000 : 0,
+      byCloseReason,
+      testStats: { ...stats.testStats },
+      initialBalance,
+      finalBalance: executor.getCurrentBalance(),
+      closedPositions: executor.getClosedPositions(),
+      skippedOpportunities: executor.getSkippedOpportunities(),
+      tradingErrors: executor.getTradingErrors(),
+      legIncidents: executor.getLegIncidents(),
+    };
+  }
+
+  static toSummary(result: BacktestResult): BacktestSummary {
+    const { closedPositions, skippedOpportunities, tradingErrors, legIncidents, ...summary } = result;
+    return { ...summary, skipped: skippedOpportunities.length, errors: tradingErrors.length };
+  }
+
+  /**
+   * Копия конфига с переопределенными параметрами: { 'arbitrage.minSpreadPercent': 0.3, ... }
+   */
+  static withOverrides(config: Config, overrides: Record<string, unknown>): Config {
+    const result = structuredClone(config);
+
+    for (const [path, value] of Object.entries(overrides)) {
+      const keys = path.split('.');
+      let target = result as unknown as Record<string, unknown>;
+
+      for (const key of keys.slice(0, -1)) {
+        if (typeof target[key] !== 'object' || target[key] === null) target[key] = {};
+        target = target[key] as Record<string, unknown>;
+      }
+      target[keys[keys.length - 1]] = value;
+    }
+
+    return result;
+  }
+
+  /**
+   * PnL закрытой пары в USD (actualProfit - % от суммарного размера ног, с комиссиями и фандингом)
+   */
+  static pairPnlUSD(pair: PositionPair): number {
+    return ((pair.actualProfit ?? 0) / 100) * (pair.longPosition.sizeUSD + pair.shortPosition.sizeUSD);
+  }
+}
@@ -0,0 +1,224 @@
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { Worker } from 'worker_threads';
+import type { Config } from '../types/config.js';
+import { Logger } from '../utils/logger.js';
+import type { BacktestOptions, BacktestSummary } from './backtester.js';
+
+/**
+ * Перебираемый параметр: путь в config.json и его значения
+ */
+export interface SweepParam {
+  path: string;
+  values: unknown[];
+}
+
+/**
+ * Критерий ранжирования наборов (остальные два - при равенстве)
+ */
+export type SweepRankBy = 'pnl' | 'winrate' | 'drawdown';
+
+/**
+ * Прогон одного набора параметров
+ */
+export interface SweepRun {
+  overrides: Record<string, unknown>;
+  summary?: BacktestSummary;
+  error?: string;              // Бэктест набора упал
+}
+
+/**
+ * Сообщения между ParameterSweep и sweep-worker
+ */
+export interface SweepJob {
+  id: number;
+  overrides: Record<string, unknown>;
+}
+
+export interface SweepJobResult {
+  id: number;
+  summary?: BacktestSummary;
+  error?: string;
+}
+
+export interface SweepWorkerData {
+  config: Config;
+  options: BacktestOptions;
+}
+
+/**
+ * Перебор параметров поверх бэктеста: сетка или случайная выборка из нее,
+ * прогоны идут параллельно в worker_threads (каждый поток читает тики сам)
+ */
+export class ParameterSweep {
+  static readonly DEFAULT_SPACE: SweepParam[] = [
+    { path: 'arbitrage.minSpreadPercent', values: [0.3, 0.5, 0.65, 0.8, 1.0] },
+    { path: 'trading.priceConvergencePercent', values: [0.02, 0.05, 0.1] },
+    { path: 'trading.positionTimeoutSeconds', values: [60, 300, 900] },
+    { path: 'trading.leverage', values: [1, 3, 5] },
+    { path: 'arbitrage.topPairsCount', values: [20, 50, 100] },
+    { path: 'slippage.percent', values: [0.02, 0.05, 0.1] },
+  ];
+
+  private config: Config;
+  private logger: Logger;
+
+  constructor(config: Config, logger?: Logger) {
+    this.config = config;
+    this.logger = logger || new Logger();
+  }
+
+  /**
+   * Все комбинации значений
+   */
+  static grid(space: SweepParam[]): Record<string, unknown>[] {
+    const total = ParameterSweep.gridSize(space);
+    const sets: Record<string, unknown>[] = [];
+
+    for (let index = 0; index < total; index++) {
+      sets.push(ParameterSweep.combination(space, index));
+    }
+    return sets;
+  }
+
+  /**
+   * Случайные неповторяющиеся комбинации (не больше размера сетки)
+   */
+  static random(space: SweepParam[], samples: number): Record<string, unknown>[] {
+    const total = ParameterSweep.gridSize(space);
+    if (samples >= total) return ParameterSweep.grid(space);
+
+    const picked = new Set<number>();
+    while (picked.size < samples) {
+      picked.add(Math.floor(Math.random() * total));
+    }
+    return Array.from(picked).map((index) => ParameterSweep.combination(space, index));
+  }
+
+  static gridSize(space: SweepParam[]): number {
+    return space.reduce((size, param) => size * param.values.length, 1);
+  }
+
+  /**
+   * Лучшие наборы первыми, упавшие прогоны - в конце
+   */
+  static rank(runs: SweepRun[], by: SweepRankBy = 'pnl'): SweepRun[] {
+    const criteria: Record<SweepRankBy, (a: BacktestSummary, b: BacktestSummary) => number> = {
+      pnl: (a, b) => b.netProfitUSD - a.netProfitUSD,
+      winrate: (a, b) => b.winRate - a.winRate,
+      drawdown: (a, b) => a.maxDrawdownUSD - b.maxDrawdownUSD,
+    };
+    const order = [by, ...(['pnl', 'winrate', 'drawdown'] as SweepRankBy[]).filter((key) => key !== by)];
+
+    return [...runs].sort((a, b) => {
+      if (!a.summary || !b.summary) return (a.summary ? 0 : 1) - (b.summary ? 0 : 1);
+
+      for (const key of order) {
+        const diff = criteria[key](a.summary, b.summary);
+        if (diff !== 0) return diff;
+      }
+      return 0;
+    });
+  }
+
+  /**
+   * Прогнать наборы в workers потоках. Результаты - в порядке наборов
+   */
+  async run(sets: Record<string, unknown>[], options: BacktestOptions, workers: number): Promise<SweepRun[]> {
+    const runs: SweepRun[] = sets.map((overrides) => ({ overrides }));
+    if (sets.length === 0) return runs;
+
+    const workerData: SweepWorkerData = { config: this.config, options };
+    let next = 0;
+    let done = 0;
+
+    this.logger.info(`Перебор: ${sets.length} наборов, потоков: ${Math.min(workers, sets.length)}`);
+
+    await new Promise<void>((resolve) => {
+      const startWorker = () => {
+        const worker = this.spawn(workerData);
+        let current: number | undefined;
+
+        const sendNext = () => {
+          if (next >= sets.length) {
+            current = undefined;
+            void worker.terminate();
+            return;
+          }
+          current = next++;
+          const job: SweepJob = { id: current, overrides: sets[current] };
+          worker.postMessage(job);
+        };
+
+        const finish = (id: number, result: Omit<SweepJobResult, 'id'>) => {
+          runs[id].summary = result.summary;
+          runs[id].error = result.error;
+          done++;
+
+          if (result.error) this.logger.warn(`Набор ${id + 1}: ${result.error}`);
+          this.logger.info(`Прогонов: ${done}/${sets.length}`);
+          if (done === sets.length) resolve();
+        };
+
+        worker.on('message', (result: SweepJobResult) => {
+          finish(result.id, result);
+          sendNext();
+        });
+
+        // Поток упал или завершился посреди набора - набор считаем неудачным, остальные доделывает новый поток
+        const fail = (message: string) => {
+          if (current === undefined) return;
+          finish(current, { error: message });
+          current = undefined;
+          if (next < sets.length) startWorker();
+        };
+
+        worker.on('error', (error: Error) => fail(error.message));
+        worker.on('exit', (code: number) => fail(`поток завершился с кодом ${code} до конца прогона`));
+
+        sendNext();
+      };
+
+      for (let i = 0; i < Math.min(workers, sets.length); i++) {
+        startWorker();
+      }
+    });
+
+    return runs;
+  }
+
+  /**
+   * Поток бэктеста. Под tsx (исходники .ts) загрузчик в поток не наследуется - регистрируем его в потоке.
+   * Вывод потоков в консоль отбрасывается: логи остаются в logs/, итоги приходят сообщениями
+   */
+  private spawn(workerData: SweepWorkerData): Worker {
+    const extension = path.extname(fileURLToPath(import.meta.url));
+    const entry = new URL(`./sweep-worker${extension}`, import.meta.url);
+
+    const worker = extension === '.ts'
+      ? new Worker(
+          `import(${JSON.stringify(import.meta.resolve('tsx/esm/api'))})` +
+          `.then(({ register }) => { register(); return import(${JSON.stringify(entry.href)}); })`,
+          { eval: true, workerData, stdout: true, stderr: true }
+        )
+      : new Worker(entry, { workerData, stdout: true, stderr: true });
+
+    worker.stdout.resume();
+    worker.stderr.resume();
+    return worker;
+  }
+
+  /**
+   * Комбинация сетки по номеру (смешанная система счисления по числу значений параметров)
+   */
+  private static combination(space: SweepParam[], index: number): Record<string, unknown> {
+    const overrides: Record<string, unknown> = {};
+    let rest = index;
+
+    for (const param of space) {
+      overrides[param.path] = param.values[rest % param.values.length];
+      rest = Math.floor(rest / param.values.length);
+    }
+    return overrides;
+  }
+}
@@ -0,0 +1,152 @@
+import type {
+  ContractSpec,
+  ExchangeName,
+  ExchangePosition,
+  FundingRate,
+  FuturesExchange,
+  MarginModeStatus,
+  OrderBook,
+  OrderFill,
+  OrderResult,
+  OrderState,
+  TickerPrice,
+  TradingPair,
+} from '../types/exchange.js';
+import { Clock } from '../utils/clock.js';
+
+/**
+ * Котировка старше этого считается устаревшей (пропуск в записи, обрыв стрима)
+ */
+const DEFAULT_MAX_QUOTE_AGE_MS = 30000;
+
+/**
+ * Биржа бэктеста: отдает последние проигранные котировки, в сеть не ходит.
+ * Стаканов нет (цена исполнения - лучшая цена + slippage), параметры контрактов без ограничений по шагу и минимуму.
+ * Торговые методы не поддерживаются: бэктест работает только в testMode
+ */
+export class ReplayExchange implements FuturesExchange {
+  readonly name: ExchangeName;
+  private symbols: string[];
+  private maxQuoteAgeMs: number;
+  private prices: Map<string, TickerPrice> = new Map();
+
+  constructor(name: ExchangeName, symbols: string[], maxQuoteAgeMs = DEFAULT_MAX_QUOTE_AGE_MS) {
+    this.name = name;
+    this.symbols = symbols;
+    this.maxQuoteAgeMs = maxQuoteAgeMs;
+  }
+
+  /**
+   * Применить проигранную котировку
+   */
+  update(ticker: TickerPrice): void {
+    this.prices.set(ticker.symbol, ticker);
+  }
+
+  /**
+   * Записанные символы; порядок задает создатель (в бэктесте - по числу тиков вместо объема)
+   */
+  async getTopPairs(limit?: number): Promise<TradingPair[]> {
+    return this.symbols.slice(0, limit).map((symbol) => ({
+      symbol,
+      baseAsset: symbol.replace(/USDT$/, ''),
+      quoteAsset: 'USDT',
+    }));
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return true;
+  }
+
+  connectWebSocket(): void {}
+
+  disconnect(): void {}
+
+  getPrice(symbol: string): TickerPrice | undefined {
+    const ticker = this.prices.get(symbol);
+    if (!ticker) return undefined;
+
+    return Clock.now() - this.receivedAt(ticker) > this.maxQuoteAgeMs ? undefined : ticker;
+  }
+
+  getAllPrices(): Map<string, TickerPrice> {
+    return new Map(this.prices);
+  }
+
+  getOrderBook(): OrderBook | undefined {
+    return undefined;
+  }
+
+  async getContractSpecs(): Promise<ContractSpec[]> {
+    return this.symbols.map((symbol) => ({
+      symbol,
+      exchange: this.name,
+      contractSize: 1,
+      tickSize: 1e-8,
+      stepSize: 1e-8,
+      minQty: 0,
+      minNotional: 0,
+    }));
+  }
+
+  async getFundingRates(): Promise<FundingRate[]> {
+    return [];
+  }
+
+  async createMarketOrder(): Promise<OrderResult> {
+    throw new Error('Бэктест: реальные ордера не поддерживаются');
+  }
+
+  async createLimitOrder(): Promise<OrderResult> {
+    throw new Error('Бэктест: реальные ордера не поддерживаются');
+  }
+
+  async cancelOrder(): Promise<void> {
+    throw new Error('Бэктест: реальные ордера не поддерживаются');
+  }
+
+  async amendOrder(): Promise<OrderResult> {
+    throw new Error('Бэктест: реальные ордера не поддерживаются');
+  }
+
+  async getOrderStatus(): Promise<OrderState> {
+    throw new Error('Бэктест: реальные ордера не поддерживаются');
+  }
+
+  async setLeverage(): Promise<void> {
+    throw new Error('Бэктест: реальные ордера не поддерживаются');
+  }
+
+  async getBalance(): Promise<number> {
+    throw new Error('Бэктест: баланс биржи недоступен');
+  }
+
+  async setMarginMode(): Promise<MarginModeStatus> {
+    throw new Error('Бэктест: реальные ордера не поддерживаются');
+  }
+
+  async getOrderFill(): Promise<OrderFill> {
+    throw new Error('Бэктест: реальные ордера не поддерживаются');
+  }
+
+  async getPositions(): Promise<ExchangePosition[]> {
+    return [];
+  }
+
+  async addIsolatedMargin(): Promise<void> {
+    throw new Error('Бэктест: реальные ордера не поддерживаются');
+  }
+
+  async connectUserDataStream(): Promise<void> {}
+
+  isRateLimited(): boolean {
+    return false;
+  }
+
+  /**
+   * Время получения записанного тика (у TickerPrice без него - время биржи)
+   */
+  private receivedAt(ticker: TickerPrice): number {
+    return (ticker as TickerPrice & { receivedAt?: number }).receivedAt ?? ticker.timestamp;
+  }
+}
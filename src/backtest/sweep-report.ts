@@ -0,0 +1,100 @@
+import fs from 'fs';
+import ExcelJS from 'exceljs';
+import { Logger } from '../utils/logger.js';
+import type { SweepRun } from './parameter-sweep.js';
+
+interface SweepColumn {
+  header: string;
+  width: number;
+  value: (run: SweepRun, index: number) => string | number;
+}
+
+/**
+ * Таблица результатов перебора параметров в CSV и XLSX (строки - в порядке ранга)
+ */
+export class SweepReport {
+  private logger: Logger;
+
+  constructor(logger?: Logger) {
+    this.logger = logger || new Logger();
+  }
+
+  /**
+   * Сохранить <basePath>.csv и <basePath>.xlsx
+   */
+  async save(runs: SweepRun[], params: string[], basePath: string): Promise<{ csv: string; xlsx: string }> {
+    const columns = this.columns(params);
+    const csv = `${basePath}.csv`;
+    const xlsx = `${basePath}.xlsx`;
+
+    const lines = [
+      columns.map((column) => SweepReport.csvCell(column.header)).join(','),
+      ...runs.map((run, index) => columns.map((column) => SweepReport.csvCell(column.value(run, index))).join(',')),
+    ];
+    fs.writeFileSync(csv, lines.join('\n') + '\n');
+
+    const workbook = new ExcelJS.Workbook();
+    workbook.creator = 'Arbitrage Bot';
+    workbook.created = new Date();
+
+    const sheet = workbook.addWorksheet('Перебор параметров');
+    sheet.columns = columns.map((column, index) => ({ header: column.header, key: `c${index}`, width: column.width }));
+
+    const headerRow = sheet.getRow(1);
+    headerRow.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+    headerRow.fill = {
+      type: 'pattern',
+      pattern: 'solid',
+      fgColor: { argb: 'FF4472C4' },
+    };
+    headerRow.alignment = { horizontal: 'center', vertical: 'middle' };
+    headerRow.height = 20;
+
+    const pnlColumn = columns.findIndex((column) => column.header === 'PnL $') + 1;
+    runs.forEach((run, index) => {
+      const row = sheet.addRow(columns.map((column) => column.value(run, index)));
+      const pnl = run.summary?.netProfitUSD ?? 0;
+
+      if (pnl !== 0) {
+        row.getCell(pnlColumn).fill = {
+          type: 'pattern',
+          pattern: 'solid',
+          fgColor: { argb: pnl > 0 ? 'FFC6EFCE' : 'FFFFC7CE' },
+        };
+      }
+    });
+
+    await workbook.xlsx.writeFile(xlsx);
+
+    this.logger.success(`Результаты перебора сохранены: ${csv}, ${xlsx}`);
+    return { csv, xlsx };
+  }
+
+  private columns(params: string[]): SweepColumn[] {
+    const metric = (run: SweepRun, value: (summary: NonNullable<SweepRun['summary']>) => number, digits = 2) =>
+      run.summary ? Number(value(run.summary).toFixed(digits)) : '';
+
+    return [
+      { header: 'Ранг', width: 8, value: (run, index) => (run.summary ? index + 1 : '') },
+      ...params.map((param) => ({
+        header: param,
+        width: Math.max(param.length + 2, 12),
+        value: (run: SweepRun) => JSON.stringify(run.overrides[param] ?? null),
+      })),
+      { header: 'Сделок', width: 10, value: (run) => metric(run, (s) => s.trades, 0) },
+      { header: 'Winrate %', width: 12, value: (run) => metric(run, (s) => s.winRate, 1) },
+      { header: 'PnL $', width: 12, value: (run) => metric(run, (s) => s.netProfitUSD) },
+      { header: 'Доходность %', width: 14, value: (run) => metric(run, (s) => s.returnPercent) },
+      { header: 'Просадка $', width: 12, value: (run) => metric(run, (s) => s.maxDrawdownUSD) },
+      { header: 'Просадка %', width: 12, value: (run) => metric(run, (s) => s.maxDrawdownPercent) },
+      { header: 'Удержание сек', width: 14, value: (run) => metric(run, (s) => s.avgHoldSeconds, 0) },
+      { header: 'Пропусков', width: 12, value: (run) => metric(run, (s) => s.skipped, 0) },
+      { header: 'Ошибка', width: 30, value: (run) => run.error ?? '' },
+    ];
+  }
+
+  private static csvCell(value: string | number): string {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
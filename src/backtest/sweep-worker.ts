@@ -0,0 +1,23 @@
+import { parentPort, workerData } from 'worker_threads';
+import { Logger } from '../utils/logger.js';
+import { Backtester } from './backtester.js';
+import type { SweepJob, SweepJobResult, SweepWorkerData } from './parameter-sweep.js';
+
+/**
+ * Поток ParameterSweep: бэктест для каждого присланного набора параметров
+ */
+const { config, options } = workerData as SweepWorkerData;
+const logger = new Logger();
+
+parentPort?.on('message', async (job: SweepJob) => {
+  let result: SweepJobResult;
+
+  try {
+    const backtest = await new Backtester(Backtester.withOverrides(config, job.overrides), logger).run(options);
+    result = { id: job.id, summary: Backtester.toSummary(backtest) };
+  } catch (error) {
+    result = { id: job.id, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  parentPort?.postMessage(result);
+});
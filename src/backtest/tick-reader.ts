@@ -0,0 +1,120 @@
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { pipeline } from 'stream';
+import type { ExchangeName } from '../types/exchange.js';
+import { TickRecorder, type RecordedTick } from '../utils/tick-recorder.js';
+import { Logger } from '../utils/logger.js';
+
+/**
+ * Чтение записей TickRecorder: <dir>/<биржа>/<YYYY-MM-DD>.jsonl.gz.
+ * Файлы читаются потоково, тики всех бирж сливаются по времени получения
+ */
+export class TickReader {
+  private dir: string;
+  private logger: Logger;
+
+  constructor(dir: string, logger?: Logger) {
+    this.dir = dir;
+    this.logger = logger || new Logger();
+  }
+
+  listExchanges(): ExchangeName[] {
+    if (!fs.existsSync(this.dir)) return [];
+
+    return fs.readdirSync(this.dir, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory())
+      .map((entry) => entry.name)
+      .sort();
+  }
+
+  /**
+   * Записанные дни биржи (YYYY-MM-DD) в пределах [from, to], по порядку
+   */
+  listDays(exchange: ExchangeName, from?: string, to?: string): string[] {
+    const exchangeDir = path.join(this.dir, exchange);
+    if (!fs.existsSync(exchangeDir)) return [];
+
+    return fs.readdirSync(exchangeDir)
+      .filter((name) => name.endsWith('.jsonl.gz'))
+      .map((name) => name.slice(0, -'.jsonl.gz'.length))
+      .filter((day) => (!from || day >= from) && (!to || day <= to))
+      .sort();
+  }
+
+  /**
+   * Тики всех бирж за [from, to] в порядке receivedAt
+   */
+  async *read(exchanges: ExchangeName[], from?: string, to?: string): AsyncGenerator<RecordedTick> {
+    const sources = exchanges.map((exchange) => this.readExchange(exchange, from, to));
+    const heads = await Promise.all(sources.map((source) => source.next()));
+
+    while (true) {
+      let next = -1;
+      heads.forEach((head, index) => {
+        if (head.done) return;
+        if (next === -1 || head.value.receivedAt < (heads[next].value as RecordedTick).receivedAt) {
+          next = index;
+        }
+      });
+
+      if (next === -1) return;
+
+      yield heads[next].value as RecordedTick;
+      heads[next] = await sources[next].next();
+    }
+  }
+
+  /**
+   * Тики одной биржи по дням
+   */
+  private async *readExchange(exchange: ExchangeName, from?: string, to?: string): AsyncGenerator<RecordedTick> {
+    for (const day of this.listDays(exchange, from, to)) {
+      yield* this.readFile(TickRecorder.filePath(this.dir, exchange, day));
+    }
+  }
+
+  private async *readFile(file: string): AsyncGenerator<RecordedTick> {
+    // Z_SYNC_FLUSH: файл, оборванный при падении, читается до последнего сброшенного блока
+    const input = pipeline(
+      fs.createReadStream(file),
+      zlib.createGunzip({ finishFlush: zlib.constants.Z_SYNC_FLUSH }),
+      () => undefined
+    );
+    input.setEncoding('utf-8');
+
+    let rest = '';
+    let broken = 0;
+
+    const parse = (line: string): RecordedTick | undefined => {
+      if (!line.trim()) return undefined;
+      try {
+        return JSON.parse(line) as RecordedTick;
+      } catch {
+        broken++;
+        return undefined;
+      }
+    };
+
+    try {
+      for await (const chunk of input) {
+        const lines = (rest + chunk).split('\n');
+        rest = lines.pop() ?? '';
+
+        for (const line of lines) {
+          const tick = parse(line);
+          if (tick) yield tick;
+        }
+      }
+    } catch (error) {
+      this.logger.warn(`${file}: чтение прервано - ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const last = parse(rest);
+    if (last) yield last;
+
+    if (broken > 0) {
+      this.logger.warn(`${file}: пропущено поврежденных строк: ${broken}`);
+    }
+  }
+}
@@ -1,23 +1,251 @@
 import WebSocket from 'ws';
-import type { TickerPrice, TradingPair, Ticker24h } from '../types/exchange.js';
+import type {
+  TickerPrice,
+  TradingPair,
+  Ticker24h,
+  ContractSpec,
+  FuturesExchange,
+  OrderSide,
+  OrderResult,
+  OrderState,
+  LimitTimeInForce,
+  OrderBook,
+  OrderFill,
+  OrderStatus,
+  ExchangePosition,
+  PositionSide,
+  MarginModeStatus,
+  FundingRate,
+} from '../types/exchange.js';
+import type { MarginMode } from '../types/config.js';
 import { Logger } from '../utils/logger.js';
+import { LocalOrderBook, type RawLevel } from '../utils/order-book.js';
 import type { WebSocketMonitor } from '../utils/websocket-monitor.js';
+import type { UserDataBus } from '../utils/user-data-bus.js';
+import { RateLimiter, type RateLimitWindow, type RequestCost, type RequestPriority } from '../utils/rate-limiter.js';
+
+/**
+ * Фильтр символа из exchangeInfo (PRICE_FILTER, LOT_SIZE, MARKET_LOT_SIZE, MIN_NOTIONAL...)
+ */
+interface BinanceSymbolFilter {
+  filterType: string;
+  tickSize?: string;
+  stepSize?: string;
+  minQty?: string;
+  maxQty?: string;
+  notional?: string;
+}
+
+/**
+ * Интерфейс ответа Binance exchangeInfo API
+ */
+interface BinanceExchangeInfoResponse {
+  symbols: Array<{
+    symbol: string;
+    status: string;
+    contractType: string;
+    quoteAsset: string;
+    filters: BinanceSymbolFilter[];
+  }>;
+}
+
+/**
+ * Событие diff-стрима стакана <symbol>@depth
+ */
+interface BinanceDepthEvent {
+  e: 'depthUpdate';
+  T: number;                   // Transaction time
+  s: string;                   // Symbol
+  U: number;                   // Первый update ID в событии
+  u: number;                   // Последний update ID в событии
+  pu: number;                  // Последний update ID предыдущего события
+  b: Array<[string, string]>;  // Bids [price, qty]
+  a: Array<[string, string]>;  // Asks [price, qty]
+}
+
+/**
+ * Интерфейс ответа Binance depth API (REST снимок стакана)
+ */
+interface BinanceDepthSnapshot {
+  lastUpdateId: number;
+  T: number;
+  bids: Array<[string, string]>;
+  asks: Array<[string, string]>;
+}
+
+/**
+ * Состояние синхронизации локального стакана:
+ * EMPTY - нет данных, SYNCING - ждем REST снимок (события буферизуются),
+ * SNAPSHOT - снимок получен, ждем первое событие, перекрывающее lastUpdateId, SYNCED - стакан актуален
+ */
+interface BinanceBookState {
+  book: LocalOrderBook;
+  status: 'EMPTY' | 'SYNCING' | 'SNAPSHOT' | 'SYNCED';
+  buffer: BinanceDepthEvent[];
+  retryAt: number;             // Не запрашивать снимок раньше (после ошибки REST)
+}
+
+/**
+ * Сделка аккаунта из userTrades
+ */
+interface BinanceUserTrade {
+  orderId: number;
+  price: string;
+  qty: string;
+  quoteQty: string;
+  commission: string;
+  commissionAsset: string;
+  time: number;
+}
+
+/**
+ * Событие user-data стрима ORDER_TRADE_UPDATE (поле o)
+ */
+interface BinanceOrderUpdate {
+  s: string;      // Symbol
+  c: string;      // Client order ID (autoclose-* / adl_autoclose = ликвидация/ADL)
+  S: 'BUY' | 'SELL';
+  X: string;      // Статус ордера
+  i: number;      // Order ID
+  z: string;      // Исполнено всего
+  ap: string;     // Средняя цена
+  n?: string;     // Комиссия последней сделки
+  N?: string;     // Валюта комиссии
+  T: number;      // Время сделки
+  R: boolean;     // Reduce only
+}
+
+/**
+ * Событие user-data стрима ACCOUNT_UPDATE (поле a)
+ */
+interface BinanceAccountUpdate {
+  B: Array<{ a: string; wb: string; cw: string }>;                       // Балансы
+  P: Array<{ s: string; pa: string; ep: string; up: string; ps: string }>; // Позиции
+}
+
+/**
+ * Ордер из GET /fapi/v1/order
+ */
+interface BinanceOrderInfo {
+  orderId: number;
+  status: string;
+  executedQty: string;
+  avgPrice: string;
+}
+
+/**
+ * Коды ошибок ордеров: POST_ONLY (GTX) ордер исполнился бы сразу; ордер не найден (уже исполнен или снят)
+ */
+const POST_ONLY_REJECTED_CODE = -5022;
+const UNKNOWN_ORDER_CODE = -2011;
+
+/**
+ * Отказы POST /fapi/v1/marginType по кодам ошибок
+ */
+const MARGIN_TYPE_REFUSALS: Record<number, MarginModeStatus> = {
+  [-4046]: 'UNCHANGED',      // No need to change margin type
+  [-4047]: 'OPEN_ORDERS',    // Margin type cannot be changed if there exists open orders
+  [-4048]: 'POSITION_OPEN',  // Margin type cannot be changed if there exists position
+  [-4168]: 'NOT_ALLOWED',    // Unable to adjust to isolated-margin mode under the Multi-Assets mode
+};
+
+/**
+ * Интерфейс ответа Binance premiumIndex API
+ */
+interface BinancePremiumIndex {
+  symbol: string;
+  lastFundingRate: string;
+  nextFundingTime: number;
+}
+
+/**
+ * Интерфейс ответа Binance positionRisk API
+ */
+interface BinancePositionRisk {
+  symbol: string;
+  positionAmt: string;    // Со знаком: < 0 = SHORT (one-way режим)
+  entryPrice: string;
+  unRealizedProfit: string;
+  leverage: string;
+  positionSide: 'BOTH' | 'LONG' | 'SHORT';
+  updateTime: number;
+  markPrice: string;
+  liquidationPrice: string; // "0" - ликвидации нет (кросс с достаточным балансом)
+  marginType: 'isolated' | 'cross';
+  isolatedWallet: string;   // Изолированная маржа без нереализованного PnL
+}
+
+/**
+ * Продление listenKey (живет 60 минут)
+ */
+const LISTEN_KEY_KEEPALIVE_MS = 30 * 60 * 1000;
+
+/**
+ * Сколько раз запрашивать userTrades, пока сделки ордера не появятся, и пауза между запросами
+ */
+const FILL_POLL_ATTEMPTS = 3;
+const FILL_POLL_DELAY_MS = 300;
+
+/**
+ * Глубина REST снимка стакана (weight 10)
+ */
+const DEPTH_SNAPSHOT_LIMIT = 500;
+
+/**
+ * Лимиты USDT-M Futures (exchangeInfo.rateLimits): вес запросов по IP и ордера по аккаунту.
+ * Фактический расход биржа возвращает в заголовках X-MBX-USED-WEIGHT-1M / X-MBX-ORDER-COUNT-*
+ */
+const RATE_LIMITS: RateLimitWindow[] = [
+  { counter: 'weight', limit: 2400, intervalMs: 60 * 1000, usedHeader: 'x-mbx-used-weight-1m' },
+  { counter: 'orders', limit: 1200, intervalMs: 60 * 1000, usedHeader: 'x-mbx-order-count-1m' },
+  { counter: 'orders', limit: 300, intervalMs: 10 * 1000, usedHeader: 'x-mbx-order-count-10s' },
+];
+
+/**
+ * Вес эндпоинтов (ticker/24hr без symbol - 40, depth limit=500 - 10, premiumIndex без symbol - 10)
+ */
+const REQUEST_WEIGHT = {
+  ping: { weight: 1 },
+  ticker24h: { weight: 40 },
+  exchangeInfo: { weight: 1 },
+  depth: { weight: 10 },
+  premiumIndex: { weight: 10 },
+  listenKey: { weight: 1 },
+  order: { weight: 1, orders: 1 },
+  orderStatus: { weight: 1 },
+  cancelOrder: { weight: 1 },
+  amendOrder: { weight: 1, orders: 1 },
+  leverage: { weight: 1 },
+  marginType: { weight: 1 },
+  positionMargin: { weight: 1 },
+  userTrades: { weight: 5 },
+  positionRisk: { weight: 5 },
+  balance: { weight: 5 },
+} satisfies Record<string, RequestCost>;
 
 /**
  * Класс для работы с Binance USDT-M Futures API
  * Документация: https://developers.binance.com/docs/derivatives/usds-margined-futures
  */
-export class BinanceFutures {
+export class BinanceFutures implements FuturesExchange {
+  readonly name = 'binance' as const;
   private restBaseUrl: string;
   private wsBaseUrl: string;
   private logger: Logger;
   private ws: WebSocket | null = null;
   private priceCache: Map<string, TickerPrice> = new Map();
+  private orderBooks: Map<string, BinanceBookState> = new Map();
   private reconnectDelay: number;
   private pingInterval: NodeJS.Timeout | null = null;
   private wsMonitor: WebSocketMonitor | null = null;
   private apiKey?: string;
   private apiSecret?: string;
+  private userWs: WebSocket | null = null;
+  private listenKeyInterval: NodeJS.Timeout | null = null;
+  private marketDataStopped = false; // disconnect() вызван - не переподключаться
+  private userDataStopped = false;
+  private orderCommissions: Map<string, number> = new Map(); // Накопленная комиссия по ордеру (n - только последняя сделка)
+  private limiter: RateLimiter;
 
   constructor(
     restBaseUrl: string,
@@ -35,6 +263,7 @@ export class BinanceFutures {
     this.wsMonitor = wsMonitor || null;
     this.apiKey = apiKey;
     this.apiSecret = apiSecret;
+    this.limiter = new RateLimiter(this.name, RATE_LIMITS, this.logger);
   }
 
   /**
@@ -44,7 +273,7 @@ export class BinanceFutures {
   async getTopPairs(limit = 50): Promise<TradingPair[]> {
     try {
       const url = `${this.restBaseUrl}/fapi/v1/ticker/24hr`;
-      const response = await fetch(url);
+      const response = await this.limiter.schedule(REQUEST_WEIGHT.ticker24h, 'DEFAULT', () => fetch(url));
 
       if (!response.ok) {
         throw new Error(`Binance API error: ${response.status} ${response.statusText}`);
@@ -73,17 +302,20 @@ export class BinanceFutures {
   }
 
   /**
-   * Подключиться к WebSocket и подписаться на bookTicker для списка символов
-   * Stream: <symbol>@bookTicker
+   * Подключиться к WebSocket и подписаться на bookTicker и diff-стрим стакана для списка символов
+   * Streams: <symbol>@bookTicker, <symbol>@depth@100ms
    */
   connectWebSocket(symbols: string[], onPriceUpdate?: (price: TickerPrice) => void): void {
     if (this.ws) {
       this.logger.warn('Binance: WebSocket уже подключен');
       return;
     }
+    this.marketDataStopped = false;
 
     // Создаем combined stream URL
-    const streams = symbols.map((s) => `${s.toLowerCase()}@bookTicker`).join('/');
+    const streams = symbols
+      .flatMap((s) => [`${s.toLowerCase()}@bookTicker`, `${s.toLowerCase()}@depth@100ms`])
+      .join('/');
     const wsUrl = `${this.wsBaseUrl}/stream?streams=${streams}`;
 
     this.logger.info(`Binance: Подключение к WebSocket (${symbols.length} символов)...`);
@@ -100,6 +332,11 @@ export class BinanceFutures {
         const parsed = JSON.parse(data.toString());
 
         // Binance combined stream format: { stream: "btcusdt@bookTicker", data: {...} }
+        if (parsed.data?.e === 'depthUpdate') {
+          this.onDepthUpdate(parsed.data as BinanceDepthEvent);
+          return;
+        }
+
         if (parsed.data) {
           const ticker = parsed.data;
 
@@ -134,7 +371,7 @@ export class BinanceFutures {
     this.ws.on('error', (error) => {
       this.logger.error(`Binance: WebSocket ошибка - ${error.message}`);
       if (this.wsMonitor) {
-        this.wsMonitor.recordDisconnect('binance', `Error: ${error.message}`);
+        this.wsMonitor.recordDisconnect(this.name, `Error: ${error.message}`);
       }
     });
 
@@ -143,22 +380,23 @@ export class BinanceFutures {
       this.logger.warn(`Binance: WebSocket отключен (${reasonText})`);
 
       if (this.wsMonitor) {
-        this.wsMonitor.recordDisconnect('binance', reasonText);
+        this.wsMonitor.recordDisconnect(this.name, reasonText);
       }
 
       this.cleanup();
+      if (this.marketDataStopped) return;
 
       // Автопереподключение
       this.logger.info(`Binance: Переподключение через ${this.reconnectDelay}ms...`);
       setTimeout(() => {
-        this.connectWebSocket(symbols, onPriceUpdate);
+        if (!this.marketDataStopped) this.connectWebSocket(symbols, onPriceUpdate);
       }, this.reconnectDelay);
     });
 
     this.ws.on('open', () => {
       this.logger.success('Binance: WebSocket подключен');
       if (this.wsMonitor) {
-        this.wsMonitor.recordReconnect('binance');
+        this.wsMonitor.recordReconnect(this.name);
       }
     });
   }
@@ -179,12 +417,313 @@ export class BinanceFutures {
     return this.priceCache;
   }
 
+  getOrderBook(symbol: string, depth?: number): OrderBook | undefined {
+    const state = this.orderBooks.get(symbol);
+    if (!state || state.status !== 'SYNCED' || state.book.isEmpty()) return undefined;
+
+    return state.book.snapshot(depth);
+  }
+
+  /**
+   * Событие diff-стрима: до синхронизации буферизуем и запрашиваем снимок
+   * Алгоритм: https://developers.binance.com/docs/derivatives/usds-margined-futures/websocket-market-streams/How-to-manage-a-local-order-book-correctly
+   */
+  private onDepthUpdate(event: BinanceDepthEvent): void {
+    let state = this.orderBooks.get(event.s);
+    if (!state) {
+      state = { book: new LocalOrderBook(event.s, this.name), status: 'EMPTY', buffer: [], retryAt: 0 };
+      this.orderBooks.set(event.s, state);
+    }
+
+    if (state.status === 'EMPTY' || state.status === 'SYNCING') {
+      state.buffer.push(event);
+      if (state.status === 'EMPTY' && Date.now() >= state.retryAt) {
+        void this.syncOrderBook(state);
+      }
+      return;
+    }
+
+    this.applyDepthEvent(state, event);
+  }
+
+  /**
+   * Загрузить REST снимок и применить накопленные события
+   */
+  private async syncOrderBook(state: BinanceBookState): Promise<void> {
+    state.status = 'SYNCING';
+
+    try {
+      const url = `${this.restBaseUrl}/fapi/v1/depth?symbol=${state.book.symbol}&limit=${DEPTH_SNAPSHOT_LIMIT}`;
+      const response = await this.limiter.schedule(REQUEST_WEIGHT.depth, 'DEFAULT', () => fetch(url));
+
+      if (!response.ok) {
+        throw new Error(`Binance API error: ${response.status} ${response.statusText}`);
+      }
+
+      const snapshot = (await response.json()) as BinanceDepthSnapshot;
+
+      // Стакан могли сбросить (переподключение), пока шел запрос
+      if (state.status !== 'SYNCING') return;
+
+      state.book.reset(
+        BinanceFutures.toLevels(snapshot.bids),
+        BinanceFutures.toLevels(snapshot.asks),
+        snapshot.lastUpdateId,
+        snapshot.T
+      );
+      state.status = 'SNAPSHOT';
+
+      const buffered = state.buffer;
+      state.buffer = [];
+      for (const event of buffered) {
+        if (!this.applyDepthEvent(state, event)) break;
+      }
+    } catch (error) {
+      this.logger.error(
+        `Binance: Ошибка получения стакана ${state.book.symbol} - ${error instanceof Error ? error.message : String(error)}`
+      );
+      this.resetOrderBook(state);
+      state.retryAt = Date.now() + this.reconnectDelay;
+    }
+  }
+
+  /**
+   * Применить событие с проверкой последовательности U/u/pu. false - обнаружен разрыв, стакан сброшен
+   */
+  private applyDepthEvent(state: BinanceBookState, event: BinanceDepthEvent): boolean {
+    const lastUpdateId = state.book.lastUpdateId;
+
+    if (state.status === 'SNAPSHOT') {
+      // События до снимка пропускаем, первое примененное должно перекрывать lastUpdateId
+      if (event.u < lastUpdateId) return true;
+      if (event.U > lastUpdateId) {
+        this.logger.warn(`Binance: снимок стакана ${event.s} устарел (U ${event.U} > ${lastUpdateId}), пересинхронизация`);
+        this.resetOrderBook(state);
+        return false;
+      }
+    } else if (event.pu !== lastUpdateId) {
+      this.logger.warn(`Binance: разрыв стакана ${event.s} (pu ${event.pu} != ${lastUpdateId}), пересинхронизация`);
+      this.resetOrderBook(state);
+      return false;
+    }
+
+    state.book.update(BinanceFutures.toLevels(event.b), BinanceFutures.toLevels(event.a), event.u, event.T);
+    state.status = 'SYNCED';
+    return true;
+  }
+
+  /**
+   * Сбросить стакан - следующее событие запустит новую синхронизацию
+   */
+  private resetOrderBook(state: BinanceBookState): void {
+    state.book.clear();
+    state.status = 'EMPTY';
+    state.buffer = [];
+  }
+
+  private static toLevels(levels: Array<[string, string]>): RawLevel[] {
+    return levels.map(([price, quantity]) => [parseFloat(price), parseFloat(quantity)]);
+  }
+
   disconnect(): void {
+    this.marketDataStopped = true;
     if (this.ws) {
       this.ws.close();
       this.cleanup();
       this.logger.info('Binance: WebSocket отключен вручную');
     }
+
+    this.userDataStopped = true;
+    if (this.userWs) {
+      this.userWs.close();
+      this.cleanupUserData();
+    }
+  }
+
+  /**
+   * Приватный стрим аккаунта: ORDER_TRADE_UPDATE и ACCOUNT_UPDATE
+   * listenKey: POST /fapi/v1/listenKey, продление PUT каждые 30 минут
+   */
+  async connectUserDataStream(bus: UserDataBus): Promise<void> {
+    if (this.userWs) {
+      this.logger.warn('Binance: user-data стрим уже подключен');
+      return;
+    }
+
+    this.userDataStopped = false;
+    const listenKey = await this.listenKeyRequest('POST');
+
+    this.userWs = new WebSocket(`${this.wsBaseUrl}/ws/${listenKey}`);
+
+    this.userWs.on('open', () => {
+      this.logger.success('Binance: user-data стрим подключен');
+      this.listenKeyInterval = setInterval(() => {
+        this.listenKeyRequest('PUT').catch(() => {
+          // Ошибка уже залогирована, при истечении ключа придет listenKeyExpired
+        });
+      }, LISTEN_KEY_KEEPALIVE_MS);
+    });
+
+    this.userWs.on('message', (data: Buffer) => {
+      try {
+        const event = JSON.parse(data.toString());
+
+        switch (event.e) {
+          case 'ORDER_TRADE_UPDATE':
+            this.onOrderTradeUpdate(bus, event.o as BinanceOrderUpdate);
+            break;
+          case 'ACCOUNT_UPDATE':
+            this.onAccountUpdate(bus, event.a as BinanceAccountUpdate, event.E);
+            break;
+          case 'listenKeyExpired':
+            this.logger.warn('Binance: listenKey истек, переподключение user-data стрима');
+            this.userWs?.close();
+            break;
+        }
+      } catch (error) {
+        this.logger.error(
+          `Binance: Ошибка парсинга user-data сообщения - ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    });
+
+    this.userWs.on('error', (error) => {
+      this.logger.error(`Binance: user-data стрим ошибка - ${error.message}`);
+    });
+
+    this.userWs.on('close', () => {
+      this.cleanupUserData();
+      if (this.userDataStopped) return;
+
+      this.logger.warn(`Binance: user-data стрим отключен, переподключение через ${this.reconnectDelay}ms...`);
+      setTimeout(() => {
+        if (this.userDataStopped) return;
+        this.connectUserDataStream(bus).catch((error) => {
+          this.logger.error(
+            `Binance: Не удалось переподключить user-data стрим - ${error instanceof Error ? error.message : String(error)}`
+          );
+        });
+      }, this.reconnectDelay);
+    });
+  }
+
+  private onOrderTradeUpdate(bus: UserDataBus, order: BinanceOrderUpdate): void {
+    const orderId = String(order.i);
+    const commission = (this.orderCommissions.get(orderId) ?? 0) + parseFloat(order.n ?? '0');
+    const status = BinanceFutures.toOrderStatus(order.X);
+
+    if (status === 'NEW' || status === 'PARTIALLY_FILLED') {
+      this.orderCommissions.set(orderId, commission);
+    } else {
+      this.orderCommissions.delete(orderId);
+    }
+
+    bus.emit('order', {
+      exchange: this.name,
+      symbol: order.s,
+      orderId,
+      side: order.S,
+      reduceOnly: order.R,
+      status,
+      executedQty: parseFloat(order.z),
+      avgPrice: parseFloat(order.ap),
+      commission,
+      commissionAsset: order.N,
+      isLiquidation: order.c.startsWith('autoclose-') || order.c === 'adl_autoclose',
+      timestamp: order.T,
+    });
+  }
+
+  private onAccountUpdate(bus: UserDataBus, account: BinanceAccountUpdate, timestamp: number): void {
+    for (const balance of account.B) {
+      bus.emit('balance', {
+        exchange: this.name,
+        asset: balance.a,
+        walletBalance: parseFloat(balance.wb),
+        timestamp,
+      });
+    }
+
+    for (const position of account.P) {
+      const amount = parseFloat(position.pa);
+      // В one-way режиме ps = BOTH, направление - по знаку объема
+      const side = position.ps === 'SHORT' || (position.ps === 'BOTH' && amount < 0) ? 'SHORT' : 'LONG';
+
+      bus.emit('position', {
+        exchange: this.name,
+        symbol: position.s,
+        side,
+        quantity: Math.abs(amount),
+        entryPrice: parseFloat(position.ep),
+        unrealizedPnl: parseFloat(position.up),
+        timestamp,
+      });
+    }
+  }
+
+  /**
+   * Создать (POST) или продлить (PUT) listenKey
+   */
+  private async listenKeyRequest(method: 'POST' | 'PUT'): Promise<string> {
+    if (!this.apiKey) {
+      throw new Error('Binance: API ключи не установлены');
+    }
+
+    const apiKey = this.apiKey;
+
+    try {
+      const response = await this.limiter.schedule(REQUEST_WEIGHT.listenKey, 'DEFAULT', () => fetch(`${this.restBaseUrl}/fapi/v1/listenKey`, {
+        method,
+        headers: {
+          'X-MBX-APIKEY': apiKey,
+        },
+      }));
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Binance listenKey failed: ${response.status} - ${errorText}`);
+      }
+
+      const result = (await response.json()) as { listenKey: string };
+      return result.listenKey;
+    } catch (error) {
+      this.logger.error(`Binance: Ошибка listenKey - ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
+    }
+  }
+
+  private cleanupUserData(): void {
+    if (this.listenKeyInterval) {
+      clearInterval(this.listenKeyInterval);
+      this.listenKeyInterval = null;
+    }
+    this.userWs = null;
+  }
+
+  /**
+   * Код ошибки из тела ответа Binance ({"code":-2011,"msg":"..."})
+   */
+  private static errorCode(body: string): number | undefined {
+    try {
+      return (JSON.parse(body) as { code?: number }).code;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private static toOrderStatus(status: string): OrderStatus {
+    switch (status) {
+      case 'PARTIALLY_FILLED':
+      case 'FILLED':
+      case 'CANCELED':
+      case 'REJECTED':
+      case 'EXPIRED':
+        return status;
+      case 'EXPIRED_IN_MATCH':
+        return 'EXPIRED';
+      default:
+        return 'NEW';
+    }
   }
 
   private cleanup(): void {
@@ -192,19 +731,67 @@ export class BinanceFutures {
       clearInterval(this.pingInterval);
       this.pingInterval = null;
     }
+    // После переподключения стаканы синхронизируются заново
+    for (const state of this.orderBooks.values()) {
+      this.resetOrderBook(state);
+    }
     this.ws = null;
   }
 
   async healthCheck(): Promise<boolean> {
     try {
       const url = `${this.restBaseUrl}/fapi/v1/ping`;
-      const response = await fetch(url);
+      const response = await this.limiter.schedule(REQUEST_WEIGHT.ping, 'DEFAULT', () => fetch(url));
       return response.ok;
     } catch {
       return false;
     }
   }
 
+  /**
+   * Получить параметры контрактов
+   * Endpoint: GET /fapi/v1/exchangeInfo
+   * Количество на Binance в базовой валюте, поэтому contractSize = 1
+   */
+  async getContractSpecs(): Promise<ContractSpec[]> {
+    try {
+      const url = `${this.restBaseUrl}/fapi/v1/exchangeInfo`;
+      const response = await this.limiter.schedule(REQUEST_WEIGHT.exchangeInfo, 'DEFAULT', () => fetch(url));
+
+      if (!response.ok) {
+        throw new Error(`Binance API error: ${response.status} ${response.statusText}`);
+      }
+
+      const data = (await response.json()) as BinanceExchangeInfoResponse;
+
+      return data.symbols
+        .filter((s) => s.status === 'TRADING' && s.contractType === 'PERPETUAL' && s.quoteAsset === 'USDT')
+        .map((s) => {
+          const filter = (type: string) => s.filters.find((f) => f.filterType === type);
+          const priceFilter = filter('PRICE_FILTER');
+          // Для рыночных ордеров действует MARKET_LOT_SIZE, LOT_SIZE - запасной вариант
+          const lotSize = filter('MARKET_LOT_SIZE') ?? filter('LOT_SIZE');
+          const minNotional = filter('MIN_NOTIONAL');
+
+          return {
+            symbol: s.symbol,
+            exchange: this.name,
+            contractSize: 1,
+            tickSize: parseFloat(priceFilter?.tickSize ?? '0'),
+            stepSize: parseFloat(lotSize?.stepSize ?? '0'),
+            minQty: parseFloat(lotSize?.minQty ?? '0'),
+            maxQty: lotSize?.maxQty ? parseFloat(lotSize.maxQty) : undefined,
+            minNotional: parseFloat(minNotional?.notional ?? '0'),
+          };
+        });
+    } catch (error) {
+      this.logger.error(
+        `Binance: Ошибка получения параметров контрактов - ${error instanceof Error ? error.message : String(error)}`
+      );
+      throw error;
+    }
+  }
+
   /**
    * Создать рыночный ордер на Binance Futures
    * @param symbol Символ (например, BTCUSDT)
@@ -214,17 +801,14 @@ export class BinanceFutures {
    */
   async createMarketOrder(
     symbol: string,
-    side: 'BUY' | 'SELL',
+    side: OrderSide,
     quantity: number,
     reduceOnly = false
-  ): Promise<any> {
+  ): Promise<OrderResult> {
     if (!this.apiKey || !this.apiSecret) {
       throw new Error('Binance: API ключи не установлены');
     }
 
-    const crypto = await import('crypto');
-    const timestamp = Date.now();
-
     // ВАЖНО: Параметры НЕ нужно сортировать! (согласно официальному примеру Binance)
     // Порядок параметров важен - сохраняем порядок вставки
     const params: string[] = [];
@@ -238,85 +822,203 @@ export class BinanceFutures {
       params.push('reduceOnly=true');
     }
 
-    params.push(`timestamp=${timestamp}`);
-    params.push('recvWindow=5000');  // 5 секунд окно для синхронизации времени
+    try {
+      // Закрытия (reduceOnly) обгоняют открытия в очереди лимитера
+      const response = await this.signedRequest('POST', '/fapi/v1/order', params, REQUEST_WEIGHT.order, reduceOnly ? 'CLOSE' : 'OPEN');
 
-    // Создаем query string БЕЗ сортировки
-    const queryString = params.join('&');
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Binance order failed: ${response.status} - ${errorText}`);
+      }
 
-    const signature = crypto
-      .createHmac('sha256', this.apiSecret)
-      .update(queryString)
-      .digest('hex');
+      const result = await response.json();
+      this.logger.success(`Binance: Ордер создан - ${side} ${quantity} ${symbol}`);
+      return {
+        exchange: this.name,
+        symbol,
+        orderId: String(result.orderId),
+        fillTime: result.updateTime,
+        raw: result,
+      };
+    } catch (error) {
+      this.logger.error(`Binance: Ошибка создания ордера - ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
+    }
+  }
 
-    // ВАЖНО: Для Binance Futures все параметры идут в URL query string, даже для POST!
-    const url = `${this.restBaseUrl}/fapi/v1/order?${queryString}&signature=${signature}`;
+  /**
+   * Создать лимитный ордер: POST_ONLY - timeInForce=GTX, IOC - timeInForce=IOC
+   */
+  async createLimitOrder(
+    symbol: string,
+    side: OrderSide,
+    quantity: number,
+    price: number,
+    timeInForce: LimitTimeInForce,
+    reduceOnly = false
+  ): Promise<OrderResult> {
+    if (!this.apiKey || !this.apiSecret) {
+      throw new Error('Binance: API ключи не установлены');
+    }
+
+    // ВАЖНО: Параметры НЕ нужно сортировать! (согласно официальному примеру Binance)
+    const params: string[] = [];
+    params.push(`symbol=${symbol}`);
+    params.push(`side=${side}`);
+    params.push(`type=LIMIT`);
+    params.push(`timeInForce=${timeInForce === 'POST_ONLY' ? 'GTX' : 'IOC'}`);
+    params.push(`quantity=${quantity.toString()}`);
+    params.push(`price=${price.toString()}`);
+
+    if (reduceOnly) {
+      params.push('reduceOnly=true');
+    }
 
     try {
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'X-MBX-APIKEY': this.apiKey,
-        },
-      });
+      const response = await this.signedRequest('POST', '/fapi/v1/order', params, REQUEST_WEIGHT.order, reduceOnly ? 'CLOSE' : 'OPEN');
 
       if (!response.ok) {
         const errorText = await response.text();
+        // GTX ордер пересек бы стакан - биржа его не ставит, это не ошибка
+        if (BinanceFutures.errorCode(errorText) === POST_ONLY_REJECTED_CODE) {
+          return { exchange: this.name, symbol, orderId: '', status: 'EXPIRED', raw: errorText };
+        }
         throw new Error(`Binance order failed: ${response.status} - ${errorText}`);
       }
 
       const result = await response.json();
-      this.logger.success(`Binance: Ордер создан - ${side} ${quantity} ${symbol}`);
-      return result;
+      this.logger.success(`Binance: Лимитный ордер создан - ${side} ${quantity} ${symbol} @ ${price} (${timeInForce})`);
+      return {
+        exchange: this.name,
+        symbol,
+        orderId: String(result.orderId),
+        fillTime: result.updateTime,
+        status: BinanceFutures.toOrderStatus(result.status),
+        raw: result,
+      };
     } catch (error) {
-      this.logger.error(`Binance: Ошибка создания ордера - ${error instanceof Error ? error.message : String(error)}`);
+      this.logger.error(`Binance: Ошибка создания лимитного ордера - ${error instanceof Error ? error.message : String(error)}`);
       throw error;
     }
   }
 
   /**
-   * Установить leverage для символа
+   * Снять ордер (DELETE /fapi/v1/order). Ордер уже исполнен или снят (-2011) - не ошибка
    */
-  async setLeverage(symbol: string, leverage: number): Promise<any> {
+  async cancelOrder(symbol: string, orderId: string): Promise<void> {
     if (!this.apiKey || !this.apiSecret) {
       throw new Error('Binance: API ключи не установлены');
     }
 
-    const crypto = await import('crypto');
-    const timestamp = Date.now();
+    try {
+      // Снятие ордера не должно ждать в очереди за новыми ордерами
+      const response = await this.signedRequest(
+        'DELETE', '/fapi/v1/order', [`symbol=${symbol}`, `orderId=${orderId}`], REQUEST_WEIGHT.cancelOrder, 'CLOSE'
+      );
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        if (BinanceFutures.errorCode(errorText) === UNKNOWN_ORDER_CODE) return;
+        throw new Error(`Binance cancel failed: ${response.status} - ${errorText}`);
+      }
+    } catch (error) {
+      this.logger.error(`Binance: Ошибка снятия ордера - ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Изменить цену лежащего ордера (PUT /fapi/v1/order), orderId не меняется.
+   * GTX ордер, который по новой цене исполнился бы сразу (-5022), биржа снимает - результат со status EXPIRED
+   */
+  async amendOrder(symbol: string, orderId: string, side: OrderSide, quantity: number, price: number): Promise<OrderResult> {
+    if (!this.apiKey || !this.apiSecret) {
+      throw new Error('Binance: API ключи не установлены');
+    }
 
     // ВАЖНО: Параметры НЕ нужно сортировать! (согласно официальному примеру Binance)
-    const params: string[] = [];
-    params.push(`symbol=${symbol}`);
-    params.push(`leverage=${leverage}`);
-    params.push(`timestamp=${timestamp}`);
-    params.push('recvWindow=5000');  // 5 секунд окно для синхронизации времени
+    const params = [
+      `orderId=${orderId}`,
+      `symbol=${symbol}`,
+      `side=${side}`,
+      `quantity=${quantity.toString()}`,
+      `price=${price.toString()}`,
+    ];
 
-    // Создаем query string БЕЗ сортировки
-    const queryString = params.join('&');
+    try {
+      const response = await this.signedRequest('PUT', '/fapi/v1/order', params, REQUEST_WEIGHT.amendOrder, 'OPEN');
 
-    const signature = crypto
-      .createHmac('sha256', this.apiSecret)
-      .update(queryString)
-      .digest('hex');
+      if (!response.ok) {
+        const errorText = await response.text();
+        if (BinanceFutures.errorCode(errorText) === POST_ONLY_REJECTED_CODE) {
+          return { exchange: this.name, symbol, orderId, status: 'EXPIRED', raw: errorText };
+        }
+        throw new Error(`Binance amend failed: ${response.status} - ${errorText}`);
+      }
+
+      const result = (await response.json()) as BinanceOrderInfo;
+      return {
+        exchange: this.name,
+        symbol,
+        orderId: String(result.orderId),
+        status: BinanceFutures.toOrderStatus(result.status),
+        raw: result,
+      };
+    } catch (error) {
+      this.logger.error(`Binance: Ошибка изменения ордера - ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
+    }
+  }
 
-    // ВАЖНО: Для Binance Futures все параметры идут в URL query string, даже для POST!
-    const url = `${this.restBaseUrl}/fapi/v1/leverage?${queryString}&signature=${signature}`;
+  /**
+   * Статус ордера (GET /fapi/v1/order)
+   */
+  async getOrderStatus(symbol: string, orderId: string): Promise<OrderState> {
+    if (!this.apiKey || !this.apiSecret) {
+      throw new Error('Binance: API ключи не установлены');
+    }
 
     try {
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'X-MBX-APIKEY': this.apiKey,
-        },
-      });
+      const response = await this.signedRequest(
+        'GET', '/fapi/v1/order', [`symbol=${symbol}`, `orderId=${orderId}`], REQUEST_WEIGHT.orderStatus
+      );
 
       if (!response.ok) {
         const errorText = await response.text();
-        throw new Error(`Binance leverage failed: ${response.status} - ${errorText}`);
+        throw new Error(`Binance order status failed: ${response.status} - ${errorText}`);
       }
 
-      return await response.json();
+      const order = (await response.json()) as BinanceOrderInfo;
+      return {
+        orderId: String(order.orderId),
+        status: BinanceFutures.toOrderStatus(order.status),
+        executedQty: parseFloat(order.executedQty),
+        avgPrice: parseFloat(order.avgPrice),
+      };
+    } catch (error) {
+      this.logger.error(`Binance: Ошибка получения статуса ордера - ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Установить leverage для символа
+   */
+  async setLeverage(symbol: string, leverage: number): Promise<void> {
+    if (!this.apiKey || !this.apiSecret) {
+      throw new Error('Binance: API ключи не установлены');
+    }
+
+    // ВАЖНО: Параметры НЕ нужно сортировать! (согласно официальному примеру Binance)
+    const params = [`symbol=${symbol}`, `leverage=${leverage}`];
+
+    try {
+      const response = await this.signedRequest('POST', '/fapi/v1/leverage', params, REQUEST_WEIGHT.leverage, 'OPEN');
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Binance leverage failed: ${response.status} - ${errorText}`);
+      }
     } catch (error) {
       this.logger.error(`Binance: Ошибка установки leverage - ${error instanceof Error ? error.message : String(error)}`);
       throw error;
@@ -324,32 +1026,188 @@ export class BinanceFutures {
   }
 
   /**
-   * Получить текущий баланс
+   * Режим маржи символа (POST /fapi/v1/marginType). Binance хранит его на символ - ордера параметра не несут
    */
-  async getBalance(): Promise<number> {
+  async setMarginMode(symbol: string, mode: MarginMode): Promise<MarginModeStatus> {
     if (!this.apiKey || !this.apiSecret) {
       throw new Error('Binance: API ключи не установлены');
     }
 
-    const crypto = await import('crypto');
-    const timestamp = Date.now();
+    // ВАЖНО: Параметры НЕ нужно сортировать! (согласно официальному примеру Binance)
+    const params = [`symbol=${symbol}`, `marginType=${mode === 'isolated' ? 'ISOLATED' : 'CROSSED'}`];
+
+    try {
+      const response = await this.signedRequest('POST', '/fapi/v1/marginType', params, REQUEST_WEIGHT.marginType, 'OPEN');
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        const refusal = MARGIN_TYPE_REFUSALS[BinanceFutures.errorCode(errorText) ?? 0];
+        if (refusal) return refusal;
+        throw new Error(`Binance marginType failed: ${response.status} - ${errorText}`);
+      }
+      return 'SET';
+    } catch (error) {
+      this.logger.error(`Binance: Ошибка установки режима маржи - ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Фактическое исполнение ордера по сделкам аккаунта
+   * Endpoint: GET /fapi/v1/userTrades?orderId=...
+   * Сделки рыночного ордера появляются с небольшой задержкой - опрашиваем несколько раз
+   */
+  async getOrderFill(symbol: string, orderId: string): Promise<OrderFill> {
+    if (!this.apiKey || !this.apiSecret) {
+      throw new Error('Binance: API ключи не установлены');
+    }
 
-    const queryString = `timestamp=${timestamp}&recvWindow=5000`;
+    try {
+      for (let attempt = 1; attempt <= FILL_POLL_ATTEMPTS; attempt++) {
+        const response = await this.signedRequest(
+          'GET', '/fapi/v1/userTrades', [`symbol=${symbol}`, `orderId=${orderId}`], REQUEST_WEIGHT.userTrades
+        );
 
-    const signature = crypto
-      .createHmac('sha256', this.apiSecret)
-      .update(queryString)
-      .digest('hex');
+        if (!response.ok) {
+          const errorText = await response.text();
+          throw new Error(`Binance userTrades failed: ${response.status} - ${errorText}`);
+        }
 
-    const url = `${this.restBaseUrl}/fapi/v2/balance?${queryString}&signature=${signature}`;
+        const trades = (await response.json()) as BinanceUserTrade[];
 
+        if (trades.length > 0) {
+          const executedQty = trades.reduce((sum, t) => sum + parseFloat(t.qty), 0);
+          const quoteQty = trades.reduce((sum, t) => sum + parseFloat(t.quoteQty), 0);
+
+          return {
+            orderId,
+            avgPrice: quoteQty / executedQty,
+            executedQty,
+            commission: trades.reduce((sum, t) => sum + parseFloat(t.commission), 0),
+            commissionAsset: trades[0].commissionAsset,
+            fillTime: Math.max(...trades.map((t) => t.time)),
+          };
+        }
+
+        await new Promise(resolve => setTimeout(resolve, FILL_POLL_DELAY_MS));
+      }
+
+      throw new Error(`Binance: нет сделок по ордеру ${orderId} ${symbol}`);
+    } catch (error) {
+      this.logger.error(`Binance: Ошибка получения исполнения ордера - ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Ставки фандинга (GET /fapi/v1/premiumIndex - один запрос на все контракты)
+   */
+  async getFundingRates(symbols: string[]): Promise<FundingRate[]> {
     try {
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'X-MBX-APIKEY': this.apiKey,
-        },
-      });
+      const url = `${this.restBaseUrl}/fapi/v1/premiumIndex`;
+      const response = await this.limiter.schedule(REQUEST_WEIGHT.premiumIndex, 'DEFAULT', () => fetch(url));
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      const data = (await response.json()) as BinancePremiumIndex[];
+      const wanted = new Set(symbols);
+
+      return data
+        .filter((item) => wanted.has(item.symbol))
+        .map((item) => ({
+          exchange: this.name,
+          symbol: item.symbol,
+          rate: parseFloat(item.lastFundingRate),
+          nextFundingTime: item.nextFundingTime,
+        }));
+    } catch (error) {
+      this.logger.error(`Binance: Ошибка получения фандинга - ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Открытые позиции аккаунта (GET /fapi/v2/positionRisk, только ненулевые)
+   */
+  async getPositions(): Promise<ExchangePosition[]> {
+    if (!this.apiKey || !this.apiSecret) {
+      throw new Error('Binance: API ключи не установлены');
+    }
+
+    try {
+      const response = await this.signedRequest('GET', '/fapi/v2/positionRisk', [], REQUEST_WEIGHT.positionRisk);
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Binance positionRisk failed: ${response.status} - ${errorText}`);
+      }
+
+      const positions = (await response.json()) as BinancePositionRisk[];
+
+      return positions
+        .filter((p) => parseFloat(p.positionAmt) !== 0)
+        .map((p) => {
+          const amount = parseFloat(p.positionAmt);
+          const liquidationPrice = parseFloat(p.liquidationPrice);
+          return {
+            exchange: this.name,
+            symbol: p.symbol,
+            // В one-way режиме positionSide = BOTH, направление - по знаку объема
+            side: p.positionSide === 'SHORT' || (p.positionSide === 'BOTH' && amount < 0) ? 'SHORT' : 'LONG',
+            quantity: Math.abs(amount),
+            entryPrice: parseFloat(p.entryPrice),
+            leverage: parseInt(p.leverage),
+            unrealizedPnl: parseFloat(p.unRealizedProfit),
+            updateTime: p.updateTime,
+            markPrice: parseFloat(p.markPrice),
+            liquidationPrice: liquidationPrice > 0 ? liquidationPrice : undefined,
+            marginMode: p.marginType === 'isolated' ? 'isolated' : 'cross',
+            margin: p.marginType === 'isolated' ? parseFloat(p.isolatedWallet) : undefined,
+          };
+        });
+    } catch (error) {
+      this.logger.error(`Binance: Ошибка получения позиций - ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Довнести изолированную маржу (POST /fapi/v1/positionMargin, type=1 - добавить)
+   */
+  async addIsolatedMargin(symbol: string, side: PositionSide, amount: number): Promise<void> {
+    if (!this.apiKey || !this.apiSecret) {
+      throw new Error('Binance: API ключи не установлены');
+    }
+
+    // ВАЖНО: Параметры НЕ нужно сортировать! (согласно официальному примеру Binance)
+    // В one-way режиме позиция одна (positionSide=BOTH по умолчанию), side нужен только хедж-режиму
+    const params = [`symbol=${symbol}`, `amount=${amount.toFixed(2)}`, 'type=1'];
+
+    try {
+      const response = await this.signedRequest('POST', '/fapi/v1/positionMargin', params, REQUEST_WEIGHT.positionMargin, 'CLOSE');
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Binance positionMargin failed: ${response.status} - ${errorText}`);
+      }
+    } catch (error) {
+      this.logger.error(`Binance: Ошибка добавления маржи ${side} ${symbol} - ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Получить текущий баланс
+   */
+  async getBalance(): Promise<number> {
+    if (!this.apiKey || !this.apiSecret) {
+      throw new Error('Binance: API ключи не установлены');
+    }
+
+    try {
+      const response = await this.signedRequest('GET', '/fapi/v2/balance', [], REQUEST_WEIGHT.balance);
 
       if (!response.ok) {
         const errorText = await response.text();
@@ -364,4 +1222,49 @@ export class BinanceFutures {
       throw error;
     }
   }
+
+  /**
+   * Биржа ответила 429/418 - запросы приостановлены до конца паузы
+   */
+  isRateLimited(): boolean {
+    return this.limiter.isBackingOff();
+  }
+
+  /**
+   * Подписанный запрос через очередь лимитера.
+   * timestamp и подпись формируются, когда подошла очередь, - ожидание не должно выйти за recvWindow
+   */
+  private async signedRequest(
+    method: 'GET' | 'POST' | 'PUT' | 'DELETE',
+    path: string,
+    params: string[],
+    cost: RequestCost,
+    priority: RequestPriority = 'DEFAULT'
+  ): Promise<Response> {
+    const apiKey = this.apiKey;
+    const apiSecret = this.apiSecret;
+    if (!apiKey || !apiSecret) {
+      throw new Error('Binance: API ключи не установлены');
+    }
+
+    const crypto = await import('crypto');
+
+    return this.limiter.schedule(cost, priority, () => {
+      // Создаем query string БЕЗ сортировки
+      const queryString = [...params, `timestamp=${Date.now()}`, 'recvWindow=5000'].join('&'); // 5 секунд окно для синхронизации времени
+
+      const signature = crypto
+        .createHmac('sha256', apiSecret)
+        .update(queryString)
+        .digest('hex');
+
+      // ВАЖНО: Для Binance Futures все параметры идут в URL query string, даже для POST!
+      return fetch(`${this.restBaseUrl}${path}?${queryString}&signature=${signature}`, {
+        method,
+        headers: {
+          'X-MBX-APIKEY': apiKey,
+        },
+      });
+    });
+  }
 }
@@ -0,0 +1,70 @@
+import type { ExchangeName, FuturesExchange } from '../types/exchange.js';
+import type { ExchangeConfig } from '../types/config.js';
+import { BinanceFutures } from './binance-futures.js';
+import { MexcFutures } from './mexc-futures.js';
+import { Logger } from '../utils/logger.js';
+import type { WebSocketMonitor } from '../utils/websocket-monitor.js';
+
+/**
+ * Конструктор адаптера биржи (все адаптеры принимают одинаковые параметры)
+ */
+type ExchangeConstructor = new (
+  restBaseUrl: string,
+  wsBaseUrl: string,
+  reconnectDelay?: number,
+  logger?: Logger,
+  wsMonitor?: WebSocketMonitor,
+  apiKey?: string,
+  apiSecret?: string
+) => FuturesExchange;
+
+/**
+ * Реестр адаптеров: имя биржи в config.exchanges -> класс адаптера.
+ * Чтобы добавить новую биржу (Bybit, OKX, Gate...), реализуйте FuturesExchange и зарегистрируйте класс здесь.
+ */
+const ADAPTERS: Record<ExchangeName, ExchangeConstructor> = {
+  binance: BinanceFutures,
+  mexc: MexcFutures,
+};
+
+/**
+ * Создание адаптеров бирж по конфигурации
+ */
+export class ExchangeFactory {
+  static isSupported(name: ExchangeName): boolean {
+    return name in ADAPTERS;
+  }
+
+  static getSupportedExchanges(): ExchangeName[] {
+    return Object.keys(ADAPTERS);
+  }
+
+  static create(
+    name: ExchangeName,
+    config: ExchangeConfig,
+    options: {
+      reconnectDelay?: number;
+      logger?: Logger;
+      wsMonitor?: WebSocketMonitor;
+      apiKey?: string;
+      apiSecret?: string;
+    } = {}
+  ): FuturesExchange {
+    const Adapter = ADAPTERS[name];
+    if (!Adapter) {
+      throw new Error(
+        `Адаптер для биржи "${name}" не реализован. Поддерживаются: ${ExchangeFactory.getSupportedExchanges().join(', ')}`
+      );
+    }
+
+    return new Adapter(
+      config.restBaseUrl,
+      config.wsBaseUrl,
+      options.reconnectDelay,
+      options.logger,
+      options.wsMonitor,
+      options.apiKey,
+      options.apiSecret
+    );
+  }
+}
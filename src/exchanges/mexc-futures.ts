@@ -1,7 +1,27 @@
 import WebSocket from 'ws';
-import type { TickerPrice, TradingPair } from '../types/exchange.js';
+import type {
+  TickerPrice,
+  TradingPair,
+  ContractSpec,
+  FuturesExchange,
+  OrderSide,
+  OrderResult,
+  OrderState,
+  LimitTimeInForce,
+  OrderBook,
+  OrderFill,
+  OrderStatus,
+  ExchangePosition,
+  PositionSide,
+  MarginModeStatus,
+  FundingRate,
+} from '../types/exchange.js';
+import type { MarginMode } from '../types/config.js';
 import { Logger } from '../utils/logger.js';
+import { LocalOrderBook, type RawLevel } from '../utils/order-book.js';
 import type { WebSocketMonitor } from '../utils/websocket-monitor.js';
+import type { UserDataBus } from '../utils/user-data-bus.js';
+import { RateLimiter, type RateLimitWindow, type RequestPriority } from '../utils/rate-limiter.js';
 
 /**
  * Интерфейс ответа MEXC ticker API
@@ -22,20 +42,226 @@ interface MexcTickerResponse {
   }>;
 }
 
+/**
+ * Интерфейс ответа MEXC contract/detail API
+ */
+interface MexcContractDetailResponse {
+  success: boolean;
+  code: number;
+  data: Array<{
+    symbol: string;
+    quoteCoin: string;
+    contractSize: number;  // Базовой валюты в одном контракте
+    priceUnit: number;     // Шаг цены
+    volUnit: number;       // Шаг количества контрактов
+    minVol: number;
+    maxVol: number;
+    state: number;         // 0 = торгуется
+  }>;
+}
+
+/**
+ * Изменения стакана MEXC: уровни [price, vol (контракты), orderCount], version растет на 1 с каждым пушем
+ */
+interface MexcDepthData {
+  asks: number[][];
+  bids: number[][];
+  version: number;
+  timestamp?: number;
+}
+
+/**
+ * Интерфейс ответа MEXC depth API (REST снимок стакана)
+ */
+interface MexcDepthResponse {
+  success: boolean;
+  code: number;
+  data: MexcDepthData;
+}
+
+/**
+ * Интерфейс ответа MEXC deal_details API (сделки по ордеру)
+ */
+interface MexcDealDetailsResponse {
+  success: boolean;
+  code: number;
+  data: Array<{
+    orderId: string;
+    price: number;
+    vol: number;           // Объем в контрактах
+    fee: number;
+    feeCurrency: string;
+    timestamp: number;
+  }>;
+}
+
+/**
+ * Интерфейс ответа MEXC order/get API
+ */
+interface MexcOrderResponse {
+  success: boolean;
+  code: number;
+  data: {
+    orderId: string;
+    state: number;         // 1 = uninformed, 2 = uncompleted, 3 = completed, 4 = cancelled, 5 = invalid
+    dealVol: number;       // Исполнено контрактов
+    dealAvgPrice: number;
+  };
+}
+
+/**
+ * Интерфейс ответа MEXC order/cancel API (результат по каждому ордеру)
+ */
+interface MexcCancelResponse {
+  success: boolean;
+  code: number;
+  data?: Array<{ orderId: string; errorCode: number; errorMsg: string }>;
+}
+
+/**
+ * Интерфейс ответа MEXC funding_rate API
+ */
+interface MexcFundingRateResponse {
+  success: boolean;
+  code: number;
+  data: {
+    symbol: string;
+    fundingRate: number;
+    collectCycle: number;   // Период расчета в часах
+    nextSettleTime: number;
+  };
+}
+
+/**
+ * Интерфейс ответа MEXC open_positions API
+ */
+interface MexcOpenPositionsResponse {
+  success: boolean;
+  code: number;
+  data: Array<{
+    positionId: number;
+    symbol: string;
+    positionType: 1 | 2;  // 1 = LONG, 2 = SHORT
+    openType: 1 | 2;      // 1 = изолированная, 2 = кросс
+    holdVol: number;      // Объем в контрактах
+    holdAvgPrice: number;
+    leverage: number;
+    liquidatePrice: number;
+    im: number;           // Текущая маржа позиции в USDT (с довнесенной)
+    updateTime: number;
+  }>;
+}
+
+/**
+ * Пуш приватного канала push.personal.order
+ */
+interface MexcPersonalOrder {
+  orderId: string;
+  symbol: string;
+  side: MexcOrderSide;
+  state: number;          // 1 = uninformed, 2 = uncompleted, 3 = completed, 4 = cancelled, 5 = invalid
+  category: number;       // 1 = limit, 2 = system take over (ликвидация), 3 = close delegate, 4 = ADL
+  dealVol: number;        // Исполнено контрактов
+  dealAvgPrice: number;
+  takerFee: number;
+  makerFee: number;
+  feeCurrency: string;
+  updateTime: number;
+}
+
+/**
+ * Пуш приватного канала push.personal.position
+ */
+interface MexcPersonalPosition {
+  symbol: string;
+  positionType: 1 | 2;    // 1 = LONG, 2 = SHORT
+  holdVol: number;        // Объем в контрактах
+  holdAvgPrice: number;
+  state: number;          // 1 = holding, 2 = system holding, 3 = closed
+}
+
+/**
+ * Пуш приватного канала push.personal.asset
+ */
+interface MexcPersonalAsset {
+  currency: string;
+  cashBalance: number;
+  availableBalance: number;
+}
+
+/**
+ * Тип ордера в order/submit: 2 = post only, 3 = IOC, 5 = market
+ */
+const MEXC_ORDER_TYPE: Record<LimitTimeInForce, number> = { POST_ONLY: 2, IOC: 3 };
+
+/**
+ * Сколько раз запрашивать сделки ордера, пока они не появятся, и пауза между запросами
+ */
+const FILL_POLL_ATTEMPTS = 3;
+const FILL_POLL_DELAY_MS = 300;
+
+/**
+ * Лимиты MEXC считаются по каждому эндпоинту отдельно (публичные - по IP, приватные - по UID):
+ * большинство - 20 запросов за 2 секунды, contract/detail - 1 запрос за 5 секунд
+ */
+const RATE_LIMITS: RateLimitWindow[] = [
+  { counter: 'ping', limit: 20, intervalMs: 2000 },
+  { counter: 'ticker', limit: 20, intervalMs: 2000 },
+  { counter: 'detail', limit: 1, intervalMs: 5000 },
+  { counter: 'depth', limit: 20, intervalMs: 2000 },
+  { counter: 'fundingRate', limit: 20, intervalMs: 2000 },
+  { counter: 'orderSubmit', limit: 20, intervalMs: 2000 },
+  { counter: 'orderGet', limit: 20, intervalMs: 2000 },
+  { counter: 'orderCancel', limit: 20, intervalMs: 2000 },
+  { counter: 'leverage', limit: 20, intervalMs: 2000 },
+  { counter: 'dealDetails', limit: 20, intervalMs: 2000 },
+  { counter: 'openPositions', limit: 20, intervalMs: 2000 },
+  { counter: 'changeMargin', limit: 20, intervalMs: 2000 },
+  { counter: 'assets', limit: 20, intervalMs: 2000 },
+];
+
+/**
+ * Состояние синхронизации локального стакана:
+ * EMPTY - нет данных, SYNCING - ждем REST снимок (пуши буферизуются),
+ * SNAPSHOT - снимок получен, ждем пуш со следующей версией, SYNCED - стакан актуален
+ */
+interface MexcBookState {
+  book: LocalOrderBook;
+  status: 'EMPTY' | 'SYNCING' | 'SNAPSHOT' | 'SYNCED';
+  buffer: MexcDepthData[];
+  retryAt: number;             // Не запрашивать снимок раньше (после ошибки REST)
+}
+
+/**
+ * Сторона ордера MEXC: 1 = Open Long, 2 = Close Short, 3 = Open Short, 4 = Close Long
+ */
+type MexcOrderSide = 1 | 2 | 3 | 4;
+
 /**
  * Класс для работы с MEXC Futures API
+ * Снаружи все символы в общем формате (BTCUSDT), внутри - в формате MEXC (BTC_USDT)
  */
-export class MexcFutures {
+export class MexcFutures implements FuturesExchange {
+  readonly name = 'mexc' as const;
   private restBaseUrl: string;
   private wsBaseUrl: string;
   private logger: Logger;
   private ws: WebSocket | null = null;
   private priceCache: Map<string, TickerPrice> = new Map();
+  private orderBooks: Map<string, MexcBookState> = new Map();
+  private contractSizes: Map<string, number> = new Map(); // Для перевода объема стакана из контрактов в базовую валюту
+  private marginModes: Map<string, MarginMode> = new Map(); // Режим маржи символа - openType ордеров (по умолчанию кросс)
+  private leverages: Map<string, number> = new Map(); // Плечо символа - обязательно в ордерах изолированной маржи
   private reconnectDelay: number;
   private pingInterval: NodeJS.Timeout | null = null;
   private wsMonitor: WebSocketMonitor | null = null;
   private apiKey?: string;
   private apiSecret?: string;
+  private userWs: WebSocket | null = null;
+  private userPingInterval: NodeJS.Timeout | null = null;
+  private marketDataStopped = false; // disconnect() вызван - не переподключаться
+  private userDataStopped = false;
+  private limiter: RateLimiter;
 
   constructor(
     restBaseUrl: string,
@@ -53,12 +279,13 @@ export class MexcFutures {
     this.wsMonitor = wsMonitor || null;
     this.apiKey = apiKey;
     this.apiSecret = apiSecret;
+    this.limiter = new RateLimiter(this.name, RATE_LIMITS, this.logger);
   }
 
   async getTopPairs(limit = 50): Promise<TradingPair[]> {
     try {
       const url = `${this.restBaseUrl}/api/v1/contract/ticker`;
-      const response = await fetch(url);
+      const response = await this.limiter.schedule({ ticker: 1 }, 'DEFAULT', () => fetch(url));
 
       if (!response.ok) {
         throw new Error(`MEXC API error: ${response.status} ${response.statusText}`);
@@ -76,7 +303,7 @@ export class MexcFutures {
         .slice(0, limit);
 
       return usdtPairs.map((ticker) => ({
-        symbol: ticker.symbol,
+        symbol: MexcFutures.toCommonFormat(ticker.symbol),
         baseAsset: ticker.symbol.replace('_USDT', ''),
         quoteAsset: 'USDT',
         volume24h: ticker.amount24,
@@ -94,6 +321,7 @@ export class MexcFutures {
       this.logger.warn('MEXC: WebSocket уже подключен');
       return;
     }
+    this.marketDataStopped = false;
 
     this.logger.info(`MEXC: Подключение к WebSocket (${symbols.length} символов)...`);
 
@@ -106,13 +334,24 @@ export class MexcFutures {
         const subscribeMsg = {
           method: 'sub.ticker',
           param: {
-            symbol: symbol,
+            symbol: MexcFutures.toMexcFormat(symbol),
           },
         };
 
         if (this.ws && this.ws.readyState === WebSocket.OPEN) {
           this.ws.send(JSON.stringify(subscribeMsg));
         }
+
+        // Стакан ведем только для контрактов с известным contractSize (объемы приходят в контрактах)
+        if (this.contractSizes.has(symbol) && this.ws && this.ws.readyState === WebSocket.OPEN) {
+          this.ws.send(JSON.stringify({
+            method: 'sub.depth',
+            param: {
+              symbol: MexcFutures.toMexcFormat(symbol),
+              compress: false, // Каждый пуш отдельно, иначе версии идут с пропусками
+            },
+          }));
+        }
       });
 
       this.logger.success(`MEXC: Подписка на ${symbols.length} пар отправлена`);
@@ -123,17 +362,22 @@ export class MexcFutures {
       try {
         const parsed = JSON.parse(data.toString());
 
+        if (parsed.channel === 'push.depth' && parsed.data && parsed.symbol) {
+          this.onDepthUpdate(MexcFutures.toCommonFormat(parsed.symbol), parsed.data as MexcDepthData);
+          return;
+        }
+
         if (parsed.channel === 'push.ticker' && parsed.data) {
           const ticker = parsed.data;
 
           const price: TickerPrice = {
-            symbol: ticker.symbol,
+            symbol: MexcFutures.toCommonFormat(ticker.symbol),
             price: parseFloat(ticker.lastPrice),
             bid: parseFloat(ticker.bid1),
             ask: parseFloat(ticker.ask1),
             // --- НОВОЕ: Пробуем парсить объемы (если они есть) ---
             // Внимание: Стандартный ticker стрим MEXC часто не шлет объемы (bid1Vol).
-            // Если они undefined, TradeExecutor будет использовать дефолтное значение (например $10000).
+            // Ликвидность для расчета цены исполнения берется из локального стакана (sub.depth).
             bidQty: ticker.bid1Vol ? parseFloat(ticker.bid1Vol) : undefined,
             askQty: ticker.ask1Vol ? parseFloat(ticker.ask1Vol) : undefined,
             // ----------------------------------------------------
@@ -157,7 +401,7 @@ export class MexcFutures {
     this.ws.on('error', (error) => {
       this.logger.error(`MEXC: WebSocket ошибка - ${error.message}`);
       if (this.wsMonitor) {
-        this.wsMonitor.recordDisconnect('mexc', `Error: ${error.message}`);
+        this.wsMonitor.recordDisconnect(this.name, `Error: ${error.message}`);
       }
     });
 
@@ -166,21 +410,22 @@ export class MexcFutures {
       this.logger.warn(`MEXC: WebSocket отключен (${reasonText})`);
 
       if (this.wsMonitor) {
-        this.wsMonitor.recordDisconnect('mexc', reasonText);
+        this.wsMonitor.recordDisconnect(this.name, reasonText);
       }
 
       this.cleanup();
+      if (this.marketDataStopped) return;
 
       this.logger.info(`MEXC: Переподключение через ${this.reconnectDelay}ms...`);
       setTimeout(() => {
-        this.connectWebSocket(symbols, onPriceUpdate);
+        if (!this.marketDataStopped) this.connectWebSocket(symbols, onPriceUpdate);
       }, this.reconnectDelay);
     });
 
     this.ws.on('open', () => {
       this.logger.success('MEXC: WebSocket подключен');
       if (this.wsMonitor) {
-        this.wsMonitor.recordReconnect('mexc');
+        this.wsMonitor.recordReconnect(this.name);
       }
     });
 
@@ -207,12 +452,290 @@ export class MexcFutures {
     return this.priceCache;
   }
 
+  getOrderBook(symbol: string, depth?: number): OrderBook | undefined {
+    const state = this.orderBooks.get(symbol);
+    if (!state || state.status !== 'SYNCED' || state.book.isEmpty()) return undefined;
+
+    return state.book.snapshot(depth);
+  }
+
+  /**
+   * Пуш стакана: до синхронизации буферизуем и запрашиваем REST снимок
+   */
+  private onDepthUpdate(symbol: string, data: MexcDepthData): void {
+    let state = this.orderBooks.get(symbol);
+    if (!state) {
+      state = { book: new LocalOrderBook(symbol, this.name), status: 'EMPTY', buffer: [], retryAt: 0 };
+      this.orderBooks.set(symbol, state);
+    }
+
+    if (state.status === 'EMPTY' || state.status === 'SYNCING') {
+      state.buffer.push(data);
+      if (state.status === 'EMPTY' && Date.now() >= state.retryAt) {
+        void this.syncOrderBook(state);
+      }
+      return;
+    }
+
+    this.applyDepthUpdate(state, data);
+  }
+
+  /**
+   * Загрузить REST снимок и применить накопленные пуши
+   * Endpoint: GET /api/v1/contract/depth/{symbol}
+   */
+  private async syncOrderBook(state: MexcBookState): Promise<void> {
+    state.status = 'SYNCING';
+    const symbol = state.book.symbol;
+
+    try {
+      const url = `${this.restBaseUrl}/api/v1/contract/depth/${MexcFutures.toMexcFormat(symbol)}`;
+      const response = await this.limiter.schedule({ depth: 1 }, 'DEFAULT', () => fetch(url));
+
+      if (!response.ok) {
+        throw new Error(`MEXC API error: ${response.status} ${response.statusText}`);
+      }
+
+      const json = (await response.json()) as MexcDepthResponse;
+
+      if (!json.success || !json.data) {
+        throw new Error('MEXC API returned unsuccessful response');
+      }
+
+      // Стакан могли сбросить (переподключение), пока шел запрос
+      if (state.status !== 'SYNCING') return;
+
+      state.book.reset(
+        this.toLevels(symbol, json.data.bids),
+        this.toLevels(symbol, json.data.asks),
+        json.data.version,
+        json.data.timestamp
+      );
+      state.status = 'SNAPSHOT';
+
+      const buffered = state.buffer;
+      state.buffer = [];
+      for (const data of buffered) {
+        if (!this.applyDepthUpdate(state, data)) break;
+      }
+    } catch (error) {
+      this.logger.error(
+        `MEXC: Ошибка получения стакана ${symbol} - ${error instanceof Error ? error.message : String(error)}`
+      );
+      this.resetOrderBook(state);
+      state.retryAt = Date.now() + this.reconnectDelay;
+    }
+  }
+
+  /**
+   * Применить пуш с проверкой непрерывности версий. false - обнаружен разрыв, стакан сброшен
+   */
+  private applyDepthUpdate(state: MexcBookState, data: MexcDepthData): boolean {
+    const lastVersion = state.book.lastUpdateId;
+
+    // Пуши, уже учтенные в снимке, пропускаем
+    if (state.status === 'SNAPSHOT' && data.version <= lastVersion) return true;
+
+    if (data.version !== lastVersion + 1) {
+      this.logger.warn(
+        `MEXC: разрыв стакана ${state.book.symbol} (version ${data.version}, ожидалась ${lastVersion + 1}), пересинхронизация`
+      );
+      this.resetOrderBook(state);
+      return false;
+    }
+
+    state.book.update(
+      this.toLevels(state.book.symbol, data.bids),
+      this.toLevels(state.book.symbol, data.asks),
+      data.version
+    );
+    state.status = 'SYNCED';
+    return true;
+  }
+
+  /**
+   * Сбросить стакан - следующий пуш запустит новую синхронизацию
+   */
+  private resetOrderBook(state: MexcBookState): void {
+    state.book.clear();
+    state.status = 'EMPTY';
+    state.buffer = [];
+  }
+
+  /**
+   * Уровни MEXC [price, vol, count] -> [price, объем в базовой валюте]
+   */
+  private toLevels(symbol: string, levels: number[][]): RawLevel[] {
+    const contractSize = this.contractSizes.get(symbol) ?? 1;
+    return levels.map(([price, vol]) => [price, vol * contractSize]);
+  }
+
   disconnect(): void {
+    this.marketDataStopped = true;
     if (this.ws) {
       this.ws.close();
       this.cleanup();
       this.logger.info('MEXC: WebSocket отключен вручную');
     }
+
+    this.userDataStopped = true;
+    if (this.userWs) {
+      this.userWs.close();
+      this.cleanupUserData();
+    }
+  }
+
+  /**
+   * Приватный стрим аккаунта: отдельное соединение с login,
+   * каналы push.personal.order / position / asset приходят после авторизации
+   */
+  async connectUserDataStream(bus: UserDataBus): Promise<void> {
+    if (!this.apiKey || !this.apiSecret) {
+      throw new Error('MEXC: API ключи не установлены');
+    }
+    if (this.userWs) {
+      this.logger.warn('MEXC: user-data стрим уже подключен');
+      return;
+    }
+
+    const crypto = await import('crypto');
+    const apiKey = this.apiKey;
+    const apiSecret = this.apiSecret;
+
+    this.userDataStopped = false;
+    this.userWs = new WebSocket(this.wsBaseUrl);
+
+    this.userWs.on('open', () => {
+      const reqTime = Date.now().toString();
+      const signature = crypto
+        .createHmac('sha256', apiSecret)
+        .update(apiKey + reqTime)
+        .digest('hex');
+
+      this.userWs?.send(JSON.stringify({
+        method: 'login',
+        param: { apiKey, reqTime, signature },
+      }));
+
+      this.userPingInterval = setInterval(() => {
+        if (this.userWs && this.userWs.readyState === WebSocket.OPEN) {
+          this.userWs.send(JSON.stringify({ method: 'ping' }));
+        }
+      }, 15000);
+    });
+
+    this.userWs.on('message', (data: Buffer) => {
+      try {
+        const message = JSON.parse(data.toString());
+
+        switch (message.channel) {
+          case 'rs.login':
+            if (message.data === 'success') {
+              this.logger.success('MEXC: user-data стрим подключен');
+            } else {
+              this.logger.error(`MEXC: Ошибка login user-data стрима - ${JSON.stringify(message.data)}`);
+            }
+            break;
+          case 'push.personal.order':
+            this.onPersonalOrder(bus, message.data as MexcPersonalOrder);
+            break;
+          case 'push.personal.position':
+            this.onPersonalPosition(bus, message.data as MexcPersonalPosition, message.ts);
+            break;
+          case 'push.personal.asset':
+            this.onPersonalAsset(bus, message.data as MexcPersonalAsset, message.ts);
+            break;
+        }
+      } catch (error) {
+        this.logger.error(
+          `MEXC: Ошибка парсинга user-data сообщения - ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    });
+
+    this.userWs.on('error', (error) => {
+      this.logger.error(`MEXC: user-data стрим ошибка - ${error.message}`);
+    });
+
+    this.userWs.on('close', () => {
+      this.cleanupUserData();
+      if (this.userDataStopped) return;
+
+      this.logger.warn(`MEXC: user-data стрим отключен, переподключение через ${this.reconnectDelay}ms...`);
+      setTimeout(() => {
+        if (this.userDataStopped) return;
+        this.connectUserDataStream(bus).catch((error) => {
+          this.logger.error(
+            `MEXC: Не удалось переподключить user-data стрим - ${error instanceof Error ? error.message : String(error)}`
+          );
+        });
+      }, this.reconnectDelay);
+    });
+  }
+
+  private onPersonalOrder(bus: UserDataBus, order: MexcPersonalOrder): void {
+    const symbol = MexcFutures.toCommonFormat(order.symbol);
+    const contractSize = this.contractSizes.get(symbol) ?? 1;
+
+    bus.emit('order', {
+      exchange: this.name,
+      symbol,
+      orderId: String(order.orderId),
+      side: order.side === 1 || order.side === 2 ? 'BUY' : 'SELL',
+      reduceOnly: order.side === 2 || order.side === 4,
+      status: MexcFutures.toOrderStatus(order.state, order.dealVol),
+      executedQty: order.dealVol * contractSize,
+      avgPrice: order.dealAvgPrice,
+      commission: (order.takerFee ?? 0) + (order.makerFee ?? 0),
+      commissionAsset: order.feeCurrency,
+      isLiquidation: order.category === 2 || order.category === 4,
+      timestamp: order.updateTime,
+    });
+  }
+
+  private onPersonalPosition(bus: UserDataBus, position: MexcPersonalPosition, timestamp: number): void {
+    const symbol = MexcFutures.toCommonFormat(position.symbol);
+    const contractSize = this.contractSizes.get(symbol) ?? 1;
+
+    bus.emit('position', {
+      exchange: this.name,
+      symbol,
+      side: position.positionType === 1 ? 'LONG' : 'SHORT',
+      quantity: position.state === 3 ? 0 : position.holdVol * contractSize,
+      entryPrice: position.holdAvgPrice,
+      timestamp,
+    });
+  }
+
+  private onPersonalAsset(bus: UserDataBus, asset: MexcPersonalAsset, timestamp: number): void {
+    bus.emit('balance', {
+      exchange: this.name,
+      asset: asset.currency,
+      walletBalance: asset.cashBalance,
+      availableBalance: asset.availableBalance,
+      timestamp,
+    });
+  }
+
+  private cleanupUserData(): void {
+    if (this.userPingInterval) {
+      clearInterval(this.userPingInterval);
+      this.userPingInterval = null;
+    }
+    this.userWs = null;
+  }
+
+  private static toOrderStatus(state: number, dealVol: number): OrderStatus {
+    switch (state) {
+      case 3:
+        return 'FILLED';
+      case 4:
+        return 'CANCELED';
+      case 5:
+        return 'REJECTED';
+      default:
+        return dealVol > 0 ? 'PARTIALLY_FILLED' : 'NEW';
+    }
   }
 
   private cleanup(): void {
@@ -220,70 +743,162 @@ export class MexcFutures {
       clearInterval(this.pingInterval);
       this.pingInterval = null;
     }
+    // После переподключения стаканы синхронизируются заново
+    for (const state of this.orderBooks.values()) {
+      this.resetOrderBook(state);
+    }
     this.ws = null;
   }
 
   async healthCheck(): Promise<boolean> {
     try {
       const url = `${this.restBaseUrl}/api/v1/contract/ping`;
-      const response = await fetch(url);
+      const response = await this.limiter.schedule({ ping: 1 }, 'DEFAULT', () => fetch(url));
       return response.ok;
     } catch {
       return false;
     }
   }
 
+  /**
+   * Получить параметры контрактов
+   * Endpoint: GET /api/v1/contract/detail
+   * Ордера на MEXC задаются в контрактах, размер контракта в базовой валюте - contractSize
+   */
+  async getContractSpecs(): Promise<ContractSpec[]> {
+    try {
+      const url = `${this.restBaseUrl}/api/v1/contract/detail`;
+      const response = await this.limiter.schedule({ detail: 1 }, 'DEFAULT', () => fetch(url));
+
+      if (!response.ok) {
+        throw new Error(`MEXC API error: ${response.status} ${response.statusText}`);
+      }
+
+      const json = (await response.json()) as MexcContractDetailResponse;
+
+      if (!json.success || !json.data) {
+        throw new Error('MEXC API returned unsuccessful response');
+      }
+
+      const contracts = json.data.filter((c) => c.state === 0 && c.quoteCoin === 'USDT');
+
+      for (const c of contracts) {
+        this.contractSizes.set(MexcFutures.toCommonFormat(c.symbol), c.contractSize);
+      }
+
+      return contracts
+        .map((c) => ({
+          symbol: MexcFutures.toCommonFormat(c.symbol),
+          exchange: this.name,
+          contractSize: c.contractSize,
+          tickSize: c.priceUnit,
+          stepSize: c.volUnit,
+          minQty: c.minVol,
+          maxQty: c.maxVol,
+          minNotional: 0,
+        }));
+    } catch (error) {
+      this.logger.error(
+        `MEXC: Ошибка получения параметров контрактов - ${error instanceof Error ? error.message : String(error)}`
+      );
+      throw error;
+    }
+  }
+
   /**
    * Создать рыночный ордер на MEXC Futures
-   * @param symbol Символ в формате MEXC (например, BTC_USDT)
-   * @param side 1 = Open Long, 2 = Close Short, 3 = Open Short, 4 = Close Long
+   * @param symbol Символ в общем формате (например, BTCUSDT)
+   * @param side BUY или SELL
    * @param vol Количество контрактов
+   * @param reduceOnly Закрытие позиции (BUY закрывает SHORT, SELL закрывает LONG)
    */
   async createMarketOrder(
     symbol: string,
-    side: 1 | 2 | 3 | 4,
-    vol: number
-  ): Promise<any> {
+    side: OrderSide,
+    vol: number,
+    reduceOnly = false
+  ): Promise<OrderResult> {
     if (!this.apiKey || !this.apiSecret) {
       throw new Error('MEXC: API ключи не установлены');
     }
 
-    const crypto = await import('crypto');
-    const timestamp = Date.now();
+    const mexcSymbol = MexcFutures.toMexcFormat(symbol);
+    const mexcSide = MexcFutures.toMexcSide(side, reduceOnly);
 
     // Параметры тела запроса (БЕЗ timestamp и signature)
     const bodyParams: any = {
-      symbol,
+      symbol: mexcSymbol,
       price: 0,
       vol,
-      side,
+      side: mexcSide,
       type: 5, // Market order
-      openType: 2, // Cross margin
+      ...this.marginParams(symbol),
     };
 
-    const bodyString = JSON.stringify(bodyParams);
+    try {
+      // Закрытия (reduceOnly) обгоняют открытия в очереди лимитера
+      const response = await this.signedRequest(
+        'POST', '/api/v1/private/order/submit', 'orderSubmit', reduceOnly ? 'CLOSE' : 'OPEN', bodyParams
+      );
 
-    // MEXC подпись: AccessKey + Timestamp + Body JSON
-    const signaturePayload = this.apiKey + timestamp + bodyString;
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`MEXC order failed: ${response.status} - ${errorText}`);
+      }
+
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(`MEXC order failed: ${result.code} - ${JSON.stringify(result)}`);
+      }
+
+      this.logger.success(`MEXC: Ордер создан - side ${mexcSide} vol ${vol} ${mexcSymbol}`);
+      return {
+        exchange: this.name,
+        symbol,
+        // data - либо ID ордера, либо { orderId, ts }
+        orderId: String(result.data?.orderId ?? result.data),
+        fillTime: result.data?.ts,
+        raw: result,
+      };
+    } catch (error) {
+      this.logger.error(`MEXC: Ошибка создания ордера - ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
+    }
+  }
 
-    const signature = crypto
-      .createHmac('sha256', this.apiSecret)
-      .update(signaturePayload)
-      .digest('hex');
+  /**
+   * Создать лимитный ордер: POST_ONLY - type 2, IOC - type 3.
+   * POST_ONLY ордер, который исполнился бы сразу, MEXC принимает и тут же снимает - итог виден в getOrderStatus
+   */
+  async createLimitOrder(
+    symbol: string,
+    side: OrderSide,
+    vol: number,
+    price: number,
+    timeInForce: LimitTimeInForce,
+    reduceOnly = false
+  ): Promise<OrderResult> {
+    if (!this.apiKey || !this.apiSecret) {
+      throw new Error('MEXC: API ключи не установлены');
+    }
+
+    const mexcSymbol = MexcFutures.toMexcFormat(symbol);
+    const mexcSide = MexcFutures.toMexcSide(side, reduceOnly);
 
-    const url = `${this.restBaseUrl}/api/v1/private/order/submit`;
+    const bodyParams: any = {
+      symbol: mexcSymbol,
+      price,
+      vol,
+      side: mexcSide,
+      type: MEXC_ORDER_TYPE[timeInForce],
+      ...this.marginParams(symbol),
+    };
 
     try {
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'ApiKey': this.apiKey,
-          'Request-Time': timestamp.toString(),
-          'Signature': signature,
-          'Content-Type': 'application/json',
-        },
-        body: bodyString,
-      });
+      const response = await this.signedRequest(
+        'POST', '/api/v1/private/order/submit', 'orderSubmit', reduceOnly ? 'CLOSE' : 'OPEN', bodyParams
+      );
 
       if (!response.ok) {
         const errorText = await response.text();
@@ -296,61 +911,132 @@ export class MexcFutures {
         throw new Error(`MEXC order failed: ${result.code} - ${JSON.stringify(result)}`);
       }
 
-      this.logger.success(`MEXC: Ордер создан - side ${side} vol ${vol} ${symbol}`);
-      return result;
+      this.logger.success(`MEXC: Лимитный ордер создан - side ${mexcSide} vol ${vol} ${mexcSymbol} @ ${price} (${timeInForce})`);
+      return {
+        exchange: this.name,
+        symbol,
+        orderId: String(result.data?.orderId ?? result.data),
+        fillTime: result.data?.ts,
+        raw: result,
+      };
     } catch (error) {
-      this.logger.error(`MEXC: Ошибка создания ордера - ${error instanceof Error ? error.message : String(error)}`);
+      this.logger.error(`MEXC: Ошибка создания лимитного ордера - ${error instanceof Error ? error.message : String(error)}`);
       throw error;
     }
   }
 
   /**
-   * Установить leverage для символа
+   * Снять ордер (POST /api/v1/private/order/cancel, тело - массив ID).
+   * Отказ по самому ордеру (уже исполнен или снят) - не ошибка
    */
-  async setLeverage(symbol: string, leverage: number): Promise<any> {
+  async cancelOrder(symbol: string, orderId: string): Promise<void> {
     if (!this.apiKey || !this.apiSecret) {
       throw new Error('MEXC: API ключи не установлены');
     }
 
-    const crypto = await import('crypto');
-    const timestamp = Date.now();
+    try {
+      // Снятие ордера не должно ждать в очереди за новыми ордерами
+      const response = await this.signedRequest('POST', '/api/v1/private/order/cancel', 'orderCancel', 'CLOSE', [orderId]);
 
-    const bodyParams: any = {
-      symbol,
-      leverage,
-      openType: 2, // Cross margin
-    };
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`MEXC cancel failed: ${response.status} - ${errorText}`);
+      }
+
+      const result = (await response.json()) as MexcCancelResponse;
+
+      if (!result.success) {
+        throw new Error(`MEXC cancel failed: ${result.code} - ${JSON.stringify(result)}`);
+      }
+    } catch (error) {
+      this.logger.error(`MEXC: Ошибка снятия ордера ${symbol} - ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Перевыставить лежащий POST_ONLY ордер. У MEXC Futures нет изменения цены ордера:
+   * старый снимается, и только если он ничего не исполнил, ставится новый (новый orderId)
+   */
+  async amendOrder(symbol: string, orderId: string, side: OrderSide, vol: number, price: number): Promise<OrderResult> {
+    await this.cancelOrder(symbol, orderId);
 
-    const bodyString = JSON.stringify(bodyParams);
+    const state = await this.getOrderStatus(symbol, orderId);
+    if (state.executedQty > 0 || state.status === 'FILLED') {
+      return { exchange: this.name, symbol, orderId, status: state.status, raw: state };
+    }
 
-    // MEXC подпись: AccessKey + Timestamp + Body JSON
-    const signaturePayload = this.apiKey + timestamp + bodyString;
+    return this.createLimitOrder(symbol, side, vol, price, 'POST_ONLY');
+  }
 
-    const signature = crypto
-      .createHmac('sha256', this.apiSecret)
-      .update(signaturePayload)
-      .digest('hex');
+  /**
+   * Статус ордера (GET /api/v1/private/order/get/{order_id}), объем - в базовой валюте через contractSize
+   */
+  async getOrderStatus(symbol: string, orderId: string): Promise<OrderState> {
+    if (!this.apiKey || !this.apiSecret) {
+      throw new Error('MEXC: API ключи не установлены');
+    }
 
-    const url = `${this.restBaseUrl}/api/v1/private/position/leverage`;
+    const contractSize = this.contractSizes.get(symbol);
+    if (contractSize === undefined) {
+      throw new Error(`MEXC: нет размера контракта ${symbol}`);
+    }
 
     try {
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'ApiKey': this.apiKey,
-          'Request-Time': timestamp.toString(),
-          'Signature': signature,
-          'Content-Type': 'application/json',
-        },
-        body: bodyString,
-      });
+      const response = await this.signedRequest('GET', `/api/v1/private/order/get/${orderId}`, 'orderGet');
 
       if (!response.ok) {
         const errorText = await response.text();
-        throw new Error(`MEXC leverage failed: ${response.status} - ${errorText}`);
+        throw new Error(`MEXC order status failed: ${response.status} - ${errorText}`);
       }
 
-      return await response.json();
+      const result = (await response.json()) as MexcOrderResponse;
+
+      if (!result.success) {
+        throw new Error(`MEXC order status failed: ${result.code} - ${JSON.stringify(result)}`);
+      }
+
+      return {
+        orderId: String(result.data.orderId),
+        status: MexcFutures.toOrderStatus(result.data.state, result.data.dealVol),
+        executedQty: result.data.dealVol * contractSize,
+        avgPrice: result.data.dealAvgPrice,
+      };
+    } catch (error) {
+      this.logger.error(`MEXC: Ошибка получения статуса ордера - ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Установить leverage для символа в его режиме маржи. Изолированное плечо у MEXC задается отдельно для LONG и SHORT
+   */
+  async setLeverage(symbol: string, leverage: number): Promise<void> {
+    if (!this.apiKey || !this.apiSecret) {
+      throw new Error('MEXC: API ключи не установлены');
+    }
+
+    const isolated = this.marginModes.get(symbol) === 'isolated';
+    const requests: object[] = isolated
+      ? [1, 2].map((positionType) => ({ symbol: MexcFutures.toMexcFormat(symbol), leverage, openType: 1, positionType }))
+      : [{ symbol: MexcFutures.toMexcFormat(symbol), leverage, openType: 2 }];
+
+    try {
+      for (const bodyParams of requests) {
+        const response = await this.signedRequest('POST', '/api/v1/private/position/leverage', 'leverage', 'OPEN', bodyParams);
+
+        if (!response.ok) {
+          const errorText = await response.text();
+          throw new Error(`MEXC leverage failed: ${response.status} - ${errorText}`);
+        }
+
+        const result = await response.json();
+
+        if (!result.success) {
+          throw new Error(`MEXC leverage failed: ${result.code} - ${JSON.stringify(result)}`);
+        }
+      }
+      this.leverages.set(symbol, leverage);
     } catch (error) {
       this.logger.error(`MEXC: Ошибка установки leverage - ${error instanceof Error ? error.message : String(error)}`);
       throw error;
@@ -358,35 +1044,240 @@ export class MexcFutures {
   }
 
   /**
-   * Получить текущий баланс
+   * Режим маржи символа. Отдельного эндпоинта у MEXC нет: режим передается в каждом ордере (openType),
+   * поэтому проверяем только, что по символу нет позиции в другом режиме
    */
-  async getBalance(): Promise<number> {
+  async setMarginMode(symbol: string, mode: MarginMode): Promise<MarginModeStatus> {
     if (!this.apiKey || !this.apiSecret) {
       throw new Error('MEXC: API ключи не установлены');
     }
+    if (this.marginModes.get(symbol) === mode) return 'UNCHANGED';
 
-    const crypto = await import('crypto');
-    const timestamp = Date.now();
+    try {
+      const mexcSymbol = MexcFutures.toMexcFormat(symbol);
+      const openType = mode === 'isolated' ? 1 : 2;
+      const conflicting = (await this.fetchOpenPositions())
+        .some((p) => p.symbol === mexcSymbol && p.holdVol > 0 && p.openType !== openType);
+      if (conflicting) return 'POSITION_OPEN';
+
+      this.marginModes.set(symbol, mode);
+      return 'SET';
+    } catch (error) {
+      this.logger.error(`MEXC: Ошибка установки режима маржи - ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Фактическое исполнение ордера по сделкам
+   * Endpoint: GET /api/v1/private/order/deal_details/{order_id}
+   * Объем сделок в контрактах - переводим в базовую валюту через contractSize
+   */
+  async getOrderFill(symbol: string, orderId: string): Promise<OrderFill> {
+    if (!this.apiKey || !this.apiSecret) {
+      throw new Error('MEXC: API ключи не установлены');
+    }
+
+    const contractSize = this.contractSizes.get(symbol);
+    if (contractSize === undefined) {
+      throw new Error(`MEXC: нет размера контракта ${symbol}`);
+    }
+
+    try {
+      for (let attempt = 1; attempt <= FILL_POLL_ATTEMPTS; attempt++) {
+        const response = await this.signedRequest('GET', `/api/v1/private/order/deal_details/${orderId}`, 'dealDetails');
+
+        if (!response.ok) {
+          const errorText = await response.text();
+          throw new Error(`MEXC deal details failed: ${response.status} - ${errorText}`);
+        }
 
-    // Для GET запросов: AccessKey + Timestamp (пустое тело)
-    const signaturePayload = this.apiKey + timestamp;
+        const result = (await response.json()) as MexcDealDetailsResponse;
 
-    const signature = crypto
-      .createHmac('sha256', this.apiSecret)
-      .update(signaturePayload)
-      .digest('hex');
+        if (!result.success) {
+          throw new Error(`MEXC deal details failed: ${result.code} - ${JSON.stringify(result)}`);
+        }
 
-    const url = `${this.restBaseUrl}/api/v1/private/account/assets`;
+        const deals = result.data ?? [];
+        if (deals.length > 0) {
+          const contracts = deals.reduce((sum, d) => sum + d.vol, 0);
+          const notional = deals.reduce((sum, d) => sum + d.price * d.vol, 0);
+
+          return {
+            orderId,
+            avgPrice: notional / contracts,
+            executedQty: contracts * contractSize,
+            commission: deals.reduce((sum, d) => sum + d.fee, 0),
+            commissionAsset: deals[0].feeCurrency,
+            fillTime: Math.max(...deals.map((d) => d.timestamp)),
+          };
+        }
+
+        await new Promise(resolve => setTimeout(resolve, FILL_POLL_DELAY_MS));
+      }
+
+      throw new Error(`MEXC: нет сделок по ордеру ${orderId} ${symbol}`);
+    } catch (error) {
+      this.logger.error(`MEXC: Ошибка получения исполнения ордера - ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Ставки фандинга (GET /api/v1/contract/funding_rate/{symbol} - по одному запросу на символ).
+   * Запросы последовательные, темп задает лимитер; символ с ошибкой пропускается
+   */
+  async getFundingRates(symbols: string[]): Promise<FundingRate[]> {
+    const rates: FundingRate[] = [];
+    let failed = 0;
+
+    for (const symbol of symbols) {
+      try {
+        const url = `${this.restBaseUrl}/api/v1/contract/funding_rate/${MexcFutures.toMexcFormat(symbol)}`;
+        const response = await this.limiter.schedule({ fundingRate: 1 }, 'DEFAULT', () => fetch(url));
+
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+
+        const result = (await response.json()) as MexcFundingRateResponse;
+
+        if (!result.success || !result.data) {
+          throw new Error(`MEXC funding_rate failed: ${JSON.stringify(result)}`);
+        }
+
+        rates.push({
+          exchange: this.name,
+          symbol,
+          rate: result.data.fundingRate,
+          nextFundingTime: result.data.nextSettleTime,
+          intervalHours: result.data.collectCycle,
+        });
+      } catch {
+        failed++;
+      }
+    }
+
+    if (failed > 0) {
+      this.logger.warn(`MEXC: фандинг не получен для ${failed} из ${symbols.length} символов`);
+    }
+    if (symbols.length > 0 && rates.length === 0) {
+      throw new Error('MEXC: не удалось получить ни одной ставки фандинга');
+    }
+
+    return rates;
+  }
+
+  /**
+   * Открытые позиции аккаунта (GET /api/v1/private/position/open_positions)
+   * Объем переводится из контрактов в базовую валюту - нужен загруженный getContractSpecs
+   */
+  async getPositions(): Promise<ExchangePosition[]> {
+    if (!this.apiKey || !this.apiSecret) {
+      throw new Error('MEXC: API ключи не установлены');
+    }
 
     try {
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'ApiKey': this.apiKey,
-          'Request-Time': timestamp.toString(),
-          'Signature': signature,
-        },
-      });
+      const positions = await this.fetchOpenPositions();
+
+      return positions
+        .filter((p) => p.holdVol > 0)
+        .map((p) => {
+          const symbol = MexcFutures.toCommonFormat(p.symbol);
+          // Закрытие позиции (в т.ч. взятой в управление после перезапуска) - в ее режиме маржи и плече
+          if (!this.marginModes.has(symbol)) this.marginModes.set(symbol, p.openType === 1 ? 'isolated' : 'cross');
+          if (!this.leverages.has(symbol)) this.leverages.set(symbol, p.leverage);
+          return {
+            exchange: this.name,
+            symbol,
+            side: p.positionType === 1 ? 'LONG' : 'SHORT',
+            quantity: p.holdVol * (this.contractSizes.get(symbol) ?? 1),
+            entryPrice: p.holdAvgPrice,
+            leverage: p.leverage,
+            updateTime: p.updateTime,
+            marginMode: p.openType === 1 ? 'isolated' : 'cross',
+            liquidationPrice: p.liquidatePrice > 0 ? p.liquidatePrice : undefined,
+            margin: p.openType === 1 ? p.im : undefined,
+          };
+        });
+    } catch (error) {
+      this.logger.error(`MEXC: Ошибка получения позиций - ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Довнести изолированную маржу
+   * Endpoint: POST /api/v1/private/position/change_margin (по positionId - ищем среди открытых позиций)
+   */
+  async addIsolatedMargin(symbol: string, side: PositionSide, amount: number): Promise<void> {
+    if (!this.apiKey || !this.apiSecret) {
+      throw new Error('MEXC: API ключи не установлены');
+    }
+
+    try {
+      const mexcSymbol = MexcFutures.toMexcFormat(symbol);
+      const positionType = side === 'LONG' ? 1 : 2;
+      const position = (await this.fetchOpenPositions())
+        .find((p) => p.symbol === mexcSymbol && p.positionType === positionType && p.holdVol > 0);
+      if (!position) {
+        throw new Error(`нет открытой позиции ${side} ${symbol}`);
+      }
+
+      const bodyParams = {
+        positionId: position.positionId,
+        amount: Math.round(amount * 100) / 100,
+        type: 'ADD',
+      };
+
+      const response = await this.signedRequest('POST', '/api/v1/private/position/change_margin', 'changeMargin', 'CLOSE', bodyParams);
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`MEXC change_margin failed: ${response.status} - ${errorText}`);
+      }
+
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(`MEXC change_margin failed: ${result.code} - ${JSON.stringify(result)}`);
+      }
+    } catch (error) {
+      this.logger.error(`MEXC: Ошибка добавления маржи ${side} ${symbol} - ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Открытые позиции в формате MEXC (GET /api/v1/private/position/open_positions)
+   */
+  private async fetchOpenPositions(): Promise<MexcOpenPositionsResponse['data']> {
+    const response = await this.signedRequest('GET', '/api/v1/private/position/open_positions', 'openPositions');
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`MEXC open_positions failed: ${response.status} - ${errorText}`);
+    }
+
+    const result = (await response.json()) as MexcOpenPositionsResponse;
+
+    if (!result.success || !result.data) {
+      throw new Error(`MEXC open_positions failed: ${JSON.stringify(result)}`);
+    }
+
+    return result.data;
+  }
+
+  /**
+   * Получить текущий баланс
+   */
+  async getBalance(): Promise<number> {
+    if (!this.apiKey || !this.apiSecret) {
+      throw new Error('MEXC: API ключи не установлены');
+    }
+
+    try {
+      const response = await this.signedRequest('GET', '/api/v1/private/account/assets', 'assets');
 
       if (!response.ok) {
         const errorText = await response.text();
@@ -408,6 +1299,73 @@ export class MexcFutures {
     }
   }
 
+  /**
+   * Биржа ответила 429 - запросы приостановлены до конца паузы
+   */
+  isRateLimited(): boolean {
+    return this.limiter.isBackingOff();
+  }
+
+  /**
+   * Подписанный запрос через очередь лимитера (counter - лимит эндпоинта из RATE_LIMITS).
+   * Request-Time и подпись формируются, когда подошла очередь
+   */
+  private async signedRequest(
+    method: 'GET' | 'POST',
+    path: string,
+    counter: string,
+    priority: RequestPriority = 'DEFAULT',
+    bodyParams?: object
+  ): Promise<Response> {
+    const apiKey = this.apiKey;
+    const apiSecret = this.apiSecret;
+    if (!apiKey || !apiSecret) {
+      throw new Error('MEXC: API ключи не установлены');
+    }
+
+    const crypto = await import('crypto');
+    const bodyString = bodyParams ? JSON.stringify(bodyParams) : '';
+
+    return this.limiter.schedule({ [counter]: 1 }, priority, () => {
+      const timestamp = Date.now();
+
+      // MEXC подпись: AccessKey + Timestamp + Body JSON (для GET без параметров - пустое тело)
+      const signature = crypto
+        .createHmac('sha256', apiSecret)
+        .update(apiKey + timestamp + bodyString)
+        .digest('hex');
+
+      return fetch(`${this.restBaseUrl}${path}`, {
+        method,
+        headers: {
+          'ApiKey': apiKey,
+          'Request-Time': timestamp.toString(),
+          'Signature': signature,
+          ...(bodyParams ? { 'Content-Type': 'application/json' } : {}),
+        },
+        body: bodyParams ? bodyString : undefined,
+      });
+    });
+  }
+
+  /**
+   * openType ордера по режиму маржи символа; изолированному ордеру нужно плечо (известно после setLeverage или getPositions)
+   */
+  private marginParams(symbol: string): { openType: 1 | 2; leverage?: number } {
+    if (this.marginModes.get(symbol) !== 'isolated') return { openType: 2 };
+
+    const leverage = this.leverages.get(symbol);
+    if (leverage === undefined) {
+      throw new Error(`MEXC: плечо ${symbol} не установлено - изолированный ордер без плеча не отправляем`);
+    }
+    return { openType: 1, leverage };
+  }
+
+  private static toMexcSide(side: OrderSide, reduceOnly: boolean): MexcOrderSide {
+    if (side === 'BUY') return reduceOnly ? 2 : 1;
+    return reduceOnly ? 4 : 3;
+  }
+
   static toCommonFormat(mexcSymbol: string): string {
     return mexcSymbol.replace('_', '');
   }
@@ -0,0 +1,547 @@
+import type {
+  ContractSpec,
+  ExchangeName,
+  ExchangePosition,
+  FundingRate,
+  FuturesExchange,
+  MarginModeStatus,
+  OrderBook,
+  OrderFill,
+  OrderResult,
+  OrderSide,
+  OrderState,
+  OrderStatus,
+  LimitTimeInForce,
+  PositionSide,
+  TickerPrice,
+  TradingPair,
+} from '../types/exchange.js';
+import type { Config, MarginMode, PaperTradingConfig } from '../types/config.js';
+import type { UserDataBus } from '../utils/user-data-bus.js';
+import { LocalOrderBook } from '../utils/order-book.js';
+import { Clock } from '../utils/clock.js';
+import { Logger } from '../utils/logger.js';
+import { RiskGuard } from '../utils/risk-guard.js';
+
+const DEFAULT_LATENCY_MS = 50;
+const DEFAULT_MAX_LEVERAGE = 125;
+
+/**
+ * Позиция симулятора (one-way режим): quantity > 0 - LONG, < 0 - SHORT, в базовой валюте
+ */
+interface PaperPosition {
+  quantity: number;
+  entryPrice: number;
+  addedMargin?: number;    // Довнесенная изолированная маржа, USDT
+}
+
+/**
+ * Лимитный ордер симулятора: исполняется целиком по своей цене (частичных исполнений нет)
+ */
+interface PaperLimitOrder {
+  symbol: string;
+  side: OrderSide;
+  reduceOnly: boolean;
+  baseQty: number;
+  price: number;
+  status: OrderStatus;
+}
+
+/**
+ * Бумажная биржа: рыночные данные берет у настоящего адаптера, ордера исполняет сама.
+ * Исполнение - по живому стакану (без стакана - по лучшей цене + slippage), с задержкой и случайными отказами;
+ * лимитные ордера - по лучшим ценам (см. createLimitOrder).
+ * Баланс, плечо и маржа ведутся отдельно для каждой биржи; ошибки - в формате Binance ({"code":...,"msg":...}).
+ * Состояние только в памяти: после перезапуска позиций на бумажной бирже нет
+ */
+export class SimulatedExchange implements FuturesExchange {
+  readonly name: ExchangeName;
+  private market: FuturesExchange;
+  private config: Config;
+  private paper: PaperTradingConfig;
+  private logger: Logger;
+
+  private walletBalance: number;
+  private specs: Map<string, ContractSpec> = new Map();
+  private leverage: Map<string, number> = new Map();
+  private marginModes: Map<string, MarginMode> = new Map(); // Как на бирже: по умолчанию кросс
+  private positions: Map<string, PaperPosition> = new Map();
+  private fills: Map<string, OrderFill> = new Map();
+  private limitOrders: Map<string, PaperLimitOrder> = new Map();
+  private bus?: UserDataBus;
+  private orderSeq = 0;
+
+  constructor(market: FuturesExchange, config: Config, logger?: Logger) {
+    this.name = market.name;
+    this.market = market;
+    this.config = config;
+    this.paper = config.paper ?? { enabled: true };
+    this.logger = logger || new Logger();
+    this.walletBalance = this.paper.balanceUSD?.[market.name] ?? config.trading.testBalanceUSD;
+  }
+
+  // === РЫНОЧНЫЕ ДАННЫЕ: настоящая биржа ===
+
+  getTopPairs(limit?: number): Promise<TradingPair[]> {
+    return this.market.getTopPairs(limit);
+  }
+
+  healthCheck(): Promise<boolean> {
+    return this.market.healthCheck();
+  }
+
+  connectWebSocket(symbols: string[], onPriceUpdate?: (price: TickerPrice) => void): void {
+    this.market.connectWebSocket(symbols, onPriceUpdate);
+  }
+
+  disconnect(): void {
+    this.bus = undefined;
+    this.market.disconnect();
+  }
+
+  getPrice(symbol: string): TickerPrice | undefined {
+    return this.market.getPrice(symbol);
+  }
+
+  getAllPrices(): Map<string, TickerPrice> {
+    return this.market.getAllPrices();
+  }
+
+  getOrderBook(symbol: string, depth?: number): OrderBook | undefined {
+    return this.market.getOrderBook(symbol, depth);
+  }
+
+  async getContractSpecs(): Promise<ContractSpec[]> {
+    const specs = await this.market.getContractSpecs();
+    this.specs = new Map(specs.map((spec) => [spec.symbol, spec]));
+    return specs;
+  }
+
+  getFundingRates(symbols: string[]): Promise<FundingRate[]> {
+    return this.market.getFundingRates(symbols);
+  }
+
+  // === ТОРГОВЛЯ: симуляция ===
+
+  async createMarketOrder(
+    symbol: string,
+    side: OrderSide,
+    quantity: number,
+    reduceOnly = false
+  ): Promise<OrderResult> {
+    await Clock.sleep(this.latency());
+
+    const takerFee = this.config.fees[this.name].taker;
+    const baseQty = this.validateOrder(symbol, side, quantity, reduceOnly);
+    const avgPrice = this.executionPrice(symbol, side, baseQty);
+    if (avgPrice === undefined) this.reject(-1000, 'No market data for symbol.');
+    this.checkMargin(symbol, side, baseQty, avgPrice, takerFee);
+
+    const fill = this.execute(`${this.name}-paper-${++this.orderSeq}`, symbol, side, reduceOnly, baseQty, avgPrice, takerFee);
+    return { exchange: this.name, symbol, orderId: fill.orderId, fillTime: fill.fillTime, status: 'FILLED', raw: fill };
+  }
+
+  /**
+   * Лимитный ордер. IOC исполняется сразу по стакану, если средняя цена не хуже лимита (комиссия taker), иначе снимается.
+   * POST_ONLY, пересекающий лучшую цену, снимается; остальные лежат в стакане и исполняются целиком по своей цене
+   * (комиссия maker), когда встречная лучшая цена до нее дойдет - проверяется при запросе статуса и снятии
+   */
+  async createLimitOrder(
+    symbol: string,
+    side: OrderSide,
+    quantity: number,
+    price: number,
+    timeInForce: LimitTimeInForce,
+    reduceOnly = false
+  ): Promise<OrderResult> {
+    await Clock.sleep(this.latency());
+
+    const fees = this.config.fees[this.name];
+    const baseQty = this.validateOrder(symbol, side, quantity, reduceOnly);
+    this.checkMargin(symbol, side, baseQty, price, timeInForce === 'POST_ONLY' ? fees.maker : fees.taker);
+
+    const orderId = `${this.name}-paper-${++this.orderSeq}`;
+    const order: PaperLimitOrder = { symbol, side, reduceOnly, baseQty, price, status: 'NEW' };
+    this.limitOrders.set(orderId, order);
+
+    if (timeInForce === 'IOC') {
+      const avgPrice = this.executionPrice(symbol, side, baseQty);
+      const acceptable = avgPrice !== undefined && (side === 'BUY' ? avgPrice <= price : avgPrice >= price);
+      if (acceptable) {
+        this.execute(orderId, symbol, side, reduceOnly, baseQty, avgPrice, fees.taker);
+        order.status = 'FILLED';
+      } else {
+        order.status = 'EXPIRED';
+      }
+    } else if (this.crosses(order)) {
+      order.status = 'EXPIRED';
+    }
+
+    return { exchange: this.name, symbol, orderId, fillTime: Clock.now(), status: order.status, raw: order };
+  }
+
+  async cancelOrder(_symbol: string, orderId: string): Promise<void> {
+    await Clock.sleep(this.latency());
+
+    const order = this.limitOrders.get(orderId);
+    if (!order) return;
+
+    this.matchRestingOrder(orderId, order);
+    if (order.status === 'NEW') {
+      order.status = 'CANCELED';
+    }
+  }
+
+  /**
+   * Изменение цены лежащего ордера как у Binance: orderId сохраняется, пересекающий стакан POST_ONLY снимается
+   */
+  async amendOrder(symbol: string, orderId: string, side: OrderSide, quantity: number, price: number): Promise<OrderResult> {
+    await Clock.sleep(this.latency());
+
+    const order = this.limitOrders.get(orderId);
+    if (!order) this.reject(-2013, 'Order does not exist.');
+
+    this.matchRestingOrder(orderId, order);
+    if (order.status === 'NEW') {
+      order.baseQty = this.validateOrder(symbol, side, quantity, order.reduceOnly);
+      order.price = price;
+      if (this.crosses(order)) {
+        order.status = 'EXPIRED';
+      }
+    }
+
+    return { exchange: this.name, symbol, orderId, fillTime: Clock.now(), status: order.status, raw: order };
+  }
+
+  async getOrderStatus(_symbol: string, orderId: string): Promise<OrderState> {
+    const order = this.limitOrders.get(orderId);
+    if (!order) {
+      // Рыночные ордера исполняются сразу
+      const fill = this.fills.get(orderId);
+      if (!fill) this.reject(-2013, 'Order does not exist.');
+      return { orderId, status: 'FILLED', executedQty: fill.executedQty, avgPrice: fill.avgPrice };
+    }
+
+    this.matchRestingOrder(orderId, order);
+    const fill = this.fills.get(orderId);
+    return { orderId, status: order.status, executedQty: fill?.executedQty ?? 0, avgPrice: fill?.avgPrice ?? 0 };
+  }
+
+  async setLeverage(symbol: string, leverage: number): Promise<void> {
+    await Clock.sleep(this.latency());
+
+    const maxLeverage = this.paper.maxLeverage ?? DEFAULT_MAX_LEVERAGE;
+    if (!Number.isInteger(leverage) || leverage < 1 || leverage > maxLeverage) {
+      this.reject(-4028, `Leverage ${leverage} is not valid`);
+    }
+    this.leverage.set(symbol, leverage);
+  }
+
+  /**
+   * Режим маржи меняется только без позиции по символу (как Binance -4048)
+   */
+  async setMarginMode(symbol: string, mode: MarginMode): Promise<MarginModeStatus> {
+    await Clock.sleep(this.latency());
+
+    if (this.getMarginMode(symbol) === mode) return 'UNCHANGED';
+    if (this.positions.has(symbol)) return 'POSITION_OPEN';
+
+    this.marginModes.set(symbol, mode);
+    return 'SET';
+  }
+
+  /**
+   * Доступный баланс: кошелек + нереализованный PnL - маржа позиций
+   */
+  async getBalance(): Promise<number> {
+    return this.availableBalance();
+  }
+
+  async getOrderFill(_symbol: string, orderId: string): Promise<OrderFill> {
+    const fill = this.fills.get(orderId);
+    if (!fill) this.reject(-2013, 'Order does not exist.');
+    return fill;
+  }
+
+  /**
+   * В изолированном режиме - маржа и цена ликвидации по ней (эффективное плечо = объем / маржа)
+   */
+  async getPositions(): Promise<ExchangePosition[]> {
+    return Array.from(this.positions.entries()).map(([symbol, position]) => {
+      const isolated = this.getMarginMode(symbol) === 'isolated';
+      const side = SimulatedExchange.sideOf(position);
+      const notional = Math.abs(position.quantity) * position.entryPrice;
+      const margin = this.positionMargin(symbol, position);
+      const ticker = this.market.getPrice(symbol);
+
+      return {
+        exchange: this.name,
+        symbol,
+        side,
+        quantity: Math.abs(position.quantity),
+        entryPrice: position.entryPrice,
+        leverage: this.getLeverage(symbol),
+        unrealizedPnl: this.unrealizedPnl(symbol, position),
+        updateTime: Clock.now(),
+        marginMode: this.getMarginMode(symbol),
+        markPrice: ticker ? (ticker.bid + ticker.ask) / 2 : undefined,
+        liquidationPrice: isolated ? RiskGuard.estimateLiquidationPrice(side, position.entryPrice, notional / margin) : undefined,
+        margin: isolated ? margin : undefined,
+      };
+    });
+  }
+
+  /**
+   * Довнесенная маржа блокируется в балансе, пока позиция открыта
+   */
+  async addIsolatedMargin(symbol: string, side: PositionSide, amount: number): Promise<void> {
+    await Clock.sleep(this.latency());
+
+    const position = this.positions.get(symbol);
+    if (this.getMarginMode(symbol) !== 'isolated' || !position || SimulatedExchange.sideOf(position) !== side) {
+      this.reject(-1000, 'No isolated position.');
+    }
+    if (!(amount > 0) || amount > this.availableBalance()) {
+      this.reject(-2019, 'Margin is insufficient.');
+    }
+    position.addedMargin = (position.addedMargin ?? 0) + amount;
+  }
+
+  /**
+   * События исполнения публикуются в шину сразу после ордера, как приватный стрим биржи
+   */
+  async connectUserDataStream(bus: UserDataBus): Promise<void> {
+    this.bus = bus;
+  }
+
+  /**
+   * Ордера исполняются локально - лимиты биржи на них не действуют
+   */
+  isRateLimited(): boolean {
+    return false;
+  }
+
+  /**
+   * Проверки ордера до исполнения (отказы случайные, по символу, объему и reduceOnly). Возвращает объем в базовой валюте
+   */
+  private validateOrder(symbol: string, side: OrderSide, quantity: number, reduceOnly: boolean): number {
+    if ((this.paper.rejectRate ?? 0) > 0 && Math.random() < (this.paper.rejectRate ?? 0)) {
+      this.reject(-1000, 'Simulated rejection');
+    }
+
+    const spec = this.specs.get(symbol);
+    if (!spec) this.reject(-1121, 'Invalid symbol.');
+    if (!(quantity > 0) || quantity < spec.minQty) this.reject(-4003, 'Quantity less than or equal to zero.');
+
+    const baseQty = quantity * spec.contractSize;
+    const position = this.positions.get(symbol) ?? { quantity: 0, entryPrice: 0 };
+    const direction = side === 'BUY' ? 1 : -1;
+
+    // reduceOnly только уменьшает позицию и не переворачивает ее
+    if (reduceOnly && (position.quantity * direction >= 0 || baseQty > Math.abs(position.quantity) * (1 + 1e-9))) {
+      this.reject(-2022, 'ReduceOnly Order is rejected.');
+    }
+    return baseQty;
+  }
+
+  /**
+   * Увеличение позиции требует начальной маржи по текущему плечу
+   */
+  private checkMargin(symbol: string, side: OrderSide, baseQty: number, price: number, feePercent: number): void {
+    const position = this.positions.get(symbol) ?? { quantity: 0, entryPrice: 0 };
+    const opening = position.quantity * (side === 'BUY' ? 1 : -1) >= 0;
+    const notional = price * baseQty;
+
+    if (opening && notional / this.getLeverage(symbol) + notional * feePercent / 100 > this.availableBalance()) {
+      this.reject(-2019, 'Margin is insufficient.');
+    }
+  }
+
+  /**
+   * Исполнить объем по цене: позиция, баланс, комиссия, запись исполнения и события приватного стрима
+   */
+  private execute(
+    orderId: string,
+    symbol: string,
+    side: OrderSide,
+    reduceOnly: boolean,
+    baseQty: number,
+    avgPrice: number,
+    feePercent: number
+  ): OrderFill {
+    const position = this.positions.get(symbol) ?? { quantity: 0, entryPrice: 0 };
+    const direction = side === 'BUY' ? 1 : -1;
+    const commission = avgPrice * baseQty * feePercent / 100;
+
+    if (position.quantity * direction >= 0) {
+      const total = Math.abs(position.quantity) + baseQty;
+      position.entryPrice = (position.entryPrice * Math.abs(position.quantity) + avgPrice * baseQty) / total;
+      position.quantity += direction * baseQty;
+    } else {
+      // Закрытие части позиции: реализуем PnL по цене входа позиции
+      this.walletBalance += -direction * (avgPrice - position.entryPrice) * baseQty;
+      position.quantity += direction * baseQty;
+      if (Math.abs(position.quantity) < 1e-12) position.quantity = 0;
+    }
+    this.walletBalance -= commission;
+
+    if (position.quantity === 0) {
+      this.positions.delete(symbol);
+    } else {
+      this.positions.set(symbol, position);
+    }
+
+    const fill: OrderFill = { orderId, avgPrice, executedQty: baseQty, commission, commissionAsset: 'USDT', fillTime: Clock.now() };
+    this.fills.set(orderId, fill);
+
+    this.logger.info(
+      `[PAPER] ${this.name.toUpperCase()} ${side} ${symbol} ${baseQty} @ ${avgPrice.toFixed(6)}, ` +
+      `комиссия $${commission.toFixed(4)}, баланс $${this.walletBalance.toFixed(2)}`
+    );
+    this.publish(symbol, side, reduceOnly, fill, position);
+    return fill;
+  }
+
+  /**
+   * Лежащий в стакане ордер исполняется, когда встречная лучшая цена дошла до его цены.
+   * reduce-only ордер, которому больше нечего закрывать, снимается
+   */
+  private matchRestingOrder(orderId: string, order: PaperLimitOrder): void {
+    if (order.status !== 'NEW' || !this.crosses(order)) return;
+
+    const position = this.positions.get(order.symbol) ?? { quantity: 0, entryPrice: 0 };
+    const direction = order.side === 'BUY' ? 1 : -1;
+    if (order.reduceOnly && (position.quantity * direction >= 0 || order.baseQty > Math.abs(position.quantity) * (1 + 1e-9))) {
+      order.status = 'CANCELED';
+      return;
+    }
+
+    this.execute(orderId, order.symbol, order.side, order.reduceOnly, order.baseQty, order.price, this.config.fees[this.name].maker);
+    order.status = 'FILLED';
+  }
+
+  /**
+   * Цена ордера достает до встречной лучшей цены
+   */
+  private crosses(order: PaperLimitOrder): boolean {
+    const ticker = this.market.getPrice(order.symbol);
+    if (!ticker) return false;
+    return order.side === 'BUY' ? ticker.ask <= order.price : ticker.bid >= order.price;
+  }
+
+  private publish(symbol: string, side: OrderSide, reduceOnly: boolean, fill: OrderFill, position: PaperPosition): void {
+    if (!this.bus) return;
+
+    const timestamp = fill.fillTime ?? Clock.now();
+    this.bus.emit('order', {
+      exchange: this.name,
+      symbol,
+      orderId: fill.orderId,
+      side,
+      reduceOnly,
+      status: 'FILLED',
+      executedQty: fill.executedQty,
+      avgPrice: fill.avgPrice,
+      commission: fill.commission,
+      commissionAsset: fill.commissionAsset,
+      isLiquidation: false,
+      timestamp,
+    });
+    this.bus.emit('position', {
+      exchange: this.name,
+      symbol,
+      side: reduceOnly ? (side === 'BUY' ? 'SHORT' : 'LONG') : SimulatedExchange.sideOf(position),
+      quantity: Math.abs(position.quantity),
+      entryPrice: position.entryPrice,
+      unrealizedPnl: this.unrealizedPnl(symbol, position),
+      timestamp,
+    });
+    this.bus.emit('balance', {
+      exchange: this.name,
+      asset: 'USDT',
+      walletBalance: this.walletBalance,
+      availableBalance: this.availableBalance(),
+      timestamp,
+    });
+  }
+
+  /**
+   * Средняя цена исполнения объема baseQty: BUY забирает asks, SELL - bids.
+   * Объем сверх глубины стакана исполняется по последнему уровню с проскальзыванием из конфига
+   */
+  private executionPrice(symbol: string, side: OrderSide, baseQty: number): number | undefined {
+    const slippage = this.config.slippage.percent;
+    const book = this.market.getOrderBook(symbol);
+    const levels = book ? (side === 'BUY' ? book.asks : book.bids) : [];
+
+    if (levels.length > 0) {
+      let filledQty = 0;
+      let cost = 0;
+
+      for (const level of levels) {
+        const take = Math.min(baseQty - filledQty, level.quantity);
+        filledQty += take;
+        cost += take * level.price;
+        if (filledQty >= baseQty) break;
+      }
+
+      if (filledQty < baseQty) {
+        const lastPrice = levels[levels.length - 1].price;
+        cost += (baseQty - filledQty) * lastPrice * (1 + (side === 'BUY' ? 1 : -1) * slippage / 100);
+      }
+      return cost / baseQty;
+    }
+
+    const ticker = this.market.getPrice(symbol);
+    if (!ticker) return undefined;
+
+    const bestPrice = side === 'BUY' ? ticker.ask : ticker.bid;
+    const bestQty = side === 'BUY' ? ticker.askQty : ticker.bidQty;
+    return LocalOrderBook.estimateTopOfBook(side, baseQty * bestPrice, bestPrice, bestQty, slippage).avgPrice;
+  }
+
+  private availableBalance(): number {
+    let available = this.walletBalance;
+
+    for (const [symbol, position] of this.positions) {
+      available += this.unrealizedPnl(symbol, position);
+      available -= this.positionMargin(symbol, position);
+    }
+    return available;
+  }
+
+  /**
+   * Начальная маржа по плечу плюс довнесенная
+   */
+  private positionMargin(symbol: string, position: PaperPosition): number {
+    return Math.abs(position.quantity) * position.entryPrice / this.getLeverage(symbol) + (position.addedMargin ?? 0);
+  }
+
+  private unrealizedPnl(symbol: string, position: PaperPosition): number {
+    const ticker = this.market.getPrice(symbol);
+    if (!ticker) return 0;
+
+    const markPrice = (ticker.bid + ticker.ask) / 2;
+    return (markPrice - position.entryPrice) * position.quantity;
+  }
+
+  private getLeverage(symbol: string): number {
+    return this.leverage.get(symbol) ?? this.config.trading.leverage;
+  }
+
+  private getMarginMode(symbol: string): MarginMode {
+    return this.marginModes.get(symbol) ?? 'cross';
+  }
+
+  private latency(): number {
+    return (this.paper.latencyMs ?? DEFAULT_LATENCY_MS) + Math.random() * (this.paper.latencyJitterMs ?? 0);
+  }
+
+  private reject(code: number, msg: string): never {
+    throw new Error(`${this.name.toUpperCase()} [PAPER] order rejected: ${JSON.stringify({ code, msg })}`);
+  }
+
+  private static sideOf(position: PaperPosition): PositionSide {
+    return position.quantity >= 0 ? 'LONG' : 'SHORT';
+  }
+}
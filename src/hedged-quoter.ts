@@ -0,0 +1,486 @@
+import type {
+  ArbitrageOpportunity,
+  ExchangeName,
+  FuturesExchange,
+  OrderFill,
+  OrderSide,
+  OrderState,
+  OrderUpdateEvent,
+} from './types/exchange.js';
+import type { Config, HedgedQuotingConfig } from './types/config.js';
+import type { ContractMetadataService } from './utils/contract-metadata.js';
+import type { UserDataBus } from './utils/user-data-bus.js';
+import type { Strategy } from './strategies/strategy.js';
+import type { TradeExecutor } from './trade-executor.js';
+import { LimitOrderExecutor } from './utils/limit-order-executor.js';
+import { Logger } from './utils/logger.js';
+import { Clock } from './utils/clock.js';
+
+const DEFAULT_REQUOTE_INTERVAL_MS = 250;
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+
+/**
+ * Котировка одной стороны: POST_ONLY ордер на бирже котировок
+ */
+interface Quote {
+  side: OrderSide;
+  orderId: string;
+  price: number;
+  quantity: number;            // В единицах ордера биржи котировок
+}
+
+/**
+ * Котировки символа. Пока они стоят, символ занят в TradeExecutor (reserveQuote)
+ */
+interface SymbolQuotes {
+  symbol: string;
+  quotes: Quote[];
+  buyQuantity: number;         // Объем котировки BUY в единицах ордера
+  sellQuantity: number;        // Объем котировки SELL в единицах ордера
+  lastPollAt: number;
+  fillPending: boolean;        // Приватный стрим сообщил об исполнении - проверить статус на ближайшем цикле
+  withdrawPending: boolean;    // Котировки не удалось снять - повторить снятие на ближайшем цикле, не перевыставляя
+}
+
+/**
+ * Котирование maker-taker: на бирже котировок (makerExchange) стоят POST_ONLY ордера BUY и SELL
+ * по цене, дающей targetSpreadPercent после комиссий входа к лучшим ценам биржи хеджа.
+ * Каждые requoteIntervalMs цены пересчитываются и ордера перевыставляются (amendOrder) при сдвиге на тик и больше.
+ * Исполнение узнается из приватного стрима или опросом статуса (pollIntervalMs); тогда остальные котировки
+ * символа снимаются, а исполненный объем хеджируется рыночным ордером через TradeExecutor.openHedgedPair
+ * (исполнились обе котировки - без хеджа, TradeExecutor.unwindCrossedQuotes).
+ * Котировки символа занимают место среди открытых пар TradeExecutor и резервируют капитал (reserveQuote),
+ * но не слот одновременных открытий: он берется только при исполнении котировки
+ */
+export class HedgedQuoter {
+  private config: Config;
+  private quoting: HedgedQuotingConfig;
+  private maker: FuturesExchange;
+  private hedge: FuturesExchange;
+  private executor: TradeExecutor;
+  private metadata: ContractMetadataService;
+  private strategy: Strategy;
+  private logger: Logger;
+
+  private active: Map<string, SymbolQuotes> = new Map();
+  private excluded: Set<string> = new Set(); // Символы, для которых котировку не построить (нет контракта, объема, режима маржи)
+  private leverageSet: Set<string> = new Set();
+  private interval: NodeJS.Timeout | null = null;
+  private currentTick?: Promise<void>;
+
+  constructor(
+    config: Config,
+    exchanges: FuturesExchange[],
+    executor: TradeExecutor,
+    metadata: ContractMetadataService,
+    userData: UserDataBus,
+    strategy: Strategy,
+    logger?: Logger
+  ) {
+    if (!config.hedgedQuoting) {
+      throw new Error('HedgedQuoter: нет секции hedgedQuoting в конфигурации');
+    }
+
+    this.config = config;
+    this.quoting = config.hedgedQuoting;
+    this.executor = executor;
+    this.metadata = metadata;
+    this.strategy = strategy;
+    this.logger = logger || new Logger();
+
+    const find = (name: string): FuturesExchange => {
+      const exchange = exchanges.find((candidate) => candidate.name === name);
+      if (!exchange) {
+        throw new Error(`HedgedQuoter: биржа ${name} не подключена`);
+      }
+      return exchange;
+    };
+    this.maker = find(this.quoting.makerExchange ?? 'mexc');
+    this.hedge = find(this.quoting.hedgeExchange ?? 'binance');
+
+    userData.on('order', (event) => this.onOrderUpdate(event));
+  }
+
+  start(): void {
+    if (this.interval) return;
+
+    // БЕЗОПАСНОСТЬ: тот же лимит, что и при открытии пар реальными ордерами
+    if (!this.config.trading.testMode && this.config.trading.positionSizeUSD > 100) {
+      this.logger.error(`Котирование ОТКЛОНЕНО: Размер позиции $${this.config.trading.positionSizeUSD} > $100`);
+      return;
+    }
+
+    this.logger.info(
+      `Котирование ${this.maker.name.toUpperCase()} -> хедж ${this.hedge.name.toUpperCase()}: ` +
+      `${this.quoting.symbols.join(', ')}, спред ${this.quoting.targetSpreadPercent}%`
+    );
+
+    this.interval = setInterval(() => {
+      // Следующий цикл - только после завершения текущего
+      if (this.currentTick) return;
+      this.currentTick = this.tick().finally(() => {
+        this.currentTick = undefined;
+      });
+    }, this.quoting.requoteIntervalMs ?? DEFAULT_REQUOTE_INTERVAL_MS);
+  }
+
+  /**
+   * Остановить котирование и снять все котировки. Исполненные к этому моменту котировки хеджируются
+   */
+  async stop(): Promise<void> {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+    await this.currentTick;
+
+    for (const state of Array.from(this.active.values())) {
+      try {
+        await this.withdraw(state);
+      } catch (error) {
+        this.logger.error(
+          `Котировки ${state.symbol} не сняты: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Символы с выставленными котировками
+   */
+  getQuotedSymbols(): string[] {
+    return Array.from(this.active.keys());
+  }
+
+  /**
+   * Один цикл: проверка исполнений, затем перестановка котировок по всем символам
+   */
+  async tick(): Promise<void> {
+    for (const symbol of this.quoting.symbols) {
+      if (this.excluded.has(symbol)) continue;
+
+      try {
+        await this.updateSymbol(symbol);
+      } catch (error) {
+        this.logger.warn(`Котирование ${symbol}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  private async updateSymbol(symbol: string): Promise<void> {
+    let state = this.active.get(symbol);
+    if (state?.withdrawPending) {
+      await this.withdraw(state);
+      return;
+    }
+    if (state) {
+      if (await this.checkFills(state)) return;
+    } else {
+      state = await this.activate(symbol);
+      if (!state) return;
+    }
+
+    // Открывать нельзя или биржа ограничила запросы - котировки снимаются, слот освобождается
+    if (!this.canQuote()) {
+      await this.withdraw(state);
+      return;
+    }
+
+    for (const side of ['BUY', 'SELL'] as OrderSide[]) {
+      const price = this.quotePrice(symbol, side);
+      if (price === undefined) {
+        // Без цен биржи хеджа котировка не гарантирует спред
+        await this.withdraw(state);
+        return;
+      }
+      await this.requote(state, side, price);
+    }
+  }
+
+  /**
+   * Занять слот котировок символа. undefined - котировать сейчас нельзя
+   */
+  private async activate(symbol: string): Promise<SymbolQuotes | undefined> {
+    if (!this.canQuote() || !this.executor.canOpenNewPosition()) return undefined;
+
+    const open = Array.from(this.executor.getOpenPositions().values()).some((pair) => pair.symbol === symbol);
+    if (open) return undefined;
+
+    const buyPrice = this.quotePrice(symbol, 'BUY');
+    const sellPrice = this.quotePrice(symbol, 'SELL');
+    if (buyPrice === undefined || sellPrice === undefined) return undefined;
+
+    const size = this.config.trading.positionSizeUSD;
+    const maxMismatch = this.config.trading.maxLegMismatchPercent;
+    const buySizing = this.metadata.sizePair(symbol, this.maker.name, this.hedge.name, size, buyPrice, buyPrice, maxMismatch);
+    const sellSizing = this.metadata.sizePair(symbol, this.hedge.name, this.maker.name, size, sellPrice, sellPrice, maxMismatch);
+    if (!buySizing.ok || !sellSizing.ok) {
+      const details = !buySizing.ok ? buySizing.details : !sellSizing.ok ? sellSizing.details : '';
+      this.logger.warn(`Котирование ${symbol} отключено: ${details}`);
+      this.excluded.add(symbol);
+      return undefined;
+    }
+
+    if (this.executor.reserveQuote(symbol, [this.maker.name, this.hedge.name])) return undefined;
+
+    // Режим маржи и плечо - до первой котировки: исполненную котировку хеджируют без задержек
+    if (!await this.prepareMargin(symbol)) {
+      this.executor.releaseQuote(symbol);
+      this.excluded.add(symbol);
+      return undefined;
+    }
+
+    const state: SymbolQuotes = {
+      symbol,
+      quotes: [],
+      buyQuantity: buySizing.longOrderQuantity,
+      sellQuantity: sellSizing.shortOrderQuantity,
+      lastPollAt: Date.now(),
+      fillPending: false,
+      withdrawPending: false,
+    };
+    this.active.set(symbol, state);
+    return state;
+  }
+
+  /**
+   * Торговля разрешена и не остановлена, биржи не ограничили запросы
+   */
+  private canQuote(): boolean {
+    const halted = !this.config.trading.enabled || this.executor.getTradingHalt() !== undefined;
+    return !halted && !this.maker.isRateLimited() && !this.hedge.isRateLimited();
+  }
+
+  /**
+   * Режим маржи и плечо ставятся один раз на символ до первой котировки: перед хеджем на это нет времени
+   */
+  private async prepareMargin(symbol: string): Promise<boolean> {
+    if (this.leverageSet.has(symbol)) return true;
+
+    const exchanges = [this.maker.name, this.hedge.name];
+    if (!await this.executor.prepareMarginMode(symbol, exchanges)) return false;
+    if (!await this.executor.prepareLeverage(symbol, exchanges)) return false;
+
+    this.leverageSet.add(symbol);
+    return true;
+  }
+
+  /**
+   * Поставить или перевыставить котировку стороны по новой цене (если цена сдвинулась хотя бы на тик)
+   */
+  private async requote(state: SymbolQuotes, side: OrderSide, price: number): Promise<void> {
+    const { symbol } = state;
+    const quote = state.quotes.find((candidate) => candidate.side === side);
+
+    if (!quote) {
+      const quantity = side === 'BUY' ? state.buyQuantity : state.sellQuantity;
+      const result = await this.maker.createLimitOrder(symbol, side, quantity, price, 'POST_ONLY');
+      // Цена пересекла бы стакан биржи котировок - ставим на следующем цикле
+      if (!result.orderId || result.status === 'EXPIRED') return;
+
+      state.quotes.push({ side, orderId: result.orderId, price, quantity });
+      return;
+    }
+
+    const tickSize = this.metadata.getSpec(this.maker.name, symbol)?.tickSize ?? 0;
+    if (Math.abs(price - quote.price) < tickSize * 0.5) return;
+
+    let result;
+    try {
+      result = await this.maker.amendOrder(symbol, quote.orderId, side, quote.quantity, price);
+    } catch (error) {
+      // Ордер мог исполниться между проверкой и перевыставлением
+      state.fillPending = true;
+      throw error;
+    }
+    quote.orderId = result.orderId;
+    quote.price = price;
+    // Ордер исполнился или снят биржей - итог проверит следующий цикл
+    if (result.status !== undefined && result.status !== 'NEW') {
+      state.fillPending = true;
+    }
+  }
+
+  /**
+   * Проверить статус котировок (по событию стрима или по таймеру опроса).
+   * true - котировка исполнилась и символ ушел в хедж
+   */
+  private async checkFills(state: SymbolQuotes): Promise<boolean> {
+    const now = Date.now();
+    const pollIntervalMs = this.quoting.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    if (!state.fillPending && now - state.lastPollAt < pollIntervalMs) return false;
+
+    state.fillPending = false;
+    state.lastPollAt = now;
+
+    for (const quote of [...state.quotes]) {
+      const order = await this.maker.getOrderStatus(state.symbol, quote.orderId);
+      if (order.executedQty > 0) {
+        await this.withdraw(state);
+        return true;
+      }
+      if (!HedgedQuoter.isActive(order)) {
+        state.quotes = state.quotes.filter((candidate) => candidate !== quote);
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Снять котировки символа. Если какая-то успела исполниться - хеджировать, иначе освободить слот.
+   * Исполнились обе - они взаимно закрылись на бирже котировки, хедж не нужен: TradeExecutor закрывает разницу объемов.
+   * Котировка, которую снять не удалось, остается на учете (слот котировок тоже) до повторного снятия,
+   * но исполненные котировки хеджируются сразу
+   */
+  private async withdraw(state: SymbolQuotes): Promise<void> {
+    const executed: Array<{ quote: Quote; order: OrderState }> = [];
+    const remaining: Quote[] = [];
+    let failure: unknown;
+
+    for (const quote of state.quotes) {
+      try {
+        await this.maker.cancelOrder(state.symbol, quote.orderId);
+        const order = await this.maker.getOrderStatus(state.symbol, quote.orderId);
+        if (HedgedQuoter.isActive(order)) {
+          throw new Error(`${this.maker.name.toUpperCase()}: котировка ${quote.orderId} ${state.symbol} не снята (${order.status})`);
+        }
+        if (order.executedQty > 0) {
+          executed.push({ quote, order });
+        }
+      } catch (error) {
+        remaining.push(quote);
+        failure = failure ?? error;
+      }
+    }
+    state.quotes = remaining;
+    state.withdrawPending = remaining.length > 0;
+
+    // Исполнение - уже открытие пары: слот котировок переходит в слот открытия.
+    // Пока котировка символа не снята, слот котировок остается за ней, хедж открывается без перехода
+    if (executed.length > 0 && !state.withdrawPending) {
+      this.executor.startQuotedOpening(state.symbol);
+    }
+
+    try {
+      const buy = executed.find((item) => item.quote.side === 'BUY');
+      const sell = executed.find((item) => item.quote.side === 'SELL');
+      if (buy && sell) {
+        const buyFill = await this.loadFill(state.symbol, buy.quote, buy.order);
+        const sellFill = await this.loadFill(state.symbol, sell.quote, sell.order);
+        await this.executor.unwindCrossedQuotes(state.symbol, this.maker.name, buyFill, sellFill);
+      } else if (executed.length > 0) {
+        await this.hedgeFill(state.symbol, executed[0].quote, executed[0].order);
+      }
+    } finally {
+      if (!state.withdrawPending) {
+        this.active.delete(state.symbol);
+        this.executor.releaseQuote(state.symbol);
+        this.executor.releaseOpening(state.symbol);
+      }
+    }
+
+    if (failure !== undefined) throw failure;
+  }
+
+  /**
+   * Исполненная котировка (уже снятая) -> пара с рыночным хеджем
+   */
+  private async hedgeFill(symbol: string, quote: Quote, order: OrderState): Promise<void> {
+    const fill = await this.loadFill(symbol, quote, order);
+    const opportunity = this.buildOpportunity(symbol, quote.side, fill.avgPrice);
+    await this.executor.openHedgedPair(opportunity, this.maker.name, fill, this.strategy.maxHoldMs());
+  }
+
+  /**
+   * Исполнение снятой котировки. Не получено - по статусу ордера: ждать нельзя, комиссия неизвестна
+   */
+  private async loadFill(symbol: string, quote: Quote, order: OrderState): Promise<OrderFill> {
+    try {
+      return await this.maker.getOrderFill(symbol, quote.orderId);
+    } catch (error) {
+      this.logger.warn(
+        `${this.maker.name.toUpperCase()}: исполнение котировки ${quote.orderId} не получено, берем по статусу: ` +
+        `${error instanceof Error ? error.message : String(error)}`
+      );
+      return {
+        orderId: quote.orderId,
+        avgPrice: order.avgPrice || quote.price,
+        executedQty: order.executedQty,
+        commission: 0,
+        commissionAsset: 'USDT',
+      };
+    }
+  }
+
+  /**
+   * Цена котировки стороны: от лучшей цены биржи хеджа, по которой будет закрыт хедж
+   * (BUY котировка - от bid, хедж продает; SELL - от ask), на targetSpreadPercent + комиссии входа
+   */
+  private quotePrice(symbol: string, side: OrderSide): number | undefined {
+    const book = this.hedge.getOrderBook(symbol, 1);
+    const ticker = this.hedge.getPrice(symbol);
+    const bid = book?.bids[0]?.price ?? ticker?.bid;
+    const ask = book?.asks[0]?.price ?? ticker?.ask;
+    if (!bid || !ask) return undefined;
+
+    const offsetPercent = this.quoting.targetSpreadPercent + this.entryFeePercent();
+    const price = side === 'BUY'
+      ? bid * (1 - offsetPercent / 100)
+      : ask * (1 + offsetPercent / 100);
+
+    return this.metadata.toLimitPrice(this.maker.name, symbol, side, price);
+  }
+
+  /**
+   * Возможность для пары по исполненной котировке: цена ноги котировки - ее исполнение,
+   * цена хеджа - текущая лучшая цена биржи хеджа. Прибыль - после комиссий входа и выхода
+   */
+  private buildOpportunity(symbol: string, makerSide: OrderSide, makerPrice: number): ArbitrageOpportunity {
+    const ticker = this.hedge.getPrice(symbol);
+    const book = this.hedge.getOrderBook(symbol, 1);
+    const makerBuys = makerSide === 'BUY';
+    const hedgePrice = makerBuys
+      ? book?.bids[0]?.price ?? ticker?.bid ?? makerPrice
+      : book?.asks[0]?.price ?? ticker?.ask ?? makerPrice;
+
+    const buyExchange: ExchangeName = makerBuys ? this.maker.name : this.hedge.name;
+    const sellExchange: ExchangeName = makerBuys ? this.hedge.name : this.maker.name;
+    const buyPrice = makerBuys ? makerPrice : hedgePrice;
+    const sellPrice = makerBuys ? hedgePrice : makerPrice;
+    const spreadPercent = ((sellPrice - buyPrice) / buyPrice) * 100;
+    const exitFeePercent = LimitOrderExecutor.feePercent(this.config, this.maker.name)
+      + LimitOrderExecutor.feePercent(this.config, this.hedge.name);
+
+    return {
+      symbol,
+      buyExchange,
+      sellExchange,
+      buyPrice,
+      sellPrice,
+      strategy: this.strategy.id,
+      spreadPercent,
+      profitPercent: spreadPercent - this.entryFeePercent() - exitFeePercent,
+      timestamp: Clock.now(),
+    };
+  }
+
+  /**
+   * Комиссии входа: maker на бирже котировок, taker хеджа
+   */
+  private entryFeePercent(): number {
+    return this.config.fees[this.maker.name].maker + this.config.fees[this.hedge.name].taker;
+  }
+
+  private onOrderUpdate(event: OrderUpdateEvent): void {
+    if (event.exchange !== this.maker.name || event.executedQty <= 0) return;
+
+    const state = this.active.get(event.symbol);
+    if (state?.quotes.some((quote) => quote.orderId === event.orderId)) {
+      state.fillPending = true;
+    }
+  }
+
+  private static isActive(order: OrderState): boolean {
+    return order.status === 'NEW' || order.status === 'PARTIALLY_FILLED';
+  }
+}
@@ -0,0 +1,63 @@
+import fs from 'fs';
+import { Logger } from './utils/logger.js';
+import { ExcelReporter } from './utils/excel-reporter.js';
+import { StateJournal } from './utils/state-journal.js';
+
+/**
+ * Excel отчет по сессии из журнала (без подключения к биржам)
+ * npm run report                 - последняя сессия
+ * npm run report -- <sessionId>  - конкретная сессия
+ * npm run report -- --list       - список сессий
+ */
+async function main() {
+  const logger = new Logger();
+  const journal = new StateJournal(logger);
+  const sessions = journal.listSessions();
+  const arg = process.argv[2];
+
+  if (arg === '--list') {
+    for (const sessionId of sessions) {
+      const state = journal.load(sessionId);
+      const status = state.endTime !== undefined ? 'завершена' : 'оборвана';
+      console.log(`${sessionId}  ${state.testMode ? '[TEST]' : '[REAL]'}  сделок: ${state.closedPositions.length}, ${status}`);
+    }
+    return;
+  }
+
+  const sessionId = arg ?? sessions[sessions.length - 1];
+  if (!sessionId || !sessions.includes(sessionId)) {
+    logger.error(sessionId ? `Сессия ${sessionId} не найдена` : 'Журналов сессий нет');
+    process.exit(1);
+  }
+
+  const state = journal.load(sessionId);
+  const stats = state.testStats;
+
+  fs.mkdirSync('reports', { recursive: true });
+
+  const reporter = new ExcelReporter(logger);
+  await reporter.generateReport(
+    state.closedPositions,
+    {
+      openPositions: state.openPositions.length,
+      closedPositions: state.closedPositions.length,
+      testStats: stats,
+      winRate: stats.totalTrades > 0 ? (stats.profitableTrades / stats.totalTrades * 100) : 0,
+      netProfit: stats.totalProfit - stats.totalLoss,
+    },
+    state.wsDowntimes,
+    state.skippedOpportunities,
+    state.tradingErrors,
+    state.initialBalance,
+    state.currentBalance,
+    state.startTime,
+    state.endTime ?? state.updatedAt,
+    state.openPositions,
+    state.legIncidents
+  );
+}
+
+main().catch((error) => {
+  console.error(`Ошибка построения отчета: ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+});
@@ -16,7 +16,6 @@ async function main() {
 
   // Переменные для graceful shutdown
   let detector: ArbitrageDetector | null = null;
-  const sessionStartTime = Date.now();
 
   try {
     // 3. Загружаем конфиг
@@ -28,30 +27,14 @@ async function main() {
     const apiKeys = configLoader.getApiKeys();
 
     // 4. Создаем детектор
-    detector = new ArbitrageDetector(
-      config,
-      logger,
-      {
-        binanceKey: apiKeys.BINANCE_API_KEY,
-        binanceSecret: apiKeys.BINANCE_API_SECRET,
-        mexcKey: apiKeys.MEXC_API_KEY,
-        mexcSecret: apiKeys.MEXC_API_SECRET,
-      }
-    );
+    detector = new ArbitrageDetector(config, logger, apiKeys);
     detector.setTui(tui); // Обязательно связываем!
 
     // 4.5. Проверка API ключей перед торговлей
     tui.log('{cyan-fg}Проверка API ключей...{/}');
 
     const validator = new ApiValidator(logger, tui);
-    const binanceInstance = detector.getBinanceFutures();
-    const mexcInstance = detector.getMexcFutures();
-
-    const validationResult = await validator.validateAll(
-      binanceInstance,
-      mexcInstance,
-      { binance: config.exchanges.binance.enabled, mexc: config.exchanges.mexc.enabled }
-    );
+    const validationResult = await validator.validateAll(detector.getExchanges());
 
     if (!validationResult.success) {
       tui.log('{red-fg}❌ Торговля не может быть запущена из-за ошибок API{/}');
@@ -70,18 +53,21 @@ async function main() {
 
       try {
         if (detector) {
-          // 1. Принудительно закрыть все позиции
+          // 1. Снять котировки и остановить стратегии, чтобы не открылись новые пары
+          await detector.stopTrading();
+
+          // 2. Принудительно закрыть все позиции
           const tradeExecutor = detector.getTradeExecutor();
           await tradeExecutor.forceCloseAllPositions();
 
-          // 2. Получить данные для отчета
+          // 3. Получить данные для отчета
           const stats = tradeExecutor.getStats();
           const closedPositions = tradeExecutor.getClosedPositions();
           const skippedOpportunities = tradeExecutor.getSkippedOpportunities();
           const tradingErrors = tradeExecutor.getTradingErrors();
           const wsDowntimes = detector.getWsMonitor().getDowntimes();
 
-          // 3. Сгенерировать отчет
+          // 4. Сгенерировать отчет
           const reporter = new ExcelReporter(logger);
           const openPositionsArray = Array.from(tradeExecutor.getOpenPositions().values());
           const reportPath = await reporter.generateReport(
@@ -92,21 +78,23 @@ async function main() {
             tradingErrors,
             tradeExecutor.getInitialBalance(),
             tradeExecutor.getCurrentBalance(),
-            sessionStartTime,
+            detector.getJournal().getStartTime(),
             sessionEndTime,
-            openPositionsArray
+            openPositionsArray,
+            tradeExecutor.getLegIncidents()
           );
 
           tui.log(`{green-fg}Отчет сохранен: ${reportPath}{/}`);
+          detector.getJournal().end();
 
-          // 4. Остановить detector
+          // 5. Остановить detector
           await detector.stop();
         }
 
-        // 5. Небольшая пауза чтобы пользователь увидел сообщение
+        // 6. Небольшая пауза чтобы пользователь увидел сообщение
         await new Promise(resolve => setTimeout(resolve, 1500));
 
-        // 6. Уничтожить TUI и выйти
+        // 7. Уничтожить TUI и выйти
         tui.destroy();
         process.exit(0);
       } catch (error) {
@@ -155,12 +143,16 @@ async function main() {
 
         // Получаем балансы с каждой биржи
         let balanceText: string;
-        if (!config.trading.testMode) {
-          // В реальном режиме показываем балансы каждой биржи
+        if (!config.trading.testMode || config.paper?.enabled) {
+          // В реальной и бумажной торговле показываем балансы каждой биржи
           try {
             const balances = await tradeExecutor.getExchangeBalances();
-            const totalBalance = balances.binance + balances.mexc;
-            balanceText = `Binance: $${balances.binance.toFixed(0)}, MEXC: $${balances.mexc.toFixed(0)}, Sum: $${totalBalance.toFixed(0)} (+$${inPositions.toFixed(0)} в поз.)`;
+            const entries = Object.entries(balances);
+            const totalBalance = entries.reduce((sum, [, balance]) => sum + balance, 0);
+            const perExchange = entries
+              .map(([name, balance]) => `${name.toUpperCase()}: $${balance.toFixed(0)}`)
+              .join(', ');
+            balanceText = `${perExchange}, Sum: $${totalBalance.toFixed(0)} (+$${inPositions.toFixed(0)} в поз.)`;
           } catch (error) {
             // Если не удалось получить балансы, показываем как раньше
             const freeBalance = tradeExecutor.getCurrentBalance();
@@ -0,0 +1,139 @@
+import type { ArbitrageOpportunity, PositionPair } from '../types/exchange.js';
+import type { FundingStrategyParams } from '../types/config.js';
+import type { Strategy, StrategyContext, StrategyIntent } from './strategy.js';
+
+/**
+ * Как часто искать входы (сами ставки обновляются раз в funding.refreshIntervalMs)
+ */
+const SCAN_INTERVAL_MS = 5000;
+
+/**
+ * Фандинг-арбитраж: LONG на бирже с меньшей ставкой, SHORT - с большей.
+ * Пара держится через расчеты фандинга (сходимость цен ее не закрывает)
+ * и закрывается, когда разница ставок падает ниже exitRateDiffPercent, или по maxHoldHours
+ */
+export class FundingArbitrageStrategy implements Strategy {
+  readonly id = 'FUNDING' as const;
+  private context: StrategyContext;
+  private params: Required<FundingStrategyParams>;
+  private lastScan = 0;
+
+  constructor(context: StrategyContext, params: FundingStrategyParams = {}) {
+    this.context = context;
+    this.params = {
+      minRateDiffPercent: params.minRateDiffPercent ?? 0.03,
+      exitRateDiffPercent: params.exitRateDiffPercent ?? 0.005,
+      maxEntryCostPercent: params.maxEntryCostPercent ?? 0.1,
+      maxHoldHours: params.maxHoldHours ?? 72,
+    };
+  }
+
+  maxHoldMs(): number {
+    return this.params.maxHoldHours === 0 ? Infinity : this.params.maxHoldHours * 3600 * 1000;
+  }
+
+  /**
+   * Входы ищутся по таймеру: ставки меняются редко, котировки нужны только для оценки цены входа
+   */
+  onMarketData(): StrategyIntent[] {
+    return [];
+  }
+
+  onPositionUpdate(): StrategyIntent[] {
+    return [];
+  }
+
+  onTimer(pairs: PositionPair[], now: number): StrategyIntent[] {
+    const intents = this.exitIntents(pairs, now);
+
+    if (now - this.lastScan >= SCAN_INTERVAL_MS) {
+      this.lastScan = now;
+      intents.push(...this.entryIntents());
+    }
+
+    return intents;
+  }
+
+  /**
+   * Текущая разница ставок SHORT - LONG, % (undefined - ставок еще нет)
+   */
+  private rateDiffPercent(symbol: string, longExchange: string, shortExchange: string): number | undefined {
+    const longRate = this.context.funding.get(longExchange, symbol);
+    const shortRate = this.context.funding.get(shortExchange, symbol);
+    if (!longRate || !shortRate) return undefined;
+
+    return (shortRate.rate - longRate.rate) * 100;
+  }
+
+  private exitIntents(pairs: PositionPair[], now: number): StrategyIntent[] {
+    const intents: StrategyIntent[] = [];
+
+    for (const pair of pairs) {
+      if (now >= pair.timeoutAt) {
+        intents.push({ type: 'CLOSE', pairId: pair.id, reason: 'TIMEOUT' });
+        continue;
+      }
+
+      const diffPercent = this.rateDiffPercent(pair.symbol, pair.longPosition.exchange, pair.shortPosition.exchange);
+      if (diffPercent === undefined) continue;
+
+      intents.push({ type: 'ADJUST', pairId: pair.id, changes: { currentFundingDiffPercent: diffPercent } });
+
+      if (diffPercent < this.params.exitRateDiffPercent) {
+        intents.push({
+          type: 'CLOSE',
+          pairId: pair.id,
+          reason: 'FUNDING_COLLAPSED',
+          note: `Разница ставок фандинга ${pair.symbol} упала до ${diffPercent.toFixed(4)}% - закрываю пару`,
+        });
+      }
+    }
+
+    return intents;
+  }
+
+  /**
+   * Для каждого символа - пара бирж с наибольшей разницей ставок >= minRateDiffPercent,
+   * если цены и комиссии входа стоят не больше maxEntryCostPercent
+   */
+  private entryIntents(): StrategyIntent[] {
+    const intents: StrategyIntent[] = [];
+    const openSymbols = new Set(this.context.getOpenPairs().map((pair) => pair.symbol));
+
+    for (const symbol of this.context.getSymbols()) {
+      if (openSymbols.has(symbol)) continue;
+
+      const tickers = this.context.getTickers(symbol);
+      let best: ArbitrageOpportunity | null = null;
+
+      for (const buyTicker of tickers) {
+        for (const sellTicker of tickers) {
+          if (buyTicker.exchange === sellTicker.exchange) continue;
+
+          const diffPercent = this.rateDiffPercent(symbol, buyTicker.exchange, sellTicker.exchange);
+          if (diffPercent === undefined || diffPercent < this.params.minRateDiffPercent) continue;
+          if (best && diffPercent <= (best.fundingDiffPercent ?? 0)) continue;
+
+          best = {
+            ...this.context.buildOpportunity(symbol, buyTicker, sellTicker, this),
+            fundingDiffPercent: diffPercent,
+          };
+        }
+      }
+
+      if (!best) continue;
+
+      // Потеря на ценах и комиссиях входа без учета ожидаемого фандинга
+      const entryCostPercent = (best.fundingPercent ?? 0) - best.profitPercent;
+      if (entryCostPercent > this.params.maxEntryCostPercent) {
+        intents.push({ type: 'SKIP', opportunity: best, reason: 'PROFIT_BELOW_THRESHOLD' });
+      } else if (best.fillableUSD !== undefined && best.fillableUSD < this.context.config.trading.positionSizeUSD) {
+        intents.push({ type: 'SKIP', opportunity: best, reason: 'LIQUIDITY_LOW' });
+      } else {
+        intents.push({ type: 'OPEN', opportunity: best });
+      }
+    }
+
+    return intents;
+  }
+}
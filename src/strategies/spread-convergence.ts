@@ -0,0 +1,97 @@
+import type { PositionPair } from '../types/exchange.js';
+import type { SpreadStrategyParams } from '../types/config.js';
+import type { MarketUpdate, Strategy, StrategyContext, StrategyIntent } from './strategy.js';
+
+/**
+ * Стратегия по умолчанию: вход при спреде >= minSpreadPercent с прибылью по VWAP после комиссий,
+ * выход при сходимости цен на биржах или по таймауту.
+ * При closeOnNewOpportunity без свободных слотов закрывает самую прибыльную свою пару ради новой
+ */
+export class SpreadConvergenceStrategy implements Strategy {
+  readonly id = 'SPREAD' as const;
+  private context: StrategyContext;
+  private params: Required<SpreadStrategyParams>;
+
+  constructor(context: StrategyContext, params: SpreadStrategyParams = {}) {
+    const { arbitrage, trading } = context.config;
+
+    this.context = context;
+    this.params = {
+      minSpreadPercent: params.minSpreadPercent ?? arbitrage.minSpreadPercent,
+      closeOnConvergence: params.closeOnConvergence ?? trading.closeOnSpreadConvergence,
+      priceConvergencePercent: params.priceConvergencePercent ?? trading.priceConvergencePercent,
+      closeOnNewOpportunity: params.closeOnNewOpportunity ?? trading.closeOnNewOpportunity,
+      maxHoldSeconds: params.maxHoldSeconds ?? trading.positionTimeoutSeconds,
+    };
+  }
+
+  maxHoldMs(): number {
+    return this.params.maxHoldSeconds === 0 ? Infinity : this.params.maxHoldSeconds * 1000;
+  }
+
+  onMarketData(update: MarketUpdate): StrategyIntent[] {
+    const best = update.bestSpread;
+    if (!best || best.spreadPercent < this.params.minSpreadPercent) return [];
+
+    // Спред по лучшим ценам есть, но стакан не вытягивает positionSizeUSD или VWAP съедает прибыль
+    if (best.fillableUSD !== undefined && best.fillableUSD < this.context.config.trading.positionSizeUSD) {
+      return [{ type: 'SKIP', opportunity: best, reason: 'LIQUIDITY_LOW' }];
+    }
+    if (best.profitPercent <= 0) {
+      return [{ type: 'SKIP', opportunity: best, reason: 'PROFIT_BELOW_THRESHOLD' }];
+    }
+
+    const openPairs = this.context.getOpenPairs();
+    if (openPairs.some((pair) => pair.symbol === best.symbol)) return [];
+
+    // При остановленной торговле пропуск запишет детектор - пары ради нее не закрываем
+    const hasSlot = this.context.canOpenNewPosition() || this.context.isTradingHalted();
+    if (hasSlot || !this.params.closeOnNewOpportunity) {
+      return [{ type: 'OPEN', opportunity: best }];
+    }
+
+    // Слотов нет: освобождаем самую прибыльную свою пару, если текущая прибыль ниже новой
+    const replaceable = openPairs
+      .filter((pair) => this.owns(pair) && pair.closeTime === undefined)
+      .filter((pair) => (pair.actualProfit ?? 0) > 0 && (pair.actualProfit ?? 0) < best.profitPercent)
+      .sort((a, b) => (b.actualProfit ?? 0) - (a.actualProfit ?? 0))[0];
+
+    if (!replaceable) {
+      return [{ type: 'SKIP', opportunity: best, reason: 'POSITION_NOT_PROFITABLE' }];
+    }
+
+    return [
+      {
+        type: 'CLOSE',
+        pairId: replaceable.id,
+        reason: 'NEW_OPPORTUNITY',
+        note: `Закрываем ${replaceable.symbol} (${(replaceable.actualProfit ?? 0).toFixed(2)}%) ради ${best.symbol} (${best.profitPercent.toFixed(2)}%)`,
+      },
+      { type: 'OPEN', opportunity: best },
+    ];
+  }
+
+  onPositionUpdate(pair: PositionPair): StrategyIntent[] {
+    if (!this.params.closeOnConvergence || pair.priceDiffPercent === undefined) return [];
+
+    // Сходимость ЦЕН на двух биржах (не спреда!)
+    if (pair.priceDiffPercent > this.params.priceConvergencePercent) return [];
+
+    return [{
+      type: 'CLOSE',
+      pairId: pair.id,
+      reason: 'CONVERGENCE',
+      note: `Цены сошлись на ${pair.symbol}! Разница: ${pair.priceDiffPercent.toFixed(3)}%. Закрываю позицию...`,
+    }];
+  }
+
+  onTimer(pairs: PositionPair[], now: number): StrategyIntent[] {
+    return pairs
+      .filter((pair) => now >= pair.timeoutAt)
+      .map((pair) => ({ type: 'CLOSE', pairId: pair.id, reason: 'TIMEOUT' }));
+  }
+
+  private owns(pair: PositionPair): boolean {
+    return (pair.strategy ?? 'SPREAD') === this.id;
+  }
+}
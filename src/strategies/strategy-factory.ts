@@ -0,0 +1,42 @@
+import type { TradeStrategy } from '../types/exchange.js';
+import type { Config, StrategyConfig } from '../types/config.js';
+import type { Strategy, StrategyContext } from './strategy.js';
+import { SpreadConvergenceStrategy } from './spread-convergence.js';
+import { FundingArbitrageStrategy } from './funding-arbitrage.js';
+
+/**
+ * Стратегии, если config.strategies не задан
+ */
+const DEFAULT_STRATEGIES: StrategyConfig[] = [{ name: 'SPREAD' }];
+
+/**
+ * Создание стратегий по конфигурации.
+ * Чтобы добавить стратегию, реализуйте Strategy, добавьте ее имя в TradeStrategy и параметры в StrategyConfig
+ */
+export class StrategyFactory {
+  static getSupportedStrategies(): TradeStrategy[] {
+    return ['SPREAD', 'FUNDING'];
+  }
+
+  static getConfigured(config: Config): StrategyConfig[] {
+    return config.strategies && config.strategies.length > 0 ? config.strategies : DEFAULT_STRATEGIES;
+  }
+
+  static create(strategy: StrategyConfig, context: StrategyContext): Strategy {
+    switch (strategy.name) {
+      case 'SPREAD':
+        return new SpreadConvergenceStrategy(context, strategy.params);
+      case 'FUNDING':
+        return new FundingArbitrageStrategy(context, strategy.params);
+      default:
+        throw new Error(
+          `Стратегия "${(strategy as { name: string }).name}" не реализована. ` +
+          `Поддерживаются: ${StrategyFactory.getSupportedStrategies().join(', ')}`
+        );
+    }
+  }
+
+  static createAll(config: Config, context: StrategyContext): Strategy[] {
+    return StrategyFactory.getConfigured(config).map((strategy) => StrategyFactory.create(strategy, context));
+  }
+}
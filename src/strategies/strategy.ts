@@ -0,0 +1,81 @@
+import type {
+  ArbitrageOpportunity,
+  CloseReason,
+  PositionPair,
+  SkipReason,
+  TickerPrice,
+  TradeStrategy,
+} from '../types/exchange.js';
+import type { Config } from '../types/config.js';
+import type { Logger } from '../utils/logger.js';
+import type { FundingRateService } from '../utils/funding-rates.js';
+
+/**
+ * Что можно поменять в открытой паре без закрытия
+ */
+export type PairAdjustment = Partial<Pick<PositionPair, 'timeoutAt' | 'currentFundingDiffPercent'>>;
+
+/**
+ * Намерение стратегии. Стратегия только решает, исполняет ArbitrageDetector через TradeExecutor
+ */
+export type StrategyIntent =
+  | { type: 'OPEN'; opportunity: ArbitrageOpportunity }
+  | { type: 'CLOSE'; pairId: string; reason: CloseReason; note?: string }
+  | { type: 'ADJUST'; pairId: string; changes: PairAdjustment }
+  | { type: 'SKIP'; opportunity: ArbitrageOpportunity; reason: SkipReason };
+
+/**
+ * Обновление котировок символа
+ */
+export interface MarketUpdate {
+  symbol: string;
+  tickers: TickerPrice[];                  // Котировки со всех бирж символа (минимум две)
+  bestSpread: ArbitrageOpportunity | null; // Лучшая пара бирж по прибыли (купить дешевле, продать дороже)
+  timestamp: number;
+}
+
+/**
+ * Доступ стратегии к рынку и состоянию бота (только чтение)
+ */
+export interface StrategyContext {
+  config: Config;
+  logger: Logger;
+  funding: FundingRateService;
+  getSymbols(): string[];
+  getTickers(symbol: string): TickerPrice[];
+  getOpenPairs(): PositionPair[];
+  canOpenNewPosition(): boolean;
+  isTradingHalted(): boolean;
+  buildOpportunity(
+    symbol: string,
+    buyTicker: TickerPrice,
+    sellTicker: TickerPrice,
+    strategy: Strategy
+  ): ArbitrageOpportunity;
+}
+
+/**
+ * Торговая стратегия: правила входа и выхода для своих пар.
+ * Хуки вызываются на обновление котировок, на обновление цен открытой пары и по таймеру (~500 мс)
+ */
+export interface Strategy {
+  readonly id: TradeStrategy;
+
+  /**
+   * Максимальное удержание пары, мс (Infinity - без ограничения). Задает timeoutAt при открытии
+   */
+  maxHoldMs(): number;
+
+  onMarketData(update: MarketUpdate): StrategyIntent[];
+
+  /**
+   * Пара стратегии с обновленными ценами (currentLongPrice, priceDiffPercent, actualProfit)
+   */
+  onPositionUpdate(pair: PositionPair, now: number): StrategyIntent[];
+
+  /**
+   * pairs - открытые пары этой стратегии
+   */
+  onTimer(pairs: PositionPair[], now: number): StrategyIntent[];
+}
+
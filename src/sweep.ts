@@ -0,0 +1,95 @@
+import fs from 'fs';
+import os from 'os';
+import { ConfigLoader } from './utils/config-loader.js';
+import { Logger } from './utils/logger.js';
+import { ParameterSweep, type SweepParam, type SweepRankBy } from './backtest/parameter-sweep.js';
+import { SweepReport } from './backtest/sweep-report.js';
+
+/**
+ * Перебор параметров бэктестом по записанным тикам
+ * npm run sweep                                  - 50 случайных наборов из стандартной сетки
+ * npm run sweep -- --random 200                  - 200 случайных наборов
+ * npm run sweep -- --grid                        - все комбинации
+ * npm run sweep -- --param arbitrage.minSpreadPercent=0.4,0.6,0.8 --param trading.positionTimeoutSeconds=60,300
+ * npm run sweep -- --rank winrate                - ранжирование: pnl (по умолчанию) | winrate | drawdown
+ * npm run sweep -- --workers 4 --top 20 --dir <каталог> --from 2026-01-10 --to 2026-01-12
+ */
+async function main() {
+  const logger = new Logger();
+  const args = process.argv.slice(2);
+  const space: SweepParam[] = [];
+  let dir = 'data/ticks';
+  let from: string | undefined;
+  let to: string | undefined;
+  let grid = false;
+  let samples = 50;
+  let rankBy: SweepRankBy = 'pnl';
+  let workers = Math.max(1, os.cpus().length - 1);
+  let top = 10;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--dir') dir = args[++i];
+    else if (arg === '--from') from = args[++i];
+    else if (arg === '--to') to = args[++i];
+    else if (arg === '--grid') grid = true;
+    else if (arg === '--random') samples = parseCount(arg, args[++i]);
+    else if (arg === '--workers') workers = parseCount(arg, args[++i]);
+    else if (arg === '--top') top = parseCount(arg, args[++i]);
+    else if (arg === '--rank') {
+      const value = args[++i];
+      if (value !== 'pnl' && value !== 'winrate' && value !== 'drawdown') {
+        throw new Error(`--rank: ожидается pnl | winrate | drawdown, получено "${value}"`);
+      }
+      rankBy = value;
+    } else if (arg === '--param') {
+      const [path, values] = (args[++i] ?? '').split('=');
+      if (!path || !values) throw new Error(`--param: ожидается путь=значение1,значение2, получено "${args[i]}"`);
+      space.push({ path, values: values.split(',').map(parseValue) });
+    } else {
+      throw new Error(`Неизвестный аргумент: ${arg}`);
+    }
+  }
+
+  const params = space.length > 0 ? space : ParameterSweep.DEFAULT_SPACE;
+  const sets = grid ? ParameterSweep.grid(params) : ParameterSweep.random(params, samples);
+
+  logger.header('ПЕРЕБОР ПАРАМЕТРОВ');
+  logger.info(`Сетка: ${ParameterSweep.gridSize(params)} комбинаций, прогоняем ${sets.length}`);
+
+  const sweep = new ParameterSweep(new ConfigLoader().getConfig(), logger);
+  const runs = ParameterSweep.rank(await sweep.run(sets, { dir, from, to }, workers), rankBy);
+
+  console.log(`\nЛучшие наборы (${rankBy}):`);
+  runs.slice(0, top).forEach((run, index) => {
+    const values = params.map((param) => `${param.path}=${JSON.stringify(run.overrides[param.path])}`).join(' ');
+    const summary = run.summary;
+    console.log(summary
+      ? `${index + 1}. PnL $${summary.netProfitUSD.toFixed(2)}, winrate ${summary.winRate.toFixed(1)}%, ` +
+        `просадка $${summary.maxDrawdownUSD.toFixed(2)}, сделок ${summary.trades} | ${values}`
+      : `-. ошибка: ${run.error} | ${values}`);
+  });
+
+  fs.mkdirSync('reports', { recursive: true });
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  await new SweepReport(logger).save(runs, params.map((param) => param.path), `reports/sweep_${timestamp}`);
+}
+
+function parseCount(arg: string, value: string | undefined): number {
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 1) throw new Error(`${arg}: ожидается целое число > 0, получено "${value}"`);
+  return count;
+}
+
+function parseValue(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+main().catch((error) => {
+  console.error(`Ошибка перебора: ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+});
@@ -6,34 +6,87 @@ import type {
   CloseReason,
   PriceSnapshot,
   TradingError,
+  ExchangeName,
+  FuturesExchange,
+  OrderSide,
+  PositionSide,
+  SkipReason,
+  LegTiming,
+  OrderFill,
+  OrderUpdateEvent,
+  PositionUpdateEvent,
+  BalanceUpdateEvent,
+  ExchangePosition,
+  MarginModeStatus,
 } from './types/exchange.js';
 import type { Config } from './types/config.js';
 import { Logger } from './utils/logger.js';
 import { CompactLogger } from './utils/compact-logger.js';
+import { ContractMetadataService } from './utils/contract-metadata.js';
+import { LimitOrderExecutor } from './utils/limit-order-executor.js';
+import { RiskGuard } from './utils/risk-guard.js';
+import { MarginMonitor } from './utils/margin-monitor.js';
+import { LocalOrderBook, type FillEstimate } from './utils/order-book.js';
 import { randomUUID } from 'crypto';
 import type { TuiDashboard } from './utils/tui.js';
-import type { BinanceFutures } from './exchanges/binance-futures.js';
-import type { MexcFutures } from './exchanges/mexc-futures.js';
+import type { UserDataBus } from './utils/user-data-bus.js';
+import type { StateJournal, JournalState } from './utils/state-journal.js';
+import type { PairAdjustment } from './strategies/strategy.js';
+import { FundingRateService } from './utils/funding-rates.js';
+import { Clock } from './utils/clock.js';
+
+/**
+ * Отказ занять слот открытия пары (reserveOpening)
+ */
+export interface OpeningRejection {
+  reason: SkipReason;
+  warning?: string;                // Пояснение для лога
+  details?: Pick<SkippedOpportunity, 'availableBalance' | 'requiredBalance'>;
+}
+
+/**
+ * Пояснения к отказам биржи сменить режим маржи
+ */
+const MARGIN_MODE_REFUSALS: Record<Exclude<MarginModeStatus, 'SET' | 'UNCHANGED'>, string> = {
+  POSITION_OPEN: 'по символу открыта позиция в другом режиме',
+  OPEN_ORDERS: 'по символу есть открытые ордера',
+  NOT_ALLOWED: 'режим недоступен аккаунту или символу',
+};
 
 export class TradeExecutor {
+  static readonly TICK_INTERVAL_MS = 500;               // Период проверок открытых пар
+  static readonly PRICE_HISTORY_INTERVAL_MS = 5000;     // Период записи истории цен пар
+
   private config: Config;
   private logger: Logger;
   private compactLogger: CompactLogger;
   private tui?: TuiDashboard; // Ссылка на TUI
-  private binance?: BinanceFutures; // Экземпляр Binance для реальных ордеров
-  private mexc?: MexcFutures; // Экземпляр MEXC для реальных ордеров
+  private exchanges: Map<ExchangeName, FuturesExchange> = new Map(); // Адаптеры бирж для реальных ордеров
+  private metadata: ContractMetadataService; // Параметры контрактов для расчета объема ордеров
+  private limitOrders?: LimitOrderExecutor; // Вход и выход лимитными ордерами (config.execution, не market)
+  private riskGuard: RiskGuard; // Защитное закрытие пар (config.risk)
+  private marginMonitor: MarginMonitor; // Маржа и цена ликвидации ног (config.margin)
+  private journal?: StateJournal; // Журнал состояния на диске (восстановление после перезапуска)
+  private funding?: FundingRateService; // Ставки фандинга (учет в PnL и политика перед расчетом)
+  private pendingFunding: Map<string, { time: number; rate: number }> = new Map(); // ID ноги -> ближайший расчет фандинга
 
   private openPositions: Map<string, PositionPair> = new Map();
   private closedPositions: PositionPair[] = [];
   private skippedOpportunities: SkippedOpportunity[] = [];
   private tradingErrors: TradingError[] = []; // Ошибки торговли (API calls)
+  private legIncidents: PositionPair[] = []; // Пары, открывшиеся только одной ногой (LEG_UNWOUND / LEG_NAKED)
+
+  // Данные приватных стримов бирж
+  private streamFills: Map<string, OrderFill> = new Map(); // `${exchange}:${orderId}` -> исполнение ордера
+  private limitFills: Map<string, OrderFill> = new Map(); // `${exchange}:${orderId}` -> сводное исполнение ноги лимитными ордерами
+  private streamBalances: Map<ExchangeName, number> = new Map(); // Доступный USDT баланс по бирже
 
   private checkInterval: NodeJS.Timeout | null = null;
   private priceHistoryInterval: NodeJS.Timeout | null = null;
-  private getPricesFn?: (symbol: string) => { buyPrice: number; sellPrice: number } | null;
 
   private currentBalance: number;
   private initialBalance: number;
+  private tradingHalt?: string; // Причина остановки открытия новых позиций (несверенные позиции на биржах)
 
   private testStats = {
     totalTrades: 0,
@@ -43,77 +96,97 @@ export class TradeExecutor {
     totalLoss: 0,
   };
 
-  // Rate limiting для защиты от "too frequent" ошибок
-  private lastOrderTime = 0;
-  private readonly MIN_ORDER_INTERVAL_MS = 2000; // 2 секунды между ордерами
-  private pendingOrders = 0; // Счетчик одновременных попыток создания ордеров
+  // Пары в процессе открытия: блокировка символа и капитал, зарезервированный до конца открытия
+  private openingSymbols: Set<string> = new Set();
+  private reservedCapital = 0;
+  // Символы с котировками HedgedQuoter: свой бюджет вне maxConcurrentOpenings, капитал - в reservedCapital
+  private quotingSymbols: Set<string> = new Set();
+  // Закрытия пар в процессе (защитные идут с повторами) - их дожидается forceCloseAllPositions
+  private pendingCloses: Set<Promise<void>> = new Set();
+
+  private marginModeReady: Set<string> = new Set(); // `${exchange}:${symbol}` - режим маржи уже установлен
 
   constructor(
     config: Config,
     logger?: Logger,
-    binance?: BinanceFutures,
-    mexc?: MexcFutures
+    exchanges: FuturesExchange[] = [],
+    metadata?: ContractMetadataService,
+    userData?: UserDataBus,
+    journal?: StateJournal,
+    funding?: FundingRateService
   ) {
     this.config = config;
     this.logger = logger || new Logger();
     this.compactLogger = new CompactLogger(config);
     this.initialBalance = config.trading.testBalanceUSD;
     this.currentBalance = config.trading.testBalanceUSD;
-    this.binance = binance;
-    this.mexc = mexc;
+    for (const exchange of exchanges) {
+      this.exchanges.set(exchange.name, exchange);
+    }
+    this.metadata = metadata ?? new ContractMetadataService(exchanges, this.logger);
+    if (config.execution && config.execution.mode !== 'market') {
+      this.limitOrders = new LimitOrderExecutor(config.execution, this.metadata, this.logger);
+    }
+    this.riskGuard = new RiskGuard(config);
+    this.marginMonitor = new MarginMonitor(config, this.exchanges, this.logger);
+    this.journal = journal;
+    this.funding = funding;
+
+    if (userData) {
+      userData.on('order', (event) => this.onOrderUpdate(event));
+      userData.on('position', (event) => this.onPositionUpdate(event));
+      userData.on('balance', (event) => this.onBalanceUpdate(event));
+    }
   }
 
   public setTui(tui: TuiDashboard) {
     this.tui = tui;
   }
 
-  setPriceGetter(fn: (symbol: string) => { buyPrice: number; sellPrice: number } | null): void {
-    this.getPricesFn = fn;
-  }
-
   start(): void {
     if (!this.config.trading.enabled) return;
 
     // Обновляем TUI каждые 500мс для плавности отображения
-    this.checkInterval = setInterval(async () => {
-      await this.checkPositionTimeouts();
-      // Обновляем TUI позиции
-      if(this.tui) this.tui.updatePositions(Array.from(this.openPositions.values()));
-    }, 500);
+    this.checkInterval = setInterval(() => {
+      void this.tick();
+    }, TradeExecutor.TICK_INTERVAL_MS);
 
     // Запись истории цен каждые 5 секунд
     this.priceHistoryInterval = setInterval(() => {
       this.recordPriceHistory();
-    }, 5000);
+    }, TradeExecutor.PRICE_HISTORY_INTERVAL_MS);
   }
 
   /**
-   * Записывает текущие цены в историю для каждой открытой позиции
+   * Периодические проверки открытых пар (фандинг) и обновление TUI.
+   * В работе вызывается таймером, в бэктесте - по симулированным часам
    */
-  private recordPriceHistory(): void {
-    if (!this.getPricesFn) return;
+  async tick(): Promise<void> {
+    this.settleFunding();
+    await this.checkAdverseFunding();
+    await this.checkMargins();
+    await this.checkRiskLimits();
+    // Обновляем TUI позиции
+    this.refreshTuiPositions();
+  }
 
+  /**
+   * Записывает текущие цены в историю для каждой открытой позиции
+   */
+  recordPriceHistory(): void {
     for (const [_pairId, pair] of this.openPositions.entries()) {
       if (pair.status !== 'OPEN') continue;
 
-      const prices = this.getPricesFn(pair.symbol);
+      const prices = this.getExitPrices(pair);
       if (!prices) continue;
 
-      // Определяем цены для каждой биржи
-      const binancePrice = pair.longPosition.exchange === 'binance'
-        ? prices.buyPrice
-        : prices.sellPrice;
-      const mexcPrice = pair.longPosition.exchange === 'mexc'
-        ? prices.buyPrice
-        : prices.sellPrice;
-
-      const priceDiffPercent = Math.abs(binancePrice - mexcPrice) / Math.min(binancePrice, mexcPrice) * 100;
-      const spreadPercent = ((prices.sellPrice - prices.buyPrice) / prices.buyPrice) * 100;
+      const priceDiffPercent = Math.abs(prices.longPrice - prices.shortPrice) / Math.min(prices.longPrice, prices.shortPrice) * 100;
+      const spreadPercent = ((prices.shortPrice - prices.longPrice) / prices.longPrice) * 100;
 
       const snapshot: PriceSnapshot = {
-        timestamp: Date.now(),
-        binancePrice,
-        mexcPrice,
+        timestamp: Clock.now(),
+        longPrice: prices.longPrice,
+        shortPrice: prices.shortPrice,
         priceDiffPercent,
         spreadPercent,
       };
@@ -128,105 +201,464 @@ export class TradeExecutor {
 
   canOpenNewPosition(): boolean {
     if (!this.config.trading.enabled) return false;
-    return this.openPositions.size < this.config.trading.maxOpenPositions;
+    if (this.tradingHalt) return false;
+    return this.openPositions.size + this.openingSymbols.size + this.quotingSymbols.size < this.config.trading.maxOpenPositions;
   }
 
-  // === СИМУЛЯЦИЯ ЦЕНЫ ИСПОЛНЕНИЯ (AVG ENTRY PRICE) ===
-  private calculateExecutionPrice(
-    requestedUsd: number,
-    basePrice: number,
-    availableQty: number | undefined
-  ): { avgPrice: number, slippageCost: number, details: string } {
-    
-    // Если биржа не прислала объем (например MEXC иногда), берем "бесконечную" ликвидность
-    // или дефолтное значение $10,000, чтобы не ломать логику.
-    const realQty = availableQty !== undefined ? availableQty : (10000 / basePrice);
-    
-    // Объем в USD который реально есть в стакане по лучшей цене
-    const realDepthUsd = realQty * basePrice;
-
-    // Если ликвидности хватает с запасом
-    if (realDepthUsd >= requestedUsd) {
-        return { 
-            avgPrice: basePrice, 
-            slippageCost: 0, 
-            details: 'Full Fill' 
-        };
-    }
-
-    // Если не хватает:
-    // Часть берем по basePrice, остаток по цене с проскальзыванием
-    const filledReal = realDepthUsd;
-    const filledSlippage = requestedUsd - realDepthUsd;
-    
-    // Цена штрафа: basePrice + Slippage%
-    // (для покупки цена растет, для продажи падает, но мы тут считаем "худшую" цену)
-    const penaltyPrice = basePrice * (1 + (this.config.slippage.percent / 100));
+  /**
+   * Пара по символу сейчас открывается (ордера еще не исполнены) или символ котируется
+   */
+  isOpening(symbol: string): boolean {
+    return this.openingSymbols.has(symbol) || this.quotingSymbols.has(symbol);
+  }
 
-    // Средневзвешенная цена
-    const avgPrice = ((filledReal * basePrice) + (filledSlippage * penaltyPrice)) / requestedUsd;
-    
-    // Потеря в долларах из-за отсутствия ликвидности
-    const idealCost = requestedUsd / basePrice; // сколько бы купили монет в идеале
-    const realCost = requestedUsd / avgPrice;   // сколько купили реально
-    const slippageCost = (idealCost - realCost) * basePrice; // Потеря в монетах переведенная в USD
+  /**
+   * Восстановить состояние сессии из журнала (до start и сверки позиций)
+   */
+  restoreState(state: JournalState): void {
+    this.initialBalance = state.initialBalance;
+    this.currentBalance = state.currentBalance;
+    this.openPositions = new Map(state.openPositions.map((pair) => [pair.id, pair]));
+    this.closedPositions = state.closedPositions;
+    this.legIncidents = state.legIncidents;
+    this.skippedOpportunities = state.skippedOpportunities;
+    this.tradingErrors = state.tradingErrors;
+    this.testStats = state.testStats;
+
+    if (state.openPositions.length > 0) {
+      this.logger.info(`Восстановлено открытых пар из журнала: ${state.openPositions.length}`);
+    }
+  }
+
+  // === СВЕРКА ПОЗИЦИЙ ПРИ СТАРТЕ ===
+  /**
+   * Сверка открытых позиций бирж с состоянием бота (только реальная торговля).
+   * LONG и SHORT одного символа на разных биржах с близким объемом берутся в управление как пара,
+   * остальные ноги - по unmatchedLegPolicy
+   */
+  async reconcilePositions(): Promise<void> {
+    if (!this.config.trading.enabled || this.config.trading.testMode) return;
+
+    this.logger.info('Сверка открытых позиций на биржах...');
+
+    const positions: ExchangePosition[] = [];
+    for (const [name, exchange] of this.exchanges) {
+      try {
+        positions.push(...await exchange.getPositions());
+      } catch (error) {
+        const errorMsg = this.recordApiError(error, {
+          symbol: '-',
+          operation: 'GET_POSITIONS',
+          exchange: name,
+        });
+        this.haltTrading(`позиции ${name.toUpperCase()} не получены (${errorMsg})`);
+        return;
+      }
+    }
+
+    // Режим маржи позиции не сменить, пока она открыта: новые пары по символу будут пропущены
+    const marginMode = this.config.trading.marginMode;
+    for (const position of positions) {
+      if (position.marginMode !== undefined && position.marginMode !== marginMode) {
+        this.logger.warn(
+          `${position.exchange.toUpperCase()}: ${position.side} ${position.symbol} открыта в режиме маржи ${position.marginMode}, ` +
+          `в конфиге ${marginMode}`
+        );
+      }
+    }
+
+    const { pairs, unmatched } = this.matchExchangePositions(this.claimKnownLegs(positions));
+
+    for (const pair of pairs) {
+      this.openPositions.set(pair.id, pair);
+      this.journal?.write({ type: 'pair_open', pair, balance: this.currentBalance });
+      this.logger.warn(
+        `Пара ${pair.symbol} взята в управление: ` +
+        `LONG ${pair.longPosition.exchange.toUpperCase()} ${pair.longPosition.quantity} @ ${pair.longPosition.entryPrice}, ` +
+        `SHORT ${pair.shortPosition.exchange.toUpperCase()} ${pair.shortPosition.quantity} @ ${pair.shortPosition.entryPrice}`
+      );
+    }
+
+    if (unmatched.length === 0) {
+      this.logger.success(`Сверка позиций: пар взято в управление - ${pairs.length}, несверенных ног нет`);
+      return;
+    }
+
+    for (const leg of unmatched) {
+      this.logger.error(`Несверенная позиция: ${leg.side} ${leg.symbol} на ${leg.exchange.toUpperCase()} ${leg.quantity} @ ${leg.entryPrice}`);
+    }
+
+    const remaining = (this.config.trading.unmatchedLegPolicy ?? 'halt') === 'close'
+      ? await this.closeUnmatchedLegs(unmatched)
+      : unmatched;
+
+    if (remaining.length > 0) {
+      const list = remaining.map((leg) => `${leg.side} ${leg.symbol} ${leg.exchange.toUpperCase()}`).join(', ');
+      this.haltTrading(`несверенные позиции на биржах: ${list}`);
+    }
+  }
+
+  /**
+   * Пары из журнала: если обе ноги есть на биржах - пара остается в управлении,
+   * иначе снимается (закрыта вне бота), а уцелевшая нога попадает в несверенные.
+   * Возвращает позиции бирж, не принадлежащие известным парам
+   */
+  private claimKnownLegs(positions: ExchangePosition[]): ExchangePosition[] {
+    const remaining = [...positions];
+    const findLeg = (position: Position) => remaining.findIndex((p) =>
+      p.exchange === position.exchange && p.symbol === position.symbol && p.side === position.side);
+
+    for (const [pairId, pair] of this.openPositions) {
+      const longIndex = findLeg(pair.longPosition);
+      const shortIndex = findLeg(pair.shortPosition);
+
+      if (longIndex >= 0 && shortIndex >= 0) {
+        remaining.splice(Math.max(longIndex, shortIndex), 1);
+        remaining.splice(Math.min(longIndex, shortIndex), 1);
+        continue;
+      }
+
+      this.openPositions.delete(pairId);
+      this.journal?.write({ type: 'pair_drop', pairId, reason: 'Нет на бирже при сверке' });
+      this.logger.warn(`Пара ${pair.symbol} из журнала не найдена на биржах (закрыта вне бота) - снята с управления`);
+    }
+
+    return remaining;
+  }
+
+  /**
+   * Разбить позиции бирж на пары LONG/SHORT (разные биржи, расхождение объема в пределах maxLegMismatchPercent)
+   * и ноги без пары
+   */
+  private matchExchangePositions(positions: ExchangePosition[]): { pairs: PositionPair[]; unmatched: ExchangePosition[] } {
+    const maxMismatchPercent = this.config.trading.maxLegMismatchPercent ?? 0.5;
+    const pairs: PositionPair[] = [];
+    const unmatched: ExchangePosition[] = [];
+
+    const bySymbol = new Map<string, ExchangePosition[]>();
+    for (const position of positions) {
+      const list = bySymbol.get(position.symbol) ?? [];
+      list.push(position);
+      bySymbol.set(position.symbol, list);
+    }
+
+    for (const list of bySymbol.values()) {
+      const shorts = list.filter((p) => p.side === 'SHORT');
+
+      for (const long of list.filter((p) => p.side === 'LONG')) {
+        let best: { index: number; mismatch: number } | undefined;
+
+        shorts.forEach((short, index) => {
+          if (short.exchange === long.exchange) return;
+
+          const mismatch = (Math.abs(long.quantity - short.quantity) / Math.max(long.quantity, short.quantity)) * 100;
+          if (mismatch <= maxMismatchPercent && (!best || mismatch < best.mismatch)) {
+            best = { index, mismatch };
+          }
+        });
+
+        if (best) {
+          const [short] = shorts.splice(best.index, 1);
+          pairs.push(this.adoptPair(long, short));
+        } else {
+          unmatched.push(long);
+        }
+      }
+
+      unmatched.push(...shorts);
+    }
+
+    return { pairs, unmatched };
+  }
+
+  /**
+   * Пара из позиций бирж. Ордера открытия неизвестны - PnL считается по ценам входа бирж без комиссий открытия
+   */
+  private adoptPair(long: ExchangePosition, short: ExchangePosition): PositionPair {
+    const now = Clock.now();
+    const longPosition = TradeExecutor.toAdoptedPosition(long, now);
+    const shortPosition = TradeExecutor.toAdoptedPosition(short, now);
+    const openSpread = ((short.entryPrice - long.entryPrice) / long.entryPrice) * 100;
+
+    return {
+      id: randomUUID(),
+      symbol: long.symbol,
+      longPosition,
+      shortPosition,
+      openSpread,
+      expectedProfit: 0,
+      status: 'OPEN',
+      openTime: Math.max(longPosition.openTime, shortPosition.openTime),
+      // Исходное время открытия неизвестно точно - таймаут отсчитывается от сверки
+      timeoutAt: this.config.trading.positionTimeoutSeconds === 0
+        ? Infinity
+        : now + this.config.trading.positionTimeoutSeconds * 1000,
+      originalLongPrice: long.entryPrice,
+      originalShortPrice: short.entryPrice,
+      priceDiffPercent: Math.abs(openSpread),
+    };
+  }
 
+  private static toAdoptedPosition(position: ExchangePosition, now: number): Position {
     return {
-        avgPrice,
-        slippageCost,
-        details: `Partial: $${filledReal.toFixed(0)} @ Best, $${filledSlippage.toFixed(0)} @ Slip`
+      id: randomUUID(),
+      symbol: position.symbol,
+      exchange: position.exchange,
+      side: position.side,
+      entryPrice: position.entryPrice,
+      quantity: position.quantity,
+      sizeUSD: position.quantity * position.entryPrice,
+      leverage: position.leverage,
+      marginMode: position.marginMode,
+      status: 'OPEN',
+      openTime: position.updateTime ?? now,
     };
   }
+
+  /**
+   * Закрыть ноги без пары reduce-only ордерами. Возвращает те, что закрыть не удалось
+   */
+  private async closeUnmatchedLegs(legs: ExchangePosition[]): Promise<ExchangePosition[]> {
+    const failed: ExchangePosition[] = [];
+
+    for (const leg of legs) {
+      const position = TradeExecutor.toAdoptedPosition(leg, Clock.now());
+      const isLong = leg.side === 'LONG';
+
+      try {
+        await this.submitLegOrderWithRetry(
+          position,
+          isLong ? 'SELL' : 'BUY',
+          true,
+          isLong ? 'CLOSE_LONG' : 'CLOSE_SHORT',
+          'Reconciliation'
+        );
+        this.logger.success(`✓ Несверенная позиция закрыта: ${leg.side} ${leg.symbol} на ${leg.exchange.toUpperCase()}`);
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        this.logger.error(`❌ Не удалось закрыть ${leg.side} ${leg.symbol} на ${leg.exchange.toUpperCase()}: ${errorMsg}`);
+        failed.push(leg);
+      }
+    }
+
+    return failed;
+  }
+
+  /**
+   * Остановить открытие новых позиций до ручного разбора и перезапуска
+   */
+  private haltTrading(reason: string): void {
+    this.tradingHalt = reason;
+    this.logger.error(`⛔ Открытие новых позиций остановлено: ${reason}. Разберите позиции вручную и перезапустите бота`);
+    if (this.tui) {
+      this.tui.log(`{red-fg}⛔ Торговля остановлена: ${reason}{/}`);
+    }
+  }
+
+  getTradingHalt(): string | undefined {
+    return this.tradingHalt;
+  }
   // ===================================================
 
-  async openPositionPair(opportunity: ArbitrageOpportunity): Promise<void> {
-    // RATE LIMITING: Не открываем если уже создается другой ордер
-    if (this.pendingOrders > 0) {
-      this.logger.warn(`Пропускаем ${opportunity.symbol} - уже создается другой ордер`);
-      this.recordSkippedOpportunity(opportunity, "RATE_LIMIT_PENDING");
+  // === ЦЕНА ИСПОЛНЕНИЯ (AVG ENTRY PRICE) ===
+  /**
+   * VWAP рыночного ордера на positionSizeUSD по локальному стакану биржи.
+   * Пока стакан не синхронизирован - лучшая цена + slippage из конфига
+   */
+  private estimateExecution(
+    exchange: ExchangeName,
+    symbol: string,
+    side: OrderSide,
+    bestPrice: number,
+    bestQty: number | undefined
+  ): FillEstimate {
+    return LocalOrderBook.estimate(
+      this.exchanges.get(exchange)?.getOrderBook(symbol),
+      side,
+      this.config.trading.positionSizeUSD,
+      bestPrice,
+      bestQty,
+      this.config.slippage.percent
+    );
+  }
+  // ===================================================
+
+  /**
+   * Открыть пару по возможности стратегии. maxHoldMs - таймаут пары (Infinity - без ограничения)
+   */
+  async openPositionPair(opportunity: ArbitrageOpportunity, maxHoldMs: number): Promise<void> {
+    const rejection = this.reserveOpening(opportunity.symbol, [opportunity.buyExchange, opportunity.sellExchange]);
+    if (rejection) {
+      if (rejection.warning) {
+        this.logger.warn(`Пропускаем ${opportunity.symbol} - ${rejection.warning}`);
+      }
+      this.recordSkippedOpportunity(opportunity, rejection.reason, rejection.details);
       return;
     }
 
-    // RATE LIMITING: Ждем если с последнего ордера прошло меньше MIN_ORDER_INTERVAL_MS
-    const now = Date.now();
-    const timeSinceLastOrder = now - this.lastOrderTime;
-    if (this.lastOrderTime > 0 && timeSinceLastOrder < this.MIN_ORDER_INTERVAL_MS) {
-      const waitTime = this.MIN_ORDER_INTERVAL_MS - timeSinceLastOrder;
-      this.logger.info(`Rate limit: ждем ${waitTime}ms перед следующим ордером...`);
-      await new Promise(resolve => setTimeout(resolve, waitTime));
+    try {
+      await this.executeOpening(opportunity, maxHoldMs, this.pairCapital());
+    } finally {
+      this.releaseOpening(opportunity.symbol);
+    }
+  }
+
+  /**
+   * Занять слот открытия пары: блокировка символа и резерв капитала до первого await вызывающего.
+   * Возвращает причину отказа, если открывать нельзя; занятый слот освобождается releaseOpening
+   */
+  reserveOpening(symbol: string, exchanges: ExchangeName[]): OpeningRejection | undefined {
+    // Один символ открывается (или котируется) только одной парой
+    if (this.isOpening(symbol)) {
+      return { reason: 'SYMBOL_ALREADY_OPEN' };
+    }
+
+    const maxOpenings = this.maxConcurrentOpenings();
+    if (this.openingSymbols.size >= maxOpenings) {
+      return { reason: 'OPENINGS_LIMIT_REACHED', warning: `уже открывается ${this.openingSymbols.size}/${maxOpenings} пар` };
     }
 
-    const requiredCapital = this.config.trading.positionSizeUSD * 2;
-    if (this.currentBalance < requiredCapital) {
-      this.recordSkippedOpportunity(opportunity, "INSUFFICIENT_BALANCE");
+    const rejection = this.reserveSlot(exchanges);
+    if (rejection) return rejection;
+
+    this.openingSymbols.add(symbol);
+    return undefined;
+  }
+
+  /**
+   * Занять слот под котировки символа (HedgedQuoter). Котировки не занимают maxConcurrentOpenings -
+   * стоят долго и не должны блокировать открытия по спреду, - но считаются среди открытых пар и резервируют капитал.
+   * Освобождается releaseQuote, при исполнении переходит в открытие (startQuotedOpening)
+   */
+  reserveQuote(symbol: string, exchanges: ExchangeName[]): OpeningRejection | undefined {
+    if (this.isOpening(symbol)) {
+      return { reason: 'SYMBOL_ALREADY_OPEN' };
+    }
+
+    const rejection = this.reserveSlot(exchanges);
+    if (rejection) return rejection;
+
+    this.quotingSymbols.add(symbol);
+    return undefined;
+  }
+
+  /**
+   * Котировка исполнилась: символ переходит из котировок в открывающиеся пары, капитал остается зарезервирован.
+   * Лимит одновременных открытий не проверяется - хедж исполненной котировки ждать не может. Освобождается releaseOpening
+   */
+  startQuotedOpening(symbol: string): void {
+    if (!this.quotingSymbols.delete(symbol)) return;
+    this.openingSymbols.add(symbol);
+  }
+
+  /**
+   * Освободить слот котировок символа без исполнения
+   */
+  releaseQuote(symbol: string): void {
+    if (!this.quotingSymbols.delete(symbol)) return;
+    this.reservedCapital -= this.pairCapital();
+  }
+
+  /**
+   * Общие проверки слота открытия и котировок: место среди открытых пар, лимит запросов, капитал.
+   * Без отказа капитал пары резервируется
+   */
+  private reserveSlot(exchanges: ExchangeName[]): OpeningRejection | undefined {
+    // Открывающиеся пары и котировки занимают слоты наравне с открытыми
+    if (this.openPositions.size + this.openingSymbols.size + this.quotingSymbols.size >= this.config.trading.maxOpenPositions) {
+      return { reason: 'MAX_POSITIONS_REACHED' };
+    }
+
+    // Биржа ответила 429/418: ордер ждал бы в очереди лимитера до конца паузы, сигнал к тому времени устареет
+    const throttled = exchanges.find((name) => this.exchanges.get(name)?.isRateLimited());
+    if (throttled) {
+      return { reason: 'RATE_LIMITED', warning: `${throttled.toUpperCase()} ограничила запросы` };
+    }
+
+    // Капитал открывающихся пар и котировок еще не списан с баланса - не тратим его второй раз
+    const requiredCapital = this.pairCapital();
+    const availableBalance = this.currentBalance - this.reservedCapital;
+    if (availableBalance < requiredCapital) {
+      return { reason: 'INSUFFICIENT_BALANCE', details: { availableBalance, requiredBalance: requiredCapital } };
+    }
+
+    this.reservedCapital += requiredCapital;
+    return undefined;
+  }
+
+  /**
+   * Освободить слот, занятый reserveOpening: пара открыта или отклонена
+   */
+  releaseOpening(symbol: string): void {
+    if (!this.openingSymbols.delete(symbol)) return;
+    this.reservedCapital -= this.pairCapital();
+  }
+
+  private pairCapital(): number {
+    return this.config.trading.positionSizeUSD * 2;
+  }
+
+  /**
+   * Проверки стакана и объемов, ордера ног и учет открытой пары (символ заблокирован, капитал зарезервирован)
+   */
+  private async executeOpening(opportunity: ArbitrageOpportunity, maxHoldMs: number, requiredCapital: number): Promise<void> {
+    // Не входим прямо перед расчетом фандинга не в пользу пары
+    if (this.funding && this.funding.getAdversePolicy() !== 'none'
+      && this.funding.isAdverseSoon(opportunity.symbol, opportunity.buyExchange, opportunity.sellExchange)) {
+      this.recordSkippedOpportunity(opportunity, 'ADVERSE_FUNDING');
       return;
     }
 
-    // 1. Рассчитываем реальную цену входа для LONG (Покупка)
-    // availableQty - это askQty (то что продают другие)
-    const longExec = this.calculateExecutionPrice(
-        this.config.trading.positionSizeUSD,
+    // 1. Рассчитываем реальную цену входа для LONG (Покупка по asks)
+    // Стакан перечитываем: с момента сигнала он мог измениться
+    const longExec = this.estimateExecution(
+        opportunity.buyExchange,
+        opportunity.symbol,
+        'BUY',
         opportunity.buyPrice,
         opportunity.buyQtyAvailable
     );
 
-    // 2. Рассчитываем реальную цену входа для SHORT (Продажа)
-    // availableQty - это bidQty (то что покупают другие)
-    const shortExec = this.calculateExecutionPrice(
-        this.config.trading.positionSizeUSD,
+    // 2. Рассчитываем реальную цену входа для SHORT (Продажа по bids)
+    const shortExec = this.estimateExecution(
+        opportunity.sellExchange,
+        opportunity.symbol,
+        'SELL',
         opportunity.sellPrice,
         opportunity.sellQtyAvailable
     );
 
+    if (!longExec.complete || !shortExec.complete) {
+        this.logger.warn(`Пропускаем ${opportunity.symbol}: мало ликвидности. Long ${longExec.details}, Short ${shortExec.details}`);
+        this.recordSkippedOpportunity(opportunity, 'LIQUIDITY_LOW');
+        return;
+    }
+
     // Если были проблемы с ликвидностью, пишем варнинг в лог
     if (longExec.slippageCost > 0 || shortExec.slippageCost > 0) {
         this.logger.warn(`Liquidity Hit on ${opportunity.symbol}: Long ${longExec.details}, Short ${shortExec.details}`);
     }
 
+    // 3. Подбираем объем ног с учетом шагов и минимумов бирж (одинаковая экспозиция в базовой валюте)
+    const sizing = this.metadata.sizePair(
+        opportunity.symbol,
+        opportunity.buyExchange,
+        opportunity.sellExchange,
+        this.config.trading.positionSizeUSD,
+        longExec.avgPrice,
+        shortExec.avgPrice,
+        this.config.trading.maxLegMismatchPercent
+    );
+
+    if (!sizing.ok) {
+        this.logger.warn(`Пропускаем ${opportunity.symbol}: ${sizing.details}`);
+        this.recordSkippedOpportunity(opportunity, sizing.reason);
+        return;
+    }
+
+    const now = Clock.now();
     const pairId = randomUUID();
-    const timeoutAt = this.config.trading.positionTimeoutSeconds === 0
-      ? Infinity
-      : now + this.config.trading.positionTimeoutSeconds * 1000;
+    const timeoutAt = now + maxHoldMs;
 
     const longPosition: Position = {
       id: randomUUID(),
@@ -234,9 +666,11 @@ export class TradeExecutor {
       exchange: opportunity.buyExchange,
       side: 'LONG',
       entryPrice: longExec.avgPrice, // ИСПОЛЬЗУЕМ AVG PRICE
-      quantity: this.config.trading.positionSizeUSD / longExec.avgPrice,
-      sizeUSD: this.config.trading.positionSizeUSD,
+      quantity: sizing.longBaseQuantity,
+      orderQuantity: sizing.longOrderQuantity,
+      sizeUSD: sizing.longBaseQuantity * longExec.avgPrice,
       leverage: this.config.trading.leverage,
+      marginMode: this.config.trading.marginMode,
       status: 'OPEN',
       openTime: now,
     };
@@ -247,498 +681,1227 @@ export class TradeExecutor {
       exchange: opportunity.sellExchange,
       side: 'SHORT',
       entryPrice: shortExec.avgPrice, // ИСПОЛЬЗУЕМ AVG PRICE
-      quantity: this.config.trading.positionSizeUSD / shortExec.avgPrice,
-      sizeUSD: this.config.trading.positionSizeUSD,
+      quantity: sizing.shortBaseQuantity,
+      orderQuantity: sizing.shortOrderQuantity,
+      sizeUSD: sizing.shortBaseQuantity * shortExec.avgPrice,
       leverage: this.config.trading.leverage,
+      marginMode: this.config.trading.marginMode,
       status: 'OPEN',
       openTime: now,
     };
 
-    // Определяем оригинальные цены для каждой биржи
-    const originalBinancePrice = opportunity.buyExchange === 'binance'
-      ? opportunity.buyPrice
-      : opportunity.sellPrice;
-    const originalMexcPrice = opportunity.buyExchange === 'mexc'
-      ? opportunity.buyPrice
-      : opportunity.sellPrice;
-
-    // ===== РЕАЛЬНАЯ ТОРГОВЛЯ =====
-    if (!this.config.trading.testMode) {
-      // Увеличиваем счетчик одновременных ордеров
-      this.pendingOrders++;
+    const positionPair: PositionPair = {
+      id: pairId,
+      symbol: opportunity.symbol,
+      longPosition,
+      shortPosition,
+      openSpread: opportunity.spreadPercent,
+      expectedProfit: opportunity.profitPercent,
+      status: 'OPEN',
+      openTime: now,
+      timeoutAt,
+      originalLongPrice: opportunity.buyPrice,
+      originalShortPrice: opportunity.sellPrice,
+      priceDiffPercent: opportunity.spreadPercent, // Изначально равен спреду
+      strategy: opportunity.strategy ?? 'SPREAD',
+      openFundingDiffPercent: opportunity.fundingDiffPercent,
+      currentFundingDiffPercent: opportunity.fundingDiffPercent,
+    };
 
+    // ===== РЕАЛЬНАЯ (ИЛИ БУМАЖНАЯ) ТОРГОВЛЯ =====
+    if (this.placesOrders()) {
       try {
         // БЕЗОПАСНОСТЬ: Проверяем лимиты перед реальными ордерами
-        if (this.config.trading.positionSizeUSD > 100) {
+        if (!this.config.trading.testMode && this.config.trading.positionSizeUSD > 100) {
           this.logger.error(`ОТКЛОНЕНО: Размер позиции $${this.config.trading.positionSizeUSD} > $100. Для безопасности измените positionSizeUSD в config.json`);
           this.recordSkippedOpportunity(opportunity, 'POSITION_SIZE_TOO_LARGE');
-          this.pendingOrders--;
           return;
         }
 
-        if (this.openPositions.size >= this.config.trading.maxOpenPositions) {
-          this.recordSkippedOpportunity(opportunity, 'MAX_POSITIONS_REACHED');
-          this.pendingOrders--;
-          return;
-        }
-
-        this.logger.warn(`⚠️  РЕАЛЬНАЯ ТОРГОВЛЯ: Открываем позицию ${opportunity.symbol}...`);
-
-        // Установить leverage на обеих биржах (не критично если не получится)
-        try {
-          if (this.binance && longPosition.exchange === 'binance') {
-            await this.binance.setLeverage(opportunity.symbol, this.config.trading.leverage);
-          }
-          if (this.binance && shortPosition.exchange === 'binance') {
-            await this.binance.setLeverage(opportunity.symbol, this.config.trading.leverage);
-          }
-        } catch (error) {
-          const errorMsg = error instanceof Error ? error.message : String(error);
-          this.logger.warn(`Binance leverage warning (продолжаем): ${errorMsg}`);
-          this.recordTradingError({
-            timestamp: Date.now(),
-            symbol: opportunity.symbol,
-            operation: 'SET_LEVERAGE',
-            exchange: 'binance',
-            errorMessage: errorMsg,
-            context: `Leverage: ${this.config.trading.leverage}x`,
-          });
-        }
+        this.logger.warn(`⚠️  ${this.modeLabel()} Открываем позицию ${opportunity.symbol}...`);
 
-        try {
-          const mexcSymbol = opportunity.symbol.replace('USDT', '_USDT');
-          if (this.mexc && longPosition.exchange === 'mexc') {
-            await this.mexc.setLeverage(mexcSymbol, this.config.trading.leverage);
-          }
-          if (this.mexc && shortPosition.exchange === 'mexc') {
-            await this.mexc.setLeverage(mexcSymbol, this.config.trading.leverage);
-          }
-        } catch (error) {
-          const errorMsg = error instanceof Error ? error.message : String(error);
-          this.logger.warn(`MEXC leverage warning (продолжаем): ${errorMsg}`);
-
-          // Парсим код ошибки из сообщения
-          const errorCodeMatch = errorMsg.match(/code[":]+(\d+)/i);
-          const errorCode = errorCodeMatch ? parseInt(errorCodeMatch[1]) : undefined;
-
-          this.recordTradingError({
-            timestamp: Date.now(),
-            symbol: opportunity.symbol,
-            operation: 'SET_LEVERAGE',
-            exchange: 'mexc',
-            errorCode,
-            errorMessage: errorMsg,
-            context: `Leverage: ${this.config.trading.leverage}x`,
-          });
+        // Режим маржи обязателен: в другом режиме риск ноги не тот, что задан в конфиге
+        if (!await this.prepareMarginMode(opportunity.symbol, [longPosition.exchange, shortPosition.exchange])) {
+          this.recordSkippedOpportunity(opportunity, 'MARGIN_MODE_FAILED');
+          return;
         }
 
-        // Открываем LONG позицию
-        try {
-          if (longPosition.exchange === 'binance' && this.binance) {
-            await this.binance.createMarketOrder(
-              opportunity.symbol,
-              'BUY',
-              longPosition.quantity,
-              false
-            );
-          } else if (longPosition.exchange === 'mexc' && this.mexc) {
-            const mexcSymbol = opportunity.symbol.replace('USDT', '_USDT');
-            await this.mexc.createMarketOrder(
-              mexcSymbol,
-              1, // Open Long
-              Math.floor(longPosition.quantity)
-            );
-          }
-        } catch (error) {
-          const errorMsg = error instanceof Error ? error.message : String(error);
-          const errorCodeMatch = errorMsg.match(/code[":]+(\d+)/i);
-          const errorCode = errorCodeMatch ? parseInt(errorCodeMatch[1]) : undefined;
-
-          this.recordTradingError({
-            timestamp: Date.now(),
-            symbol: opportunity.symbol,
-            operation: 'OPEN_LONG',
-            exchange: longPosition.exchange,
-            errorCode,
-            errorMessage: errorMsg,
-            context: `Size: $${this.config.trading.positionSizeUSD}, Qty: ${longPosition.quantity.toFixed(4)}`,
-          });
-          throw error; // Пробрасываем дальше чтобы не открывать SHORT если LONG провалился
+        if (!await this.prepareLeverage(opportunity.symbol, [longPosition.exchange, shortPosition.exchange])) {
+          this.recordSkippedOpportunity(opportunity, 'LEVERAGE_FAILED');
+          return;
         }
 
-        // Задержка 500ms между ордерами для предотвращения rate limit
-        await new Promise(resolve => setTimeout(resolve, 500));
+        const opened = this.config.trading.legExecution === 'parallel'
+          ? await this.openLegsParallel(positionPair)
+          : await this.openLegsSequential(positionPair);
 
-        // Открываем SHORT позицию
-        try {
-          if (shortPosition.exchange === 'binance' && this.binance) {
-            await this.binance.createMarketOrder(
-              opportunity.symbol,
-              'SELL',
-              shortPosition.quantity,
-              false
-            );
-          } else if (shortPosition.exchange === 'mexc' && this.mexc) {
-            const mexcSymbol = opportunity.symbol.replace('USDT', '_USDT');
-            await this.mexc.createMarketOrder(
-              mexcSymbol,
-              3, // Open Short
-              Math.floor(shortPosition.quantity)
-            );
-          }
-        } catch (error) {
-          const errorMsg = error instanceof Error ? error.message : String(error);
-          const errorCodeMatch = errorMsg.match(/code[":]+(\d+)/i);
-          const errorCode = errorCodeMatch ? parseInt(errorCodeMatch[1]) : undefined;
-
-          this.recordTradingError({
-            timestamp: Date.now(),
-            symbol: opportunity.symbol,
-            operation: 'OPEN_SHORT',
-            exchange: shortPosition.exchange,
-            errorCode,
-            errorMessage: errorMsg,
-            context: `Size: $${this.config.trading.positionSizeUSD}, Qty: ${shortPosition.quantity.toFixed(4)}`,
-          });
-          throw error;
+        if (!opened) {
+          return;
         }
 
-        this.logger.success(`✓ РЕАЛЬНЫЕ ОРДЕРА СОЗДАНЫ: ${opportunity.symbol}`);
-
-        // Обновляем время последнего ордера и уменьшаем счетчик
-        this.lastOrderTime = Date.now();
-        this.pendingOrders--;
+        // Фактические цены и объемы входа вместо оценки по стакану
+        await this.loadFills([longPosition, shortPosition], 'entry');
+        this.measureLegSkew(longPosition, shortPosition);
+        await this.trimExcessLeg(positionPair);
+        this.warnLegMismatch(positionPair);
+
+        this.logger.success(
+          `✓ ${this.modeLabel()} ОРДЕРА СОЗДАНЫ: ${opportunity.symbol} ` +
+          `(latency L ${longPosition.timing?.latencyMs ?? '-'}ms / S ${shortPosition.timing?.latencyMs ?? '-'}ms, ` +
+          `skew ${longPosition.timing?.legSkewMs ?? '-'}ms)`
+        );
       } catch (error) {
         this.logger.error(`ОШИБКА создания реальных ордеров: ${error instanceof Error ? error.message : String(error)}`);
         this.recordSkippedOpportunity(opportunity, 'ORDER_CREATION_FAILED');
-        this.pendingOrders--;
         return;
       }
     }
     // ===== КОНЕЦ РЕАЛЬНОЙ ТОРГОВЛИ =====
 
-    const positionPair: PositionPair = {
-      id: pairId,
-      symbol: opportunity.symbol,
-      longPosition,
-      shortPosition,
-      openSpread: opportunity.spreadPercent,
-      expectedProfit: opportunity.profitPercent,
-      status: 'OPEN',
-      openTime: now,
-      timeoutAt,
-      originalBinancePrice,
-      originalMexcPrice,
-      priceDiffPercent: opportunity.spreadPercent, // Изначально равен спреду
-    };
+    await this.registerOpenedPair(positionPair, requiredCapital);
+  }
 
-    this.openPositions.set(pairId, positionPair);
+  /**
+   * Установить плечо на биржах ног. В кросс-режиме ошибка не критична (плечо биржи не меняет риск баланса),
+   * в изолированном - обязательна: от плеча зависит маржа ноги, а MEXC без него не примет ордер. false - открывать нельзя
+   */
+  async prepareLeverage(symbol: string, exchangeNames: ExchangeName[]): Promise<boolean> {
+    const { leverage, marginMode } = this.config.trading;
 
-    // Обновляем баланс
-    if (this.config.trading.testMode) {
-      this.currentBalance -= requiredCapital;
-    } else {
-      // В реальном режиме получаем актуальный баланс с биржи
-      let binanceBalance = 0;
-      let mexcBalance = 0;
+    for (const name of exchangeNames) {
+      const exchange = this.exchanges.get(name);
+      if (!exchange) continue;
 
-      if (this.binance) {
-        try {
-          binanceBalance = await this.binance.getBalance();
-        } catch (error) {
-          const errorMsg = error instanceof Error ? error.message : String(error);
-          const errorCodeMatch = errorMsg.match(/code[":]+(\d+)/i);
-          const errorCode = errorCodeMatch ? parseInt(errorCodeMatch[1]) : undefined;
-
-          this.recordTradingError({
-            timestamp: Date.now(),
-            symbol: opportunity.symbol,
-            operation: 'GET_BALANCE',
-            exchange: 'binance',
-            errorCode,
-            errorMessage: errorMsg,
-          });
-          this.logger.warn(`Не удалось получить баланс Binance: ${errorMsg}`);
+      try {
+        await exchange.setLeverage(symbol, leverage);
+      } catch (error) {
+        const errorMsg = this.recordApiError(error, {
+          symbol,
+          operation: 'SET_LEVERAGE',
+          exchange: name,
+          context: `Leverage: ${leverage}x, ${marginMode}`,
+        });
+        if (marginMode === 'isolated') {
+          this.logger.error(`${name.toUpperCase()}: плечо ${leverage}x для изолированной маржи ${symbol} не установлено - ${errorMsg}`);
+          return false;
         }
+        this.logger.warn(`${name.toUpperCase()} leverage warning (продолжаем): ${errorMsg}`);
       }
+    }
+    return true;
+  }
 
-      if (this.mexc) {
-        try {
-          mexcBalance = await this.mexc.getBalance();
-        } catch (error) {
-          const errorMsg = error instanceof Error ? error.message : String(error);
-          const errorCodeMatch = errorMsg.match(/code[":]+(\d+)/i);
-          const errorCode = errorCodeMatch ? parseInt(errorCodeMatch[1]) : undefined;
-
-          this.recordTradingError({
-            timestamp: Date.now(),
-            symbol: opportunity.symbol,
-            operation: 'GET_BALANCE',
-            exchange: 'mexc',
-            errorCode,
-            errorMessage: errorMsg,
-          });
-          this.logger.warn(`Не удалось получить баланс MEXC: ${errorMsg}`);
-        }
-      }
+  /**
+   * Перевести символ в trading.marginMode на биржах ног - один раз на биржу и символ, до первого ордера.
+   * Отказ биржи записывается в ошибки торговли с классом отказа в errorCode. false - открывать нельзя
+   */
+  async prepareMarginMode(symbol: string, exchangeNames: ExchangeName[]): Promise<boolean> {
+    const mode = this.config.trading.marginMode;
+
+    for (const name of exchangeNames) {
+      const exchange = this.exchanges.get(name);
+      if (!exchange || this.marginModeReady.has(`${name}:${symbol}`)) continue;
 
-      // Устанавливаем баланс как минимум из двух
-      if (binanceBalance > 0 && mexcBalance > 0) {
-        this.currentBalance = Math.min(binanceBalance, mexcBalance);
-      } else if (binanceBalance > 0) {
-        this.currentBalance = binanceBalance;
-      } else if (mexcBalance > 0) {
-        this.currentBalance = mexcBalance;
+      let status: MarginModeStatus;
+      try {
+        status = await exchange.setMarginMode(symbol, mode);
+      } catch (error) {
+        const errorMsg = this.recordApiError(error, {
+          symbol,
+          operation: 'SET_MARGIN_MODE',
+          exchange: name,
+          context: `Режим маржи: ${mode}`,
+        });
+        this.logger.error(`${name.toUpperCase()}: режим маржи ${mode} для ${symbol} не установлен - ${errorMsg}`);
+        return false;
       }
-    }
 
-    // Пишем красивый лог
-    const mode = this.config.trading.testMode ? '[TEST]' : '[REAL]';
-    this.logger.trade(`${mode} OPEN ${opportunity.symbol}: Spread ${opportunity.spreadPercent.toFixed(2)}%. Est. Profit: ${opportunity.profitPercent.toFixed(2)}%`);
-    if (this.tui) {
-      this.tui.log(`{green-fg}✓ Открыта позиция ${opportunity.symbol}: Binance @ ${originalBinancePrice.toFixed(4)}, MEXC @ ${originalMexcPrice.toFixed(4)}{/}`);
+      if (status !== 'SET' && status !== 'UNCHANGED') {
+        const errorMessage = `Режим маржи ${mode} не установлен: ${MARGIN_MODE_REFUSALS[status]}`;
+        this.recordTradingError({
+          timestamp: Clock.now(),
+          symbol,
+          operation: 'SET_MARGIN_MODE',
+          exchange: name,
+          errorCode: status,
+          errorMessage,
+          context: `Режим маржи: ${mode}`,
+        });
+        this.logger.error(`${name.toUpperCase()} ${symbol}: ${errorMessage}`);
+        return false;
+      }
+      this.marginModeReady.add(`${name}:${symbol}`);
     }
-
-    // Обновляем TUI
-    if(this.tui) this.tui.updatePositions(Array.from(this.openPositions.values()));
+    return true;
   }
 
-  async updatePositionSpread(symbol: string, currentBuyPrice: number, currentSellPrice: number): Promise<void> {
-    for (const [pairId, pair] of this.openPositions.entries()) {
+  /**
+   * Открыть пару по исполненной котировке HedgedQuoter: нога на бирже котировки уже открыта (fill),
+   * вторая нога - рыночный хедж того же объема в базовой валюте. Символ занят вызывающим (startQuotedOpening).
+   * Если хедж не открылся после повторов, нога котировки откатывается. undefined - пара не открыта
+   */
+  async openHedgedPair(
+    opportunity: ArbitrageOpportunity,
+    makerExchange: ExchangeName,
+    fill: OrderFill,
+    maxHoldMs: number
+  ): Promise<PositionPair | undefined> {
+    const { symbol } = opportunity;
+    const makerSide: PositionSide = opportunity.buyExchange === makerExchange ? 'LONG' : 'SHORT';
+    const hedgeExchange = makerSide === 'LONG' ? opportunity.sellExchange : opportunity.buyExchange;
+    const hedgePrice = makerSide === 'LONG' ? opportunity.sellPrice : opportunity.buyPrice;
+
+    const now = Clock.now();
+    // Нога котировки: ackTime - момент, когда исполнение стало известно
+    const detectedAt = Date.now();
+    const makerPosition: Position = {
+      id: randomUUID(),
+      symbol,
+      exchange: makerExchange,
+      side: makerSide,
+      entryPrice: fill.avgPrice,
+      quantity: fill.executedQty,
+      orderQuantity: this.metadata.toOrderQuantity(makerExchange, symbol, fill.executedQty),
+      sizeUSD: fill.executedQty * fill.avgPrice,
+      leverage: this.config.trading.leverage,
+      marginMode: this.config.trading.marginMode,
+      status: 'OPEN',
+      openTime: now,
+      entryOrderId: fill.orderId,
+      timing: { sendTime: detectedAt, ackTime: detectedAt, fillTime: fill.fillTime, latencyMs: 0 },
+    };
+    this.limitFills.set(`${makerExchange}:${fill.orderId}`, fill);
+
+    // Объем хеджа - исполненный объем котировки, округленный до шага биржи хеджа
+    const hedgeOrderQty = this.metadata.toOrderQuantity(hedgeExchange, symbol, fill.executedQty);
+    const hedgeSpec = this.metadata.getSpec(hedgeExchange, symbol);
+    const hedgeQuantity = hedgeOrderQty && hedgeSpec ? hedgeOrderQty * hedgeSpec.contractSize : 0;
+    const hedgePosition: Position = {
+      id: randomUUID(),
+      symbol,
+      exchange: hedgeExchange,
+      side: makerSide === 'LONG' ? 'SHORT' : 'LONG',
+      entryPrice: hedgePrice,
+      quantity: hedgeQuantity,
+      orderQuantity: hedgeOrderQty,
+      sizeUSD: hedgeQuantity * hedgePrice,
+      leverage: this.config.trading.leverage,
+      marginMode: this.config.trading.marginMode,
+      status: 'OPEN',
+      openTime: now,
+    };
+
+    const longPosition = makerSide === 'LONG' ? makerPosition : hedgePosition;
+    const shortPosition = makerSide === 'LONG' ? hedgePosition : makerPosition;
+    const positionPair: PositionPair = {
+      id: randomUUID(),
+      symbol,
+      longPosition,
+      shortPosition,
+      openSpread: opportunity.spreadPercent,
+      expectedProfit: opportunity.profitPercent,
+      status: 'OPEN',
+      openTime: now,
+      timeoutAt: now + maxHoldMs,
+      originalLongPrice: opportunity.buyPrice,
+      originalShortPrice: opportunity.sellPrice,
+      priceDiffPercent: opportunity.spreadPercent,
+      strategy: opportunity.strategy ?? 'SPREAD',
+    };
+
+    this.logger.warn(
+      `⚠️  ${this.modeLabel()} Котировка ${symbol} исполнена: ${makerSide} ${fill.executedQty} @ ${fill.avgPrice} ` +
+      `на ${makerExchange.toUpperCase()}, хеджируем на ${hedgeExchange.toUpperCase()}...`
+    );
+
+    const hedgeSide: OrderSide = hedgePosition.side === 'LONG' ? 'BUY' : 'SELL';
+    const operation = hedgePosition.side === 'LONG' ? 'HEDGE_LONG' : 'HEDGE_SHORT';
+    try {
+      if (!hedgeOrderQty || !hedgeSpec || hedgeOrderQty < hedgeSpec.minQty) {
+        throw new Error(`${hedgeExchange.toUpperCase()}: объем хеджа ${fill.executedQty} ${symbol} меньше минимального ордера`);
+      }
+      const result = await this.submitLegOrderWithRetry(hedgePosition, hedgeSide, false, operation);
+      hedgePosition.timing = result.timing;
+    } catch (error) {
+      await this.handleLegFailure(positionPair, hedgePosition.side, error, 1 + this.legRetryAttempts());
+      return undefined;
+    }
+
+    await this.loadFills([longPosition, shortPosition], 'entry');
+    this.measureLegSkew(longPosition, shortPosition);
+    this.warnLegMismatch(positionPair);
+
+    this.logger.success(
+      `✓ ${this.modeLabel()} ХЕДЖ СОЗДАН: ${symbol} (latency ${hedgePosition.timing?.latencyMs ?? '-'}ms, ` +
+      `skew ${hedgePosition.timing?.legSkewMs ?? '-'}ms)`
+    );
+
+    await this.registerOpenedPair(positionPair, this.pairCapital());
+    return positionPair;
+  }
+
+  /**
+   * Исполнены обе котировки HedgedQuoter: на бирже котировки (позиции one-way) они уже взаимно закрылись,
+   * хеджировать нечего. Разница объемов закрывается reduce-only рыночным ордером, случай пишется в legIncidents:
+   * LEG_UNWOUND - позиции на бирже не осталось, LEG_NAKED - остаток закрыть не удалось
+   */
+  async unwindCrossedQuotes(
+    symbol: string,
+    makerExchange: ExchangeName,
+    buyFill: OrderFill,
+    sellFill: OrderFill
+  ): Promise<void> {
+    const now = Clock.now();
+    const toPosition = (fill: OrderFill, side: PositionSide): Position => ({
+      id: randomUUID(),
+      symbol,
+      exchange: makerExchange,
+      side,
+      entryPrice: fill.avgPrice,
+      quantity: fill.executedQty,
+      orderQuantity: this.metadata.toOrderQuantity(makerExchange, symbol, fill.executedQty),
+      sizeUSD: fill.executedQty * fill.avgPrice,
+      leverage: this.config.trading.leverage,
+      marginMode: this.config.trading.marginMode,
+      status: 'CLOSED',
+      openTime: now,
+      entryOrderId: fill.orderId,
+      entryFill: fill,
+    });
+    const longPosition = toPosition(buyFill, 'LONG');
+    const shortPosition = toPosition(sellFill, 'SHORT');
+    // Исполнения котировок уже получены вызывающим
+    this.streamFills.delete(`${makerExchange}:${buyFill.orderId}`);
+    this.streamFills.delete(`${makerExchange}:${sellFill.orderId}`);
+
+    // Остаток на бирже - нога с большим исполнением; меньшая закрыта встречной котировкой целиком
+    const netQty = buyFill.executedQty - sellFill.executedQty;
+    const residual = netQty >= 0 ? longPosition : shortPosition;
+    const offset = netQty >= 0 ? shortPosition : longPosition;
+    const residualOrderQty = this.metadata.toOrderQuantity(makerExchange, symbol, Math.abs(netQty));
+
+    const pair: PositionPair = {
+      id: randomUUID(),
+      symbol,
+      longPosition,
+      shortPosition,
+      openSpread: ((sellFill.avgPrice - buyFill.avgPrice) / buyFill.avgPrice) * 100,
+      expectedProfit: 0,
+      status: 'LEG_UNWOUND',
+      openTime: now,
+      closeTime: now,
+      timeoutAt: now,
+      legFailure: {
+        stage: 'QUOTE',
+        failedSide: offset.side,
+        attempts: 0,
+        errorMessage: `Исполнены обе котировки ${symbol} на ${makerExchange.toUpperCase()}: ` +
+          `BUY ${buyFill.executedQty} @ ${buyFill.avgPrice}, SELL ${sellFill.executedQty} @ ${sellFill.avgPrice}`,
+        unwindAttempts: 0,
+      },
+    };
+    const failure = pair.legFailure!;
+
+    this.logger.error(`⚠️  ${failure.errorMessage} - хедж не открываем, закрываем остаток ${residual.side} ${Math.abs(netQty)}`);
+
+    // Остаток закрываем тем же путем, что и откат ноги: объем ордера - только разница исполнений
+    if (residualOrderQty) {
+      residual.orderQuantity = residualOrderQty;
+      const unwindSide: OrderSide = residual.side === 'LONG' ? 'SELL' : 'BUY';
+      const unwindOperation = residual.side === 'LONG' ? 'UNWIND_LONG' : 'UNWIND_SHORT';
+      try {
+        const result = await this.submitLegOrderWithRetry(residual, unwindSide, true, unwindOperation);
+        failure.unwindAttempts = result.attempts;
+      } catch (unwindError) {
+        failure.unwindAttempts = 1 + this.legRetryAttempts();
+        failure.unwindError = unwindError instanceof Error ? unwindError.message : String(unwindError);
+        residual.status = 'OPEN';
+        pair.status = 'LEG_NAKED';
+      }
+    }
+
+    // Результат: встречные исполнения по их ценам и закрытие остатка по сделке биржи, за вычетом комиссий
+    if (pair.status === 'LEG_UNWOUND') {
+      await this.loadFills([residual], 'exit');
+      const offsetQty = Math.min(buyFill.executedQty, sellFill.executedQty);
+      let pnlUSD = (sellFill.avgPrice - buyFill.avgPrice) * offsetQty
+        - TradeExecutor.commissionUSD(buyFill)
+        - TradeExecutor.commissionUSD(sellFill);
+      if (residual.exitFill) {
+        const direction = residual.side === 'LONG' ? 1 : -1;
+        pnlUSD += direction * (residual.exitFill.avgPrice - residual.entryPrice) * residual.exitFill.executedQty
+          - TradeExecutor.commissionUSD(residual.exitFill);
+      }
+      residual.pnl = pnlUSD;
+      residual.pnlPercent = (pnlUSD / residual.sizeUSD) * 100;
+      pair.actualProfit = residual.pnlPercent;
+    }
+
+    this.legIncidents.push(pair);
+    this.journal?.write({ type: 'leg_incident', pair });
+
+    const outcome = pair.status === 'LEG_UNWOUND'
+      ? `остаток ${residual.side} ${makerExchange.toUpperCase()} закрыт (попыток: ${failure.unwindAttempts})`
+      : `остаток ${residual.side} ${Math.abs(netQty)} на ${makerExchange.toUpperCase()} НЕ ЗАКРЫТ - закройте вручную: ${failure.unwindError}`;
+
+    this.recordTradingError({
+      timestamp: now,
+      symbol,
+      operation: 'LEG_FAILURE',
+      exchange: makerExchange,
+      errorMessage: failure.errorMessage,
+      context: `Хедж не открывался, ${outcome}`,
+    });
+
+    if (pair.status === 'LEG_UNWOUND') {
+      this.logger.warn(`Встречные котировки ${symbol}: ${outcome}`);
+    } else {
+      this.logger.error(`⚠️  ОТКРЫТАЯ НОГА БЕЗ ХЕДЖА ${symbol}: ${outcome}`);
+    }
+
+    await this.refreshBalance(symbol);
+    this.refreshTuiPositions();
+  }
+
+  /**
+   * Учет открытой пары: список открытых, баланс, журнал, лог и TUI
+   */
+  private async registerOpenedPair(pair: PositionPair, requiredCapital: number): Promise<void> {
+    for (const position of [pair.longPosition, pair.shortPosition]) {
+      if (position.liquidationPrice === undefined) {
+        position.liquidationPrice = RiskGuard.estimateLiquidationPrice(position.side, position.entryPrice, position.leverage);
+      }
+    }
+    this.openPositions.set(pair.id, pair);
+
+    // Обновляем баланс
+    if (!this.placesOrders()) {
+      this.currentBalance -= requiredCapital;
+    } else {
+      // В реальном режиме получаем актуальный баланс с биржи
+      await this.refreshBalance(pair.symbol);
+    }
+    this.journal?.write({ type: 'pair_open', pair, balance: this.currentBalance });
+
+    // Пишем красивый лог
+    this.logger.trade(`${this.modeLabel()} OPEN ${pair.symbol}: Spread ${pair.openSpread.toFixed(2)}%. Est. Profit: ${pair.expectedProfit.toFixed(2)}%`);
+    if (this.tui) {
+      this.tui.log(
+        `{green-fg}✓ Открыта позиция ${pair.symbol}: ` +
+        `LONG ${pair.longPosition.exchange.toUpperCase()} @ ${(pair.originalLongPrice ?? pair.longPosition.entryPrice).toFixed(4)}, ` +
+        `SHORT ${pair.shortPosition.exchange.toUpperCase()} @ ${(pair.originalShortPrice ?? pair.shortPosition.entryPrice).toFixed(4)}{/}`
+      );
+    }
+
+    // Обновляем TUI
+    this.refreshTuiPositions();
+  }
+
+  /**
+   * LONG, затем SHORT (темп ордеров задает лимитер биржи). Ошибка LONG пробрасывается (ничего не открыто),
+   * ошибка SHORT после повторов - откат LONG. false - пара не открыта
+   */
+  private async openLegsSequential(pair: PositionPair): Promise<boolean> {
+    const { longPosition, shortPosition } = pair;
+
+    // Пробрасываем ошибку дальше чтобы не открывать SHORT если LONG провалился
+    const plannedLongQty = longPosition.orderQuantity;
+    longPosition.timing = await this.submitLegOrder(longPosition, 'BUY', false, 'OPEN_LONG');
+
+    // LONG исполнен лимитными ордерами не полностью - SHORT открываем на фактический объем
+    if (longPosition.orderQuantity !== plannedLongQty && !this.fitLegQuantity(shortPosition, longPosition.quantity)) {
+      const error = new Error(
+        `${shortPosition.exchange.toUpperCase()}: объем ${longPosition.quantity} ${pair.symbol} меньше минимального ордера`
+      );
+      await this.handleLegFailure(pair, 'SHORT', error, 0);
+      return false;
+    }
+
+    // LONG уже на бирже - при ошибке SHORT повторяем, затем откатываем LONG
+    try {
+      const result = await this.submitLegOrderWithRetry(shortPosition, 'SELL', false, 'OPEN_SHORT');
+      shortPosition.timing = result.timing;
+      return true;
+    } catch (error) {
+      await this.handleLegFailure(pair, 'SHORT', error, 1 + this.legRetryAttempts());
+      return false;
+    }
+  }
+
+  /**
+   * Обе ноги отправляются одновременно. Если упали обе - ошибка пробрасывается (ничего не открыто),
+   * если одна - она повторяется, затем откатывается открытая. false - пара не открыта
+   */
+  private async openLegsParallel(pair: PositionPair): Promise<boolean> {
+    const { longPosition, shortPosition } = pair;
+
+    const [longResult, shortResult] = await Promise.allSettled([
+      this.submitLegOrder(longPosition, 'BUY', false, 'OPEN_LONG'),
+      this.submitLegOrder(shortPosition, 'SELL', false, 'OPEN_SHORT'),
+    ]);
+
+    if (longResult.status === 'rejected' && shortResult.status === 'rejected') {
+      throw longResult.reason;
+    }
+
+    if (longResult.status === 'fulfilled') longPosition.timing = longResult.value;
+    if (shortResult.status === 'fulfilled') shortPosition.timing = shortResult.value;
+    if (longResult.status === 'fulfilled' && shortResult.status === 'fulfilled') return true;
+
+    const failedSide: PositionSide = longResult.status === 'rejected' ? 'LONG' : 'SHORT';
+    const failed = failedSide === 'LONG' ? longPosition : shortPosition;
+    const side: OrderSide = failedSide === 'LONG' ? 'BUY' : 'SELL';
+    const operation = failedSide === 'LONG' ? 'OPEN_LONG' : 'OPEN_SHORT';
+
+    try {
+      const result = await this.submitLegOrderWithRetry(failed, side, false, operation);
+      failed.timing = result.timing;
+      return true;
+    } catch (error) {
+      await this.handleLegFailure(pair, failedSide, error, 2 + this.legRetryAttempts());
+      return false;
+    }
+  }
+
+  /**
+   * Уменьшить ногу до объема baseQuantity (в базовой валюте) с округлением вниз до шага ее биржи.
+   * Нога, которая уже не больше, не меняется. false - объем меньше минимального ордера
+   */
+  private fitLegQuantity(position: Position, baseQuantity: number): boolean {
+    const spec = this.metadata.getSpec(position.exchange, position.symbol);
+    const orderQty = this.metadata.toOrderQuantity(position.exchange, position.symbol, baseQuantity);
+    if (!spec || !orderQty || orderQty < spec.minQty) return false;
+    if (position.orderQuantity !== undefined && orderQty >= position.orderQuantity) return true;
+
+    position.orderQuantity = orderQty;
+    position.quantity = orderQty * spec.contractSize;
+    position.sizeUSD = position.quantity * position.entryPrice;
+    return true;
+  }
+
+  /**
+   * Лимитные ордера без рыночного добора могут исполнить ноги не полностью. Если объемы разошлись больше
+   * maxLegMismatchPercent, излишек большей ноги закрывается reduce-only рыночным ордером - без хеджа он не остается
+   */
+  private async trimExcessLeg(pair: PositionPair): Promise<void> {
+    if (this.legMismatchPercent(pair) <= (this.config.trading.maxLegMismatchPercent ?? 0.5)) return;
+
+    const { longPosition, shortPosition } = pair;
+    const larger = longPosition.quantity > shortPosition.quantity ? longPosition : shortPosition;
+    const smaller = larger === longPosition ? shortPosition : longPosition;
+    const spec = this.metadata.getSpec(larger.exchange, pair.symbol);
+    const excessOrderQty = this.metadata.toOrderQuantity(larger.exchange, pair.symbol, larger.quantity - smaller.quantity);
+    if (!spec || !excessOrderQty || excessOrderQty < spec.minQty) return;
+
+    const excess = excessOrderQty * spec.contractSize;
+    const side: OrderSide = larger.side === 'LONG' ? 'SELL' : 'BUY';
+    const operation = larger.side === 'LONG' ? 'UNWIND_LONG' : 'UNWIND_SHORT';
+    try {
+      await this.submitLegOrderWithRetry(larger, side, true, operation, `Excess: ${excess}`, excessOrderQty);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this.logger.error(`⚠️  Излишек ${larger.side} ${pair.symbol} ${excess} на ${larger.exchange.toUpperCase()} не закрыт: ${errorMsg}`);
+      return;
+    }
+
+    // Ордер излишка - не выход ноги: выход ищется по ордеру закрытия
+    larger.exitOrderId = undefined;
+    this.fitLegQuantity(larger, larger.quantity - excess);
+    this.logger.warn(`${larger.side} ${pair.symbol}: излишек ${excess} на ${larger.exchange.toUpperCase()} закрыт до объема второй ноги`);
+  }
+
+  private legMismatchPercent(pair: PositionPair): number {
+    const long = pair.longPosition.quantity;
+    const short = pair.shortPosition.quantity;
+    return (Math.abs(long - short) / Math.max(long, short)) * 100;
+  }
+
+  /**
+   * Объемы ног расходятся и после выравнивания (излишек не закрылся) - хедж неполный
+   */
+  private warnLegMismatch(pair: PositionPair): void {
+    const long = pair.longPosition.quantity;
+    const short = pair.shortPosition.quantity;
+    const mismatchPercent = this.legMismatchPercent(pair);
+
+    if (mismatchPercent > (this.config.trading.maxLegMismatchPercent ?? 0.5)) {
+      this.logger.warn(
+        `⚠️  Объемы ног ${pair.symbol} расходятся: LONG ${long} vs SHORT ${short} (${mismatchPercent.toFixed(2)}%), хедж неполный`
+      );
+      if (this.tui) {
+        this.tui.log(`{yellow-fg}⚠ Ноги ${pair.symbol} исполнены не полностью: LONG ${long} / SHORT ${short}{/}`);
+      }
+    }
+  }
+
+  /**
+   * Рассинхрон ног: по времени исполнения на биржах, если обе его вернули, иначе по времени ответа.
+   * Часы бирж не синхронизированы между собой - значение по fillTime включает их расхождение
+   */
+  private measureLegSkew(longPosition: Position, shortPosition: Position): void {
+    const long = longPosition.timing;
+    const short = shortPosition.timing;
+    if (!long || !short) return;
+
+    const skew = long.fillTime !== undefined && short.fillTime !== undefined
+      ? Math.abs(long.fillTime - short.fillTime)
+      : Math.abs(long.ackTime - short.ackTime);
+
+    long.legSkewMs = skew;
+    short.legSkewMs = skew;
+  }
+
+  /**
+   * Вторая нога не открылась после всех повторов: закрываем первую reduce-only ордером,
+   * чтобы на бирже не осталась неотслеживаемая позиция. Инцидент пишется в tradingErrors и legIncidents
+   */
+  private async handleLegFailure(
+    pair: PositionPair,
+    failedSide: PositionSide,
+    error: unknown,
+    attempts: number
+  ): Promise<void> {
+    const failed = failedSide === 'LONG' ? pair.longPosition : pair.shortPosition;
+    const filled = failedSide === 'LONG' ? pair.shortPosition : pair.longPosition;
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    this.logger.error(
+      `СБОЙ НОГИ ${pair.symbol}: ${failedSide} на ${failed.exchange.toUpperCase()} не открыт после ${attempts} попыток. ` +
+      `Откатываем ${filled.side} на ${filled.exchange.toUpperCase()}...`
+    );
+
+    pair.legFailure = { failedSide, attempts, errorMessage, unwindAttempts: 0 };
+    failed.status = 'CLOSED';
+
+    // Откат: закрываем открытую ногу противоположным reduce-only ордером
+    const unwindSide: OrderSide = filled.side === 'LONG' ? 'SELL' : 'BUY';
+    const unwindOperation = filled.side === 'LONG' ? 'UNWIND_LONG' : 'UNWIND_SHORT';
+    try {
+      const result = await this.submitLegOrderWithRetry(filled, unwindSide, true, unwindOperation);
+      pair.legFailure.unwindAttempts = result.attempts;
+      pair.status = 'LEG_UNWOUND';
+      filled.status = 'CLOSED';
+    } catch (unwindError) {
+      pair.legFailure.unwindAttempts = 1 + this.legRetryAttempts();
+      pair.legFailure.unwindError = unwindError instanceof Error ? unwindError.message : String(unwindError);
+      pair.status = 'LEG_NAKED';
+    }
+
+    const now = Clock.now();
+    pair.closeTime = now;
+    filled.closeTime = now;
+
+    // Оценка потерь на откате: выход по текущей цене стакана + комиссия taker на вход и выход
+    const ticker = this.exchanges.get(filled.exchange)?.getPrice(pair.symbol);
+    if (pair.status === 'LEG_UNWOUND' && ticker) {
+      const exitPrice = filled.side === 'LONG' ? ticker.bid : ticker.ask;
+      const direction = filled.side === 'LONG' ? 1 : -1;
+      const pnlPercent = direction * ((exitPrice - filled.entryPrice) / filled.entryPrice) * 100
+        - this.config.fees[filled.exchange].taker * 2;
+
+      filled.exitPrice = exitPrice;
+      filled.pnlPercent = pnlPercent;
+      filled.pnl = (pnlPercent / 100) * filled.sizeUSD;
+      pair.actualProfit = pnlPercent;
+    }
+
+    // Фактический результат отката по сделкам биржи
+    if (pair.status === 'LEG_UNWOUND') {
+      await this.loadFills([filled], 'entry');
+      await this.loadFills([filled], 'exit');
+      if (this.applyRealizedLegPnl(filled)) {
+        pair.actualProfit = filled.pnlPercent;
+      }
+    }
+
+    this.legIncidents.push(pair);
+    this.journal?.write({ type: 'leg_incident', pair });
+
+    const outcome = pair.status === 'LEG_UNWOUND'
+      ? `${filled.side} ${filled.exchange.toUpperCase()} закрыт (попыток: ${pair.legFailure.unwindAttempts})`
+      : `${filled.side} ${filled.exchange.toUpperCase()} НЕ ЗАКРЫТ - закройте вручную: ${pair.legFailure.unwindError}`;
+
+    this.recordTradingError({
+      timestamp: now,
+      symbol: pair.symbol,
+      operation: 'LEG_FAILURE',
+      exchange: failed.exchange,
+      errorMessage,
+      context: `${failedSide} не открыт (попыток: ${attempts}), ${outcome}`,
+    });
+
+    if (pair.status === 'LEG_UNWOUND') {
+      this.logger.warn(`Откат ${pair.symbol}: ${outcome}`);
+    } else {
+      this.logger.error(`⚠️  ОТКРЫТАЯ НОГА БЕЗ ХЕДЖА ${pair.symbol}: ${outcome}`);
+    }
+
+    await this.refreshBalance(pair.symbol);
+    this.refreshTuiPositions();
+  }
+
+  /**
+   * Позиции для TUI: открытые пары и ноги без хеджа, которые не удалось откатить
+   */
+  private refreshTuiPositions(): void {
+    if (!this.tui) return;
+
+    const naked = this.legIncidents.filter((pair) => pair.status === 'LEG_NAKED');
+    this.tui.updatePositions([...this.openPositions.values(), ...naked]);
+  }
+
+  /**
+   * Текущие цены выхода для пары: LONG закрывается по bid своей биржи, SHORT - по ask своей
+   */
+  private getExitPrices(pair: PositionPair): { longPrice: number; shortPrice: number } | null {
+    const longTicker = this.exchanges.get(pair.longPosition.exchange)?.getPrice(pair.symbol);
+    const shortTicker = this.exchanges.get(pair.shortPosition.exchange)?.getPrice(pair.symbol);
+
+    if (!longTicker || !shortTicker) return null;
+
+    return { longPrice: longTicker.bid, shortPrice: shortTicker.ask };
+  }
+
+  /**
+   * Обновить текущие цены, спред и примерный PnL открытых пар символа. Возвращает обновленные пары
+   */
+  updatePositionSpread(symbol: string): PositionPair[] {
+    const updated: PositionPair[] = [];
+
+    for (const pair of this.openPositions.values()) {
       if (pair.symbol === symbol && pair.status === 'OPEN') {
-        const currentSpread = ((currentSellPrice - currentBuyPrice) / currentBuyPrice) * 100;
+        const prices = this.getExitPrices(pair);
+        if (!prices) continue;
+
+        const { longPrice, shortPrice } = prices;
+        const currentSpread = ((shortPrice - longPrice) / longPrice) * 100;
         pair.currentSpread = currentSpread;
 
         // Сохраняем текущие цены для TUI отображения
-        // LONG - где купили дешевле, SHORT - где продали дороже
-        if (pair.longPosition.exchange === 'binance') {
-          pair.currentLongPrice = currentBuyPrice;
-          pair.currentShortPrice = currentSellPrice;
-        } else {
-          pair.currentLongPrice = currentSellPrice;
-          pair.currentShortPrice = currentBuyPrice;
-        }
+        pair.currentLongPrice = longPrice;
+        pair.currentShortPrice = shortPrice;
 
         // Расчет текущей разницы цен для сходимости (priceDiffPercent)
-        const priceDiff = Math.abs(currentBuyPrice - currentSellPrice) / Math.min(currentBuyPrice, currentSellPrice) * 100;
+        const priceDiff = Math.abs(longPrice - shortPrice) / Math.min(longPrice, shortPrice) * 100;
         pair.priceDiffPercent = priceDiff;
 
-        // Расчет текущего PnL (примерный) для отображения
-        // (Реальный PnL считается при закрытии)
-        const longPnl = ((pair.currentLongPrice - pair.longPosition.entryPrice) / pair.longPosition.entryPrice) * 100;
-        const shortPnl = ((pair.shortPosition.entryPrice - pair.currentShortPrice) / pair.shortPosition.entryPrice) * 100;
-        pair.actualProfit = (longPnl + shortPnl) / 2 - (0.12); // Вычитаем примерные комиссии (0.12%)
-
-        // === НОВАЯ ЛОГИКА: Закрытие при сходимости ЦЕН (не спреда!) ===
-        if (this.config.trading.closeOnSpreadConvergence) {
-          // Проверяем, сошлись ли цены на двух биржах
-          const priceConverged = this.checkPriceConvergence(currentBuyPrice, currentSellPrice);
-
-          if (priceConverged) {
-            this.logger.info(`Цены сошлись (${currentBuyPrice.toFixed(4)} / ${currentSellPrice.toFixed(4)}). Закрываем ${symbol}.`);
-            if (this.tui) {
-              this.tui.log(`{cyan-fg}⚠ Цены сошлись на ${symbol}! Разница: ${priceDiff.toFixed(3)}%. Закрываю позицию...{/}`);
-            }
-            await this.closePositionPair(pairId, 'CONVERGENCE', currentBuyPrice, currentSellPrice);
-          }
-        }
+        // PnL при закрытии по текущим ценам - как при закрытии: комиссии входа и выхода по типу ордеров, с фандингом
+        pair.actualProfit = this.riskGuard.pnlPercent(pair, longPrice, shortPrice);
+
+        updated.push(pair);
+      }
+    }
+
+    return updated;
+  }
+
+  /**
+   * Закрыть пару по решению стратегии по текущим ценам выхода.
+   * false - пары нет, она уже закрывается или нет котировок
+   */
+  async closePair(pairId: string, reason: CloseReason, note?: string): Promise<boolean> {
+    const pair = this.openPositions.get(pairId);
+    if (!pair || pair.closeTime !== undefined) return false;
+
+    const prices = this.getExitPrices(pair);
+    if (!prices) return false;
+
+    if (note) {
+      this.logger.info(note);
+      if (this.tui) {
+        this.tui.log(`{cyan-fg}⚠ ${note}{/}`);
+      }
+    }
+
+    await this.closePositionPair(pairId, reason, prices.longPrice, prices.shortPrice);
+    return true;
+  }
+
+  /**
+   * Изменить открытую пару по решению стратегии (таймаут, текущие показатели)
+   */
+  adjustPair(pairId: string, changes: PairAdjustment): void {
+    const pair = this.openPositions.get(pairId);
+    if (!pair || pair.closeTime !== undefined) return;
+
+    Object.assign(pair, changes);
+  }
+
+  /**
+   * Отправить ордер для одной ноги пары. Возвращает тайминги отправки/ответа/исполнения.
+   * Вход и выход пары - лимитными ордерами, если они включены (config.execution), откат ноги - всегда рыночным.
+   * Ошибка записывается в tradingErrors и пробрасывается дальше.
+   */
+  private async submitLegOrder(
+    position: Position,
+    side: OrderSide,
+    reduceOnly: boolean,
+    operation: TradingError['operation'],
+    context?: string,
+    orderQuantity?: number
+  ): Promise<LegTiming> {
+    const exchange = this.exchanges.get(position.exchange);
+    if (!exchange) {
+      throw new Error(`${position.exchange.toUpperCase()}: адаптер биржи не найден`);
+    }
+
+    const orderQty = orderQuantity
+      ?? position.orderQuantity
+      ?? this.metadata.toOrderQuantity(position.exchange, position.symbol, position.quantity);
+    if (!orderQty) {
+      throw new Error(`${position.exchange.toUpperCase()}: нет параметров контракта ${position.symbol} для расчета объема`);
+    }
+
+    const sendTime = Date.now();
+    try {
+      // Откат и хедж котировки - рыночными ордерами, без ожидания лимитных
+      const useLimit = this.limitOrders && !operation.startsWith('UNWIND') && !operation.startsWith('HEDGE');
+      const result = useLimit
+        ? await this.submitLimitLegOrder(exchange, position, side, orderQty, reduceOnly)
+        : await exchange.createMarketOrder(position.symbol, side, orderQty, reduceOnly);
+      const ackTime = Date.now();
+
+      if (reduceOnly) {
+        position.exitOrderId = result.orderId;
+      } else {
+        position.entryOrderId = result.orderId;
+      }
+
+      return {
+        sendTime,
+        ackTime,
+        fillTime: result.fillTime,
+        latencyMs: ackTime - sendTime,
+      };
+    } catch (error) {
+      this.recordApiError(error, {
+        symbol: position.symbol,
+        operation,
+        exchange: position.exchange,
+        context: context
+          ? `Qty: ${orderQty}, ${context}`
+          : `Size: $${position.sizeUSD}, Qty: ${orderQty}`,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Исполнить ногу лимитными ордерами. Сводное исполнение всех ордеров ноги запоминается для loadFills
+   */
+  private async submitLimitLegOrder(
+    exchange: FuturesExchange,
+    position: Position,
+    side: OrderSide,
+    orderQty: number,
+    reduceOnly: boolean
+  ): Promise<{ orderId: string; fillTime?: number }> {
+    const execution = await this.limitOrders!.execute(exchange, {
+      symbol: position.symbol,
+      side,
+      quantity: orderQty,
+      reduceOnly,
+      slippagePercent: this.config.slippage.percent,
+    });
+
+    this.limitFills.set(`${position.exchange}:${execution.orderId}`, execution.fill);
+    // Без рыночного добора вход мог исполниться не полностью: хедж, откат и закрытие - на исполненный объем
+    if (!reduceOnly) {
+      const executedQty = this.metadata.toOrderQuantity(position.exchange, position.symbol, execution.fill.executedQty);
+      if (executedQty !== undefined && executedQty < orderQty) {
+        position.orderQuantity = executedQty;
+        position.quantity = execution.fill.executedQty;
+        position.sizeUSD = execution.fill.executedQty * execution.fill.avgPrice;
+      }
+    }
+    // Исполнения отдельных ордеров из стрима уже учтены в сводном
+    for (const orderId of execution.orderIds) {
+      this.streamFills.delete(`${position.exchange}:${orderId}`);
+    }
+    if (execution.marketQty > 0) {
+      this.logger.warn(
+        `${position.exchange.toUpperCase()} ${position.symbol}: ${execution.marketQty} из ${execution.fill.executedQty} исполнено рыночным ордером`
+      );
+    }
+    return { orderId: execution.orderId, fillTime: execution.fillTime };
+  }
+
+  /**
+   * submitLegOrder с ограниченным числом повторов (legRetryAttempts, пауза legRetryDelayMs).
+   * Возвращает номер успешной попытки и тайминги, после исчерпания попыток пробрасывает последнюю ошибку
+   */
+  private async submitLegOrderWithRetry(
+    position: Position,
+    side: OrderSide,
+    reduceOnly: boolean,
+    operation: TradingError['operation'],
+    context?: string,
+    orderQuantity?: number
+  ): Promise<{ attempts: number; timing: LegTiming }> {
+    const attempts = 1 + this.legRetryAttempts();
+    const delayMs = this.config.trading.legRetryDelayMs ?? 300;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const timing = await this.submitLegOrder(position, side, reduceOnly, operation, context, orderQuantity);
+        return { attempts: attempt, timing };
+      } catch (error) {
+        if (attempt >= attempts) throw error;
+
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        this.logger.warn(`${operation} ${position.symbol}: попытка ${attempt}/${attempts} не удалась (${errorMsg}), повтор через ${delayMs}ms`);
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+      }
+    }
+  }
+
+  /**
+   * Ордер из приватного стрима: запоминаем исполнение, ликвидацию открытой ноги закрываем сразу
+   */
+  private onOrderUpdate(event: OrderUpdateEvent): void {
+    const done = event.status === 'FILLED'
+      || ((event.status === 'CANCELED' || event.status === 'EXPIRED') && event.executedQty > 0);
+    if (!done) return;
+
+    const fill: OrderFill = {
+      orderId: event.orderId,
+      avgPrice: event.avgPrice,
+      executedQty: event.executedQty,
+      commission: event.commission ?? 0,
+      commissionAsset: event.commissionAsset ?? 'USDT',
+      fillTime: event.timestamp,
+    };
+    this.streamFills.set(`${event.exchange}:${event.orderId}`, fill);
+
+    if (event.isLiquidation) {
+      this.handleLiquidation(event, fill).catch((error) => {
+        this.logger.error(`Ошибка обработки ликвидации ${event.symbol}: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    }
+  }
+
+  /**
+   * Биржа ликвидировала ногу: вторую ногу закрываем, PnL ликвидированной - по сделке ликвидации
+   */
+  private async handleLiquidation(event: OrderUpdateEvent, fill: OrderFill): Promise<void> {
+    // Ликвидация LONG - продажа, SHORT - покупка
+    const side: PositionSide = event.side === 'SELL' ? 'LONG' : 'SHORT';
+    const found = this.findOpenLeg(event.exchange, event.symbol, side);
+    if (!found) return;
+
+    const { pair, position } = found;
+    position.exitFill = fill;
+
+    this.logger.error(`💥 ЛИКВИДАЦИЯ ${side} ${pair.symbol} на ${event.exchange.toUpperCase()} @ ${fill.avgPrice}, закрываю вторую ногу`);
+    if (this.tui) {
+      this.tui.log(`{red-fg}💥 Ликвидация ${side} ${pair.symbol} на ${event.exchange.toUpperCase()}{/}`);
+    }
+
+    const prices = this.getExitPrices(pair);
+    const longExitPrice = pair.longPosition.exitFill?.avgPrice ?? prices?.longPrice ?? pair.longPosition.entryPrice;
+    const shortExitPrice = pair.shortPosition.exitFill?.avgPrice ?? prices?.shortPrice ?? pair.shortPosition.entryPrice;
+
+    await this.closePositionPair(pair.id, 'LIQUIDATION', longExitPrice, shortExitPrice);
+  }
+
+  /**
+   * Позиция из приватного стрима: нога открытой пары обнулилась не нами - закрыта вручную или биржей
+   */
+  private onPositionUpdate(event: PositionUpdateEvent): void {
+    if (event.quantity > 0) return;
+
+    const found = this.findOpenLeg(event.exchange, event.symbol, event.side);
+    if (!found) return;
+
+    this.logger.warn(`⚠️  ${event.side} ${event.symbol} на ${event.exchange.toUpperCase()} закрыта вне бота, пара ${found.pair.id} без хеджа`);
+    if (this.tui) {
+      this.tui.log(`{yellow-fg}⚠ ${event.side} ${event.symbol} на ${event.exchange.toUpperCase()} закрыта вне бота{/}`);
+    }
+  }
+
+  /**
+   * Баланс из приватного стрима. Когда балансы известны по всем биржам, REST запросы не нужны
+   */
+  private onBalanceUpdate(event: BalanceUpdateEvent): void {
+    if (event.asset !== 'USDT') return;
+
+    // Binance в ACCOUNT_UPDATE не отдает доступный баланс - берем баланс кошелька
+    this.streamBalances.set(event.exchange, event.availableBalance ?? event.walletBalance);
+
+    if (this.placesOrders() && this.streamBalances.size === this.exchanges.size) {
+      const positive = Array.from(this.streamBalances.values()).filter((b) => b > 0);
+      if (positive.length > 0) {
+        this.currentBalance = Math.min(...positive);
       }
     }
   }
 
   /**
-   * Проверяет, сошлись ли цены на двух биржах
+   * Нога открытой (еще не закрывающейся) пары на бирже
+   */
+  private findOpenLeg(
+    exchange: ExchangeName,
+    symbol: string,
+    side: PositionSide
+  ): { pair: PositionPair; position: Position } | undefined {
+    for (const pair of this.openPositions.values()) {
+      if (pair.symbol !== symbol || pair.closeTime !== undefined) continue;
+
+      const position = side === 'LONG' ? pair.longPosition : pair.shortPosition;
+      if (position.exchange === exchange) {
+        return { pair, position };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Загрузить фактическое исполнение ордеров открытия/закрытия.
+   * Сначала из приватного стрима, иначе REST. Если биржа не отдала сделки, у позиции остаются оценочные цены
+   */
+  private async loadFills(positions: Position[], kind: 'entry' | 'exit'): Promise<void> {
+    await Promise.all(positions.map(async (position) => {
+      const orderId = kind === 'entry' ? position.entryOrderId : position.exitOrderId;
+      const exchange = this.exchanges.get(position.exchange);
+      if (!orderId || !exchange) return;
+
+      const streamKey = `${position.exchange}:${orderId}`;
+      let fill: OrderFill;
+      try {
+        fill = this.limitFills.get(streamKey)
+          ?? this.streamFills.get(streamKey)
+          ?? await exchange.getOrderFill(position.symbol, orderId);
+        this.limitFills.delete(streamKey);
+        this.streamFills.delete(streamKey);
+      } catch (error) {
+        const errorMsg = this.recordApiError(error, {
+          symbol: position.symbol,
+          operation: 'GET_FILLS',
+          exchange: position.exchange,
+          context: `Order: ${orderId}`,
+        });
+        this.logger.warn(`${position.exchange.toUpperCase()}: исполнение ордера ${orderId} не получено, используем оценку: ${errorMsg}`);
+        return;
+      }
+
+      if (kind === 'entry') {
+        position.entryFill = fill;
+        position.entryPrice = fill.avgPrice;
+        position.quantity = fill.executedQty;
+        position.sizeUSD = fill.avgPrice * fill.executedQty;
+        if (position.timing && fill.fillTime !== undefined) {
+          position.timing.fillTime = fill.fillTime;
+        }
+      } else {
+        position.exitFill = fill;
+        position.exitPrice = fill.avgPrice;
+      }
+    }));
+  }
+
+  /**
+   * Реализованный PnL по сделкам бирж (вход и выход обеих ног), за вычетом комиссий.
+   * undefined - исполнение известно не по всем ордерам, остается оценка
+   */
+  private applyRealizedPnl(pair: PositionPair): { pnlUSD: number; pnlPercent: number } | undefined {
+    const legs = [pair.longPosition, pair.shortPosition];
+    if (legs.some((position) => !position.entryFill || !position.exitFill)) return undefined;
+
+    legs.forEach((position) => this.applyRealizedLegPnl(position));
+
+    const pnlUSD = pair.longPosition.pnl! + pair.shortPosition.pnl!;
+    const pnlPercent = (pnlUSD / (pair.longPosition.sizeUSD + pair.shortPosition.sizeUSD)) * 100;
+    pair.actualProfit = pnlPercent;
+
+    return { pnlUSD, pnlPercent };
+  }
+
+  /**
+   * PnL ноги по сделкам входа и выхода за вычетом комиссий, с учетом фандинга. false - исполнение известно не полностью
+   */
+  private applyRealizedLegPnl(position: Position): boolean {
+    const entry = position.entryFill;
+    const exit = position.exitFill;
+    if (!entry || !exit) return false;
+
+    const direction = position.side === 'LONG' ? 1 : -1;
+    position.pnl = direction * (exit.avgPrice - entry.avgPrice) * exit.executedQty
+      - TradeExecutor.commissionUSD(entry)
+      - TradeExecutor.commissionUSD(exit)
+      + (position.fundingUSD ?? 0);
+    position.pnlPercent = (position.pnl / position.sizeUSD) * 100;
+    return true;
+  }
+
+  /**
+   * Комиссия в USD. Комиссии в других активах (BNB и т.п.) без их курса не учитываются - видны в отчете
    */
-  private checkPriceConvergence(price1: number, price2: number): boolean {
-    const priceDiffPercent = Math.abs(price1 - price2) / Math.min(price1, price2) * 100;
-    return priceDiffPercent <= this.config.trading.priceConvergencePercent;
+  private static commissionUSD(fill: OrderFill): number {
+    return ['USDT', 'USDC', 'USD'].includes(fill.commissionAsset.toUpperCase()) ? fill.commission : 0;
+  }
+
+  /**
+   * Ордера отправляются в адаптеры бирж: реальная торговля или бумажная (config.paper, биржи-симуляторы).
+   * Иначе тестовый режим только считает PnL по ценам
+   */
+  private placesOrders(): boolean {
+    return !this.config.trading.testMode || this.config.paper?.enabled === true;
+  }
+
+  private modeLabel(): string {
+    if (!this.config.trading.testMode) return '[REAL]';
+    return this.config.paper?.enabled ? '[PAPER]' : '[TEST]';
+  }
+
+  private legRetryAttempts(): number {
+    return this.config.trading.legRetryAttempts ?? 2;
+  }
+
+  private maxConcurrentOpenings(): number {
+    return Math.max(1, this.config.trading.maxConcurrentOpenings ?? 1);
+  }
+
+  /**
+   * Обновить currentBalance по реальным балансам бирж (минимум из доступных).
+   * Биржи с балансом из приватного стрима REST не запрашиваются
+   */
+  private async refreshBalance(symbol: string): Promise<void> {
+    const balances: number[] = [];
+
+    for (const [name, exchange] of this.exchanges) {
+      const streamBalance = this.streamBalances.get(name);
+      if (streamBalance !== undefined) {
+        balances.push(streamBalance);
+        continue;
+      }
+
+      try {
+        balances.push(await exchange.getBalance());
+      } catch (error) {
+        const errorMsg = this.recordApiError(error, {
+          symbol,
+          operation: 'GET_BALANCE',
+          exchange: name,
+        });
+        this.logger.warn(`Не удалось получить баланс ${name.toUpperCase()}: ${errorMsg}`);
+      }
+    }
+
+    // Устанавливаем баланс как минимум из полученных
+    const positive = balances.filter((b) => b > 0);
+    if (positive.length > 0) {
+      this.currentBalance = Math.min(...positive);
+    }
   }
 
   private async closePositionPair(
     pairId: string,
     reason: CloseReason,
-    currentBuyPrice: number,
-    currentSellPrice: number
+    longExitPrice: number,
+    shortExitPrice: number
+  ): Promise<void> {
+    const closing = this.executeClose(pairId, reason, longExitPrice, shortExitPrice);
+    this.pendingCloses.add(closing);
+    try {
+      await closing;
+    } finally {
+      this.pendingCloses.delete(closing);
+    }
+  }
+
+  private async executeClose(
+    pairId: string,
+    reason: CloseReason,
+    longExitPrice: number,
+    shortExitPrice: number
   ): Promise<void> {
     const pair = this.openPositions.get(pairId);
     if (!pair) return;
 
-    const now = Date.now();
+    const now = Clock.now();
 
     // Считаем PnL по ценам выхода
     // Тут тоже можно было бы применить Slippage на выход, но для упрощения пока берем Market Price
-    // (можно докрутить ту же функцию calculateExecutionPrice для выхода)
-    const longPnlPercent = ((currentBuyPrice - pair.longPosition.entryPrice) / pair.longPosition.entryPrice) * 100;
-    const shortPnlPercent = ((pair.shortPosition.entryPrice - currentSellPrice) / pair.shortPosition.entryPrice) * 100;
-
-    // Вычитаем комиссии (Taker Fee * 2)
-    const fees = (this.config.fees.binance.taker + this.config.fees.mexc.taker) * 2; 
+    // (можно докрутить ту же функцию estimateExecution для выхода)
+    const longPnlPercent = ((longExitPrice - pair.longPosition.entryPrice) / pair.longPosition.entryPrice) * 100;
+    const shortPnlPercent = ((pair.shortPosition.entryPrice - shortExitPrice) / pair.shortPosition.entryPrice) * 100;
+
+    // Вычитаем комиссии (вход + выход, maker или taker по типу ордеров)
+    const fees = (
+      LimitOrderExecutor.feePercent(this.config, pair.longPosition.exchange)
+      + LimitOrderExecutor.feePercent(this.config, pair.shortPosition.exchange)
+    ) * 2;
     
-    const totalPnlPercent = ((longPnlPercent + shortPnlPercent) / 2) - fees;
+    let totalPnlPercent = ((longPnlPercent + shortPnlPercent) / 2) - fees;
     
     // PnL в долларах
-    // Если Size=100$, то 1% = 1$. Формула: (Percent / 100) * (Size * 2)
-    const totalPnlUSD = (totalPnlPercent / 100) * (this.config.trading.positionSizeUSD * 2);
-
+    // Если Size=100$, то 1% = 1$. Формула: (Percent / 100) * (Size LONG + Size SHORT)
+    let totalPnlUSD = (totalPnlPercent / 100) * (pair.longPosition.sizeUSD + pair.shortPosition.sizeUSD);
+
+    // Фандинг за время удержания
+    const fundingUSD = (pair.longPosition.fundingUSD ?? 0) + (pair.shortPosition.fundingUSD ?? 0);
+    if (fundingUSD !== 0) {
+      totalPnlUSD += fundingUSD;
+      totalPnlPercent = (totalPnlUSD / (pair.longPosition.sizeUSD + pair.shortPosition.sizeUSD)) * 100;
+    }
     pair.status = reason === 'TIMEOUT' ? 'TIMEOUT_CLOSED' : 'CLOSED';
     pair.closeTime = now;
     pair.closeReason = reason;
     pair.actualProfit = totalPnlPercent;
     
     // Заполняем данные позиций
-    pair.longPosition.exitPrice = currentBuyPrice;
-    pair.longPosition.pnl = (longPnlPercent / 100) * this.config.trading.positionSizeUSD;
+    pair.longPosition.exitPrice = longExitPrice;
+    pair.longPosition.pnl = (longPnlPercent / 100) * pair.longPosition.sizeUSD + (pair.longPosition.fundingUSD ?? 0);
     pair.longPosition.pnlPercent = longPnlPercent;
     
-    pair.shortPosition.exitPrice = currentSellPrice;
-    pair.shortPosition.pnl = (shortPnlPercent / 100) * this.config.trading.positionSizeUSD;
+    pair.shortPosition.exitPrice = shortExitPrice;
+    pair.shortPosition.pnl = (shortPnlPercent / 100) * pair.shortPosition.sizeUSD + (pair.shortPosition.fundingUSD ?? 0);
     pair.shortPosition.pnlPercent = shortPnlPercent;
 
-    // ===== РЕАЛЬНАЯ ТОРГОВЛЯ: Закрываем позиции =====
-    if (!this.config.trading.testMode) {
-      this.logger.warn(`⚠️  РЕАЛЬНАЯ ТОРГОВЛЯ: Закрываем позицию ${pair.symbol}...`);
-
-      // Закрываем LONG позицию (продаем то что купили)
-      try {
-        if (pair.longPosition.exchange === 'binance' && this.binance) {
-          await this.binance.createMarketOrder(
-            pair.symbol,
-            'SELL',
-            pair.longPosition.quantity,
-            true // reduceOnly = true для закрытия позиции
-          );
-          this.logger.success(`✓ CLOSE LONG на Binance: ${pair.symbol}`);
-        } else if (pair.longPosition.exchange === 'mexc' && this.mexc) {
-          const mexcSymbol = pair.symbol.replace('USDT', '_USDT');
-          await this.mexc.createMarketOrder(
-            mexcSymbol,
-            4, // Close Long
-            Math.floor(pair.longPosition.quantity)
-          );
-          this.logger.success(`✓ CLOSE LONG на MEXC: ${mexcSymbol}`);
-        }
-      } catch (error) {
-        const errorMsg = error instanceof Error ? error.message : String(error);
-        const errorCodeMatch = errorMsg.match(/code[":]+(\d+)/i);
-        const errorCode = errorCodeMatch ? parseInt(errorCodeMatch[1]) : undefined;
-
-        this.recordTradingError({
-          timestamp: Date.now(),
-          symbol: pair.symbol,
-          operation: 'CLOSE_LONG',
-          exchange: pair.longPosition.exchange,
-          errorCode,
-          errorMessage: errorMsg,
-          context: `Qty: ${pair.longPosition.quantity}, Exit: ${currentBuyPrice.toFixed(4)}`,
-        });
-
-        this.logger.error(`❌ ОШИБКА CLOSE LONG на ${pair.longPosition.exchange.toUpperCase()}: ${errorMsg}`);
+    // ===== РЕАЛЬНАЯ (ИЛИ БУМАЖНАЯ) ТОРГОВЛЯ: Закрываем позиции =====
+    if (this.placesOrders()) {
+      this.logger.warn(`⚠️  ${this.modeLabel()} Закрываем позицию ${pair.symbol}...`);
+
+      // Нога с уже известным выходом (ликвидация) на бирже закрыта - ордер не нужен.
+      // Защитное закрытие - с повторами: нога без хеджа опаснее задержки
+      const retry = TradeExecutor.isRiskClose(reason);
+      const longError = pair.longPosition.exitFill
+        ? undefined
+        : await this.closeLeg(pair.longPosition, longExitPrice, retry);
+      const shortError = pair.shortPosition.exitFill
+        ? undefined
+        : await this.closeLeg(pair.shortPosition, shortExitPrice, retry);
+
+      if (retry && (longError !== undefined || shortError !== undefined)) {
+        await this.handleCloseFailure(pair, longError, shortError);
+        return;
       }
 
-      // Задержка 500ms между ордерами для предотвращения rate limit
-      await new Promise(resolve => setTimeout(resolve, 500));
-
-      // Закрываем SHORT позицию (покупаем обратно то что продали)
-      try {
-        if (pair.shortPosition.exchange === 'binance' && this.binance) {
-          await this.binance.createMarketOrder(
-            pair.symbol,
-            'BUY',
-            pair.shortPosition.quantity,
-            true // reduceOnly = true
-          );
-          this.logger.success(`✓ CLOSE SHORT на Binance: ${pair.symbol}`);
-        } else if (pair.shortPosition.exchange === 'mexc' && this.mexc) {
-          const mexcSymbol = pair.symbol.replace('USDT', '_USDT');
-          await this.mexc.createMarketOrder(
-            mexcSymbol,
-            2, // Close Short
-            Math.floor(pair.shortPosition.quantity)
-          );
-          this.logger.success(`✓ CLOSE SHORT на MEXC: ${mexcSymbol}`);
-        }
-      } catch (error) {
-        const errorMsg = error instanceof Error ? error.message : String(error);
-        const errorCodeMatch = errorMsg.match(/code[":]+(\d+)/i);
-        const errorCode = errorCodeMatch ? parseInt(errorCodeMatch[1]) : undefined;
-
-        this.recordTradingError({
-          timestamp: Date.now(),
-          symbol: pair.symbol,
-          operation: 'CLOSE_SHORT',
-          exchange: pair.shortPosition.exchange,
-          errorCode,
-          errorMessage: errorMsg,
-          context: `Qty: ${pair.shortPosition.quantity}, Exit: ${currentSellPrice.toFixed(4)}`,
-        });
+      this.logger.success(`✓ ${this.modeLabel()} ПОЗИЦИИ ЗАКРЫТЫ: ${pair.symbol}`);
 
-        this.logger.error(`❌ ОШИБКА CLOSE SHORT на ${pair.shortPosition.exchange.toUpperCase()}: ${errorMsg}`);
+      // Пересчитываем PnL по фактическому исполнению (цены сделок и комиссии с бирж)
+      await this.loadFills([pair.longPosition, pair.shortPosition], 'exit');
+      const realized = this.applyRealizedPnl(pair);
+      if (realized) {
+        totalPnlUSD = realized.pnlUSD;
+        totalPnlPercent = realized.pnlPercent;
       }
-
-      this.logger.success(`✓ РЕАЛЬНЫЕ ПОЗИЦИИ ЗАКРЫТЫ: ${pair.symbol}`);
     }
     // ===== КОНЕЦ РЕАЛЬНОЙ ТОРГОВЛИ =====
 
+    this.pendingFunding.delete(pair.longPosition.id);
+    this.pendingFunding.delete(pair.shortPosition.id);
     this.openPositions.delete(pairId);
     this.closedPositions.push(pair);
 
     // Обновляем баланс
-    if (this.config.trading.testMode) {
+    if (!this.placesOrders()) {
       this.currentBalance += (this.config.trading.positionSizeUSD * 2) + totalPnlUSD;
     } else {
       // В реальном режиме получаем актуальный баланс с биржи
-      let binanceBalance = 0;
-      let mexcBalance = 0;
-
-      if (this.binance) {
-        try {
-          binanceBalance = await this.binance.getBalance();
-        } catch (error) {
-          const errorMsg = error instanceof Error ? error.message : String(error);
-          const errorCodeMatch = errorMsg.match(/code[":]+(\d+)/i);
-          const errorCode = errorCodeMatch ? parseInt(errorCodeMatch[1]) : undefined;
-
-          this.recordTradingError({
-            timestamp: Date.now(),
-            symbol: pair.symbol,
-            operation: 'GET_BALANCE',
-            exchange: 'binance',
-            errorCode,
-            errorMessage: errorMsg,
-          });
-          this.logger.warn(`Не удалось получить баланс Binance: ${errorMsg}`);
-        }
-      }
-
-      if (this.mexc) {
-        try {
-          mexcBalance = await this.mexc.getBalance();
-        } catch (error) {
-          const errorMsg = error instanceof Error ? error.message : String(error);
-          const errorCodeMatch = errorMsg.match(/code[":]+(\d+)/i);
-          const errorCode = errorCodeMatch ? parseInt(errorCodeMatch[1]) : undefined;
-
-          this.recordTradingError({
-            timestamp: Date.now(),
-            symbol: pair.symbol,
-            operation: 'GET_BALANCE',
-            exchange: 'mexc',
-            errorCode,
-            errorMessage: errorMsg,
-          });
-          this.logger.warn(`Не удалось получить баланс MEXC: ${errorMsg}`);
-        }
-      }
-
-      // Устанавливаем баланс как минимум из двух
-      if (binanceBalance > 0 && mexcBalance > 0) {
-        this.currentBalance = Math.min(binanceBalance, mexcBalance);
-      } else if (binanceBalance > 0) {
-        this.currentBalance = binanceBalance;
-      } else if (mexcBalance > 0) {
-        this.currentBalance = mexcBalance;
-      }
+      await this.refreshBalance(pair.symbol);
     }
+    this.journal?.write({ type: 'pair_close', pair, pnlUSD: totalPnlUSD, balance: this.currentBalance });
 
     // Статистика
     this.testStats.totalTrades++;
@@ -754,7 +1917,111 @@ export class TradeExecutor {
     const color = totalPnlUSD >= 0 ? '{green-fg}' : '{red-fg}';
     this.logger.trade(`CLOSE ${pair.symbol}: PnL ${color}$${totalPnlUSD.toFixed(2)}{/} (${totalPnlPercent.toFixed(2)}%). Reason: ${reason}`);
 
-    if(this.tui) this.tui.updatePositions(Array.from(this.openPositions.values()));
+    this.refreshTuiPositions();
+  }
+
+  /**
+   * Закрыть ногу пары reduce-only ордером, с повторами или одной попыткой.
+   * Возвращает текст ошибки, если нога осталась открытой
+   */
+  private async closeLeg(position: Position, exitPrice: number, retry: boolean): Promise<string | undefined> {
+    const side: OrderSide = position.side === 'LONG' ? 'SELL' : 'BUY';
+    const operation = position.side === 'LONG' ? 'CLOSE_LONG' : 'CLOSE_SHORT';
+    const context = `Exit: ${exitPrice.toFixed(4)}`;
+
+    try {
+      if (retry) {
+        await this.submitLegOrderWithRetry(position, side, true, operation, context);
+      } else {
+        await this.submitLegOrder(position, side, true, operation, context);
+      }
+      position.status = 'CLOSED';
+      this.logger.success(`✓ CLOSE ${position.side} на ${position.exchange.toUpperCase()}: ${position.symbol}`);
+      return undefined;
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this.logger.error(`❌ ОШИБКА CLOSE ${position.side} на ${position.exchange.toUpperCase()}: ${errorMsg}`);
+      return errorMsg;
+    }
+  }
+
+  /**
+   * Защитное закрытие не прошло после всех повторов. Обе ноги открыты - пара остается в openPositions
+   * и закрывается на следующей проверке. Закрылась одна нога - вторая без хеджа: инцидент LEG_NAKED
+   */
+  private async handleCloseFailure(
+    pair: PositionPair,
+    longError: string | undefined,
+    shortError: string | undefined
+  ): Promise<void> {
+    const clearExit = (position: Position) => {
+      position.exitPrice = undefined;
+      position.pnl = undefined;
+      position.pnlPercent = undefined;
+    };
+
+    if (longError !== undefined && shortError !== undefined) {
+      const reason = pair.closeReason;
+      clearExit(pair.longPosition);
+      clearExit(pair.shortPosition);
+      pair.status = 'OPEN';
+      pair.closeTime = undefined;
+      pair.closeReason = undefined;
+
+      this.logger.error(`⚠️  ${pair.symbol}: закрытие ${reason} не прошло ни на одной бирже, пара остается открытой - повтор на следующей проверке`);
+      this.refreshTuiPositions();
+      return;
+    }
+
+    const naked = longError !== undefined ? pair.longPosition : pair.shortPosition;
+    const closed = longError !== undefined ? pair.shortPosition : pair.longPosition;
+    const errorMessage = (longError ?? shortError)!;
+    const attempts = 1 + this.legRetryAttempts();
+
+    clearExit(naked);
+    pair.status = 'LEG_NAKED';
+    pair.legFailure = {
+      stage: 'CLOSE',
+      failedSide: naked.side,
+      attempts,
+      errorMessage,
+      unwindAttempts: 0,
+    };
+
+    // Результат закрытой ноги по сделке выхода (ликвидированная нога - по сделке ликвидации)
+    await this.loadFills([closed], 'exit');
+    if (this.applyRealizedLegPnl(closed)) {
+      pair.actualProfit = closed.pnlPercent;
+    }
+
+    this.pendingFunding.delete(closed.id);
+    this.openPositions.delete(pair.id);
+    this.legIncidents.push(pair);
+    this.journal?.write({ type: 'leg_incident', pair });
+
+    const outcome = `${closed.side} ${closed.exchange.toUpperCase()} закрыт, ${naked.side} ${naked.exchange.toUpperCase()} НЕ ЗАКРЫТ - закройте вручную`;
+    this.recordTradingError({
+      timestamp: Clock.now(),
+      symbol: pair.symbol,
+      operation: 'LEG_FAILURE',
+      exchange: naked.exchange,
+      errorMessage,
+      context: `Закрытие ${pair.closeReason} (попыток: ${attempts}), ${outcome}`,
+    });
+    this.logger.error(`⚠️  ОТКРЫТАЯ НОГА БЕЗ ХЕДЖА ${pair.symbol}: ${outcome}`);
+
+    await this.refreshBalance(pair.symbol);
+    this.refreshTuiPositions();
+  }
+
+  /**
+   * Защитные закрытия: пороги config.risk и ликвидация второй ноги
+   */
+  private static isRiskClose(reason: CloseReason): boolean {
+    return reason === 'STOP_LOSS'
+      || reason === 'LIQUIDATION_RISK'
+      || reason === 'SPREAD_WIDENING'
+      || reason === 'LIQUIDATION';
   }
 
   // ... остальные геттеры (getStats, stop, etc) без изменений ...
@@ -770,12 +2037,34 @@ export class TradeExecutor {
   }
   getSkippedOpportunities() { return this.skippedOpportunities; }
   getTradingErrors() { return this.tradingErrors; }
+  getLegIncidents() { return this.legIncidents; }
+
+  /**
+   * Записать ошибку API биржи, вытащив код ошибки из сообщения. Возвращает текст ошибки
+   */
+  private recordApiError(
+    error: unknown,
+    details: Omit<TradingError, 'timestamp' | 'errorCode' | 'errorMessage'>
+  ): string {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    const errorCodeMatch = errorMsg.match(/code[":]+(-?\d+)/i);
+    const errorCode = errorCodeMatch ? parseInt(errorCodeMatch[1]) : undefined;
+
+    this.recordTradingError({
+      timestamp: Clock.now(),
+      ...details,
+      errorCode,
+      errorMessage: errorMsg,
+    });
+    return errorMsg;
+  }
 
   /**
    * Записать ошибку торговли
    */
   private recordTradingError(error: TradingError): void {
     this.tradingErrors.push(error);
+    this.journal?.write({ type: 'error', error });
 
     // Показываем в TUI если есть
     if (this.tui) {
@@ -790,39 +2079,48 @@ export class TradeExecutor {
   /**
    * Получить балансы с каждой биржи отдельно
    */
-  async getExchangeBalances(): Promise<{ binance: number; mexc: number }> {
-    let binanceBalance = 0;
-    let mexcBalance = 0;
-
-    if (!this.config.trading.testMode) {
-      // Получаем реальные балансы только в production режиме
-      if (this.binance) {
-        try {
-          binanceBalance = await this.binance.getBalance();
-        } catch (error) {
-          // Ошибка уже залогирована в recordTradingError
-        }
-      }
+  async getExchangeBalances(): Promise<Record<ExchangeName, number>> {
+    const balances = {} as Record<ExchangeName, number>;
 
-      if (this.mexc) {
+    for (const [name, exchange] of this.exchanges) {
+      if (this.placesOrders()) {
+        // Балансы бирж (в бумажной торговле - симулятора)
         try {
-          mexcBalance = await this.mexc.getBalance();
+          balances[name] = await exchange.getBalance();
         } catch (error) {
           // Ошибка уже залогирована в recordTradingError
+          balances[name] = 0;
         }
+      } else {
+        // В тестовом режиме возвращаем текущий баланс для каждой биржи
+        balances[name] = this.currentBalance;
       }
-    } else {
-      // В тестовом режиме возвращаем текущий баланс для обеих бирж
-      binanceBalance = this.currentBalance;
-      mexcBalance = this.currentBalance;
     }
 
-    return { binance: binanceBalance, mexc: mexcBalance };
+    return balances;
   }
   getCompactLogger() { return this.compactLogger; } // Для совместимости
 
-  recordSkippedOpportunity(_opp: ArbitrageOpportunity, _reason: unknown) {
-      // Можно тоже писать в лог, если нужно
+  recordSkippedOpportunity(
+    opportunity: ArbitrageOpportunity,
+    reason: SkipReason,
+    details?: Pick<SkippedOpportunity, 'availableBalance' | 'requiredBalance' | 'currentPositionProfit'>
+  ): void {
+    const skip: SkippedOpportunity = {
+      timestamp: Clock.now(),
+      symbol: opportunity.symbol,
+      buyExchange: opportunity.buyExchange,
+      sellExchange: opportunity.sellExchange,
+      buyPrice: opportunity.buyPrice,
+      sellPrice: opportunity.sellPrice,
+      spreadPercent: opportunity.spreadPercent,
+      profitPercent: opportunity.profitPercent,
+      reason,
+      ...details,
+    };
+
+    this.skippedOpportunities.push(skip);
+    this.journal?.write({ type: 'skip', skip });
   }
   
   stop() {
@@ -834,32 +2132,124 @@ export class TradeExecutor {
    * Принудительно закрыть все открытые позиции (для graceful shutdown)
    */
   async forceCloseAllPositions(): Promise<void> {
+    // Начатые закрытия завершаются сами: второй reduce-only ордер по той же ноге не нужен.
+    // Защитное закрытие, не прошедшее ни на одной бирже, возвращает пару в открытые - ее закрываем ниже
+    await Promise.allSettled(Array.from(this.pendingCloses));
+
     const positions = Array.from(this.openPositions.entries());
 
     for (const [pairId, pair] of positions) {
-      if (this.getPricesFn) {
-        const prices = this.getPricesFn(pair.symbol);
-        if (prices) {
-          this.logger.warn(`FORCE CLOSE ${pair.symbol} по Ctrl+C`);
-          await this.closePositionPair(pairId, 'FORCE_SHUTDOWN', prices.buyPrice, prices.sellPrice);
+      if (pair.closeTime !== undefined) continue;
+
+      const prices = this.getExitPrices(pair);
+      if (prices) {
+        this.logger.warn(`FORCE CLOSE ${pair.symbol} по Ctrl+C`);
+        await this.closePositionPair(pairId, 'FORCE_SHUTDOWN', prices.longPrice, prices.shortPrice);
+      }
+    }
+  }
+
+  /**
+   * Начислить фандинг открытым позициям по наступившим расчетам.
+   * Ставка - последняя известная до расчета, номинал - по текущей цене биржи
+   */
+  private settleFunding(now = Clock.now()): void {
+    if (!this.funding?.isEnabled()) return;
+
+    for (const pair of this.openPositions.values()) {
+      for (const position of [pair.longPosition, pair.shortPosition]) {
+        const pending = this.pendingFunding.get(position.id);
+
+        if (pending && now >= pending.time) {
+          const ticker = this.exchanges.get(position.exchange)?.getPrice(position.symbol);
+          const markPrice = ticker ? (ticker.bid + ticker.ask) / 2 : position.entryPrice;
+          const amountUSD = FundingRateService.legDirection(position.side) * pending.rate * position.quantity * markPrice;
+
+          position.fundingUSD = (position.fundingUSD ?? 0) + amountUSD;
+          position.fundingPayments = [...(position.fundingPayments ?? []), { time: pending.time, rate: pending.rate, amountUSD }];
+          this.pendingFunding.delete(position.id);
+
+          this.logger.trade(
+            `FUNDING ${position.side} ${position.symbol} ${position.exchange.toUpperCase()}: ` +
+            `${(pending.rate * 100).toFixed(4)}%, ${amountUSD >= 0 ? '+' : ''}$${amountUSD.toFixed(4)}`
+          );
+        }
+
+        const rate = this.funding.get(position.exchange, position.symbol);
+        if (!rate) continue;
+
+        // Ставка до расчета еще меняется - держим последнюю
+        const time = FundingRateService.nextSettlement(rate, now);
+        const current = this.pendingFunding.get(position.id);
+        if (!current || current.time === time) {
+          this.pendingFunding.set(position.id, { time, rate: rate.rate });
         }
       }
     }
   }
 
-  private async checkPositionTimeouts(): Promise<void> {
-      // Логика таймаутов аналогична методу updatePositionSpread, вызывает closePositionPair
-      const now = Date.now();
-      for (const [pairId, pair] of this.openPositions.entries()) {
-          if (now >= pair.timeoutAt) {
-               // Получаем цены через геттер
-               if (this.getPricesFn) {
-                   const prices = this.getPricesFn(pair.symbol);
-                   if (prices) {
-                       await this.closePositionPair(pairId, 'TIMEOUT', prices.buyPrice, prices.sellPrice);
-                   }
-               }
-          }
+  /**
+   * Политика close: закрыть пары перед расчетом фандинга не в их пользу
+   */
+  private async checkAdverseFunding(): Promise<void> {
+    if (!this.funding || this.funding.getAdversePolicy() !== 'close') return;
+
+    for (const [pairId, pair] of this.openPositions.entries()) {
+      if (pair.closeTime !== undefined) continue;
+      if (!this.funding.isAdverseSoon(pair.symbol, pair.longPosition.exchange, pair.shortPosition.exchange)) continue;
+
+      const prices = this.getExitPrices(pair);
+      if (!prices) continue;
+
+      this.logger.warn(`Скоро расчет фандинга не в пользу ${pair.symbol} - закрываю пару`);
+      await this.closePositionPair(pairId, 'ADVERSE_FUNDING', prices.longPrice, prices.shortPrice);
+    }
+  }
+
+  /**
+   * Маржа ног открытых пар: при торговле через адаптеры - с бирж (цена ликвидации уточняется до проверки config.risk),
+   * предупреждения о приближении к порогам и довнесение изолированной маржи
+   */
+  private async checkMargins(): Promise<void> {
+    const notes = await this.marginMonitor.update(Array.from(this.openPositions.values()), this.placesOrders());
+
+    for (const note of notes) {
+      this.logger.warn(`⚠️  ${note}`);
+      if (this.tui) {
+        this.tui.log(`{yellow-fg}⚠ ${note}{/}`);
+      }
+    }
+  }
+
+  /**
+   * Защитное закрытие по порогам config.risk: близость ликвидации, стоп-лосс, расширение спреда.
+   * Mark price биржи оценивается серединой bid/ask
+   */
+  private async checkRiskLimits(): Promise<void> {
+    if (!this.riskGuard.isEnabled()) return;
+
+    for (const [pairId, pair] of this.openPositions.entries()) {
+      if (pair.closeTime !== undefined || pair.status !== 'OPEN') continue;
+
+      const prices = this.getExitPrices(pair);
+      if (!prices) continue;
+
+      const trigger = this.riskGuard.check(pair, prices, {
+        long: this.getMarkPrice(pair.longPosition),
+        short: this.getMarkPrice(pair.shortPosition),
+      });
+      if (!trigger) continue;
+
+      this.logger.warn(`⚠️  ${trigger.note} - закрываю пару`);
+      if (this.tui) {
+        this.tui.log(`{red-fg}⚠ ${trigger.note}{/}`);
       }
+      await this.closePositionPair(pairId, trigger.reason, prices.longPrice, prices.shortPrice);
+    }
+  }
+
+  private getMarkPrice(position: Position): number | undefined {
+    const ticker = this.exchanges.get(position.exchange)?.getPrice(position.symbol);
+    return ticker ? (ticker.bid + ticker.ask) / 2 : undefined;
   }
 }
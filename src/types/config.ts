@@ -33,6 +33,17 @@ export interface FeeConfig {
 
 export type MarginMode = 'cross' | 'isolated';
 
+/**
+ * Порядок отправки ног: sequential - LONG, пауза, SHORT; parallel - обе ноги одновременно
+ */
+export type LegExecutionMode = 'sequential' | 'parallel';
+
+/**
+ * Что делать с позициями на биржах, которые при старте не сложились в пары:
+ * halt - не открывать новые позиции до ручного разбора, close - закрыть их reduce-only ордерами
+ */
+export type UnmatchedLegPolicy = 'halt' | 'close';
+
 export interface TradingConfig {
   enabled: boolean;
   testMode: boolean;
@@ -45,6 +56,135 @@ export interface TradingConfig {
   closeOnSpreadConvergence: boolean;
   closeOnNewOpportunity: boolean;
   priceConvergencePercent: number;  // Порог сходимости цен для закрытия позиции (0.05 = 0.05%)
+  maxLegMismatchPercent?: number;   // Допустимое расхождение объема ног в базовой валюте, % (default: 0.5)
+  legRetryAttempts?: number;        // Повторы ордера второй ноги (и отката первой) при ошибке (default: 2)
+  legRetryDelayMs?: number;         // Пауза между повторами, мс (default: 300)
+  legExecution?: LegExecutionMode;  // Порядок отправки ног (default: sequential)
+  maxConcurrentOpenings?: number;   // Сколько пар по разным символам могут открываться одновременно (default: 1)
+  unmatchedLegPolicy?: UnmatchedLegPolicy; // Несверенные позиции на биржах при старте (default: halt)
+}
+
+/**
+ * Реакция на неблагоприятный расчет фандинга: none - только учет в прибыли,
+ * avoid - не открывать пары перед ним, close - еще и закрывать открытые пары
+ */
+export type AdverseFundingPolicy = 'none' | 'avoid' | 'close';
+
+export interface FundingConfig {
+  enabled: boolean;                      // Загружать ставки фандинга и учитывать их в прибыли
+  adversePolicy?: AdverseFundingPolicy;  // default: none
+  adverseWindowMinutes?: number;         // За сколько минут до расчета действует политика (default: 10)
+  refreshIntervalMs?: number;            // Период обновления ставок (default: 60000)
+}
+
+/**
+ * Параметры стратегии SPREAD (сходимость цен). Не заданные берутся из arbitrage / trading
+ */
+export interface SpreadStrategyParams {
+  minSpreadPercent?: number;           // Вход от спреда, % (default: arbitrage.minSpreadPercent)
+  closeOnConvergence?: boolean;        // Закрывать при сходимости цен (default: trading.closeOnSpreadConvergence)
+  priceConvergencePercent?: number;    // Порог сходимости, % (default: trading.priceConvergencePercent)
+  closeOnNewOpportunity?: boolean;     // Без свободных слотов закрыть прибыльную пару ради новой (default: trading.closeOnNewOpportunity)
+  maxHoldSeconds?: number;             // Таймаут пары, 0 = без ограничения (default: trading.positionTimeoutSeconds)
+}
+
+/**
+ * Параметры стратегии FUNDING: LONG на бирже с меньшей ставкой, SHORT - с большей,
+ * удержание через расчеты фандинга до схлопывания разницы ставок. Требует funding.enabled
+ */
+export interface FundingStrategyParams {
+  minRateDiffPercent?: number;         // Вход: разница ставок SHORT - LONG за период, % (default: 0.03)
+  exitRateDiffPercent?: number;        // Выход: разница упала ниже, % (default: 0.005)
+  maxEntryCostPercent?: number;        // Допустимая потеря на ценах и комиссиях входа, % (default: 0.1)
+  maxHoldHours?: number;               // Максимальное удержание, 0 = без ограничения (default: 72)
+}
+
+/**
+ * Стратегия и ее параметры (config.strategies)
+ */
+export type StrategyConfig =
+  | { name: 'SPREAD'; params?: SpreadStrategyParams }
+  | { name: 'FUNDING'; params?: FundingStrategyParams };
+
+/**
+ * Запись котировок WebSocket для офлайн анализа и бэктеста
+ */
+export interface RecorderConfig {
+  enabled: boolean;
+  dir?: string;                        // Каталог записей (default: data/ticks)
+  flushIntervalMs?: number;            // Период сброса буфера gzip на диск (default: 5000)
+}
+
+/**
+ * Бумажная торговля (trading.testMode): ордера проходят тот же путь, что и в реальной торговле,
+ * но исполняются симулятором биржи по живым стаканам
+ */
+export interface PaperTradingConfig {
+  enabled: boolean;
+  balanceUSD?: Record<string, number>; // Стартовый баланс каждой биржи (default: trading.testBalanceUSD)
+  latencyMs?: number;                  // Задержка ответа на ордер (default: 50)
+  latencyJitterMs?: number;            // Случайная добавка к задержке, 0..jitter (default: 0)
+  rejectRate?: number;                 // Доля случайно отклоненных ордеров, 0..1 (default: 0)
+  maxLeverage?: number;                // Максимальное плечо (default: 125)
+}
+
+/**
+ * Тип ордеров входа и выхода: market - рыночные (комиссия taker), post-only - лимитные только в стакан
+ * (комиссия maker), ioc - лимитные с исполнением сразу или отменой (комиссия taker, цена не хуже лимита)
+ */
+export type OrderExecutionMode = 'market' | 'post-only' | 'ioc';
+
+/**
+ * Исполнение ордеров ног лимитными ордерами: цена пересчитывается по стакану (погоня за ценой),
+ * к дедлайну неисполненный остаток отменяется или добивается рыночным ордером
+ */
+export interface ExecutionConfig {
+  mode: OrderExecutionMode;
+  deadlineMs?: number;                 // Сколько ждать исполнения лимитными ордерами (default: 5000)
+  chaseIntervalMs?: number;            // Период проверки ордера и перестановки цены (default: 500)
+  marketFallback?: boolean;            // Добивать остаток входа рыночным ордером после дедлайна (default: true)
+}
+
+/**
+ * Котирование maker-taker: POST_ONLY ордера на бирже котировок (нулевая комиссия maker) по цене,
+ * дающей целевой спред к лучшим ценам биржи хеджа. Исполненная котировка сразу хеджируется рыночным ордером
+ */
+export interface HedgedQuotingConfig {
+  enabled: boolean;
+  symbols: string[];                   // Котируемые символы (торгуются на обеих биржах)
+  targetSpreadPercent: number;         // Спред котировки к лучшей цене биржи хеджа после комиссий входа, %
+  makerExchange?: string;              // Биржа котировок (default: mexc)
+  hedgeExchange?: string;              // Биржа хеджа (default: binance)
+  requoteIntervalMs?: number;          // Период пересчета цены котировок (default: 250)
+  pollIntervalMs?: number;             // Период опроса статуса котировок, если приватный стрим молчит (default: 1000)
+}
+
+/**
+ * Защитное закрытие открытых пар. Не заданный порог не проверяется
+ */
+export interface RiskConfig {
+  stopLossPercent?: number;            // Закрыть пару при убытке обеих ног после комиссий, % от объема
+  maxSpreadWideningPercent?: number;   // Закрыть при расширении спреда от спреда входа, п.п.
+  liquidationBufferPercent?: number;   // Аварийно закрыть, если mark price ноги ближе к цене ликвидации, %
+}
+
+/**
+ * Мониторинг маржи ног открытых пар: оценка по плечу всегда, в live маржа и цена ликвидации - с биржи
+ */
+export interface MarginConfig {
+  refreshIntervalMs?: number;          // Опрос позиций бирж при реальной/бумажной торговле (default: 5000)
+  warnMarginRatioPercent?: number;     // Предупреждение, если поддерживающая маржа выше, % от маржи ноги (default: 50)
+  warnLiquidationPercent?: number;     // Предупреждение, если до ликвидации меньше, % от mark price (default: 10)
+  autoTopUp?: MarginTopUpConfig;       // Довнесение изолированной маржи (default: выключено)
+}
+
+/**
+ * Автоматическое довнесение маржи (только trading.marginMode 'isolated')
+ */
+export interface MarginTopUpConfig {
+  marginRatioPercent: number;          // Довносить, когда коэффициент маржи ноги выше, %
+  amountUSD: number;                   // Сколько довносить за раз
+  maxPerLegUSD: number;                // Всего на одну ногу
 }
 
 export interface SlippageConfig {
@@ -55,24 +195,28 @@ export interface SlippageConfig {
 
 export interface Config {
   _comment?: string;
-  exchanges: {
-    binance: ExchangeConfig;
-    mexc: ExchangeConfig;
-  };
+  // Ключ - имя биржи (binance, mexc, ...). Для каждой биржи нужен адаптер в exchange-factory
+  exchanges: Record<string, ExchangeConfig>;
   arbitrage: ArbitrageConfig;
   notifications: NotificationConfig;
-  fees: {
-    _comment?: string;
-    binance: FeeConfig;
-    mexc: FeeConfig;
-  };
+  // Ключ - имя биржи, как в exchanges
+  fees: Record<string, FeeConfig>;
   slippage: SlippageConfig;
   trading: TradingConfig;
+  funding?: FundingConfig;
+  recorder?: RecorderConfig;
+  paper?: PaperTradingConfig;
+  execution?: ExecutionConfig;         // Тип ордеров ног (default: { mode: 'market' })
+  hedgedQuoting?: HedgedQuotingConfig; // Котирование maker-taker (default: выключено)
+  risk?: RiskConfig;                   // Стоп-лосс и защита от ликвидации (default: выключены)
+  margin?: MarginConfig;               // Мониторинг маржи ног (default: только предупреждения)
+  strategies?: StrategyConfig[];       // Активные стратегии (default: [{ name: 'SPREAD' }])
 }
 
-export interface EnvConfig {
-  BINANCE_API_KEY?: string;
-  BINANCE_API_SECRET?: string;
-  MEXC_API_KEY?: string;
-  MEXC_API_SECRET?: string;
+/**
+ * API ключи биржи из .env (<EXCHANGE>_API_KEY / <EXCHANGE>_API_SECRET)
+ */
+export interface ExchangeCredentials {
+  apiKey?: string;
+  apiSecret?: string;
 }
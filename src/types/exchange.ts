@@ -2,7 +2,13 @@
  * Типы данных бирж
  */
 
-export type ExchangeName = 'binance' | 'mexc';
+import type { UserDataBus } from '../utils/user-data-bus.js';
+import type { MarginMode } from './config.js';
+
+/**
+ * Имя биржи - ключ из config.exchanges (binance, mexc, bybit, ...)
+ */
+export type ExchangeName = string;
 
 /**
  * Цена пары на бирже
@@ -20,6 +26,294 @@ export interface TickerPrice {
   exchange: ExchangeName; // Название биржи
 }
 
+/**
+ * Уровень стакана: цена и объем в базовой валюте
+ */
+export interface OrderBookLevel {
+  price: number;
+  quantity: number;
+}
+
+/**
+ * Снимок локального L2 стакана (bids по убыванию цены, asks по возрастанию)
+ */
+export interface OrderBook {
+  symbol: string;          // Символ в общем формате (BTCUSDT)
+  exchange: ExchangeName;
+  bids: OrderBookLevel[];
+  asks: OrderBookLevel[];
+  timestamp: number;       // Время последнего обновления
+}
+
+/**
+ * Направление ордера (единое для всех бирж)
+ */
+export type OrderSide = 'BUY' | 'SELL';
+
+/**
+ * Исполнение лимитного ордера: POST_ONLY - только в стакан (иначе биржа его снимает), IOC - сразу или отмена остатка
+ */
+export type LimitTimeInForce = 'POST_ONLY' | 'IOC';
+
+/**
+ * Результат создания ордера
+ */
+export interface OrderResult {
+  exchange: ExchangeName;
+  symbol: string;          // Символ в общем формате (BTCUSDT)
+  orderId: string;         // ID ордера на бирже
+  fillTime?: number;       // Время исполнения/обновления ордера по часам биржи (если биржа его вернула)
+  status?: OrderStatus;    // Статус в ответе биржи (EXPIRED - POST_ONLY ордер снят, не попав в стакан)
+  raw: unknown;            // Оригинальный ответ биржи
+}
+
+/**
+ * Фактическое исполнение ордера по сделкам биржи
+ */
+export interface OrderFill {
+  orderId: string;
+  avgPrice: number;        // Средняя цена исполнения
+  executedQty: number;     // Исполненный объем в базовой валюте
+  commission: number;      // Сумма комиссии
+  commissionAsset: string; // Валюта комиссии (USDT, BNB, ...)
+  fillTime?: number;       // Время последней сделки по часам биржи
+}
+
+/**
+ * Ставка фандинга контракта
+ */
+export interface FundingRate {
+  exchange: ExchangeName;
+  symbol: string;
+  rate: number;             // Ставка за период (0.0001 = 0.01%), > 0 - LONG платит SHORT
+  nextFundingTime: number;  // Время следующего расчета
+  intervalHours?: number;   // Период между расчетами (если биржа не отдает - 8ч)
+}
+
+/**
+ * Расчет фандинга по позиции
+ */
+export interface FundingPayment {
+  time: number;             // Время расчета
+  rate: number;             // Ставка
+  amountUSD: number;        // Получено (+) / уплачено (-)
+}
+
+/**
+ * Открытая позиция на бирже (REST), для сверки с состоянием бота при старте
+ */
+export interface ExchangePosition {
+  exchange: ExchangeName;
+  symbol: string;          // В общем формате (BTCUSDT)
+  side: PositionSide;
+  quantity: number;        // Объем в базовой валюте
+  entryPrice: number;
+  leverage: number;
+  unrealizedPnl?: number;
+  updateTime?: number;     // Последнее изменение позиции по часам биржи
+  marginMode?: MarginMode;
+  markPrice?: number;
+  liquidationPrice?: number; // Цена ликвидации по расчету биржи (нет - биржа не вернула или риска нет)
+  margin?: number;         // Изолированная маржа позиции в USDT без нереализованного PnL (с довнесенной)
+}
+
+/**
+ * Результат смены режима маржи символа
+ */
+export type MarginModeStatus =
+  | 'SET'            // Режим установлен
+  | 'UNCHANGED'      // Символ уже в этом режиме
+  | 'POSITION_OPEN'  // По символу открыта позиция в другом режиме - биржа режим не меняет
+  | 'OPEN_ORDERS'    // По символу есть открытые ордера
+  | 'NOT_ALLOWED';   // Режим недоступен аккаунту или символу (Binance Multi-Assets и т.п.)
+
+/**
+ * Статус ордера из приватного стрима (единый для всех бирж)
+ */
+export type OrderStatus = 'NEW' | 'PARTIALLY_FILLED' | 'FILLED' | 'CANCELED' | 'REJECTED' | 'EXPIRED';
+
+/**
+ * Состояние ордера по REST запросу
+ */
+export interface OrderState {
+  orderId: string;
+  status: OrderStatus;
+  executedQty: number;     // Исполнено всего, в базовой валюте
+  avgPrice: number;        // Средняя цена исполнения (0, пока ничего не исполнено)
+}
+
+/**
+ * Изменение ордера (Binance ORDER_TRADE_UPDATE, MEXC push.personal.order)
+ */
+export interface OrderUpdateEvent {
+  exchange: ExchangeName;
+  symbol: string;          // Символ в общем формате (BTCUSDT)
+  orderId: string;
+  side: OrderSide;
+  reduceOnly: boolean;
+  status: OrderStatus;
+  executedQty: number;     // Исполнено всего, в базовой валюте
+  avgPrice: number;        // Средняя цена исполнения
+  commission?: number;     // Комиссия всего по ордеру (накопленная)
+  commissionAsset?: string;
+  isLiquidation: boolean;  // Ордер ликвидации / ADL, созданный биржей
+  timestamp: number;       // Время события по часам биржи
+}
+
+/**
+ * Изменение позиции (Binance ACCOUNT_UPDATE.P, MEXC push.personal.position)
+ */
+export interface PositionUpdateEvent {
+  exchange: ExchangeName;
+  symbol: string;
+  side: PositionSide;
+  quantity: number;        // Размер позиции в базовой валюте (0 = закрыта)
+  entryPrice: number;
+  unrealizedPnl?: number;
+  timestamp: number;
+}
+
+/**
+ * Изменение баланса (Binance ACCOUNT_UPDATE.B, MEXC push.personal.asset)
+ */
+export interface BalanceUpdateEvent {
+  exchange: ExchangeName;
+  asset: string;
+  walletBalance: number;
+  availableBalance?: number;
+  timestamp: number;
+}
+
+/**
+ * События приватных стримов по имени события шины
+ */
+export interface UserDataEvents {
+  order: OrderUpdateEvent;
+  position: PositionUpdateEvent;
+  balance: BalanceUpdateEvent;
+}
+
+/**
+ * Общий интерфейс адаптера фьючерсной биржи.
+ * Все символы передаются в общем формате (BTCUSDT) — адаптер сам конвертирует их в формат биржи.
+ */
+export interface FuturesExchange {
+  readonly name: ExchangeName;
+
+  getTopPairs(limit?: number): Promise<TradingPair[]>;
+  healthCheck(): Promise<boolean>;
+
+  connectWebSocket(symbols: string[], onPriceUpdate?: (price: TickerPrice) => void): void;
+  disconnect(): void;
+  getPrice(symbol: string): TickerPrice | undefined;
+  getAllPrices(): Map<string, TickerPrice>;
+
+  /**
+   * Локальный стакан символа (diff-стрим + REST снимок). undefined, пока стакан не синхронизирован
+   */
+  getOrderBook(symbol: string, depth?: number): OrderBook | undefined;
+
+  /**
+   * Загрузить параметры контрактов (шаг цены/количества, размер контракта, мин. объем)
+   */
+  getContractSpecs(): Promise<ContractSpec[]>;
+
+  /**
+   * Рыночный ордер. quantity - в единицах ордера биржи (монеты или контракты, см. ContractSpec). BUY + reduceOnly закрывает SHORT, SELL + reduceOnly закрывает LONG
+   */
+  createMarketOrder(
+    symbol: string,
+    side: OrderSide,
+    quantity: number,
+    reduceOnly?: boolean
+  ): Promise<OrderResult>;
+
+  /**
+   * Лимитный ордер (POST_ONLY / IOC). quantity - в единицах ордера биржи, price - кратна tickSize.
+   * POST_ONLY ордер, который исполнился бы сразу, биржа не ставит - результат со status EXPIRED, не ошибка
+   */
+  createLimitOrder(
+    symbol: string,
+    side: OrderSide,
+    quantity: number,
+    price: number,
+    timeInForce: LimitTimeInForce,
+    reduceOnly?: boolean
+  ): Promise<OrderResult>;
+
+  /**
+   * Снять ордер. Уже исполненный или снятый ордер - не ошибка, итог проверяется через getOrderStatus
+   */
+  cancelOrder(symbol: string, orderId: string): Promise<void>;
+
+  /**
+   * Перевыставить лежащий POST_ONLY ордер по новой цене (quantity - в единицах ордера биржи).
+   * Биржа без изменения ордера снимает его и ставит новый - orderId результата может смениться.
+   * Если снятый ордер успел исполниться, новый не ставится - результат со старым orderId и его статусом
+   */
+  amendOrder(symbol: string, orderId: string, side: OrderSide, quantity: number, price: number): Promise<OrderResult>;
+
+  /**
+   * Статус и исполненный объем ордера
+   */
+  getOrderStatus(symbol: string, orderId: string): Promise<OrderState>;
+
+  setLeverage(symbol: string, leverage: number): Promise<void>;
+
+  /**
+   * Режим маржи символа для следующих ордеров. Известные отказы биржи классифицированы в результате,
+   * прочие ошибки (сеть, лимиты, неизвестные коды) - исключением
+   */
+  setMarginMode(symbol: string, mode: MarginMode): Promise<MarginModeStatus>;
+
+  getBalance(): Promise<number>;
+
+  /**
+   * Фактическое исполнение ордера (цена, объем, комиссия) по сделкам биржи
+   */
+  getOrderFill(symbol: string, orderId: string): Promise<OrderFill>;
+
+  /**
+   * Открытые позиции аккаунта (ненулевой объем)
+   */
+  getPositions(): Promise<ExchangePosition[]>;
+
+  /**
+   * Довнести маржу в изолированную позицию (amount - в USDT)
+   */
+  addIsolatedMargin(symbol: string, side: PositionSide, amount: number): Promise<void>;
+
+  /**
+   * Текущие ставки фандинга и время следующего расчета
+   */
+  getFundingRates(symbols: string[]): Promise<FundingRate[]>;
+
+  /**
+   * Подключить приватный стрим аккаунта (ордера, позиции, балансы) и публиковать события в шину.
+   * Отключается вместе с disconnect()
+   */
+  connectUserDataStream(bus: UserDataBus): Promise<void>;
+
+  /**
+   * Биржа ответила 429/418 - REST запросы приостановлены лимитером до конца паузы
+   */
+  isRateLimited(): boolean;
+}
+
+/**
+ * Параметры контракта на бирже
+ */
+export interface ContractSpec {
+  symbol: string;          // Символ в общем формате (BTCUSDT)
+  exchange: ExchangeName;
+  contractSize: number;    // Базовой валюты в одной единице ордера (Binance = 1, MEXC = размер контракта)
+  tickSize: number;        // Шаг цены
+  stepSize: number;        // Шаг количества (в единицах ордера)
+  minQty: number;          // Минимальное количество (в единицах ордера)
+  maxQty?: number;         // Максимальное количество для рыночного ордера
+  minNotional: number;     // Минимальный размер ордера в USDT (0 = без ограничения)
+}
+
 /**
  * Информация о торговой паре
  */
@@ -30,6 +324,11 @@ export interface TradingPair {
   volume24h?: number;      // Объем за 24 часа
 }
 
+/**
+ * Стратегия пары: SPREAD - сходимость цен между биржами, FUNDING - разница ставок фандинга
+ */
+export type TradeStrategy = 'SPREAD' | 'FUNDING';
+
 /**
  * Арбитражная возможность
  */
@@ -43,8 +342,14 @@ export interface ArbitrageOpportunity {
   buyQtyAvailable?: number;    // Доступный объем по ask цене (где покупаем)
   sellQtyAvailable?: number;   // Доступный объем по bid цене (где продаем)
   // ----------------------------------------------
+  buyAvgPrice?: number;        // VWAP покупки на positionSizeUSD по стакану
+  sellAvgPrice?: number;       // VWAP продажи на positionSizeUSD по стакану
+  fillableUSD?: number;        // Сколько USD реально исполнится по стакану (меньшая из сторон)
+  fundingPercent?: number;     // Ожидаемый фандинг обеих ног за время удержания, % (уже в profitPercent)
+  strategy?: TradeStrategy;    // По умолчанию SPREAD
+  fundingDiffPercent?: number; // Разница ставок фандинга SHORT - LONG за период, % (стратегия FUNDING)
   spreadPercent: number;       // Разница в процентах
-  profitPercent: number;       // Прибыль после вычета комиссий
+  profitPercent: number;       // Прибыль после вычета комиссий (по VWAP, если стаканы синхронизированы)
   timestamp: number;
 }
 
@@ -70,20 +375,37 @@ export type PositionSide = 'LONG' | 'SHORT';
 /**
  * Статус позиции
  */
-export type PositionStatus = 'OPEN' | 'CLOSED' | 'TIMEOUT_CLOSED' | 'CLOSED_BY_CONVERGENCE';
+export type PositionStatus =
+  | 'OPEN'
+  | 'CLOSED'
+  | 'TIMEOUT_CLOSED'
+  | 'CLOSED_BY_CONVERGENCE'
+  | 'LEG_UNWOUND'   // Вторая нога не открылась, первая закрыта reduce-only ордером
+  | 'LEG_NAKED';    // Вторая нога не открылась и первую закрыть не удалось - нужна ручная проверка
 
 /**
  * Причина закрытия позиции
  */
-export type CloseReason = 'CONVERGENCE' | 'TIMEOUT' | 'MANUAL' | 'FORCE_SHUTDOWN';
+export type CloseReason =
+  | 'CONVERGENCE'
+  | 'TIMEOUT'
+  | 'MANUAL'
+  | 'FORCE_SHUTDOWN'
+  | 'LIQUIDATION'
+  | 'ADVERSE_FUNDING'
+  | 'FUNDING_COLLAPSED'
+  | 'NEW_OPPORTUNITY'   // Закрыта ради новой возможности (closeOnNewOpportunity)
+  | 'STOP_LOSS'         // Убыток пары достиг risk.stopLossPercent
+  | 'SPREAD_WIDENING'   // Спред расширился больше risk.maxSpreadWideningPercent
+  | 'LIQUIDATION_RISK'; // Mark price ноги подошел к цене ликвидации (risk.liquidationBufferPercent)
 
 /**
- * Снимок цен для истории позиции
+ * Снимок цен для истории позиции (цены выхода на биржах LONG и SHORT ног)
  */
 export interface PriceSnapshot {
   timestamp: number;
-  binancePrice: number;
-  mexcPrice: number;
+  longPrice: number;
+  shortPrice: number;
   priceDiffPercent: number;
   spreadPercent: number;
 }
@@ -98,14 +420,40 @@ export interface Position {
   side: PositionSide;             // LONG или SHORT
   entryPrice: number;             // Цена входа
   exitPrice?: number;             // Цена выхода (если закрыта)
-  quantity: number;               // Количество контрактов
+  quantity: number;               // Количество в базовой валюте
+  orderQuantity?: number;         // Количество в единицах ордера биржи (монеты или контракты)
   sizeUSD: number;                // Размер позиции в USD
   leverage: number;               // Плечо
+  marginMode?: MarginMode;        // Режим маржи ноги на бирже
+  liquidationPrice?: number;      // Цена ликвидации (оценка по плечу и цене входа, в live - с биржи)
+  markPrice?: number;             // Последняя mark price ноги
+  margin?: number;                // Маржа ноги в USD (оценка sizeUSD / leverage, в live - изолированная с биржи)
+  maintenanceMargin?: number;     // Поддерживающая маржа в USD по mark price
+  marginRatio?: number;           // Поддерживающая маржа / (маржа + нереализованный PnL), %
+  marginTopUpUSD?: number;        // Сколько маржи довнесено автоматически
   status: PositionStatus;         // Статус позиции
   openTime: number;               // Время открытия (timestamp)
   closeTime?: number;             // Время закрытия (timestamp)
   pnl?: number;                   // Прибыль/убыток в USD
   pnlPercent?: number;            // Прибыль/убыток в %
+  timing?: LegTiming;             // Тайминги ордера открытия
+  entryOrderId?: string;          // ID ордера открытия на бирже
+  exitOrderId?: string;           // ID ордера закрытия на бирже
+  entryFill?: OrderFill;          // Фактическое исполнение открытия (реальная торговля)
+  exitFill?: OrderFill;           // Фактическое исполнение закрытия (реальная торговля)
+  fundingUSD?: number;            // Сумма фандинга за время удержания: получено (+) / уплачено (-)
+  fundingPayments?: FundingPayment[]; // Расчеты фандинга по позиции
+}
+
+/**
+ * Тайминги ордера открытия ноги (локальные часы + время биржи)
+ */
+export interface LegTiming {
+  sendTime: number;               // Отправка запроса
+  ackTime: number;                // Получение ответа биржи
+  fillTime?: number;              // Время исполнения по часам биржи
+  latencyMs: number;              // Round-trip: ackTime - sendTime
+  legSkewMs?: number;             // Рассинхрон с другой ногой (по fillTime, если обе биржи его вернули, иначе по ackTime)
 }
 
 /**
@@ -128,9 +476,27 @@ export interface PositionPair {
   currentLongPrice?: number;      // Текущая цена на бирже LONG
   currentShortPrice?: number;     // Текущая цена на бирже SHORT
   priceHistory?: PriceSnapshot[]; // История цен для отчёта
-  originalBinancePrice?: number;  // Оригинальная цена Binance при открытии
-  originalMexcPrice?: number;     // Оригинальная цена MEXC при открытии
+  originalLongPrice?: number;     // Котировка на бирже LONG при открытии
+  originalShortPrice?: number;    // Котировка на бирже SHORT при открытии
   priceDiffPercent?: number;      // Текущая разница цен в процентах (для сходимости)
+  legFailure?: LegFailure;        // Сбой ноги при открытии, защитном закрытии или встречных котировках (LEG_UNWOUND / LEG_NAKED)
+  strategy?: TradeStrategy;       // Стратегия, открывшая пару (нет - SPREAD)
+  openFundingDiffPercent?: number;    // Разница ставок при открытии, % (FUNDING)
+  currentFundingDiffPercent?: number; // Текущая разница ставок, % (FUNDING)
+}
+
+/**
+ * Сбой второй ноги пары: какая нога не открылась и чем закончился откат первой.
+ * При защитном закрытии (stage CLOSE) - какая нога не закрылась, вторая уже закрыта.
+ * При встречных котировках (stage QUOTE) - обе ноги на бирже котировки, откатывается разница их объемов
+ */
+export interface LegFailure {
+  stage?: 'OPEN' | 'CLOSE' | 'QUOTE'; // Этап сбоя (нет - OPEN)
+  failedSide: PositionSide;       // Нога, которую не удалось открыть (CLOSE - закрыть, QUOTE - меньшая из встречных)
+  attempts: number;               // Сколько попыток открыть ее было сделано
+  errorMessage: string;           // Последняя ошибка биржи
+  unwindAttempts: number;         // Попытки закрыть открытую ногу (0 = не пытались)
+  unwindError?: string;           // Ошибка отката, если открытая нога осталась на бирже
 }
 
 /**
@@ -143,7 +509,20 @@ export type SkipReason =
   | 'SYMBOL_ALREADY_OPEN'
   | 'PROFIT_BELOW_THRESHOLD'
   | 'SPREAD_CLOSED'
-  | 'LIQUIDITY_LOW';
+  | 'LIQUIDITY_LOW'
+  | 'MAX_POSITIONS_REACHED'
+  | 'RATE_LIMIT_PENDING'         // Старые журналы: до maxConcurrentOpenings открывалась одна пара за раз
+  | 'OPENINGS_LIMIT_REACHED'     // Уже открывается maxConcurrentOpenings пар
+  | 'RATE_LIMITED'              // Биржа ответила 429/418 - запросы на паузе
+  | 'ORDER_CREATION_FAILED'
+  | 'POSITION_SIZE_TOO_LARGE'
+  | 'NO_CONTRACT_METADATA'      // Нет параметров контракта на одной из бирж
+  | 'SIZE_BELOW_MINIMUM'        // Объем меньше minQty / minNotional биржи
+  | 'LEG_SIZE_MISMATCH'         // Ноги нельзя округлить до одинакового объема в базовой валюте
+  | 'TRADING_HALTED'            // Торговля остановлена: на биржах есть несверенные позиции
+  | 'ADVERSE_FUNDING'           // Скоро расчет фандинга не в пользу пары
+  | 'MARGIN_MODE_FAILED'        // Биржа не перевела символ в trading.marginMode
+  | 'LEVERAGE_FAILED';          // Плечо изолированной маржи не установлено
 
 /**
  * Пропущенная арбитражная возможность
@@ -169,7 +548,21 @@ export interface SkippedOpportunity {
 export interface TradingError {
   timestamp: number;
   symbol: string;
-  operation: 'OPEN_LONG' | 'OPEN_SHORT' | 'CLOSE_LONG' | 'CLOSE_SHORT' | 'SET_LEVERAGE' | 'GET_BALANCE';
+  operation:
+    | 'OPEN_LONG'
+    | 'OPEN_SHORT'
+    | 'CLOSE_LONG'
+    | 'CLOSE_SHORT'
+    | 'SET_LEVERAGE'
+    | 'SET_MARGIN_MODE' // errorCode - MarginModeStatus отказа или код биржи
+    | 'GET_BALANCE'
+    | 'UNWIND_LONG'    // Откат открытой ноги после сбоя второй
+    | 'UNWIND_SHORT'
+    | 'HEDGE_LONG'     // Хедж исполненной котировки рыночным ордером
+    | 'HEDGE_SHORT'
+    | 'LEG_FAILURE'    // Инцидент: пара открылась только одной ногой
+    | 'GET_FILLS'      // Не удалось получить фактическое исполнение ордера
+    | 'GET_POSITIONS'; // Не удалось получить открытые позиции (сверка при старте)
   exchange: ExchangeName;
   errorCode?: string | number;
   errorMessage: string;
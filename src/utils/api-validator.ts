@@ -1,5 +1,4 @@
-import { BinanceFutures } from '../exchanges/binance-futures.js';
-import { MexcFutures } from '../exchanges/mexc-futures.js';
+import type { ExchangeName, FuturesExchange } from '../types/exchange.js';
 import { Logger } from './logger.js';
 import type { TuiDashboard } from './tui.js';
 
@@ -7,13 +6,29 @@ import type { TuiDashboard } from './tui.js';
  * Результат проверки API
  */
 export interface ApiCheckResult {
-  exchange: 'binance' | 'mexc';
+  exchange: ExchangeName;
   connectivity: boolean;  // Ping успешен
   authentication: boolean; // API ключи работают
   balance?: number;        // Баланс USDT (если auth успешен)
   error?: string;          // Сообщение об ошибке
 }
 
+/**
+ * Расшифровка известных кодов ошибок авторизации по биржам
+ */
+const AUTH_ERROR_HINTS: Record<ExchangeName, Record<string, string>> = {
+  binance: {
+    '-1022': 'Неверная подпись API. Проверьте API ключи в .env файле',
+    '-2014': 'API ключ недействителен',
+    '-2015': 'API ключ не имеет прав на Futures Trading',
+  },
+  mexc: {
+    '1002': 'MEXC Futures API доступен только institutional пользователям. Отключите MEXC в config.json или получите institutional access: institution@mexc.com',
+    '602': 'Неверная подпись API. Проверьте MEXC API ключи в .env файле',
+    '600': 'API ключ недействителен',
+  },
+};
+
 /**
  * Класс для валидации API ключей перед запуском торговли
  */
@@ -27,138 +42,54 @@ export class ApiValidator {
   }
 
   /**
-   * Проверить API ключи Binance Futures
+   * Проверить подключение и API ключи одной биржи
    */
-  async checkBinance(
-    binance: BinanceFutures,
-    enabled: boolean
-  ): Promise<ApiCheckResult> {
+  async checkExchange(exchange: FuturesExchange): Promise<ApiCheckResult> {
+    const title = exchange.name.toUpperCase();
     const result: ApiCheckResult = {
-      exchange: 'binance',
+      exchange: exchange.name,
       connectivity: false,
       authentication: false,
     };
 
-    // Если биржа отключена в конфиге
-    if (!enabled) {
-      this.log('{yellow-fg}⚠ Binance отключен в конфигурации{/}');
-      return result;
-    }
-
-    this.log('{cyan-fg}🔍 Проверка Binance Futures API...{/}');
+    this.log(`{cyan-fg}🔍 Проверка ${title} Futures API...{/}`);
 
     // 1. Проверка подключения (ping)
     try {
-      const pingOk = await binance.healthCheck();
+      const pingOk = await exchange.healthCheck();
       result.connectivity = pingOk;
 
       if (pingOk) {
-        this.log('{green-fg}  ✓ Подключение к Binance: OK{/}');
+        this.log(`{green-fg}  ✓ Подключение к ${title}: OK{/}`);
       } else {
-        this.log('{red-fg}  ✗ Подключение к Binance: FAILED{/}');
-        result.error = 'Не удалось подключиться к серверам Binance';
+        this.log(`{red-fg}  ✗ Подключение к ${title}: FAILED{/}`);
+        result.error = `Не удалось подключиться к серверам ${title}`;
         return result;
       }
     } catch (error) {
-      this.log('{red-fg}  ✗ Подключение к Binance: FAILED{/}');
+      this.log(`{red-fg}  ✗ Подключение к ${title}: FAILED{/}`);
       result.error = `Ping error: ${error instanceof Error ? error.message : String(error)}`;
       return result;
     }
 
     // 2. Проверка API ключей (getBalance)
     try {
-      const balance = await binance.getBalance();
+      const balance = await exchange.getBalance();
       result.authentication = true;
       result.balance = balance;
 
-      this.log(`{green-fg}  ✓ API ключи Binance: OK{/}`);
+      this.log(`{green-fg}  ✓ API ключи ${title}: OK{/}`);
       this.log(`{green-fg}  ✓ USDT баланс: $${balance.toFixed(2)}{/}`);
     } catch (error) {
-      this.log('{red-fg}  ✗ API ключи Binance: FAILED{/}');
+      this.log(`{red-fg}  ✗ API ключи ${title}: FAILED{/}`);
       const errorMsg = error instanceof Error ? error.message : String(error);
 
       // Парсим код ошибки
       const codeMatch = errorMsg.match(/code[":]+(-?\d+)/i);
       const errorCode = codeMatch ? codeMatch[1] : null;
+      const hint = errorCode ? AUTH_ERROR_HINTS[exchange.name]?.[errorCode] : undefined;
 
-      if (errorCode === '-1022') {
-        result.error = 'Неверная подпись API. Проверьте API ключи в .env файле';
-      } else if (errorCode === '-2014') {
-        result.error = 'API ключ недействителен';
-      } else if (errorCode === '-2015') {
-        result.error = 'API ключ не имеет прав на Futures Trading';
-      } else {
-        result.error = `Auth error: ${errorMsg}`;
-      }
-    }
-
-    return result;
-  }
-
-  /**
-   * Проверить API ключи MEXC Futures
-   */
-  async checkMexc(
-    mexc: MexcFutures,
-    enabled: boolean
-  ): Promise<ApiCheckResult> {
-    const result: ApiCheckResult = {
-      exchange: 'mexc',
-      connectivity: false,
-      authentication: false,
-    };
-
-    // Если биржа отключена в конфиге
-    if (!enabled) {
-      this.log('{yellow-fg}⚠ MEXC отключен в конфигурации{/}');
-      return result;
-    }
-
-    this.log('{cyan-fg}🔍 Проверка MEXC Futures API...{/}');
-
-    // 1. Проверка подключения (ping)
-    try {
-      const pingOk = await mexc.healthCheck();
-      result.connectivity = pingOk;
-
-      if (pingOk) {
-        this.log('{green-fg}  ✓ Подключение к MEXC: OK{/}');
-      } else {
-        this.log('{red-fg}  ✗ Подключение к MEXC: FAILED{/}');
-        result.error = 'Не удалось подключиться к серверам MEXC';
-        return result;
-      }
-    } catch (error) {
-      this.log('{red-fg}  ✗ Подключение к MEXC: FAILED{/}');
-      result.error = `Ping error: ${error instanceof Error ? error.message : String(error)}`;
-      return result;
-    }
-
-    // 2. Проверка API ключей (getBalance)
-    try {
-      const balance = await mexc.getBalance();
-      result.authentication = true;
-      result.balance = balance;
-
-      this.log(`{green-fg}  ✓ API ключи MEXC: OK{/}`);
-      this.log(`{green-fg}  ✓ USDT баланс: $${balance.toFixed(2)}{/}`);
-    } catch (error) {
-      this.log('{red-fg}  ✗ API ключи MEXC: FAILED{/}');
-      const errorMsg = error instanceof Error ? error.message : String(error);
-
-      // Парсим код ошибки
-      const codeMatch = errorMsg.match(/code[":]+(\d+)/i);
-      const errorCode = codeMatch ? codeMatch[1] : null;
-
-      if (errorCode === '1002') {
-        result.error = 'MEXC Futures API доступен только institutional пользователям. Отключите MEXC в config.json или получите institutional access: institution@mexc.com';
-      } else if (errorCode === '602') {
-        result.error = 'Неверная подпись API. Проверьте MEXC API ключи в .env файле';
-      } else if (errorCode === '600') {
-        result.error = 'API ключ недействителен';
-      } else {
-        result.error = `Auth error: ${errorMsg}`;
-      }
+      result.error = hint ?? `Auth error: ${errorMsg}`;
     }
 
     return result;
@@ -168,9 +99,7 @@ export class ApiValidator {
    * Проверить все биржи и вывести итоговый результат
    */
   async validateAll(
-    binance: BinanceFutures | null,
-    mexc: MexcFutures | null,
-    config: { binance: boolean; mexc: boolean }
+    exchanges: FuturesExchange[]
   ): Promise<{ success: boolean; results: ApiCheckResult[] }> {
     this.log('');
     this.log('{bold}{cyan-fg}═══════════════════════════════════════════{/}');
@@ -179,31 +108,15 @@ export class ApiValidator {
     this.log('');
 
     const results: ApiCheckResult[] = [];
-    let allGood = true;
-
-    // Проверка Binance
-    if (binance && config.binance) {
-      const binanceResult = await this.checkBinance(binance, config.binance);
-      results.push(binanceResult);
 
-      if (!binanceResult.authentication) {
-        allGood = false;
-      }
+    for (const exchange of exchanges) {
+      results.push(await this.checkExchange(exchange));
       this.log('');
     }
 
-    // Проверка MEXC
-    if (mexc && config.mexc) {
-      const mexcResult = await this.checkMexc(mexc, config.mexc);
-      results.push(mexcResult);
-
-      // MEXC не критично если не работает (можно торговать только на Binance)
-      // Но если это единственная биржа - то критично
-      if (!mexcResult.authentication && !config.binance) {
-        allGood = false;
-      }
-      this.log('');
-    }
+    // Отдельная биржа не критична (например MEXC без institutional доступа),
+    // но хотя бы одна должна пройти авторизацию
+    const allGood = results.some((result) => result.authentication);
 
     // Итоговый результат
     this.log('{bold}{cyan-fg}═══════════════════════════════════════════{/}');
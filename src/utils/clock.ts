@@ -0,0 +1,59 @@
+/**
+ * Источник времени: системный в работе бота, симулированный в бэктесте
+ */
+export interface ClockSource {
+  now(): number;
+  sleep(ms: number): Promise<void>;
+}
+
+const SYSTEM_CLOCK: ClockSource = {
+  now: () => Date.now(),
+  sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+};
+
+/**
+ * Текущее время торговой логики (открытие/закрытие пар, таймауты, фандинг).
+ * Задержки сети и ордеров (latency) по-прежнему меряются системным временем
+ */
+export class Clock {
+  private static source: ClockSource = SYSTEM_CLOCK;
+
+  static now(): number {
+    return Clock.source.now();
+  }
+
+  static sleep(ms: number): Promise<void> {
+    return Clock.source.sleep(ms);
+  }
+
+  static use(source: ClockSource): void {
+    Clock.source = source;
+  }
+
+  static reset(): void {
+    Clock.source = SYSTEM_CLOCK;
+  }
+}
+
+/**
+ * Часы бэктеста: время двигает проигрыватель тиков, ожидания не моделируются
+ */
+export class SimulatedClock implements ClockSource {
+  private time: number;
+
+  constructor(startTime: number) {
+    this.time = startTime;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  set(time: number): void {
+    this.time = time;
+  }
+
+  sleep(): Promise<void> {
+    return Promise.resolve();
+  }
+}
@@ -1,5 +1,6 @@
 import type { PositionPair } from '../types/exchange.js';
 import type { Config } from '../types/config.js';
+import { LimitOrderExecutor } from './limit-order-executor.js';
 
 /**
  * Причины пропуска сигнала
@@ -271,9 +272,9 @@ export class CompactLogger {
     const positionCount = positions.size;
     if (positionCount === 0) return;
 
-    // Комиссии: taker fee на обеих биржах при входе и выходе
-    const binanceFee = this.config.fees.binance.taker;
-    const mexcFee = this.config.fees.mexc.taker;
+    // Комиссии на обеих биржах при входе и выходе (maker для post-only ордеров, иначе taker)
+    const binanceFee = LimitOrderExecutor.feePercent(this.config, 'binance');
+    const mexcFee = LimitOrderExecutor.feePercent(this.config, 'mexc');
     const avgFee = (binanceFee + mexcFee) / 2;
     const totalFees = avgFee * 4; // вход на 2 биржи + выход с 2 бирж
 
@@ -311,8 +312,8 @@ export class CompactLogger {
     const minProfit = 0.1; // Минимальный порог прибыли
 
     // Чистые издержки (комиссии + слиппадж)
-    const binanceFee = this.config.fees.binance.taker;
-    const mexcFee = this.config.fees.mexc.taker;
+    const binanceFee = LimitOrderExecutor.feePercent(this.config, 'binance');
+    const mexcFee = LimitOrderExecutor.feePercent(this.config, 'mexc');
     const fees = (binanceFee + mexcFee) * 2; // вход и выход на 2 биржах
     const slippage = this.config.slippage.percent * 2;
     const totalCosts = fees + slippage;
@@ -336,12 +337,11 @@ export class CompactLogger {
 
   /**
    * Определить тип позиции (LONG/SHORT)
-   * LONG = покупка на бирже A (Binance), продажа на бирже B (MEXC)
+   * LONG = покупка на бирже, которая идет первой по алфавиту (binance < mexc), продажа на второй
    * SHORT = наоборот
    */
   private getPositionType(pair: PositionPair): 'LONG' | 'SHORT' {
-    // Если longPosition на binance - это LONG, иначе SHORT
-    return pair.longPosition.exchange === 'binance' ? 'LONG' : 'SHORT';
+    return pair.longPosition.exchange < pair.shortPosition.exchange ? 'LONG' : 'SHORT';
   }
 
   /**
@@ -1,14 +1,16 @@
 import { readFileSync } from 'fs';
 import { join } from 'path';
 import { config as dotenvConfig } from 'dotenv';
-import type { Config, EnvConfig } from '../types/config.js';
+import type { Config, ExchangeConfig, ExchangeCredentials } from '../types/config.js';
+import type { ExchangeName } from '../types/exchange.js';
+import { StrategyFactory } from '../strategies/strategy-factory.js';
 
 /**
  * Загружает конфигурацию из config.json и .env
  */
 export class ConfigLoader {
   private config: Config;
-  private env: EnvConfig;
+  private env: Record<ExchangeName, ExchangeCredentials>;
 
   constructor() {
     // Загружаем .env файл (если существует)
@@ -19,13 +21,31 @@ export class ConfigLoader {
     const configFile = readFileSync(configPath, 'utf-8');
     this.config = JSON.parse(configFile) as Config;
 
-    // Загружаем env переменные
-    this.env = {
-      BINANCE_API_KEY: process.env.BINANCE_API_KEY,
-      BINANCE_API_SECRET: process.env.BINANCE_API_SECRET,
-      MEXC_API_KEY: process.env.MEXC_API_KEY,
-      MEXC_API_SECRET: process.env.MEXC_API_SECRET,
-    };
+    // Загружаем env переменные: <EXCHANGE>_API_KEY / <EXCHANGE>_API_SECRET для каждой биржи
+    this.env = {};
+    for (const [name] of ConfigLoader.getExchangeEntries(this.config)) {
+      const prefix = name.toUpperCase();
+      this.env[name] = {
+        apiKey: process.env[`${prefix}_API_KEY`],
+        apiSecret: process.env[`${prefix}_API_SECRET`],
+      };
+    }
+  }
+
+  /**
+   * Список бирж из config.exchanges (служебные ключи вида "_comment" пропускаются)
+   */
+  static getExchangeEntries(config: Config): [ExchangeName, ExchangeConfig][] {
+    return Object.entries(config.exchanges).filter(
+      ([name, exchange]) => !name.startsWith('_') && typeof exchange === 'object'
+    );
+  }
+
+  /**
+   * Список включенных бирж
+   */
+  static getEnabledExchanges(config: Config): [ExchangeName, ExchangeConfig][] {
+    return ConfigLoader.getExchangeEntries(config).filter(([, exchange]) => exchange.enabled);
   }
 
   /**
@@ -36,9 +56,9 @@ export class ConfigLoader {
   }
 
   /**
-   * Получить API ключи
+   * Получить API ключи по биржам
    */
-  getApiKeys() {
+  getApiKeys(): Record<ExchangeName, ExchangeCredentials> {
     return this.env;
   }
 
@@ -46,12 +66,17 @@ export class ConfigLoader {
    * Проверить, что все обязательные параметры заполнены
    */
   validate(): void {
-    // Проверяем, что хотя бы одна биржа включена
-    const binanceEnabled = this.config.exchanges.binance.enabled;
-    const mexcEnabled = this.config.exchanges.mexc.enabled;
+    // Для арбитража нужны минимум две включенные биржи
+    const enabledExchanges = ConfigLoader.getEnabledExchanges(this.config);
 
-    if (!binanceEnabled && !mexcEnabled) {
-      throw new Error('Хотя бы одна биржа должна быть включена в config.json');
+    if (enabledExchanges.length < 2) {
+      throw new Error('Для арбитража в config.json должны быть включены минимум две биржи');
+    }
+
+    for (const [name] of enabledExchanges) {
+      if (!this.config.fees[name]) {
+        throw new Error(`Не заданы комиссии для биржи ${name} (fees.${name})`);
+      }
     }
 
     // Проверяем параметры арбитража
@@ -63,6 +88,105 @@ export class ConfigLoader {
       throw new Error('topPairsCount должен быть > 0');
     }
 
+    // Режим маржи ставится на символ перед первым ордером на обеих биржах
+    if (!['cross', 'isolated'].includes(this.config.trading.marginMode)) {
+      throw new Error(`Неизвестный trading.marginMode "${this.config.trading.marginMode}". Поддерживаются: cross, isolated`);
+    }
+
+    // Проверяем стратегии
+    const supportedStrategies = StrategyFactory.getSupportedStrategies();
+    for (const strategy of StrategyFactory.getConfigured(this.config)) {
+      if (!supportedStrategies.includes(strategy.name)) {
+        throw new Error(`Неизвестная стратегия "${strategy.name}". Поддерживаются: ${supportedStrategies.join(', ')}`);
+      }
+      if (strategy.name === 'FUNDING' && !this.config.funding?.enabled) {
+        throw new Error('Стратегия FUNDING требует funding.enabled = true');
+      }
+    }
+
+    // Бумажная торговля
+    const paper = this.config.paper;
+    if (paper?.enabled) {
+      if (paper.rejectRate !== undefined && (paper.rejectRate < 0 || paper.rejectRate > 1)) {
+        throw new Error('paper.rejectRate должен быть от 0 до 1');
+      }
+      if ((paper.latencyMs ?? 0) < 0 || (paper.latencyJitterMs ?? 0) < 0) {
+        throw new Error('paper.latencyMs и paper.latencyJitterMs должны быть >= 0');
+      }
+      if (!this.config.trading.testMode) {
+        console.warn('⚠️  paper.enabled работает только при trading.testMode = true - ордера пойдут на биржи');
+      }
+    }
+
+    // Лимитные ордера ног
+    const execution = this.config.execution;
+    if (execution) {
+      if (!['market', 'post-only', 'ioc'].includes(execution.mode)) {
+        throw new Error(`Неизвестный execution.mode "${execution.mode}". Поддерживаются: market, post-only, ioc`);
+      }
+      if ((execution.deadlineMs ?? 1) <= 0 || (execution.chaseIntervalMs ?? 1) <= 0) {
+        throw new Error('execution.deadlineMs и execution.chaseIntervalMs должны быть > 0');
+      }
+    }
+
+    // Котирование maker-taker
+    const quoting = this.config.hedgedQuoting;
+    if (quoting?.enabled) {
+      const maker = quoting.makerExchange ?? 'mexc';
+      const hedge = quoting.hedgeExchange ?? 'binance';
+      if (maker === hedge) {
+        throw new Error('hedgedQuoting.makerExchange и hedgedQuoting.hedgeExchange должны быть разными биржами');
+      }
+      for (const name of [maker, hedge]) {
+        if (!this.config.exchanges[name]?.enabled) {
+          throw new Error(`hedgedQuoting: биржа ${name} не включена в exchanges`);
+        }
+      }
+      if (!Array.isArray(quoting.symbols) || quoting.symbols.length === 0) {
+        throw new Error('hedgedQuoting.symbols должен содержать хотя бы один символ');
+      }
+      if (!(quoting.targetSpreadPercent > 0)) {
+        throw new Error('hedgedQuoting.targetSpreadPercent должен быть > 0');
+      }
+      if ((quoting.requoteIntervalMs ?? 1) <= 0 || (quoting.pollIntervalMs ?? 1) <= 0) {
+        throw new Error('hedgedQuoting.requoteIntervalMs и hedgedQuoting.pollIntervalMs должны быть > 0');
+      }
+    }
+
+    // Защитное закрытие пар
+    const risk = this.config.risk;
+    if (risk) {
+      for (const [key, value] of Object.entries(risk)) {
+        if (value !== undefined && !(value > 0)) {
+          throw new Error(`risk.${key} должен быть > 0`);
+        }
+      }
+    }
+
+    // Мониторинг маржи
+    const margin = this.config.margin;
+    if (margin) {
+      for (const key of ['refreshIntervalMs', 'warnMarginRatioPercent', 'warnLiquidationPercent'] as const) {
+        const value = margin[key];
+        if (value !== undefined && !(value > 0)) {
+          throw new Error(`margin.${key} должен быть > 0`);
+        }
+      }
+
+      const topUp = margin.autoTopUp;
+      if (topUp) {
+        if (this.config.trading.marginMode !== 'isolated') {
+          throw new Error('margin.autoTopUp работает только при trading.marginMode = isolated');
+        }
+        if (!(topUp.marginRatioPercent > 0 && topUp.marginRatioPercent < 100)) {
+          throw new Error('margin.autoTopUp.marginRatioPercent должен быть в диапазоне (0, 100)');
+        }
+        if (!(topUp.amountUSD > 0) || !(topUp.maxPerLegUSD >= topUp.amountUSD)) {
+          throw new Error('margin.autoTopUp: amountUSD должен быть > 0 и не больше maxPerLegUSD');
+        }
+      }
+    }
+
     // Предупреждение если WebSocket выключен
     if (!this.config.arbitrage.useWebSocket) {
       console.warn('⚠️  ВНИМАНИЕ: WebSocket выключен! Арбитраж будет работать медленно.');
@@ -89,11 +213,11 @@ export class ConfigLoader {
     console.log('\n📋 Конфигурация арбитражного бота:');
     console.log('─'.repeat(50));
 
-    const { binance, mexc } = this.config.exchanges;
-    console.log(
-      `🔹 Binance: ${binance.enabled ? '✓ Включен' : '✗ Выключен'}`
-    );
-    console.log(`🔹 MEXC: ${mexc.enabled ? '✓ Включен' : '✗ Выключен'}`);
+    for (const [name, exchange] of ConfigLoader.getExchangeEntries(this.config)) {
+      console.log(
+        `🔹 ${name.toUpperCase()}: ${exchange.enabled ? '✓ Включен' : '✗ Выключен'}`
+      );
+    }
 
     const arb = this.config.arbitrage;
     console.log(`\n⚙️  Параметры:`);
@@ -113,14 +237,59 @@ export class ConfigLoader {
       console.log(`   • Исключенные пары: ${arb.excludePairs.join(', ')}`);
     }
 
-    const fees = this.config.fees;
+    const strategies = StrategyFactory.getConfigured(this.config).map((strategy) => strategy.name);
+    console.log(`   • Стратегии: ${strategies.join(', ')}`);
+    console.log(`   • Маржа: ${this.config.trading.marginMode}, плечо ${this.config.trading.leverage}x`);
+
+    if (this.config.trading.testMode && this.config.paper?.enabled) {
+      const paper = this.config.paper;
+      console.log(
+        `   • Бумажная торговля: задержка ${paper.latencyMs ?? 50}ms, отказы ${((paper.rejectRate ?? 0) * 100).toFixed(1)}%`
+      );
+    }
+
+    const execution = this.config.execution;
+    if (execution && execution.mode !== 'market') {
+      console.log(
+        `   • Ордера ног: ${execution.mode}, дедлайн ${execution.deadlineMs ?? 5000}ms` +
+        `${execution.marketFallback === false ? '' : ', остаток - рыночным'}`
+      );
+    }
+
+    const quoting = this.config.hedgedQuoting;
+    if (quoting?.enabled) {
+      console.log(
+        `   • Котирование: ${(quoting.makerExchange ?? 'mexc').toUpperCase()} -> хедж ${(quoting.hedgeExchange ?? 'binance').toUpperCase()}, ` +
+        `спред ${quoting.targetSpreadPercent}%, символы: ${quoting.symbols.join(', ')}`
+      );
+    }
+
+    const risk = this.config.risk;
+    if (risk && Object.values(risk).some((value) => value !== undefined)) {
+      const limits = [
+        risk.stopLossPercent !== undefined ? `стоп-лосс ${risk.stopLossPercent}%` : undefined,
+        risk.maxSpreadWideningPercent !== undefined ? `расширение спреда ${risk.maxSpreadWideningPercent} п.п.` : undefined,
+        risk.liquidationBufferPercent !== undefined ? `до ликвидации ${risk.liquidationBufferPercent}%` : undefined,
+      ].filter((limit) => limit !== undefined);
+      console.log(`   • Защита пар: ${limits.join(', ')}`);
+    }
+
+    const topUp = this.config.margin?.autoTopUp;
+    if (topUp) {
+      console.log(
+        `   • Довнесение маржи: $${topUp.amountUSD} при коэффициенте > ${topUp.marginRatioPercent}% ` +
+        `(до $${topUp.maxPerLegUSD} на ногу)`
+      );
+    }
+
     console.log(`\n💰 Комиссии:`);
-    console.log(
-      `   • Binance: maker ${fees.binance.maker}% / taker ${fees.binance.taker}%`
-    );
-    console.log(
-      `   • MEXC: maker ${fees.mexc.maker}% / taker ${fees.mexc.taker}%`
-    );
+    for (const [name] of ConfigLoader.getExchangeEntries(this.config)) {
+      const fee = this.config.fees[name];
+      if (!fee) continue;
+      console.log(
+        `   • ${name.toUpperCase()}: maker ${fee.maker}% / taker ${fee.taker}%`
+      );
+    }
 
     console.log('─'.repeat(50) + '\n');
   }
@@ -0,0 +1,257 @@
+import type { ContractSpec, ExchangeName, FuturesExchange, OrderSide, SkipReason } from '../types/exchange.js';
+import { Logger } from './logger.js';
+
+/**
+ * Результат подбора объема для пары ног
+ */
+export type PairSizing =
+  | {
+      ok: true;
+      longBaseQuantity: number;    // Экспозиция LONG в базовой валюте
+      shortBaseQuantity: number;   // Экспозиция SHORT в базовой валюте
+      longOrderQuantity: number;   // Количество для ордера на бирже LONG (монеты/контракты)
+      shortOrderQuantity: number;  // Количество для ордера на бирже SHORT
+    }
+  | {
+      ok: false;
+      reason: SkipReason;
+      details: string;
+    };
+
+/**
+ * Допустимое по умолчанию расхождение экспозиции ног в %, если шаги бирж несоизмеримы
+ */
+const DEFAULT_MAX_LEG_MISMATCH_PERCENT = 0.5;
+
+/**
+ * Кэш параметров контрактов всех бирж и перевод USD-объема в количество для ордеров.
+ * Загружается один раз при старте (Binance exchangeInfo, MEXC contract/detail).
+ */
+export class ContractMetadataService {
+  private exchanges: FuturesExchange[];
+  private logger: Logger;
+  private specs: Map<ExchangeName, Map<string, ContractSpec>> = new Map();
+
+  constructor(exchanges: FuturesExchange[], logger?: Logger) {
+    this.exchanges = exchanges;
+    this.logger = logger || new Logger();
+  }
+
+  /**
+   * Загрузить параметры контрактов со всех бирж
+   * Ошибка одной биржи не останавливает загрузку остальных - по ней сделки будут отклоняться
+   */
+  async load(): Promise<void> {
+    const results = await Promise.allSettled(
+      this.exchanges.map((exchange) => exchange.getContractSpecs())
+    );
+
+    results.forEach((result, index) => {
+      const name = this.exchanges[index].name;
+
+      if (result.status === 'rejected') {
+        this.logger.warn(`${name.toUpperCase()}: параметры контрактов не загружены, сделки на бирже будут отклоняться`);
+        return;
+      }
+
+      const bySymbol = new Map<string, ContractSpec>();
+      for (const spec of result.value) {
+        bySymbol.set(spec.symbol, spec);
+      }
+      this.specs.set(name, bySymbol);
+      this.logger.info(`${name.toUpperCase()}: загружены параметры ${bySymbol.size} контрактов`);
+    });
+  }
+
+  /**
+   * Загружены ли параметры контрактов биржи
+   */
+  isLoaded(exchange: ExchangeName): boolean {
+    return this.specs.has(exchange);
+  }
+
+  getSpec(exchange: ExchangeName, symbol: string): ContractSpec | undefined {
+    return this.specs.get(exchange)?.get(symbol);
+  }
+
+  hasSpec(exchange: ExchangeName, symbol: string): boolean {
+    return this.getSpec(exchange, symbol) !== undefined;
+  }
+
+  /**
+   * Перевести количество в базовой валюте в единицы ордера (с округлением вниз до шага)
+   */
+  toOrderQuantity(exchange: ExchangeName, symbol: string, baseQuantity: number): number | undefined {
+    const spec = this.getSpec(exchange, symbol);
+    if (!spec) return undefined;
+
+    return ContractMetadataService.floorToStep(baseQuantity / spec.contractSize, spec.stepSize);
+  }
+
+  /**
+   * Округлить цену лимитного ордера до tickSize: BUY - вниз, SELL - вверх (цена не хуже заданной)
+   */
+  toLimitPrice(exchange: ExchangeName, symbol: string, side: OrderSide, price: number): number | undefined {
+    const spec = this.getSpec(exchange, symbol);
+    if (!spec) return undefined;
+
+    return side === 'BUY'
+      ? ContractMetadataService.floorToStep(price, spec.tickSize)
+      : ContractMetadataService.ceilToStep(price, spec.tickSize);
+  }
+
+  /**
+   * Подобрать объем обеих ног под notionalUSD так, чтобы экспозиция в базовой валюте совпадала.
+   * Сначала ищется общий шаг обеих бирж (точное совпадение), иначе ноги округляются отдельно
+   * и проверяется допустимое расхождение.
+   */
+  sizePair(
+    symbol: string,
+    longExchange: ExchangeName,
+    shortExchange: ExchangeName,
+    notionalUSD: number,
+    longPrice: number,
+    shortPrice: number,
+    maxMismatchPercent = DEFAULT_MAX_LEG_MISMATCH_PERCENT
+  ): PairSizing {
+    const longSpec = this.getSpec(longExchange, symbol);
+    const shortSpec = this.getSpec(shortExchange, symbol);
+
+    if (!longSpec || !shortSpec) {
+      const missing = !longSpec ? longExchange : shortExchange;
+      return {
+        ok: false,
+        reason: 'NO_CONTRACT_METADATA',
+        details: `Нет параметров контракта ${symbol} на ${missing.toUpperCase()}`,
+      };
+    }
+
+    const longStep = ContractMetadataService.baseStep(longSpec);
+    const shortStep = ContractMetadataService.baseStep(shortSpec);
+    const targetBase = notionalUSD / ((longPrice + shortPrice) / 2);
+
+    let longBase: number;
+    let shortBase: number;
+
+    const commonStep = ContractMetadataService.commonStep(longStep, shortStep);
+    if (commonStep !== undefined && commonStep <= targetBase) {
+      // Точное совпадение: объем кратен шагам обеих бирж
+      longBase = ContractMetadataService.floorToStep(targetBase, commonStep);
+      shortBase = longBase;
+    } else {
+      // Шаги несоизмеримы в пределах размера позиции - округляем каждую ногу отдельно
+      const matched = Math.min(
+        ContractMetadataService.floorToStep(targetBase, longStep),
+        ContractMetadataService.floorToStep(targetBase, shortStep)
+      );
+      longBase = ContractMetadataService.floorToStep(matched, longStep);
+      shortBase = ContractMetadataService.floorToStep(matched, shortStep);
+    }
+
+    if (longBase <= 0 || shortBase <= 0) {
+      return {
+        ok: false,
+        reason: 'SIZE_BELOW_MINIMUM',
+        details: `$${notionalUSD} меньше шага количества (${longStep} / ${shortStep} ${symbol})`,
+      };
+    }
+
+    const mismatchPercent = (Math.abs(longBase - shortBase) / Math.max(longBase, shortBase)) * 100;
+    if (mismatchPercent > maxMismatchPercent) {
+      return {
+        ok: false,
+        reason: 'LEG_SIZE_MISMATCH',
+        details: `LONG ${longBase} vs SHORT ${shortBase} (${mismatchPercent.toFixed(2)}% > ${maxMismatchPercent}%)`,
+      };
+    }
+
+    const longOrderQuantity = ContractMetadataService.floorToStep(longBase / longSpec.contractSize, longSpec.stepSize);
+    const shortOrderQuantity = ContractMetadataService.floorToStep(shortBase / shortSpec.contractSize, shortSpec.stepSize);
+
+    const legs = [
+      { spec: longSpec, orderQuantity: longOrderQuantity, notional: longBase * longPrice },
+      { spec: shortSpec, orderQuantity: shortOrderQuantity, notional: shortBase * shortPrice },
+    ];
+
+    for (const leg of legs) {
+      const name = leg.spec.exchange.toUpperCase();
+
+      if (leg.orderQuantity < leg.spec.minQty || leg.notional < leg.spec.minNotional) {
+        return {
+          ok: false,
+          reason: 'SIZE_BELOW_MINIMUM',
+          details: `${name}: ${leg.orderQuantity} (min ${leg.spec.minQty}), $${leg.notional.toFixed(2)} (min $${leg.spec.minNotional})`,
+        };
+      }
+
+      if (leg.spec.maxQty !== undefined && leg.orderQuantity > leg.spec.maxQty) {
+        return {
+          ok: false,
+          reason: 'POSITION_SIZE_TOO_LARGE',
+          details: `${name}: ${leg.orderQuantity} > max ${leg.spec.maxQty}`,
+        };
+      }
+    }
+
+    return {
+      ok: true,
+      longBaseQuantity: longBase,
+      shortBaseQuantity: shortBase,
+      longOrderQuantity,
+      shortOrderQuantity,
+    };
+  }
+
+  /**
+   * Шаг количества в базовой валюте
+   */
+  private static baseStep(spec: ContractSpec): number {
+    return ContractMetadataService.normalize(spec.stepSize * spec.contractSize);
+  }
+
+  /**
+   * Наименьший общий шаг (НОК двух десятичных шагов)
+   */
+  private static commonStep(a: number, b: number): number | undefined {
+    const decimals = Math.max(ContractMetadataService.decimals(a), ContractMetadataService.decimals(b));
+    if (decimals > 12) return undefined;
+
+    const scale = 10 ** decimals;
+    const intA = Math.round(a * scale);
+    const intB = Math.round(b * scale);
+    if (intA === 0 || intB === 0) return undefined;
+
+    const gcd = (x: number, y: number): number => (y === 0 ? x : gcd(y, x % y));
+    return ContractMetadataService.normalize((intA / gcd(intA, intB)) * intB / scale);
+  }
+
+  /**
+   * Округлить вниз до шага (без артефактов плавающей точки)
+   */
+  static floorToStep(value: number, step: number): number {
+    if (step <= 0) return value;
+
+    const steps = Math.floor(value / step + 1e-9);
+    return Number((steps * step).toFixed(ContractMetadataService.decimals(step)));
+  }
+
+  /**
+   * Округлить вверх до шага (без артефактов плавающей точки)
+   */
+  static ceilToStep(value: number, step: number): number {
+    if (step <= 0) return value;
+
+    const steps = Math.ceil(value / step - 1e-9);
+    return Number((steps * step).toFixed(ContractMetadataService.decimals(step)));
+  }
+
+  private static decimals(value: number): number {
+    const [mantissa, exponent] = value.toExponential().split('e');
+    const fraction = mantissa.split('.')[1]?.length ?? 0;
+    return Math.max(0, fraction - parseInt(exponent));
+  }
+
+  private static normalize(value: number): number {
+    return Number(value.toPrecision(12));
+  }
+}
@@ -22,10 +22,42 @@ export class ExcelReporter {
       case 'TIMEOUT': return 'Таймаут';
       case 'MANUAL': return 'Ручное закрытие';
       case 'FORCE_SHUTDOWN': return 'Принудительное (Ctrl+C)';
+      case 'LIQUIDATION': return 'Ликвидация';
+      case 'ADVERSE_FUNDING': return 'Фандинг не в пользу';
+      case 'FUNDING_COLLAPSED': return 'Разница ставок схлопнулась';
+      case 'NEW_OPPORTUNITY': return 'Ради новой возможности';
+      case 'STOP_LOSS': return 'Стоп-лосс';
+      case 'SPREAD_WIDENING': return 'Расширение спреда';
+      case 'LIQUIDATION_RISK': return 'Близко к ликвидации';
       default: return 'Неизвестно';
     }
   }
 
+  /**
+   * Сумма фактических комиссий пары по валютам (например "0.0812 USDT + 0.0002 BNB")
+   */
+  private formatCommission(pair: PositionPair): string {
+    const byAsset = new Map<string, number>();
+    const fills = [pair.longPosition, pair.shortPosition].flatMap((p) => [p.entryFill, p.exitFill]);
+
+    for (const fill of fills) {
+      if (!fill) continue;
+      byAsset.set(fill.commissionAsset, (byAsset.get(fill.commissionAsset) || 0) + fill.commission);
+    }
+
+    if (byAsset.size === 0) return '-';
+    return Array.from(byAsset.entries())
+      .map(([asset, amount]) => `${amount.toFixed(4)} ${asset}`)
+      .join(' + ');
+  }
+
+  /**
+   * PnL пары посчитан по сделкам бирж (известно исполнение всех четырех ордеров)
+   */
+  private hasAllFills(pair: PositionPair): boolean {
+    return [pair.longPosition, pair.shortPosition].every((p) => p.entryFill && p.exitFill);
+  }
+
   /**
    * Генерировать полный отчет в Excel файл
    */
@@ -51,7 +83,8 @@ export class ExcelReporter {
     currentBalance: number,
     sessionStartTime: number,
     sessionEndTime: number,
-    openPositions?: PositionPair[]
+    openPositions?: PositionPair[],
+    legIncidents?: PositionPair[]
   ): Promise<string> {
     const workbook = new ExcelJS.Workbook();
 
@@ -80,6 +113,11 @@ export class ExcelReporter {
       this.createTradingErrorsSheet(workbook, tradingErrors);
     }
 
+    // Лист 6.1: Сбои ног (пара открылась только одной ногой)
+    if (legIncidents && legIncidents.length > 0) {
+      this.createLegIncidentsSheet(workbook, legIncidents);
+    }
+
     // Лист 7: Открытые позиции (если есть)
     if (openPositions && openPositions.length > 0) {
       this.createOpenPositionsSheet(workbook, openPositions);
@@ -237,6 +275,13 @@ export class ExcelReporter {
       { header: 'Общая прибыль $', key: 'totalPnlUSD', width: 18 },
       { header: 'Статус', key: 'status', width: 15 },
       { header: 'Причина закрытия', key: 'closeReason', width: 20 },
+      { header: 'LONG latency мс', key: 'longLatency', width: 16 },
+      { header: 'SHORT latency мс', key: 'shortLatency', width: 16 },
+      { header: 'Рассинхрон ног мс', key: 'legSkew', width: 18 },
+      { header: 'Комиссии (факт)', key: 'commission', width: 22 },
+      { header: 'PnL по', key: 'pnlSource', width: 14 },
+      { header: 'Фандинг $', key: 'funding', width: 12 },
+      { header: 'Стратегия', key: 'strategy', width: 12 },
     ];
 
     // Фор��атирование заголовков
@@ -290,6 +335,13 @@ export class ExcelReporter {
         totalPnlUSD: '$' + totalPnlUSD.toFixed(2),
         status: pair.status,
         closeReason: this.formatCloseReason(pair.closeReason),
+        longLatency: pair.longPosition.timing?.latencyMs ?? '-',
+        shortLatency: pair.shortPosition.timing?.latencyMs ?? '-',
+        legSkew: pair.longPosition.timing?.legSkewMs ?? '-',
+        commission: this.formatCommission(pair),
+        pnlSource: this.hasAllFills(pair) ? 'Сделкам биржи' : 'Оценке',
+        funding: '$' + ((pair.longPosition.fundingUSD ?? 0) + (pair.shortPosition.fundingUSD ?? 0)).toFixed(4),
+        strategy: pair.strategy === 'FUNDING' ? 'Фандинг' : 'Спред',
       });
 
       // Раскрашиваем строку в зависимости от прибыли
@@ -378,25 +430,9 @@ export class ExcelReporter {
       });
     });
 
-    // Статистика по downtime
-    const binanceDowntimes = wsDowntimes.filter((d) => d.exchange === 'binance');
-    const mexcDowntimes = wsDowntimes.filter((d) => d.exchange === 'mexc');
-
-    const binanceTotalMs = binanceDowntimes.reduce(
-      (sum, d) => sum + (d.durationMs || 0),
-      0
-    );
-    const mexcTotalMs = mexcDowntimes.reduce((sum, d) => sum + (d.durationMs || 0), 0);
-
+    // Статистика по downtime (по каждой бирже, у которой были отключения)
     const sessionDurationMs = sessionEndTime - sessionStartTime;
-    const binanceUptimePercent = (
-      ((sessionDurationMs - binanceTotalMs) / sessionDurationMs) *
-      100
-    ).toFixed(2);
-    const mexcUptimePercent = (
-      ((sessionDurationMs - mexcTotalMs) / sessionDurationMs) *
-      100
-    ).toFixed(2);
+    const exchanges = Array.from(new Set(wsDowntimes.map((d) => d.exchange)));
 
     // Добавляем статистику
     sheet.addRow([]);
@@ -415,34 +451,35 @@ export class ExcelReporter {
     statsTitle.alignment = { horizontal: 'center' };
     statsRow++;
 
-    sheet.addRow([]);
-    statsRow++;
-
-    sheet.getCell(`A${statsRow}`).value = 'Binance отключений:';
-    sheet.getCell(`B${statsRow}`).value = binanceDowntimes.length;
-    statsRow++;
-
-    sheet.getCell(`A${statsRow}`).value = 'Binance общее downtime:';
-    sheet.getCell(`B${statsRow}`).value = `${(binanceTotalMs / 60000).toFixed(2)} мин`;
-    statsRow++;
-
-    sheet.getCell(`A${statsRow}`).value = 'Binance uptime:';
-    sheet.getCell(`B${statsRow}`).value = `${binanceUptimePercent}%`;
-    statsRow++;
-
-    sheet.addRow([]);
-    statsRow++;
-
-    sheet.getCell(`A${statsRow}`).value = 'MEXC отключений:';
-    sheet.getCell(`B${statsRow}`).value = mexcDowntimes.length;
-    statsRow++;
-
-    sheet.getCell(`A${statsRow}`).value = 'MEXC общее downtime:';
-    sheet.getCell(`B${statsRow}`).value = `${(mexcTotalMs / 60000).toFixed(2)} мин`;
-    statsRow++;
+    if (exchanges.length === 0) {
+      sheet.getCell(`A${statsRow}`).value = 'Отключений не было (uptime 100%)';
+      statsRow++;
+    }
 
-    sheet.getCell(`A${statsRow}`).value = 'MEXC uptime:';
-    sheet.getCell(`B${statsRow}`).value = `${mexcUptimePercent}%`;
+    exchanges.forEach((exchange) => {
+      const title = exchange.toUpperCase();
+      const exchangeDowntimes = wsDowntimes.filter((d) => d.exchange === exchange);
+      const totalMs = exchangeDowntimes.reduce((sum, d) => sum + (d.durationMs || 0), 0);
+      const uptimePercent = (
+        ((sessionDurationMs - totalMs) / sessionDurationMs) *
+        100
+      ).toFixed(2);
+
+      sheet.addRow([]);
+      statsRow++;
+
+      sheet.getCell(`A${statsRow}`).value = `${title} отключений:`;
+      sheet.getCell(`B${statsRow}`).value = exchangeDowntimes.length;
+      statsRow++;
+
+      sheet.getCell(`A${statsRow}`).value = `${title} общее downtime:`;
+      sheet.getCell(`B${statsRow}`).value = `${(totalMs / 60000).toFixed(2)} мин`;
+      statsRow++;
+
+      sheet.getCell(`A${statsRow}`).value = `${title} uptime:`;
+      sheet.getCell(`B${statsRow}`).value = `${uptimePercent}%`;
+      statsRow++;
+    });
 
     // Форматирование
     sheet.eachRow((row) => {
@@ -550,18 +587,104 @@ export class ExcelReporter {
     sheet.getCell(`A${row}`).font = { bold: true, size: 12 };
     row++;
 
-    const binanceLongs = closedPositions.filter(
-      (p) => p.longPosition.exchange === 'binance'
+    const exchanges = new Set(
+      closedPositions.flatMap((p) => [p.longPosition.exchange, p.shortPosition.exchange])
     );
-    const mexcLongs = closedPositions.filter((p) => p.longPosition.exchange === 'mexc');
 
-    sheet.getCell(`A${row}`).value = 'LONG на Binance:';
-    sheet.getCell(`B${row}`).value = binanceLongs.length;
-    row++;
+    exchanges.forEach((exchange) => {
+      const longs = closedPositions.filter((p) => p.longPosition.exchange === exchange);
+      const shorts = closedPositions.filter((p) => p.shortPosition.exchange === exchange);
 
-    sheet.getCell(`A${row}`).value = 'LONG на MEXC:';
-    sheet.getCell(`B${row}`).value = mexcLongs.length;
-    row++;
+      sheet.getCell(`A${row}`).value = `LONG на ${exchange.toUpperCase()}:`;
+      sheet.getCell(`B${row}`).value = longs.length;
+      row++;
+
+      sheet.getCell(`A${row}`).value = `SHORT на ${exchange.toUpperCase()}:`;
+      sheet.getCell(`B${row}`).value = shorts.length;
+      row++;
+    });
+
+    // Задержки исполнения (только реальные ордера)
+    const timings = closedPositions.flatMap((p) => [p.longPosition, p.shortPosition])
+      .filter((position) => position.timing !== undefined);
+
+    if (timings.length > 0) {
+      row++;
+      sheet.getCell(`A${row}`).value = '⏱️ ЗАДЕРЖКИ ИСПОЛНЕНИЯ';
+      sheet.getCell(`A${row}`).font = { bold: true, size: 12 };
+      row++;
+
+      new Set(timings.map((position) => position.exchange)).forEach((exchange) => {
+        const latencies = timings
+          .filter((position) => position.exchange === exchange)
+          .map((position) => position.timing!.latencyMs);
+        const avg = latencies.reduce((sum, value) => sum + value, 0) / latencies.length;
+
+        sheet.getCell(`A${row}`).value = `Средняя latency ${exchange.toUpperCase()}:`;
+        sheet.getCell(`B${row}`).value = `${avg.toFixed(0)} мс (max ${Math.max(...latencies)} мс)`;
+        row++;
+      });
+
+      const skews = closedPositions
+        .map((p) => p.longPosition.timing?.legSkewMs)
+        .filter((skew): skew is number => skew !== undefined);
+
+      if (skews.length > 0) {
+        const avgSkew = skews.reduce((sum, value) => sum + value, 0) / skews.length;
+        sheet.getCell(`A${row}`).value = 'Средний рассинхрон ног:';
+        sheet.getCell(`B${row}`).value = `${avgSkew.toFixed(0)} мс (max ${Math.max(...skews)} мс)`;
+        row++;
+      }
+      row++;
+    }
+
+    // Фандинг-арбитраж отдельно от спредовых сделок
+    const fundingPairs = closedPositions.filter((p) => p.strategy === 'FUNDING');
+
+    if (fundingPairs.length > 0) {
+      const legs = fundingPairs.flatMap((p) => [p.longPosition, p.shortPosition]);
+      const fundingUSD = legs.reduce((sum, position) => sum + (position.fundingUSD ?? 0), 0);
+      const totalUSD = legs.reduce((sum, position) => sum + (position.pnl ?? 0), 0);
+      const wins = fundingPairs.filter((p) => (p.longPosition.pnl ?? 0) + (p.shortPosition.pnl ?? 0) > 0).length;
+      const settlements = legs.reduce((sum, position) => sum + (position.fundingPayments?.length ?? 0), 0);
+      const avgHoldMs = fundingPairs.reduce((sum, p) => sum + (p.closeTime ? p.closeTime - p.openTime : 0), 0)
+        / fundingPairs.length;
+
+      row++;
+      sheet.getCell(`A${row}`).value = '💰 ФАНДИНГ-АРБИТРАЖ';
+      sheet.getCell(`A${row}`).font = { bold: true, size: 12 };
+      row++;
+
+      const fundingStats: [string, string | number][] = [
+        ['Сделок:', fundingPairs.length],
+        ['Win Rate:', `${((wins / fundingPairs.length) * 100).toFixed(1)}%`],
+        ['Получено фандинга:', `$${fundingUSD.toFixed(4)}`],
+        ['PnL по ценам:', `$${(totalUSD - fundingUSD).toFixed(2)}`],
+        ['Итоговый PnL:', `$${totalUSD.toFixed(2)}`],
+        ['Расчетов фандинга (ноги):', settlements],
+        ['Среднее удержание:', `${(avgHoldMs / 3600000).toFixed(2)} ч`],
+      ];
+
+      fundingStats.forEach(([label, value]) => {
+        sheet.getCell(`A${row}`).value = label;
+        sheet.getCell(`B${row}`).value = value;
+        row++;
+      });
+      row++;
+    }
+
+    // Направления арбитража (где купили -> где продали)
+    const routes = new Map<string, number>();
+    closedPositions.forEach((p) => {
+      const route = `${p.longPosition.exchange.toUpperCase()} → ${p.shortPosition.exchange.toUpperCase()}`;
+      routes.set(route, (routes.get(route) || 0) + 1);
+    });
+
+    routes.forEach((count, route) => {
+      sheet.getCell(`A${row}`).value = `Сделок ${route}:`;
+      sheet.getCell(`B${row}`).value = count;
+      row++;
+    });
 
     // Форматирование
     sheet.eachRow((row) => {
@@ -620,8 +743,19 @@ export class ExcelReporter {
         'POSITION_NOT_PROFITABLE': '📉 Текущая позиция не прибыльна',
         'MAX_POSITIONS_REACHED': '🚫 Нет свободных слотов',
         'RATE_LIMIT_PENDING': '⏱️ Rate limit - уже создается другой ордер',
+        'OPENINGS_LIMIT_REACHED': '⏳ Уже открывается максимум пар',
+        'RATE_LIMITED': '🐢 Биржа ограничила запросы (429/418)',
         'ORDER_CREATION_FAILED': '❌ Ошибка создания ордера на бирже',
         'POSITION_SIZE_TOO_LARGE': '⚠️ Размер позиции превышает лимит безопасности',
+        'LIQUIDITY_LOW': '💧 Мало ликвидности в стакане',
+        'PROFIT_BELOW_THRESHOLD': '📉 Прибыль по VWAP не покрывает комиссии',
+        'NO_CONTRACT_METADATA': '❔ Нет параметров контракта',
+        'SIZE_BELOW_MINIMUM': '📏 Объем меньше минимума биржи',
+        'LEG_SIZE_MISMATCH': '⚖️ Объемы ног не совпадают',
+        'TRADING_HALTED': '⛔ Торговля остановлена',
+        'ADVERSE_FUNDING': '💸 Фандинг не в пользу',
+        'MARGIN_MODE_FAILED': '🧮 Режим маржи не установлен',
+        'LEVERAGE_FAILED': '⚙️ Плечо не установлено',
       };
 
       const reasonText = reasonMap[opp.reason as string] || `Неизвестная причина: ${opp.reason}`;
@@ -736,7 +870,15 @@ export class ExcelReporter {
         'CLOSE_LONG': '🔒 Закрытие LONG',
         'CLOSE_SHORT': '🔓 Закрытие SHORT',
         'SET_LEVERAGE': '⚙️ Установка плеча',
+        'SET_MARGIN_MODE': '🧮 Установка режима маржи',
         'GET_BALANCE': '💵 Получение баланса',
+        'UNWIND_LONG': '↩️ Откат LONG',
+        'UNWIND_SHORT': '↪️ Откат SHORT',
+        'HEDGE_LONG': '🛡️ Хедж LONG',
+        'HEDGE_SHORT': '🛡️ Хедж SHORT',
+        'LEG_FAILURE': '🚨 Сбой ноги',
+        'GET_FILLS': '🧾 Получение исполнения',
+        'GET_POSITIONS': '🔍 Сверка позиций',
       };
 
       const operationText = operationMap[error.operation] || error.operation;
@@ -806,6 +948,92 @@ export class ExcelReporter {
     }
   }
 
+  /**
+   * Лист 6.1: Сбои ног - вторая нога не открылась, первая откатана (или осталась без хеджа);
+   * защитное закрытие прошло только по одной ноге; исполнились обе котировки maker-taker
+   */
+  private createLegIncidentsSheet(
+    workbook: ExcelJS.Workbook,
+    legIncidents: PositionPair[]
+  ): void {
+    const sheet = workbook.addWorksheet('Сбои ног', {
+      views: [{ showGridLines: true, state: 'frozen', ySplit: 1 }],
+    });
+
+    sheet.columns = [
+      { header: 'Дата/Время', key: 'timestamp', width: 20 },
+      { header: 'Symbol', key: 'symbol', width: 15 },
+      { header: 'Не открыта', key: 'failedLeg', width: 18 },
+      { header: 'Попыток', key: 'attempts', width: 10 },
+      { header: 'Открыта', key: 'filledLeg', width: 18 },
+      { header: 'Цена входа', key: 'entryPrice', width: 14 },
+      { header: 'Цена отката', key: 'exitPrice', width: 14 },
+      { header: 'Результат', key: 'status', width: 22 },
+      { header: 'PnL $', key: 'pnl', width: 12 },
+      { header: 'Ошибка', key: 'errorMessage', width: 50 },
+    ];
+
+    sheet.getRow(1).font = { bold: true, color: { argb: 'FFFFFFFF' } };
+    sheet.getRow(1).fill = {
+      type: 'pattern',
+      pattern: 'solid',
+      fgColor: { argb: 'FFE74C3C' }, // Красный для инцидентов
+    };
+    sheet.getRow(1).alignment = { horizontal: 'center', vertical: 'middle' };
+    sheet.getRow(1).height = 25;
+
+    legIncidents.forEach((pair) => {
+      const failure = pair.legFailure;
+      const failed = failure?.failedSide === 'LONG' ? pair.longPosition : pair.shortPosition;
+      const filled = failure?.failedSide === 'LONG' ? pair.shortPosition : pair.longPosition;
+      const naked = pair.status === 'LEG_NAKED';
+      const closeStage = failure?.stage === 'CLOSE';
+      const quoteStage = failure?.stage === 'QUOTE';
+
+      const row = sheet.addRow({
+        timestamp: new Date(pair.openTime).toLocaleString('ru-RU'),
+        symbol: pair.symbol,
+        failedLeg: closeStage
+          ? `${failed.side} ${failed.exchange.toUpperCase()} (не закрыта)`
+          : quoteStage
+            ? 'Хедж (обе котировки исполнены)'
+            : `${failed.side} ${failed.exchange.toUpperCase()}`,
+        attempts: failure?.attempts ?? 0,
+        filledLeg: closeStage
+          ? `${filled.side} ${filled.exchange.toUpperCase()} (закрыта)`
+          : `${filled.side} ${filled.exchange.toUpperCase()}`,
+        entryPrice: filled.entryPrice.toFixed(4),
+        exitPrice: filled.exitPrice !== undefined ? filled.exitPrice.toFixed(4) : '-',
+        status: closeStage
+          ? `⚠️ Без хеджа после ${pair.closeReason} (вручную)`
+          : quoteStage && !naked
+            ? `↩️ Остаток закрыт (попыток: ${failure?.unwindAttempts ?? 0})`
+            : naked ? '⚠️ Без хеджа (вручную)' : `↩️ Откатана (попыток: ${failure?.unwindAttempts ?? 0})`,
+        pnl: filled.pnl !== undefined ? `$${filled.pnl.toFixed(2)}` : '-',
+        errorMessage: naked && failure?.unwindError
+          ? `${failure.errorMessage} | Откат: ${failure.unwindError}`
+          : failure?.errorMessage ?? '-',
+      });
+
+      row.fill = {
+        type: 'pattern',
+        pattern: 'solid',
+        fgColor: { argb: naked ? 'FFFFC7CE' : 'FFFFE699' }, // Красный - без хеджа, желтый - откатана
+      };
+      if (naked) row.font = { bold: true };
+
+      row.eachCell((cell) => {
+        cell.alignment = { vertical: 'middle', horizontal: 'left' };
+        cell.border = {
+          top: { style: 'thin' },
+          left: { style: 'thin' },
+          bottom: { style: 'thin' },
+          right: { style: 'thin' },
+        };
+      });
+    });
+  }
+
   /**
    * Создает лист с открытыми позициями и расчетом PnL если закрыть
    */
@@ -968,8 +1196,8 @@ export class ExcelReporter {
       // Заголовки
       sheet.columns = [
         { header: 'Время', key: 'time', width: 20 },
-        { header: 'Binance Price', key: 'binancePrice', width: 15 },
-        { header: 'MEXC Price', key: 'mexcPrice', width: 15 },
+        { header: `LONG ${pair.longPosition.exchange.toUpperCase()}`, key: 'longPrice', width: 15 },
+        { header: `SHORT ${pair.shortPosition.exchange.toUpperCase()}`, key: 'shortPrice', width: 15 },
         { header: 'Разница цен %', key: 'priceDiff', width: 15 },
         { header: 'Спред %', key: 'spread', width: 12 },
       ];
@@ -989,8 +1217,8 @@ export class ExcelReporter {
       pair.priceHistory.forEach((snapshot) => {
         sheet.addRow({
           time: new Date(snapshot.timestamp).toLocaleString('ru-RU'),
-          binancePrice: snapshot.binancePrice.toFixed(6),
-          mexcPrice: snapshot.mexcPrice.toFixed(6),
+          longPrice: snapshot.longPrice.toFixed(6),
+          shortPrice: snapshot.shortPrice.toFixed(6),
           priceDiff: snapshot.priceDiffPercent.toFixed(4) + '%',
           spread: snapshot.spreadPercent.toFixed(4) + '%',
         });
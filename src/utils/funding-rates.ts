@@ -0,0 +1,158 @@
+import type { ExchangeName, FundingRate, FuturesExchange, PositionSide } from '../types/exchange.js';
+import type { AdverseFundingPolicy, FundingConfig } from '../types/config.js';
+import { Logger } from './logger.js';
+import { Clock } from './clock.js';
+
+/**
+ * Период фандинга, если биржа его не отдает (Binance premiumIndex)
+ */
+const DEFAULT_INTERVAL_HOURS = 8;
+const DEFAULT_REFRESH_INTERVAL_MS = 60000;
+const DEFAULT_ADVERSE_WINDOW_MINUTES = 10;
+
+/**
+ * Кэш ставок фандинга всех бирж с периодическим обновлением и расчет ожидаемого фандинга пары.
+ * Знак: > 0 - нога получает, < 0 - платит (при положительной ставке LONG платит SHORT)
+ */
+export class FundingRateService {
+  private exchanges: FuturesExchange[];
+  private config?: FundingConfig;
+  private logger: Logger;
+  private rates: Map<ExchangeName, Map<string, FundingRate>> = new Map();
+  private refreshInterval: NodeJS.Timeout | null = null;
+
+  constructor(exchanges: FuturesExchange[], config?: FundingConfig, logger?: Logger) {
+    this.exchanges = exchanges;
+    this.config = config;
+    this.logger = logger || new Logger();
+  }
+
+  isEnabled(): boolean {
+    return this.config?.enabled ?? false;
+  }
+
+  getAdversePolicy(): AdverseFundingPolicy {
+    return this.isEnabled() ? this.config?.adversePolicy ?? 'none' : 'none';
+  }
+
+  /**
+   * Загрузить ставки и обновлять их каждые refreshIntervalMs
+   */
+  async start(symbols: string[]): Promise<void> {
+    if (!this.isEnabled() || this.refreshInterval) return;
+
+    await this.refresh(symbols);
+    this.refreshInterval = setInterval(() => {
+      void this.refresh(symbols);
+    }, this.config?.refreshIntervalMs ?? DEFAULT_REFRESH_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.refreshInterval) {
+      clearInterval(this.refreshInterval);
+      this.refreshInterval = null;
+    }
+  }
+
+  /**
+   * Обновить ставки со всех бирж. При ошибке биржи остаются прежние значения
+   */
+  async refresh(symbols: string[]): Promise<void> {
+    const results = await Promise.allSettled(
+      this.exchanges.map((exchange) => exchange.getFundingRates(symbols))
+    );
+
+    results.forEach((result, index) => {
+      const name = this.exchanges[index].name;
+
+      if (result.status === 'rejected') {
+        this.logger.warn(`${name.toUpperCase()}: ставки фандинга не обновлены`);
+        return;
+      }
+
+      const bySymbol = this.rates.get(name) ?? new Map<string, FundingRate>();
+      for (const rate of result.value) {
+        bySymbol.set(rate.symbol, rate);
+      }
+      this.rates.set(name, bySymbol);
+    });
+  }
+
+  get(exchange: ExchangeName, symbol: string): FundingRate | undefined {
+    return this.rates.get(exchange)?.get(symbol);
+  }
+
+  /**
+   * Ожидаемый фандинг ноги в % к ее номиналу за время удержания.
+   * holdMs не задан - учитывается только ближайший расчет
+   */
+  expectedLegPercent(
+    exchange: ExchangeName,
+    symbol: string,
+    side: PositionSide,
+    holdMs?: number,
+    now = Clock.now()
+  ): number {
+    const rate = this.get(exchange, symbol);
+    if (!rate) return 0;
+
+    const next = FundingRateService.nextSettlement(rate, now);
+    const settlements = holdMs === undefined
+      ? 1
+      : next > now + holdMs ? 0 : 1 + Math.floor((now + holdMs - next) / FundingRateService.intervalMs(rate));
+
+    return FundingRateService.legDirection(side) * rate.rate * 100 * settlements;
+  }
+
+  /**
+   * Ожидаемый фандинг пары (LONG + SHORT) в % к номиналу одной ноги
+   */
+  expectedPairPercent(
+    symbol: string,
+    longExchange: ExchangeName,
+    shortExchange: ExchangeName,
+    holdMs?: number,
+    now = Clock.now()
+  ): number {
+    return this.expectedLegPercent(longExchange, symbol, 'LONG', holdMs, now)
+      + this.expectedLegPercent(shortExchange, symbol, 'SHORT', holdMs, now);
+  }
+
+  /**
+   * Ближайшие расчеты в окне adverseWindowMinutes в сумме не в пользу пары
+   */
+  isAdverseSoon(symbol: string, longExchange: ExchangeName, shortExchange: ExchangeName, now = Clock.now()): boolean {
+    const windowMs = (this.config?.adverseWindowMinutes ?? DEFAULT_ADVERSE_WINDOW_MINUTES) * 60000;
+    let percent = 0;
+
+    for (const [exchange, side] of [[longExchange, 'LONG'], [shortExchange, 'SHORT']] as const) {
+      const rate = this.get(exchange, symbol);
+      if (!rate || FundingRateService.nextSettlement(rate, now) > now + windowMs) continue;
+
+      percent += FundingRateService.legDirection(side) * rate.rate * 100;
+    }
+
+    return percent < 0;
+  }
+
+  /**
+   * Время ближайшего расчета. Если ставка давно не обновлялась - переносим на следующие периоды
+   */
+  static nextSettlement(rate: FundingRate, now = Clock.now()): number {
+    if (rate.nextFundingTime > now) return rate.nextFundingTime;
+
+    const interval = FundingRateService.intervalMs(rate);
+    return rate.nextFundingTime + Math.ceil((now - rate.nextFundingTime + 1) / interval) * interval;
+  }
+
+  /**
+   * LONG платит при положительной ставке, SHORT получает
+   */
+  static legDirection(side: PositionSide): number {
+    return side === 'LONG' ? -1 : 1;
+  }
+
+  private static intervalMs(rate: FundingRate): number {
+    return (rate.intervalHours ?? DEFAULT_INTERVAL_HOURS) * 3600 * 1000;
+  }
+}
@@ -0,0 +1,228 @@
+import type { FuturesExchange, LimitTimeInForce, OrderFill, OrderSide, OrderState } from '../types/exchange.js';
+import type { Config, ExecutionConfig } from '../types/config.js';
+import type { ContractMetadataService } from './contract-metadata.js';
+import { Logger } from './logger.js';
+
+const DEFAULT_DEADLINE_MS = 5000;
+const DEFAULT_CHASE_INTERVAL_MS = 500;
+
+/**
+ * Ордер ноги: quantity - в единицах ордера биржи (монеты или контракты)
+ */
+export interface LimitOrderRequest {
+  symbol: string;
+  side: OrderSide;
+  quantity: number;
+  reduceOnly: boolean;
+  slippagePercent: number;     // Допуск цены IOC от лучшей встречной цены, %
+}
+
+/**
+ * Итог исполнения ноги лимитными ордерами (и рыночным остатком)
+ */
+export interface LimitOrderExecution {
+  orderId: string;             // Последний ордер с исполнением
+  orderIds: string[];          // Все выставленные ордера по порядку
+  fill: OrderFill;             // Сводное исполнение всех ордеров
+  marketQty: number;           // Сколько добито рыночным ордером, в базовой валюте (0 - только лимитные)
+  fillTime?: number;
+}
+
+/**
+ * Исполнение объема лимитными ордерами с погоней за ценой.
+ * POST_ONLY встает лучшей ценой своей стороны стакана, IOC - по лучшей встречной цене с допуском slippage.
+ * Каждые chaseIntervalMs ордер проверяется; если лучшая цена ушла - ордер снимается и ставится заново на остаток.
+ * К дедлайну неисполненный остаток снимается и, если разрешено, добивается рыночным ордером.
+ * Закрытия (reduceOnly) добиваются рыночным всегда - позиция не должна остаться открытой
+ */
+export class LimitOrderExecutor {
+  private config: ExecutionConfig;
+  private metadata: ContractMetadataService;
+  private logger: Logger;
+
+  constructor(config: ExecutionConfig, metadata: ContractMetadataService, logger?: Logger) {
+    this.config = config;
+    this.metadata = metadata;
+    this.logger = logger || new Logger();
+  }
+
+  /**
+   * Комиссия ордера ноги биржи в % по типу исполнения: maker только у post-only, рыночный остаток не учитывается
+   */
+  static feePercent(config: Config, exchange: string): number {
+    const fees = config.fees[exchange];
+    return config.execution?.mode === 'post-only' ? fees.maker : fees.taker;
+  }
+
+  /**
+   * Исполнить объем. Ошибка - если ничего не исполнилось (ни лимитными, ни рыночным остатком)
+   */
+  async execute(exchange: FuturesExchange, request: LimitOrderRequest): Promise<LimitOrderExecution> {
+    const { symbol, side, reduceOnly } = request;
+    const name = exchange.name.toUpperCase();
+    const spec = this.metadata.getSpec(exchange.name, symbol);
+    if (!spec) {
+      throw new Error(`${name}: нет параметров контракта ${symbol} для лимитного ордера`);
+    }
+
+    const timeInForce: LimitTimeInForce = this.config.mode === 'ioc' ? 'IOC' : 'POST_ONLY';
+    const deadline = Date.now() + (this.config.deadlineMs ?? DEFAULT_DEADLINE_MS);
+    const totalBase = request.quantity * spec.contractSize;
+    const fills: OrderFill[] = [];
+    const orderIds: string[] = [];
+
+    const filledBase = (): number => fills.reduce((sum, fill) => sum + fill.executedQty, 0);
+    const remainingQty = (): number =>
+      this.metadata.toOrderQuantity(exchange.name, symbol, Math.max(totalBase - filledBase(), 0)) ?? 0;
+
+    try {
+      while (Date.now() < deadline) {
+        const quantity = remainingQty();
+        if (quantity < spec.minQty || quantity <= 0) break;
+
+        const price = this.limitPrice(exchange, request, timeInForce);
+        if (price === undefined) {
+          this.logger.warn(`${name}: нет котировки ${symbol} для лимитного ордера`);
+          break;
+        }
+
+        const result = await exchange.createLimitOrder(symbol, side, quantity, price, timeInForce, reduceOnly);
+
+        // POST_ONLY пересек бы стакан - цена ушла, ставим заново по новой котировке
+        if (!result.orderId) {
+          await this.pause(deadline);
+          continue;
+        }
+        orderIds.push(result.orderId);
+
+        const state = await this.track(exchange, request, timeInForce, result.orderId, price, deadline);
+        if (state.executedQty > 0) {
+          fills.push(await exchange.getOrderFill(symbol, result.orderId));
+        } else if (state.status === 'EXPIRED' || state.status === 'REJECTED') {
+          // Снят биржей без исполнения (POST_ONLY пересек стакан, IOC не нашел цены) - не долбим биржу
+          await this.pause(deadline);
+        }
+      }
+    } catch (error) {
+      // Ничего не исполнено - ошибку обработает вызывающий (повтор, откат ноги)
+      if (fills.length === 0) throw error;
+      this.logger.warn(
+        `${name}: ошибка лимитного ордера ${symbol} после частичного исполнения - ` +
+        `${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    let marketQty = 0;
+    const remaining = remainingQty();
+    if (remaining >= spec.minQty && remaining > 0) {
+      if (reduceOnly || this.config.marketFallback !== false) {
+        this.logger.warn(`${name}: лимитные ордера ${symbol} не исполнены к дедлайну, остаток ${remaining} - рыночным`);
+        try {
+          const result = await exchange.createMarketOrder(symbol, side, remaining, reduceOnly);
+          orderIds.push(result.orderId);
+          const fill = await exchange.getOrderFill(symbol, result.orderId);
+          fills.push(fill);
+          marketQty = fill.executedQty;
+        } catch (error) {
+          // Вход уже частично открыт - оставляем исполненное, закрытие без остатка не закончено
+          if (fills.length === 0 || reduceOnly) throw error;
+          this.logger.warn(
+            `${name}: рыночный остаток ${symbol} не исполнен - ${error instanceof Error ? error.message : String(error)}`
+          );
+        }
+      } else if (fills.length > 0) {
+        this.logger.warn(
+          `${name}: ${symbol} исполнено ${filledBase()} из ${totalBase} к дедлайну, остаток без рыночного ордера не добирается`
+        );
+      }
+    }
+
+    if (fills.length === 0) {
+      throw new Error(`${name}: лимитные ордера ${side} ${symbol} не исполнены за ${this.config.deadlineMs ?? DEFAULT_DEADLINE_MS}ms`);
+    }
+
+    const fill = LimitOrderExecutor.aggregate(fills);
+    return { orderId: fill.orderId, orderIds, fill, marketQty, fillTime: fill.fillTime };
+  }
+
+  /**
+   * Следить за ордером до исполнения, снятия биржей, ухода цены или дедлайна.
+   * Ордер, который не удалось снять, - ошибка: иначе он может исполниться позже без учета
+   */
+  private async track(
+    exchange: FuturesExchange,
+    request: LimitOrderRequest,
+    timeInForce: LimitTimeInForce,
+    orderId: string,
+    price: number,
+    deadline: number
+  ): Promise<OrderState> {
+    const { symbol } = request;
+
+    // IOC не лежит в стакане - статус известен сразу
+    let state = timeInForce === 'IOC' ? await exchange.getOrderStatus(symbol, orderId) : undefined;
+
+    while (!state || LimitOrderExecutor.isActive(state)) {
+      const now = Date.now();
+      if (now < deadline && (timeInForce === 'IOC' || this.limitPrice(exchange, request, timeInForce) === price)) {
+        await this.pause(deadline);
+        state = await exchange.getOrderStatus(symbol, orderId);
+        continue;
+      }
+
+      // Цена ушла или дедлайн: снимаем и проверяем итог
+      await exchange.cancelOrder(symbol, orderId);
+      state = await exchange.getOrderStatus(symbol, orderId);
+      if (LimitOrderExecutor.isActive(state)) {
+        throw new Error(`${exchange.name.toUpperCase()}: ордер ${orderId} ${symbol} не снят (${state.status})`);
+      }
+    }
+
+    return state;
+  }
+
+  /**
+   * Цена лимитного ордера по лучшим ценам стакана (или тикера), округленная до tickSize
+   */
+  private limitPrice(exchange: FuturesExchange, request: LimitOrderRequest, timeInForce: LimitTimeInForce): number | undefined {
+    const book = exchange.getOrderBook(request.symbol, 1);
+    const ticker = exchange.getPrice(request.symbol);
+    const bid = book?.bids[0]?.price ?? ticker?.bid;
+    const ask = book?.asks[0]?.price ?? ticker?.ask;
+    if (!bid || !ask) return undefined;
+
+    const buy = request.side === 'BUY';
+    const price = timeInForce === 'POST_ONLY'
+      ? (buy ? bid : ask)
+      : (buy ? ask * (1 + request.slippagePercent / 100) : bid * (1 - request.slippagePercent / 100));
+
+    return this.metadata.toLimitPrice(exchange.name, request.symbol, request.side, price);
+  }
+
+  private pause(deadline: number): Promise<void> {
+    const delay = Math.min(this.config.chaseIntervalMs ?? DEFAULT_CHASE_INTERVAL_MS, Math.max(deadline - Date.now(), 0));
+    return new Promise((resolve) => setTimeout(resolve, delay));
+  }
+
+  private static isActive(state: OrderState): boolean {
+    return state.status === 'NEW' || state.status === 'PARTIALLY_FILLED';
+  }
+
+  /**
+   * Сводное исполнение нескольких ордеров: средняя цена по объему, комиссии суммируются
+   */
+  private static aggregate(fills: OrderFill[]): OrderFill {
+    const executedQty = fills.reduce((sum, fill) => sum + fill.executedQty, 0);
+    const notional = fills.reduce((sum, fill) => sum + fill.avgPrice * fill.executedQty, 0);
+    const times = fills.map((fill) => fill.fillTime).filter((time): time is number => time !== undefined);
+
+    return {
+      orderId: fills[fills.length - 1].orderId,
+      avgPrice: notional / executedQty,
+      executedQty,
+      commission: fills.reduce((sum, fill) => sum + fill.commission, 0),
+      commissionAsset: fills[0].commissionAsset,
+      fillTime: times.length > 0 ? Math.max(...times) : undefined,
+    };
+  }
+}
@@ -0,0 +1,198 @@
+import type { ExchangeName, ExchangePosition, FuturesExchange, Position, PositionPair } from '../types/exchange.js';
+import type { Config, MarginConfig } from '../types/config.js';
+import { MAINTENANCE_MARGIN_RATE, RiskGuard } from './risk-guard.js';
+import { Logger } from './logger.js';
+import { Clock } from './clock.js';
+
+const DEFAULT_REFRESH_INTERVAL_MS = 5000;
+const DEFAULT_WARN_MARGIN_RATIO_PERCENT = 50;
+const DEFAULT_WARN_LIQUIDATION_PERCENT = 10;
+
+/**
+ * Маржа ног открытых пар (config.margin): цена ликвидации, маржа и коэффициент маржи на каждой ноге.
+ * Оценка - по плечу, цене входа и mark price (середина bid/ask); при торговле через адаптеры
+ * маржа и цена ликвидации уточняются по позициям бирж раз в refreshIntervalMs.
+ * Коэффициент маржи = поддерживающая маржа / (маржа + нереализованный PnL): 100% - ликвидация
+ */
+export class MarginMonitor {
+  private config: Config;
+  private margin: MarginConfig;
+  private exchanges: Map<ExchangeName, FuturesExchange>;
+  private logger: Logger;
+
+  private exchangePositions: Map<string, ExchangePosition> = new Map(); // `${exchange}:${symbol}:${side}` -> позиция биржи
+  private lastRefreshAt = 0;
+  private updating = false; // Тики executor могут перекрываться - опрос и довнесение не параллельно
+  private warnings: Set<string> = new Set(); // `${positionId}:${порог}` - предупреждение уже выдано
+  private topUpStopped: Set<string> = new Set(); // ID ног, на которых довнесение не удалось
+
+  constructor(config: Config, exchanges: Map<ExchangeName, FuturesExchange>, logger?: Logger) {
+    this.config = config;
+    this.margin = config.margin ?? {};
+    this.exchanges = exchanges;
+    this.logger = logger || new Logger();
+  }
+
+  /**
+   * Обновить маржу ног пар. fetch - опрашивать позиции бирж (ордера отправляются в адаптеры).
+   * Возвращает новые предупреждения: порог пройден впервые или довнесена маржа
+   */
+  async update(pairs: PositionPair[], fetch: boolean): Promise<string[]> {
+    const legs = pairs
+      .filter((pair) => pair.status === 'OPEN' && pair.closeTime === undefined)
+      .flatMap((pair) => [pair.longPosition, pair.shortPosition]);
+    this.forgetClosed(legs);
+    if (legs.length === 0 || this.updating) return [];
+
+    this.updating = true;
+    try {
+      if (fetch) {
+        await this.refresh(legs);
+      }
+
+      const notes: string[] = [];
+      for (const position of legs) {
+        this.evaluate(position, fetch ? this.exchangePositions.get(MarginMonitor.key(position)) : undefined);
+        notes.push(...this.checkThresholds(position));
+
+        if (fetch) {
+          const note = await this.topUp(position);
+          if (note) notes.push(note);
+        }
+      }
+      return notes;
+    } finally {
+      this.updating = false;
+    }
+  }
+
+  /**
+   * Позиции бирж ног - не чаще refreshIntervalMs. При ошибке биржи остаются прежние данные
+   */
+  private async refresh(legs: Position[]): Promise<void> {
+    const now = Clock.now();
+    if (now - this.lastRefreshAt < (this.margin.refreshIntervalMs ?? DEFAULT_REFRESH_INTERVAL_MS)) return;
+
+    this.lastRefreshAt = now;
+    const names = Array.from(new Set(legs.map((position) => position.exchange)));
+    const results = await Promise.allSettled(
+      names.map((name) => this.exchanges.get(name)?.getPositions() ?? Promise.resolve([]))
+    );
+
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        this.logger.warn(`${names[index].toUpperCase()}: маржа позиций не обновлена`);
+        return;
+      }
+
+      for (const key of Array.from(this.exchangePositions.keys())) {
+        if (key.startsWith(`${names[index]}:`)) this.exchangePositions.delete(key);
+      }
+      for (const position of result.value) {
+        this.exchangePositions.set(MarginMonitor.key(position), position);
+      }
+    });
+  }
+
+  /**
+   * Маржа, поддерживающая маржа, коэффициент и цена ликвидации ноги. Данные биржи важнее оценки
+   */
+  private evaluate(position: Position, exchangePosition?: ExchangePosition): void {
+    const ticker = this.exchanges.get(position.exchange)?.getPrice(position.symbol);
+    const markPrice = ticker ? (ticker.bid + ticker.ask) / 2 : exchangePosition?.markPrice ?? position.markPrice;
+    if (markPrice === undefined) return;
+
+    const margin = exchangePosition?.margin ?? position.sizeUSD / position.leverage + (position.marginTopUpUSD ?? 0);
+    const direction = position.side === 'LONG' ? 1 : -1;
+    const unrealizedPnl = (markPrice - position.entryPrice) * position.quantity * direction;
+    const maintenanceMargin = markPrice * position.quantity * MAINTENANCE_MARGIN_RATE;
+    const equity = margin + unrealizedPnl;
+
+    position.markPrice = markPrice;
+    position.margin = margin;
+    position.maintenanceMargin = maintenanceMargin;
+    position.marginRatio = equity > 0 ? Math.min((maintenanceMargin / equity) * 100, 100) : 100;
+    position.liquidationPrice = exchangePosition?.liquidationPrice
+      ?? RiskGuard.estimateLiquidationPrice(position.side, position.entryPrice, position.sizeUSD / margin);
+  }
+
+  /**
+   * Предупреждение выдается один раз при пересечении порога и снова - после возврата ниже него
+   */
+  private checkThresholds(position: Position): string[] {
+    const { markPrice, marginRatio, liquidationPrice } = position;
+    if (markPrice === undefined || marginRatio === undefined || liquidationPrice === undefined) return [];
+
+    const ratioLimit = this.margin.warnMarginRatioPercent ?? DEFAULT_WARN_MARGIN_RATIO_PERCENT;
+    const distanceLimit = this.margin.warnLiquidationPercent ?? DEFAULT_WARN_LIQUIDATION_PERCENT;
+    const distance = RiskGuard.liquidationDistancePercent(position.side, markPrice, liquidationPrice);
+    const leg = `${position.side} ${position.symbol} на ${position.exchange.toUpperCase()}`;
+
+    const notes: string[] = [];
+    if (this.crossed(`${position.id}:ratio`, marginRatio >= ratioLimit)) {
+      notes.push(`Коэффициент маржи ${leg} ${marginRatio.toFixed(1)}% (порог ${ratioLimit}%)`);
+    }
+    if (this.crossed(`${position.id}:liquidation`, distance <= distanceLimit)) {
+      notes.push(
+        `${leg} в ${distance.toFixed(2)}% от ликвидации ` +
+        `(mark ${markPrice.toFixed(4)}, ликвидация ${liquidationPrice.toFixed(4)})`
+      );
+    }
+    return notes;
+  }
+
+  private crossed(key: string, breached: boolean): boolean {
+    if (!breached) {
+      this.warnings.delete(key);
+      return false;
+    }
+    if (this.warnings.has(key)) return false;
+
+    this.warnings.add(key);
+    return true;
+  }
+
+  /**
+   * Довнести изолированную маржу, если коэффициент выше порога и лимит ноги не выбран.
+   * После ошибки биржи на этой ноге больше не пытаемся
+   */
+  private async topUp(position: Position): Promise<string | undefined> {
+    const topUp = this.margin.autoTopUp;
+    if (!topUp || this.config.trading.marginMode !== 'isolated') return undefined;
+    if (position.marginRatio === undefined || position.marginRatio < topUp.marginRatioPercent) return undefined;
+
+    const added = position.marginTopUpUSD ?? 0;
+    if (added + topUp.amountUSD > topUp.maxPerLegUSD || this.topUpStopped.has(position.id)) return undefined;
+
+    const exchange = this.exchanges.get(position.exchange);
+    if (!exchange) return undefined;
+
+    const leg = `${position.side} ${position.symbol} на ${position.exchange.toUpperCase()}`;
+    try {
+      await exchange.addIsolatedMargin(position.symbol, position.side, topUp.amountUSD);
+    } catch (error) {
+      this.topUpStopped.add(position.id);
+      return `Не удалось довнести маржу ${leg}: ${error instanceof Error ? error.message : String(error)}`;
+    }
+
+    position.marginTopUpUSD = added + topUp.amountUSD;
+    if (position.margin !== undefined) position.margin += topUp.amountUSD;
+    // Маржу и цену ликвидации после довнесения - с биржи при следующем обновлении
+    this.lastRefreshAt = 0;
+    return `Довнесено $${topUp.amountUSD} маржи ${leg} (всего $${position.marginTopUpUSD}, коэффициент был ${position.marginRatio.toFixed(1)}%)`;
+  }
+
+  private forgetClosed(legs: Position[]): void {
+    const ids = new Set(legs.map((position) => position.id));
+    for (const key of Array.from(this.warnings)) {
+      if (!ids.has(key.slice(0, key.lastIndexOf(':')))) this.warnings.delete(key);
+    }
+    for (const id of Array.from(this.topUpStopped)) {
+      if (!ids.has(id)) this.topUpStopped.delete(id);
+    }
+  }
+
+  private static key(position: Pick<Position, 'exchange' | 'symbol' | 'side'>): string {
+    return `${position.exchange}:${position.symbol}:${position.side}`;
+  }
+}
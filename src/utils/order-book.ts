@@ -0,0 +1,189 @@
+import type { ExchangeName, OrderBook, OrderBookLevel, OrderSide } from '../types/exchange.js';
+
+/**
+ * Уровень из биржевого сообщения: [цена, объем в базовой валюте]
+ */
+export type RawLevel = [number, number];
+
+/**
+ * Оценка исполнения рыночного ордера на заданную сумму
+ */
+export interface FillEstimate {
+  avgPrice: number;       // Средневзвешенная цена исполнения (VWAP)
+  filledUSD: number;      // Сколько USD исполнится
+  complete: boolean;      // Хватает ли ликвидности на всю сумму
+  levels: number;         // Сколько уровней стакана задействовано
+  slippageCost: number;   // Потеря в USD относительно лучшей цены
+  source: 'BOOK' | 'TOP'; // По стакану или по лучшей цене + slippage из конфига
+  details: string;
+}
+
+/**
+ * Сколько уровней отдавать в снимке по умолчанию
+ */
+const DEFAULT_SNAPSHOT_DEPTH = 100;
+
+/**
+ * Локальный L2 стакан одной пары на одной бирже.
+ * Хранит уровни как цена -> объем, синхронизацию (snapshot + diff, номера версий) делает адаптер биржи.
+ */
+export class LocalOrderBook {
+  readonly symbol: string;
+  readonly exchange: ExchangeName;
+  lastUpdateId = 0;  // Последний примененный номер обновления (Binance u / MEXC version)
+  timestamp = 0;
+
+  private bids: Map<number, number> = new Map();
+  private asks: Map<number, number> = new Map();
+
+  constructor(symbol: string, exchange: ExchangeName) {
+    this.symbol = symbol;
+    this.exchange = exchange;
+  }
+
+  /**
+   * Заменить стакан REST снимком
+   */
+  reset(bids: RawLevel[], asks: RawLevel[], updateId: number, timestamp = Date.now()): void {
+    this.bids.clear();
+    this.asks.clear();
+    this.update(bids, asks, updateId, timestamp);
+  }
+
+  /**
+   * Применить изменения уровней (объем 0 = удалить уровень)
+   */
+  update(bids: RawLevel[], asks: RawLevel[], updateId: number, timestamp = Date.now()): void {
+    LocalOrderBook.applyLevels(this.bids, bids);
+    LocalOrderBook.applyLevels(this.asks, asks);
+    this.lastUpdateId = updateId;
+    this.timestamp = timestamp;
+  }
+
+  clear(): void {
+    this.bids.clear();
+    this.asks.clear();
+    this.lastUpdateId = 0;
+    this.timestamp = 0;
+  }
+
+  /**
+   * Есть ли уровни с обеих сторон
+   */
+  isEmpty(): boolean {
+    return this.bids.size === 0 || this.asks.size === 0;
+  }
+
+  snapshot(depth = DEFAULT_SNAPSHOT_DEPTH): OrderBook {
+    return {
+      symbol: this.symbol,
+      exchange: this.exchange,
+      bids: LocalOrderBook.sortedLevels(this.bids, true, depth),
+      asks: LocalOrderBook.sortedLevels(this.asks, false, depth),
+      timestamp: this.timestamp,
+    };
+  }
+
+  /**
+   * Оценка цены исполнения: по стакану, если он синхронизирован, иначе по лучшей цене
+   */
+  static estimate(
+    book: OrderBook | undefined,
+    side: OrderSide,
+    notionalUSD: number,
+    bestPrice: number,
+    bestQty: number | undefined,
+    slippagePercent: number
+  ): FillEstimate {
+    return book
+      ? LocalOrderBook.estimateFill(book, side, notionalUSD)
+      : LocalOrderBook.estimateTopOfBook(side, notionalUSD, bestPrice, bestQty, slippagePercent);
+  }
+
+  /**
+   * VWAP рыночного ордера на notionalUSD: BUY забирает asks, SELL - bids
+   */
+  static estimateFill(book: OrderBook, side: OrderSide, notionalUSD: number): FillEstimate {
+    const levels = side === 'BUY' ? book.asks : book.bids;
+    const bestPrice = levels[0]?.price ?? 0;
+
+    let filledUSD = 0;
+    let filledQty = 0;
+    let used = 0;
+
+    for (const level of levels) {
+      if (filledUSD >= notionalUSD) break;
+
+      const takeUSD = Math.min(notionalUSD - filledUSD, level.price * level.quantity);
+      filledUSD += takeUSD;
+      filledQty += takeUSD / level.price;
+      used++;
+    }
+
+    const avgPrice = filledQty > 0 ? filledUSD / filledQty : bestPrice;
+    const complete = filledUSD >= notionalUSD * (1 - 1e-9);
+
+    return {
+      avgPrice,
+      filledUSD,
+      complete,
+      levels: used,
+      slippageCost: Math.abs(filledQty * bestPrice - filledUSD),
+      source: 'BOOK',
+      details: complete
+        ? `VWAP ${used} lvl`
+        : `Depth only $${filledUSD.toFixed(0)} of $${notionalUSD.toFixed(0)}`,
+    };
+  }
+
+  /**
+   * Оценка без стакана: объем лучшей цены (если известен) по ней, остаток - с проскальзыванием из конфига.
+   * Если объем лучшей цены неизвестен, проскальзывание применяется ко всей сумме
+   */
+  static estimateTopOfBook(
+    side: OrderSide,
+    notionalUSD: number,
+    bestPrice: number,
+    bestQty: number | undefined,
+    slippagePercent: number
+  ): FillEstimate {
+    const topUSD = Math.min(notionalUSD, (bestQty ?? 0) * bestPrice);
+    const restUSD = notionalUSD - topUSD;
+
+    // Для покупки цена хуже вверх, для продажи - вниз
+    const direction = side === 'BUY' ? 1 : -1;
+    const penaltyPrice = bestPrice * (1 + direction * slippagePercent / 100);
+
+    const filledQty = topUSD / bestPrice + restUSD / penaltyPrice;
+    const avgPrice = notionalUSD / filledQty;
+
+    return {
+      avgPrice,
+      filledUSD: notionalUSD,
+      complete: true,
+      levels: 1,
+      slippageCost: Math.abs(filledQty * bestPrice - notionalUSD),
+      source: 'TOP',
+      details: restUSD > 0
+        ? `Top: $${topUSD.toFixed(0)} @ Best, $${restUSD.toFixed(0)} @ Slip`
+        : 'Top: Full Fill',
+    };
+  }
+
+  private static applyLevels(side: Map<number, number>, levels: RawLevel[]): void {
+    for (const [price, quantity] of levels) {
+      if (quantity === 0) {
+        side.delete(price);
+      } else {
+        side.set(price, quantity);
+      }
+    }
+  }
+
+  private static sortedLevels(side: Map<number, number>, descending: boolean, depth: number): OrderBookLevel[] {
+    return Array.from(side.entries())
+      .sort((a, b) => (descending ? b[0] - a[0] : a[0] - b[0]))
+      .slice(0, depth)
+      .map(([price, quantity]) => ({ price, quantity }));
+  }
+}
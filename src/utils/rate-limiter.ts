@@ -0,0 +1,238 @@
+import { Logger } from './logger.js';
+
+/**
+ * Приоритет запроса в очереди: закрытия позиций обгоняют открытия, открытия - остальные запросы
+ */
+export type RequestPriority = 'CLOSE' | 'OPEN' | 'DEFAULT';
+
+/**
+ * Окно лимита биржи: не больше limit единиц счетчика counter за intervalMs
+ */
+export interface RateLimitWindow {
+  counter: string;         // Что считает окно: weight, orders, endpoint MEXC...
+  limit: number;
+  intervalMs: number;
+  usedHeader?: string;     // Заголовок ответа с фактическим расходом окна (X-MBX-USED-WEIGHT-1M)
+}
+
+/**
+ * Стоимость запроса по счетчикам окон: { weight: 5 }, { weight: 1, orders: 1 }
+ */
+export type RequestCost = Record<string, number>;
+
+interface WindowState extends RateLimitWindow {
+  usage: Array<{ time: number; cost: number }>;
+}
+
+interface QueuedRequest {
+  cost: RequestCost;
+  priority: RequestPriority;
+  start: () => void;
+}
+
+const PRIORITY_ORDER: Record<RequestPriority, number> = { CLOSE: 0, OPEN: 1, DEFAULT: 2 };
+
+/**
+ * Пауза после 429 без Retry-After (удваивается при повторных 429) и после 418 (бан IP)
+ */
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 60 * 1000;
+const BAN_BACKOFF_MS = 2 * 60 * 1000;
+
+/**
+ * Сколько раз повторять запрос после 429 (418 не повторяется - бан длится минуты)
+ */
+const MAX_THROTTLE_RETRIES = 3;
+
+/**
+ * Ограничитель REST запросов одной биржи.
+ * Ведет скользящие окна расхода (вес, ордера, лимиты эндпоинтов), сверяет их с заголовками биржи,
+ * держит очередь по приоритету и приостанавливает все запросы после 429/418
+ */
+export class RateLimiter {
+  private name: string;
+  private logger: Logger;
+  private windows: WindowState[];
+  private queue: QueuedRequest[] = [];
+  private backoffUntil = 0;
+  private throttleStreak = 0;  // 429 подряд - для удвоения паузы
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(name: string, windows: RateLimitWindow[], logger?: Logger) {
+    this.name = name;
+    this.windows = windows.map((window) => ({ ...window, usage: [] }));
+    this.logger = logger || new Logger();
+  }
+
+  /**
+   * Выполнить запрос через очередь лимитера. send вызывается, когда подошла очередь, -
+   * подпись и timestamp формируются в нем, чтобы ожидание в очереди не вышло за recvWindow.
+   * После 429 запрос повторяется по окончании паузы, последний ответ (в т.ч. 429/418) возвращается как есть
+   */
+  async schedule(cost: RequestCost, priority: RequestPriority, send: () => Promise<Response>): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire(cost, priority);
+      const response = await send();
+      this.observe(response);
+
+      if (response.status !== 429 || attempt >= MAX_THROTTLE_RETRIES) {
+        return response;
+      }
+      await response.body?.cancel();
+    }
+  }
+
+  /**
+   * Дождаться очереди и списать стоимость запроса из окон
+   */
+  acquire(cost: RequestCost, priority: RequestPriority = 'DEFAULT'): Promise<void> {
+    return new Promise((resolve) => {
+      // Внутри одного приоритета - FIFO
+      const request: QueuedRequest = { cost, priority, start: resolve };
+      const index = this.queue.findIndex((queued) => PRIORITY_ORDER[queued.priority] > PRIORITY_ORDER[priority]);
+      this.queue.splice(index === -1 ? this.queue.length : index, 0, request);
+      this.drain();
+    });
+  }
+
+  /**
+   * Учесть ответ биржи: фактический расход из заголовков и 429/418
+   */
+  observe(response: Response): void {
+    const now = Date.now();
+
+    for (const window of this.windows) {
+      if (!window.usedHeader) continue;
+      const reported = Number(response.headers.get(window.usedHeader));
+      if (!Number.isFinite(reported) || reported <= 0) continue;
+
+      // Биржа насчитала больше, чем мы (другие процессы с тем же IP/аккаунтом) - догоняем
+      this.prune(window, now);
+      const local = window.usage.reduce((sum, entry) => sum + entry.cost, 0);
+      if (reported > local) {
+        window.usage.push({ time: now, cost: reported - local });
+      }
+    }
+
+    if (response.status === 429 || response.status === 418) {
+      this.throttle(response.status, Number(response.headers.get('retry-after')));
+    } else if (response.ok) {
+      this.throttleStreak = 0;
+    }
+  }
+
+  /**
+   * Запросы приостановлены после 429/418
+   */
+  isBackingOff(): boolean {
+    return Date.now() < this.backoffUntil;
+  }
+
+  /**
+   * Запросов в очереди (ждут окна или окончания паузы)
+   */
+  getQueueLength(): number {
+    return this.queue.length;
+  }
+
+  private throttle(status: number, retryAfterSec: number): void {
+    let delay: number;
+    if (Number.isFinite(retryAfterSec) && retryAfterSec > 0) {
+      delay = retryAfterSec * 1000;
+    } else if (status === 418) {
+      delay = BAN_BACKOFF_MS;
+    } else {
+      delay = Math.min(BACKOFF_BASE_MS * 2 ** this.throttleStreak, BACKOFF_MAX_MS);
+    }
+    this.throttleStreak++;
+
+    const until = Date.now() + delay;
+    if (until > this.backoffUntil) {
+      this.backoffUntil = until;
+      this.logger.warn(`${this.name.toUpperCase()}: HTTP ${status} - запросы приостановлены на ${(delay / 1000).toFixed(1)}s`);
+    }
+    this.drain();
+  }
+
+  /**
+   * Запустить все запросы, которые помещаются в окна, в порядке приоритета.
+   * Запрос ниже по очереди не обгоняет ждущий запрос, если им нужны одни и те же счетчики:
+   * открытие не займет вес, которого не хватает закрытию, а независимые эндпоинты MEXC не ждут друг друга
+   */
+  private drain(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.queue.length === 0) return;
+
+    const now = Date.now();
+    let wakeAt = Infinity;
+
+    if (now < this.backoffUntil) {
+      wakeAt = this.backoffUntil;
+    } else {
+      const blocked = new Set<string>();
+
+      for (const request of [...this.queue]) {
+        const counters = Object.keys(request.cost);
+        if (counters.some((counter) => blocked.has(counter))) continue;
+
+        const readyAt = this.readyAt(request.cost, now);
+        if (readyAt <= now) {
+          this.consume(request.cost, now);
+          this.queue.splice(this.queue.indexOf(request), 1);
+          request.start();
+        } else {
+          counters.forEach((counter) => blocked.add(counter));
+          wakeAt = Math.min(wakeAt, readyAt);
+        }
+      }
+    }
+
+    if (this.queue.length > 0 && wakeAt < Infinity) {
+      this.timer = setTimeout(() => this.drain(), Math.max(wakeAt - now, 1));
+    }
+  }
+
+  /**
+   * Когда во всех окнах освободится место под стоимость запроса
+   */
+  private readyAt(cost: RequestCost, now: number): number {
+    let readyAt = now;
+
+    for (const window of this.windows) {
+      const needed = cost[window.counter] ?? 0;
+      if (needed <= 0) continue;
+
+      this.prune(window, now);
+      // Запрос дороже всего окна пропускаем в пустое окно, иначе он не выполнится никогда
+      const allowed = Math.max(window.limit - Math.min(needed, window.limit), 0);
+      let used = window.usage.reduce((sum, entry) => sum + entry.cost, 0);
+
+      for (const entry of window.usage) {
+        if (used <= allowed) break;
+        used -= entry.cost;
+        readyAt = Math.max(readyAt, entry.time + window.intervalMs);
+      }
+    }
+
+    return readyAt;
+  }
+
+  private consume(cost: RequestCost, now: number): void {
+    for (const window of this.windows) {
+      const spent = cost[window.counter] ?? 0;
+      if (spent > 0) {
+        window.usage.push({ time: now, cost: spent });
+      }
+    }
+  }
+
+  private prune(window: WindowState, now: number): void {
+    const from = now - window.intervalMs;
+    while (window.usage.length > 0 && window.usage[0].time <= from) {
+      window.usage.shift();
+    }
+  }
+}
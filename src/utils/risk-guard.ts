@@ -0,0 +1,123 @@
+import type { CloseReason, Position, PositionPair, PositionSide } from '../types/exchange.js';
+import type { Config, RiskConfig } from '../types/config.js';
+import { LimitOrderExecutor } from './limit-order-executor.js';
+
+/**
+ * Ставка поддерживающей маржи для оценки цены ликвидации (первый уровень Binance / MEXC - 0.4-0.5%)
+ */
+export const MAINTENANCE_MARGIN_RATE = 0.005;
+
+/**
+ * Сработавший защитный порог: причина закрытия и пояснение для лога
+ */
+export interface RiskTrigger {
+  reason: CloseReason;
+  note: string;
+}
+
+/**
+ * Защитные пороги открытой пары (config.risk). Только решает - закрывает TradeExecutor.
+ * Проверки по порядку: близость ликвидации, стоп-лосс по обеим ногам, расширение спреда
+ */
+export class RiskGuard {
+  private config: Config;
+  private risk: RiskConfig;
+
+  constructor(config: Config) {
+    this.config = config;
+    this.risk = config.risk ?? {};
+  }
+
+  isEnabled(): boolean {
+    return this.risk.stopLossPercent !== undefined
+      || this.risk.maxSpreadWideningPercent !== undefined
+      || this.risk.liquidationBufferPercent !== undefined;
+  }
+
+  /**
+   * exitPrices - цены закрытия ног (LONG по bid, SHORT по ask), markPrices - оценка mark price по биржам ног
+   */
+  check(
+    pair: PositionPair,
+    exitPrices: { longPrice: number; shortPrice: number },
+    markPrices: { long?: number; short?: number }
+  ): RiskTrigger | undefined {
+    const { stopLossPercent, maxSpreadWideningPercent, liquidationBufferPercent } = this.risk;
+
+    if (liquidationBufferPercent !== undefined) {
+      const legs: Array<[Position, number | undefined]> = [[pair.longPosition, markPrices.long], [pair.shortPosition, markPrices.short]];
+      for (const [position, markPrice] of legs) {
+        if (markPrice === undefined || position.liquidationPrice === undefined) continue;
+
+        const distance = RiskGuard.liquidationDistancePercent(position.side, markPrice, position.liquidationPrice);
+        if (distance <= liquidationBufferPercent) {
+          return {
+            reason: 'LIQUIDATION_RISK',
+            note: `${position.side} ${pair.symbol} на ${position.exchange.toUpperCase()} в ${distance.toFixed(2)}% от ликвидации ` +
+              `(mark ${markPrice.toFixed(4)}, ликвидация ${position.liquidationPrice.toFixed(4)})`,
+          };
+        }
+      }
+    }
+
+    if (stopLossPercent !== undefined) {
+      const pnlPercent = this.pnlPercent(pair, exitPrices.longPrice, exitPrices.shortPrice);
+      if (pnlPercent <= -stopLossPercent) {
+        return {
+          reason: 'STOP_LOSS',
+          note: `Убыток ${pair.symbol} ${pnlPercent.toFixed(2)}% достиг стоп-лосса ${stopLossPercent}%`,
+        };
+      }
+    }
+
+    if (maxSpreadWideningPercent !== undefined) {
+      const spreadPercent = ((exitPrices.shortPrice - exitPrices.longPrice) / exitPrices.longPrice) * 100;
+      const widening = spreadPercent - pair.openSpread;
+      if (widening >= maxSpreadWideningPercent) {
+        return {
+          reason: 'SPREAD_WIDENING',
+          note: `Спред ${pair.symbol} расширился ${pair.openSpread.toFixed(2)}% -> ${spreadPercent.toFixed(2)}% ` +
+            `(+${widening.toFixed(2)} п.п., порог ${maxSpreadWideningPercent})`,
+        };
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * PnL пары при закрытии по ценам выхода, % от объема: как в отчете - средний PnL ног за вычетом комиссий входа и выхода, с фандингом
+   */
+  pnlPercent(pair: PositionPair, longExitPrice: number, shortExitPrice: number): number {
+    const { longPosition, shortPosition } = pair;
+    const longPnlPercent = ((longExitPrice - longPosition.entryPrice) / longPosition.entryPrice) * 100;
+    const shortPnlPercent = ((shortPosition.entryPrice - shortExitPrice) / shortPosition.entryPrice) * 100;
+    const fees = (
+      LimitOrderExecutor.feePercent(this.config, longPosition.exchange)
+      + LimitOrderExecutor.feePercent(this.config, shortPosition.exchange)
+    ) * 2;
+
+    const sizeUSD = longPosition.sizeUSD + shortPosition.sizeUSD;
+    const fundingUSD = (longPosition.fundingUSD ?? 0) + (shortPosition.fundingUSD ?? 0);
+    const fundingPercent = sizeUSD > 0 ? (fundingUSD / sizeUSD) * 100 : 0;
+
+    return (longPnlPercent + shortPnlPercent) / 2 - fees + fundingPercent;
+  }
+
+  /**
+   * Оценка цены ликвидации ноги по изолированной марже: убыток съедает начальную маржу (1/leverage)
+   * за вычетом поддерживающей. В кросс-режиме убыток покрывает весь баланс - реальная цена дальше, оценка консервативна
+   */
+  static estimateLiquidationPrice(side: PositionSide, entryPrice: number, leverage: number): number {
+    const move = 1 / leverage - MAINTENANCE_MARGIN_RATE;
+    return side === 'LONG' ? entryPrice * (1 - move) : entryPrice * (1 + move);
+  }
+
+  /**
+   * Сколько процентов от mark price осталось до ликвидации (0 и меньше - цена ликвидации пройдена)
+   */
+  static liquidationDistancePercent(side: PositionSide, markPrice: number, liquidationPrice: number): number {
+    const distance = side === 'LONG' ? markPrice - liquidationPrice : liquidationPrice - markPrice;
+    return (distance / markPrice) * 100;
+  }
+}
@@ -0,0 +1,261 @@
+import fs from 'fs';
+import path from 'path';
+import type { PositionPair, SkippedOpportunity, TradingError } from '../types/exchange.js';
+import type { WebSocketDowntime } from './websocket-monitor.js';
+import { Logger } from './logger.js';
+
+/**
+ * Запись журнала. Каждое изменение состояния - одна строка JSON (append-only)
+ */
+export type JournalRecord =
+  | { type: 'session_start'; sessionId: string; testMode: boolean; initialBalance: number }
+  | { type: 'pair_open'; pair: PositionPair; balance: number }
+  | { type: 'pair_close'; pair: PositionPair; pnlUSD: number; balance: number }
+  | { type: 'pair_drop'; pairId: string; reason: string }
+  | { type: 'leg_incident'; pair: PositionPair }
+  | { type: 'skip'; skip: SkippedOpportunity }
+  | { type: 'error'; error: TradingError }
+  | { type: 'ws_downtime'; downtime: WebSocketDowntime }
+  | { type: 'session_end' };
+
+type JournalEntry = JournalRecord & { ts: number };
+
+/**
+ * Состояние сессии, восстановленное из журнала
+ */
+export interface JournalState {
+  sessionId: string;
+  startTime: number;
+  endTime?: number;              // Нет - сессия оборвалась (падение, kill)
+  updatedAt: number;             // Время последней записи
+  testMode: boolean;
+  initialBalance: number;
+  currentBalance: number;
+  openPositions: PositionPair[];
+  closedPositions: PositionPair[];
+  legIncidents: PositionPair[];
+  skippedOpportunities: SkippedOpportunity[];
+  tradingErrors: TradingError[];
+  wsDowntimes: WebSocketDowntime[];
+  testStats: {
+    totalTrades: number;
+    profitableTrades: number;
+    losingTrades: number;
+    totalProfit: number;
+    totalLoss: number;
+  };
+}
+
+/**
+ * Каталог журналов по умолчанию (один файл на сессию)
+ */
+const DEFAULT_JOURNAL_DIR = 'data/journal';
+
+/**
+ * Журнал состояния бота: позиции, сделки, пропуски, ошибки и обрывы WebSocket.
+ * Пишется синхронно при каждом изменении, чтобы пережить падение процесса.
+ * Оборванная сессия продолжается при следующем запуске, по любой сессии можно заново построить отчет.
+ */
+export class StateJournal {
+  private dir: string;
+  private logger: Logger;
+  private file: string | null = null;
+  private startTime = Date.now();
+
+  constructor(logger?: Logger, dir = DEFAULT_JOURNAL_DIR) {
+    this.logger = logger || new Logger();
+    this.dir = dir;
+  }
+
+  /**
+   * Начать сессию. Если последняя сессия в том же режиме оборвалась - продолжаем ее,
+   * иначе новая сессия, в которую переносятся оставшиеся открытыми пары
+   */
+  begin(testMode: boolean, initialBalance: number): JournalState {
+    fs.mkdirSync(this.dir, { recursive: true });
+
+    const sessions = this.listSessions();
+    const previousId = sessions[sessions.length - 1];
+    const previous = previousId ? this.load(previousId) : undefined;
+
+    if (previous && previous.endTime === undefined && previous.testMode === testMode) {
+      this.file = this.sessionPath(previous.sessionId);
+      this.startTime = previous.startTime;
+      this.logger.warn(
+        `Сессия ${previous.sessionId} не была завершена - продолжаем ее ` +
+        `(открытых пар: ${previous.openPositions.length}, закрытых: ${previous.closedPositions.length})`
+      );
+      return previous;
+    }
+
+    const sessionId = new Date().toISOString().replace(/[:.]/g, '-');
+    const state = StateJournal.emptyState(sessionId, Date.now(), testMode, initialBalance);
+
+    this.file = this.sessionPath(sessionId);
+    this.startTime = state.startTime;
+    this.write({ type: 'session_start', sessionId, testMode, initialBalance });
+
+    if (previous && previous.testMode === testMode) {
+      for (const pair of previous.openPositions) {
+        if (testMode) {
+          state.currentBalance -= pair.longPosition.sizeUSD + pair.shortPosition.sizeUSD;
+        }
+        state.openPositions.push(pair);
+        this.write({ type: 'pair_open', pair, balance: state.currentBalance });
+      }
+
+      if (previous.openPositions.length > 0) {
+        this.logger.warn(`Из сессии ${previous.sessionId} перенесено открытых пар: ${previous.openPositions.length}`);
+      }
+    }
+
+    return state;
+  }
+
+  /**
+   * Добавить запись. До begin() записи не пишутся
+   */
+  write(record: JournalRecord): void {
+    if (!this.file) return;
+
+    const entry: JournalEntry = { ts: Date.now(), ...record };
+    try {
+      fs.appendFileSync(this.file, JSON.stringify(entry) + '\n');
+    } catch (error) {
+      this.logger.error(`Ошибка записи журнала: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Пометить сессию завершенной (после отчета при штатной остановке)
+   */
+  end(): void {
+    this.write({ type: 'session_end' });
+    this.file = null;
+  }
+
+  getStartTime(): number {
+    return this.startTime;
+  }
+
+  /**
+   * ID всех сессий в каталоге, от старых к новым
+   */
+  listSessions(): string[] {
+    if (!fs.existsSync(this.dir)) return [];
+
+    return fs.readdirSync(this.dir)
+      .filter((name) => name.endsWith('.jsonl'))
+      .map((name) => name.slice(0, -'.jsonl'.length))
+      .sort();
+  }
+
+  /**
+   * Восстановить состояние сессии проигрыванием журнала
+   */
+  load(sessionId: string): JournalState {
+    const lines = fs.readFileSync(this.sessionPath(sessionId), 'utf-8').split('\n');
+    let state: JournalState | undefined;
+
+    for (const [index, line] of lines.entries()) {
+      if (!line.trim()) continue;
+
+      let entry: JournalEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        // Последняя строка могла оборваться при падении
+        this.logger.warn(`Журнал ${sessionId}: пропущена поврежденная строка ${index + 1}`);
+        continue;
+      }
+
+      if (entry.type === 'session_start') {
+        state = StateJournal.emptyState(entry.sessionId, entry.ts, entry.testMode, entry.initialBalance);
+        continue;
+      }
+      if (!state) {
+        throw new Error(`Журнал ${sessionId}: нет записи session_start`);
+      }
+
+      StateJournal.apply(state, entry);
+      state.updatedAt = entry.ts;
+    }
+
+    if (!state) {
+      throw new Error(`Журнал ${sessionId} пуст`);
+    }
+    return state;
+  }
+
+  private static apply(state: JournalState, entry: JournalEntry): void {
+    switch (entry.type) {
+      case 'pair_open':
+        state.openPositions = state.openPositions.filter((pair) => pair.id !== entry.pair.id);
+        state.openPositions.push(entry.pair);
+        state.currentBalance = entry.balance;
+        break;
+      case 'pair_close': {
+        state.openPositions = state.openPositions.filter((pair) => pair.id !== entry.pair.id);
+        state.closedPositions.push(entry.pair);
+        state.currentBalance = entry.balance;
+
+        const stats = state.testStats;
+        stats.totalTrades++;
+        if (entry.pnlUSD > 0) {
+          stats.profitableTrades++;
+          stats.totalProfit += entry.pnlUSD;
+        } else {
+          stats.losingTrades++;
+          stats.totalLoss += Math.abs(entry.pnlUSD);
+        }
+        break;
+      }
+      case 'pair_drop':
+        state.openPositions = state.openPositions.filter((pair) => pair.id !== entry.pairId);
+        break;
+      case 'leg_incident':
+        state.legIncidents.push(entry.pair);
+        break;
+      case 'skip':
+        state.skippedOpportunities.push(entry.skip);
+        break;
+      case 'error':
+        state.tradingErrors.push(entry.error);
+        break;
+      case 'ws_downtime':
+        state.wsDowntimes.push(entry.downtime);
+        break;
+      case 'session_end':
+        state.endTime = entry.ts;
+        break;
+    }
+  }
+
+  private static emptyState(sessionId: string, startTime: number, testMode: boolean, initialBalance: number): JournalState {
+    return {
+      sessionId,
+      startTime,
+      updatedAt: startTime,
+      testMode,
+      initialBalance,
+      currentBalance: initialBalance,
+      openPositions: [],
+      closedPositions: [],
+      legIncidents: [],
+      skippedOpportunities: [],
+      tradingErrors: [],
+      wsDowntimes: [],
+      testStats: {
+        totalTrades: 0,
+        profitableTrades: 0,
+        losingTrades: 0,
+        totalProfit: 0,
+        totalLoss: 0,
+      },
+    };
+  }
+
+  private sessionPath(sessionId: string): string {
+    return path.join(this.dir, `${sessionId}.jsonl`);
+  }
+}
@@ -0,0 +1,137 @@
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import type { ExchangeName, TickerPrice } from '../types/exchange.js';
+import type { RecorderConfig } from '../types/config.js';
+import { Logger } from './logger.js';
+
+/**
+ * Записанный тик: котировка в общем формате + локальное время получения
+ */
+export type RecordedTick = TickerPrice & { receivedAt: number };
+
+/**
+ * Каталог записей по умолчанию: <dir>/<биржа>/<YYYY-MM-DD>.jsonl.gz
+ */
+const DEFAULT_TICKS_DIR = 'data/ticks';
+const DEFAULT_FLUSH_INTERVAL_MS = 5000;
+
+interface TickFile {
+  day: string;
+  path: string;
+  gzip: zlib.Gzip;
+  output: fs.WriteStream;
+}
+
+/**
+ * Запись всех котировок WebSocket в сжатые JSONL файлы, отдельно по биржам и дням (UTC).
+ * Буфер gzip сбрасывается на диск каждые flushIntervalMs, чтобы при падении терялось не больше этого окна.
+ * Повторный запуск в тот же день дописывает новый gzip-блок в конец файла
+ */
+export class TickRecorder {
+  private config?: RecorderConfig;
+  private logger: Logger;
+  private dir: string;
+  private files: Map<ExchangeName, TickFile> = new Map();
+  private flushInterval: NodeJS.Timeout | null = null;
+  private recorded = 0;
+
+  constructor(config?: RecorderConfig, logger?: Logger) {
+    this.config = config;
+    this.logger = logger || new Logger();
+    this.dir = config?.dir ?? DEFAULT_TICKS_DIR;
+  }
+
+  isEnabled(): boolean {
+    return this.config?.enabled ?? false;
+  }
+
+  start(): void {
+    if (!this.isEnabled() || this.flushInterval) return;
+
+    fs.mkdirSync(this.dir, { recursive: true });
+    this.flushInterval = setInterval(() => this.flush(), this.config?.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS);
+    this.logger.info(`Запись тиков в ${this.dir}`);
+  }
+
+  /**
+   * Записать котировку. До start() и после stop() ничего не пишется
+   */
+  record(ticker: TickerPrice, receivedAt = Date.now()): void {
+    if (!this.flushInterval) return;
+
+    const day = TickRecorder.dayOf(receivedAt);
+    let file = this.files.get(ticker.exchange);
+
+    // Новый день - новый файл
+    if (!file || file.day !== day) {
+      if (file) void this.closeFile(file);
+      file = this.openFile(ticker.exchange, day);
+      this.files.set(ticker.exchange, file);
+    }
+
+    const tick: RecordedTick = { ...ticker, receivedAt };
+    file.gzip.write(JSON.stringify(tick) + '\n');
+    this.recorded++;
+  }
+
+  /**
+   * Закрыть все файлы (дожидается записи хвоста gzip на диск)
+   */
+  async stop(): Promise<void> {
+    if (!this.flushInterval) return;
+
+    clearInterval(this.flushInterval);
+    this.flushInterval = null;
+
+    await Promise.all(Array.from(this.files.values()).map((file) => this.closeFile(file)));
+    this.files.clear();
+    this.logger.info(`Записано тиков: ${this.recorded}`);
+  }
+
+  getRecordedCount(): number {
+    return this.recorded;
+  }
+
+  static filePath(dir: string, exchange: ExchangeName, day: string): string {
+    return path.join(dir, exchange, `${day}.jsonl.gz`);
+  }
+
+  /**
+   * День записи по UTC: YYYY-MM-DD
+   */
+  static dayOf(timestamp: number): string {
+    return new Date(timestamp).toISOString().slice(0, 10);
+  }
+
+  private openFile(exchange: ExchangeName, day: string): TickFile {
+    const filePath = TickRecorder.filePath(this.dir, exchange, day);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+    const gzip = zlib.createGzip();
+    const output = fs.createWriteStream(filePath, { flags: 'a' });
+    gzip.pipe(output);
+
+    const onError = (error: Error) => {
+      this.logger.error(`Ошибка записи тиков ${filePath}: ${error.message}`);
+    };
+    gzip.on('error', onError);
+    output.on('error', onError);
+
+    return { day, path: filePath, gzip, output };
+  }
+
+  private closeFile(file: TickFile): Promise<void> {
+    return new Promise((resolve) => {
+      file.output.once('close', () => resolve());
+      file.output.once('error', () => resolve());
+      file.gzip.end();
+    });
+  }
+
+  private flush(): void {
+    for (const file of this.files.values()) {
+      file.gzip.flush(zlib.constants.Z_SYNC_FLUSH);
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import blessed from 'blessed';
-import type { PositionPair } from '../types/exchange.js';
+import type { Position, PositionPair } from '../types/exchange.js';
+import { RiskGuard } from './risk-guard.js';
 
 export class TuiDashboard {
   private screen: blessed.Widgets.Screen;
@@ -138,6 +139,11 @@ export class TuiDashboard {
     } else {
       let content = '';
       positions.forEach((p) => {
+        if (p.status === 'LEG_NAKED') {
+          content += this.formatNakedLeg(p);
+          return;
+        }
+
         const profit = p.actualProfit || p.expectedProfit || 0;
         const profitColor = profit >= 0 ? '{green-fg}' : '{red-fg}';
         const timeOpen = Math.floor((Date.now() - p.openTime) / 1000);
@@ -152,35 +158,23 @@ export class TuiDashboard {
         const profitUSD = (profit / 100) * totalSize;
         const profitUSDStr = profitUSD >= 0 ? `+$${profitUSD.toFixed(2)}` : `-$${Math.abs(profitUSD).toFixed(2)}`;
 
-        // Определяем цены входа и текущие цены для каждой биржи
-        let binanceEntryPrice: number;
-        let binanceCurrentPrice: number;
-        let mexcEntryPrice: number;
-        let mexcCurrentPrice: number;
-
-        if (p.longPosition.exchange === 'binance') {
-          // BINANCE = LONG (купили дешевле), MEXC = SHORT (продали дороже)
-          binanceEntryPrice = p.longPosition.entryPrice;
-          binanceCurrentPrice = p.currentLongPrice || binanceEntryPrice;
-          mexcEntryPrice = p.shortPosition.entryPrice;
-          mexcCurrentPrice = p.currentShortPrice || mexcEntryPrice;
-        } else {
-          // MEXC = LONG (купили дешевле), BINANCE = SHORT (продали дороже)
-          mexcEntryPrice = p.longPosition.entryPrice;
-          mexcCurrentPrice = p.currentLongPrice || mexcEntryPrice;
-          binanceEntryPrice = p.shortPosition.entryPrice;
-          binanceCurrentPrice = p.currentShortPrice || binanceEntryPrice;
-        }
+        // Цены входа и текущие цены для каждой ноги
+        const longName = p.longPosition.exchange.toUpperCase();
+        const shortName = p.shortPosition.exchange.toUpperCase();
+        const longEntryPrice = p.longPosition.entryPrice;
+        const longCurrentPrice = p.currentLongPrice || longEntryPrice;
+        const shortEntryPrice = p.shortPosition.entryPrice;
+        const shortCurrentPrice = p.currentShortPrice || shortEntryPrice;
 
         // Процентное изменение цен от entryPrice к currentPrice
-        const binanceChange = ((binanceCurrentPrice - binanceEntryPrice) / binanceEntryPrice) * 100;
-        const mexcChange = ((mexcCurrentPrice - mexcEntryPrice) / mexcEntryPrice) * 100;
+        const longChange = ((longCurrentPrice - longEntryPrice) / longEntryPrice) * 100;
+        const shortChange = ((shortCurrentPrice - shortEntryPrice) / shortEntryPrice) * 100;
 
-        const binanceChangeStr = binanceChange >= 0 ? `{green-fg}+${binanceChange.toFixed(2)}%{/}` : `{red-fg}${binanceChange.toFixed(2)}%{/}`;
-        const mexcChangeStr = mexcChange >= 0 ? `{green-fg}+${mexcChange.toFixed(2)}%{/}` : `{red-fg}${mexcChange.toFixed(2)}%{/}`;
+        const longChangeStr = longChange >= 0 ? `{green-fg}+${longChange.toFixed(2)}%{/}` : `{red-fg}${longChange.toFixed(2)}%{/}`;
+        const shortChangeStr = shortChange >= 0 ? `{green-fg}+${shortChange.toFixed(2)}%{/}` : `{red-fg}${shortChange.toFixed(2)}%{/}`;
 
         // Сходимость цен - разница между ТЕКУЩИМИ ценами на обеих биржах
-        const priceDiff = p.priceDiffPercent || Math.abs(binanceCurrentPrice - mexcCurrentPrice) / Math.min(binanceCurrentPrice, mexcCurrentPrice) * 100;
+        const priceDiff = p.priceDiffPercent || Math.abs(longCurrentPrice - shortCurrentPrice) / Math.min(longCurrentPrice, shortCurrentPrice) * 100;
         let convergenceColor = '{red-fg}';
         if (priceDiff < 0.1) {
           convergenceColor = '{green-fg}'; // Готово к закрытию
@@ -196,8 +190,10 @@ export class TuiDashboard {
         const progressBar = '='.repeat(filled) + '-'.repeat(empty);
 
         content += `\n{bold}${p.symbol}{/}\n`;
-        content += `{gray-fg}├─{/} {bold}BINANCE:{/} ${binanceEntryPrice.toFixed(4)} {gray-fg}→{/} {cyan-fg}${binanceCurrentPrice.toFixed(4)}{/} [${binanceChangeStr}]\n`;
-        content += `{gray-fg}├─{/} {bold}MEXC:   {/} ${mexcEntryPrice.toFixed(4)} {gray-fg}→{/} {cyan-fg}${mexcCurrentPrice.toFixed(4)}{/} [${mexcChangeStr}]\n`;
+        content += `{gray-fg}├─{/} {bold}L ${longName.padEnd(8)}{/} ${longEntryPrice.toFixed(4)} {gray-fg}→{/} {cyan-fg}${longCurrentPrice.toFixed(4)}{/} [${longChangeStr}]\n`;
+        content += `{gray-fg}├─{/} {bold}S ${shortName.padEnd(8)}{/} ${shortEntryPrice.toFixed(4)} {gray-fg}→{/} {cyan-fg}${shortCurrentPrice.toFixed(4)}{/} [${shortChangeStr}]\n`;
+        content += this.formatMargin(p.longPosition);
+        content += this.formatMargin(p.shortPosition);
         content += `{gray-fg}├─{/} Сходимость: ${convergenceColor}${priceDiff.toFixed(3)}%{/}  [${convergenceColor}${progressBar}{/}]\n`;
         content += `{gray-fg}├─{/} Время: ${timeStr}\n`;
         content += `{gray-fg}└─{/} PnL если закрыть: ${profitColor}${profitUSDStr}{/} (${profitColor}${profit >= 0 ? '+' : ''}${profit.toFixed(2)}%{/})\n`;
@@ -207,6 +203,55 @@ export class TuiDashboard {
     this.render();
   }
 
+  /**
+   * Маржа ноги: коэффициент маржи и расстояние до ликвидации (желтый - приближается, красный - опасно)
+   */
+  private formatMargin(position: Position): string {
+    const { markPrice, marginRatio, liquidationPrice } = position;
+    if (markPrice === undefined || marginRatio === undefined || liquidationPrice === undefined) return '';
+
+    const distance = RiskGuard.liquidationDistancePercent(position.side, markPrice, liquidationPrice);
+    const ratioColor = marginRatio >= 80 ? '{red-fg}' : marginRatio >= 50 ? '{yellow-fg}' : '{green-fg}';
+    const distanceColor = distance <= 5 ? '{red-fg}' : distance <= 15 ? '{yellow-fg}' : '{green-fg}';
+    const topUp = position.marginTopUpUSD ? ` {gray-fg}+$${position.marginTopUpUSD}{/}` : '';
+
+    return `{gray-fg}├─{/} Маржа ${position.side[0]}: ${ratioColor}${marginRatio.toFixed(1)}%{/}${topUp} ` +
+      `{gray-fg}|{/} ликв. ${liquidationPrice.toFixed(4)} (${distanceColor}${distance.toFixed(1)}%{/})\n`;
+  }
+
+  /**
+   * Пара, открывшаяся одной ногой, которую не удалось откатить - требует ручного закрытия
+   */
+  private formatNakedLeg(p: PositionPair): string {
+    const failure = p.legFailure;
+    const filled = failure?.failedSide === 'LONG' ? p.shortPosition : p.longPosition;
+    const failed = failure?.failedSide === 'LONG' ? p.longPosition : p.shortPosition;
+
+    // Встречные котировки: без хеджа остался остаток большей из них на бирже котировки
+    if (failure?.stage === 'QUOTE') {
+      const residualQty = Math.abs(p.longPosition.quantity - p.shortPosition.quantity);
+      let content = `\n{red-fg}{bold}⚠ ${p.symbol} - НОГА БЕЗ ХЕДЖА{/}\n`;
+      content += `{gray-fg}├─{/} {bold}${filled.side[0]} ${filled.exchange.toUpperCase().padEnd(8)}{/} ${residualQty} (остаток встречных котировок)\n`;
+      content += `{gray-fg}└─{/} {red-fg}Закрытие остатка не удалось - закройте позицию вручную{/}\n`;
+      return content;
+    }
+
+    // Защитное закрытие: без хеджа осталась нога, которую не удалось закрыть
+    if (failure?.stage === 'CLOSE') {
+      let content = `\n{red-fg}{bold}⚠ ${p.symbol} - НОГА БЕЗ ХЕДЖА{/}\n`;
+      content += `{gray-fg}├─{/} {bold}${failed.side[0]} ${failed.exchange.toUpperCase().padEnd(8)}{/} ${failed.quantity} @ ${failed.entryPrice.toFixed(4)}\n`;
+      content += `{gray-fg}├─{/} ${filled.side[0]} ${filled.exchange.toUpperCase().padEnd(8)} закрыт (${p.closeReason})\n`;
+      content += `{gray-fg}└─{/} {red-fg}Закрытие не удалось (попыток: ${failure.attempts}) - закройте позицию вручную{/}\n`;
+      return content;
+    }
+
+    let content = `\n{red-fg}{bold}⚠ ${p.symbol} - НОГА БЕЗ ХЕДЖА{/}\n`;
+    content += `{gray-fg}├─{/} {bold}${filled.side[0]} ${filled.exchange.toUpperCase().padEnd(8)}{/} ${filled.quantity} @ ${filled.entryPrice.toFixed(4)}\n`;
+    content += `{gray-fg}├─{/} ${failed.side[0]} ${failed.exchange.toUpperCase().padEnd(8)} не открыт (попыток: ${failure?.attempts ?? 0})\n`;
+    content += `{gray-fg}└─{/} {red-fg}Откат не удался - закройте позицию вручную{/}\n`;
+    return content;
+  }
+
   public log(msg: string) {
     this.logBox.log(msg);
   }
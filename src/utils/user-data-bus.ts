@@ -0,0 +1,22 @@
+import { EventEmitter } from 'events';
+import type { UserDataEvents } from '../types/exchange.js';
+
+/**
+ * Типизированная шина событий приватных стримов бирж (ордера, позиции, балансы).
+ * Адаптеры публикуют события в общем формате, TradeExecutor на них подписывается
+ */
+export class UserDataBus {
+  private emitter = new EventEmitter();
+
+  on<K extends keyof UserDataEvents>(event: K, listener: (payload: UserDataEvents[K]) => void): void {
+    this.emitter.on(event, listener);
+  }
+
+  off<K extends keyof UserDataEvents>(event: K, listener: (payload: UserDataEvents[K]) => void): void {
+    this.emitter.off(event, listener);
+  }
+
+  emit<K extends keyof UserDataEvents>(event: K, payload: UserDataEvents[K]): void {
+    this.emitter.emit(event, payload);
+  }
+}
@@ -1,9 +1,11 @@
 /**
  * Класс для мониторинга состояния WebSocket соединений
  */
+import type { ExchangeName } from '../types/exchange.js';
+import type { StateJournal } from './state-journal.js';
 
 export interface WebSocketDowntime {
-  exchange: 'binance' | 'mexc';
+  exchange: ExchangeName;
   disconnectTime: number;
   reconnectTime?: number;
   durationMs?: number;
@@ -13,11 +15,23 @@ export interface WebSocketDowntime {
 export class WebSocketMonitor {
   private downtimes: WebSocketDowntime[] = [];
   private currentDowntime: Map<string, WebSocketDowntime> = new Map();
+  private journal?: StateJournal;
+
+  constructor(journal?: StateJournal) {
+    this.journal = journal;
+  }
+
+  /**
+   * Восстановить завершенные отключения из журнала
+   */
+  restore(downtimes: WebSocketDowntime[]): void {
+    this.downtimes = [...downtimes];
+  }
 
   /**
    * Зарегистрировать отключение WebSocket
    */
-  recordDisconnect(exchange: 'binance' | 'mexc', reason: string): void {
+  recordDisconnect(exchange: ExchangeName, reason: string): void {
     const downtime: WebSocketDowntime = {
       exchange,
       disconnectTime: Date.now(),
@@ -30,7 +44,7 @@ export class WebSocketMonitor {
   /**
    * Зарегистрировать переподключение WebSocket
    */
-  recordReconnect(exchange: 'binance' | 'mexc'): void {
+  recordReconnect(exchange: ExchangeName): void {
     const downtime = this.currentDowntime.get(exchange);
 
     if (downtime) {
@@ -41,6 +55,7 @@ export class WebSocketMonitor {
       // Перемещаем в архив
       this.downtimes.push(downtime);
       this.currentDowntime.delete(exchange);
+      this.journal?.write({ type: 'ws_downtime', downtime });
     }
   }
 
@@ -62,32 +77,31 @@ export class WebSocketMonitor {
    * Получить статистику по отключениям
    */
   getStats() {
-    const binanceDowntimes = this.downtimes.filter((d) => d.exchange === 'binance');
-    const mexcDowntimes = this.downtimes.filter((d) => d.exchange === 'mexc');
-
-    const binanceTotalDowntime = binanceDowntimes.reduce(
-      (sum, d) => sum + (d.durationMs || 0),
-      0
-    );
-    const mexcTotalDowntime = mexcDowntimes.reduce(
-      (sum, d) => sum + (d.durationMs || 0),
-      0
-    );
+    const byExchange: Record<ExchangeName, {
+      disconnects: number;
+      totalDowntimeMs: number;
+      totalDowntimeMinutes: string;
+    }> = {};
+
+    for (const downtime of this.downtimes) {
+      const stats = byExchange[downtime.exchange] ?? {
+        disconnects: 0,
+        totalDowntimeMs: 0,
+        totalDowntimeMinutes: '0.00',
+      };
+      stats.disconnects++;
+      stats.totalDowntimeMs += downtime.durationMs || 0;
+      stats.totalDowntimeMinutes = (stats.totalDowntimeMs / 60000).toFixed(2);
+      byExchange[downtime.exchange] = stats;
+    }
+
+    const totalDowntimeMs = this.downtimes.reduce((sum, d) => sum + (d.durationMs || 0), 0);
 
     return {
       totalDisconnects: this.downtimes.length,
-      binance: {
-        disconnects: binanceDowntimes.length,
-        totalDowntimeMs: binanceTotalDowntime,
-        totalDowntimeMinutes: (binanceTotalDowntime / 60000).toFixed(2),
-      },
-      mexc: {
-        disconnects: mexcDowntimes.length,
-        totalDowntimeMs: mexcTotalDowntime,
-        totalDowntimeMinutes: (mexcTotalDowntime / 60000).toFixed(2),
-      },
-      totalDowntimeMs: binanceTotalDowntime + mexcTotalDowntime,
-      totalDowntimeMinutes: ((binanceTotalDowntime + mexcTotalDowntime) / 60000).toFixed(2),
+      byExchange,
+      totalDowntimeMs,
+      totalDowntimeMinutes: (totalDowntimeMs / 60000).toFixed(2),
     };
   }
 
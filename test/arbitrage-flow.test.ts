@@ -0,0 +1,722 @@
+import { describe, it, before, after, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ArbitrageDetector } from '../src/arbitrage-detector.js';
+import { BinanceFutures } from '../src/exchanges/binance-futures.js';
+import { MexcFutures } from '../src/exchanges/mexc-futures.js';
+import { Logger } from '../src/utils/logger.js';
+import type { Config, TradingConfig } from '../src/types/config.js';
+import { MockExchangeServer } from './mock-exchange-server.js';
+
+const SYMBOL = 'SOLUSDT';
+const SECOND_SYMBOL = 'ETHUSDT';
+
+/**
+ * Логгер без вывода в консоль (файлы пишутся во временный каталог теста)
+ */
+class QuietLogger extends Logger {
+  info(): void {}
+  success(): void {}
+  warn(): void {}
+  error(): void {}
+  trade(): void {}
+  header(): void {}
+}
+
+/**
+ * Реальная торговля (testMode: false) против локального сервера: весь путь ордеров адаптеров
+ */
+function createConfig(server: MockExchangeServer, trading: Partial<TradingConfig> = {}, overrides: Partial<Config> = {}): Config {
+  return {
+    exchanges: {
+      binance: server.exchangeConfig('binance'),
+      mexc: server.exchangeConfig('mexc'),
+    },
+    arbitrage: {
+      minSpreadPercent: 0.5,
+      topPairsCount: 10,
+      useWebSocket: true,
+      restFallbackIntervalMs: 5000,
+      reconnectDelayMs: 100,
+      excludePairs: [],
+    },
+    notifications: {
+      logToConsole: false,
+      minSpreadToNotify: 1,
+      showTimestamp: false,
+      coloredOutput: false,
+    },
+    fees: {
+      binance: { maker: 0.02, taker: 0.04 },
+      mexc: { maker: 0, taker: 0.03 },
+    },
+    slippage: { percent: 0.05 },
+    trading: {
+      enabled: true,
+      testMode: false,
+      testBalanceUSD: 1000,
+      positionSizeUSD: 60,
+      marginMode: 'cross',
+      leverage: 5,
+      maxOpenPositions: 1,
+      positionTimeoutSeconds: 600,
+      closeOnSpreadConvergence: true,
+      closeOnNewOpportunity: false,
+      priceConvergencePercent: 0.05,
+      legRetryAttempts: 1,
+      legRetryDelayMs: 50,
+      legExecution: 'sequential',
+      unmatchedLegPolicy: 'halt',
+      ...trading,
+    },
+    funding: { enabled: false },
+    recorder: { enabled: false },
+    ...overrides,
+  };
+}
+
+async function waitFor(condition: () => boolean, description: string, timeoutMs = 10000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error(`Не дождались: ${description}`);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+// Журнал сессий и логи пишутся относительно cwd - тесты работают во временном каталоге
+const originalDir = process.cwd();
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'arbitrage-flow-'));
+
+before(() => process.chdir(workDir));
+after(() => {
+  process.chdir(originalDir);
+  fs.rmSync(workDir, { recursive: true, force: true });
+});
+
+describe('ArbitrageDetector -> TradeExecutor против локальной биржи', () => {
+  let server: MockExchangeServer;
+  let detector: ArbitrageDetector | undefined;
+
+  beforeEach(async () => {
+    // Каждый тест начинает новую сессию журнала, а не продолжает оборванную предыдущим
+    fs.rmSync(path.join(workDir, 'data'), { recursive: true, force: true });
+
+    server = new MockExchangeServer({
+      contracts: [
+        { symbol: SYMBOL, stepSize: 0.01, contractSize: 0.1 },
+        { symbol: SECOND_SYMBOL, stepSize: 0.001, contractSize: 0.01 },
+      ],
+    });
+    await server.start();
+    server.setQuote('binance', SYMBOL, 99.99, 100.0);
+    server.setQuote('mexc', SYMBOL, 99.99, 100.0);
+    server.setQuote('binance', SECOND_SYMBOL, 1999.9, 2000.0);
+    server.setQuote('mexc', SECOND_SYMBOL, 1999.9, 2000.0);
+  });
+
+  afterEach(async () => {
+    await detector?.stop();
+    detector = undefined;
+    await server.stop();
+  });
+
+  async function startDetector(trading: Partial<TradingConfig> = {}, overrides: Partial<Config> = {}): Promise<ArbitrageDetector> {
+    detector = new ArbitrageDetector(createConfig(server, trading, overrides), new QuietLogger(), server.getCredentials());
+    await detector.start();
+    await waitFor(
+      () => [SYMBOL, SECOND_SYMBOL].every((symbol) => server.isSubscribed('binance', symbol) && server.isSubscribed('mexc', symbol)),
+      'подписки на котировки обеих бирж'
+    );
+    return detector;
+  }
+
+  /**
+   * Спред 1.2%: дешевле на Binance, дороже на MEXC
+   */
+  function openSpread(): void {
+    server.setQuote('binance', SYMBOL, 99.99, 100.0);
+    server.setQuote('mexc', SYMBOL, 101.2, 101.21);
+  }
+
+  it('открывает пару по спреду и закрывает при сходимости цен', async () => {
+    const executor = (await startDetector()).getTradeExecutor();
+
+    openSpread();
+    await waitFor(() => executor.getOpenPositions().size === 1, 'открытие пары');
+
+    const pair = Array.from(executor.getOpenPositions().values())[0];
+    const [long] = server.getOrders('binance');
+    const [short] = server.getOrders('mexc');
+
+    assert.equal(long.side, 'BUY');
+    assert.equal(long.price, 100.0);
+    assert.equal(short.side, 'SELL');
+    assert.equal(short.price, 101.2);
+    assert.ok(Math.abs(long.quantity - short.quantity) < 1e-9, 'одинаковый объем ног в базовой валюте');
+    assert.equal(server.getLeverage('binance', SYMBOL), 5);
+    assert.equal(server.getLeverage('mexc', SYMBOL), 5);
+    assert.equal(pair.longPosition.entryPrice, 100.0);
+    assert.equal(pair.shortPosition.entryPrice, 101.2);
+    assert.ok(server.getPosition('binance', SYMBOL) > 0);
+    assert.ok(server.getPosition('mexc', SYMBOL) < 0);
+
+    server.setQuote('binance', SYMBOL, 100.6, 100.61);
+    server.setQuote('mexc', SYMBOL, 100.6, 100.61);
+    await waitFor(() => executor.getClosedPositions().length === 1, 'закрытие пары');
+
+    const closed = executor.getClosedPositions()[0];
+    assert.equal(closed.closeReason, 'CONVERGENCE');
+    assert.equal(server.getPosition('binance', SYMBOL), 0);
+    assert.equal(server.getPosition('mexc', SYMBOL), 0);
+    assert.ok(server.getOrders('binance')[1].reduceOnly);
+    assert.ok(server.getOrders('mexc')[1].reduceOnly);
+    assert.ok((closed.longPosition.pnl ?? 0) + (closed.shortPosition.pnl ?? 0) > 0, 'прибыль по сделкам бирж');
+    assert.equal(server.getAuthFailures('binance'), 0);
+    assert.equal(server.getAuthFailures('mexc'), 0);
+    assert.deepEqual(executor.getTradingErrors(), []);
+  });
+
+  it('закрывает пару, если спред расширился больше порога', async () => {
+    const executor = (await startDetector({}, { risk: { maxSpreadWideningPercent: 1 } })).getTradeExecutor();
+
+    openSpread();
+    await waitFor(() => executor.getOpenPositions().size === 1, 'открытие пары');
+    const pair = Array.from(executor.getOpenPositions().values())[0];
+    assert.ok(Math.abs(pair.longPosition.liquidationPrice! - 100.0 * (1 - 0.2 + 0.005)) < 1e-9, 'оценка ликвидации LONG при 5x');
+
+    // MEXC ушла вверх: спред 1.2% -> 2.5%
+    server.setQuote('mexc', SYMBOL, 102.49, 102.5);
+    await waitFor(() => executor.getClosedPositions().length === 1, 'защитное закрытие');
+
+    assert.equal(executor.getClosedPositions()[0].closeReason, 'SPREAD_WIDENING');
+    assert.equal(server.getPosition('binance', SYMBOL), 0);
+    assert.equal(server.getPosition('mexc', SYMBOL), 0);
+  });
+
+  it('закрывает пару по стоп-лоссу, повторяя отклоненный ордер закрытия', async () => {
+    const executor = (await startDetector({}, { risk: { stopLossPercent: 1 } })).getTradeExecutor();
+
+    openSpread();
+    await waitFor(() => executor.getOpenPositions().size === 1, 'открытие пары');
+
+    // MEXC ушла вверх: SHORT теряет ~3.2%, в среднем по паре больше 1%
+    server.rejectOrders('mexc');
+    server.setQuote('mexc', SYMBOL, 104.49, 104.5);
+    await waitFor(() => executor.getClosedPositions().length === 1, 'закрытие по стоп-лоссу');
+
+    assert.equal(executor.getClosedPositions()[0].closeReason, 'STOP_LOSS');
+    assert.equal(server.getPosition('binance', SYMBOL), 0);
+    assert.equal(server.getPosition('mexc', SYMBOL), 0);
+    assert.equal(executor.getTradingErrors().filter((item) => item.operation === 'CLOSE_SHORT').length, 1);
+    assert.deepEqual(executor.getLegIncidents(), []);
+  });
+
+  it('при завершении дожидается начатого защитного закрытия и не закрывает пару второй раз', async () => {
+    const executor = (await startDetector({ legRetryDelayMs: 300 }, { risk: { stopLossPercent: 1 } })).getTradeExecutor();
+
+    openSpread();
+    await waitFor(() => executor.getOpenPositions().size === 1, 'открытие пары');
+    const pair = Array.from(executor.getOpenPositions().values())[0];
+
+    // Закрытие SHORT отклонено, повтор через legRetryDelayMs - в это время приходит Ctrl+C
+    server.rejectOrders('mexc');
+    server.setQuote('mexc', SYMBOL, 104.49, 104.5);
+    await waitFor(() => pair.closeTime !== undefined, 'начало закрытия по стоп-лоссу');
+    await executor.forceCloseAllPositions();
+
+    assert.equal(executor.getClosedPositions().length, 1);
+    assert.equal(executor.getClosedPositions()[0].closeReason, 'STOP_LOSS');
+    assert.equal(server.getOrders('binance').filter((order) => order.reduceOnly).length, 1);
+    assert.equal(server.getOrders('mexc').filter((order) => order.reduceOnly).length, 1);
+    assert.equal(server.getPosition('binance', SYMBOL), 0);
+    assert.equal(server.getPosition('mexc', SYMBOL), 0);
+  });
+
+  it('у ликвидации закрывает пару, а незакрытую ногу оставляет инцидентом LEG_NAKED', async () => {
+    const executor = (await startDetector(
+      { closeOnSpreadConvergence: false },
+      { risk: { liquidationBufferPercent: 5 } }
+    )).getTradeExecutor();
+
+    openSpread();
+    await waitFor(() => executor.getOpenPositions().size === 1, 'открытие пары');
+
+    // Обе биржи упали к 84: LONG в ~4.2% от ликвидации 80.5, спреда для новой пары нет
+    server.rejectOrders('binance', 2); // Попытка + legRetryAttempts
+    server.setQuote('binance', SYMBOL, 83.99, 84.0);
+    server.setQuote('mexc', SYMBOL, 84.0, 84.01);
+    await waitFor(() => executor.getLegIncidents().length === 1, 'инцидент закрытия');
+
+    const incident = executor.getLegIncidents()[0];
+    assert.equal(incident.status, 'LEG_NAKED');
+    assert.equal(incident.closeReason, 'LIQUIDATION_RISK');
+    assert.equal(incident.legFailure?.stage, 'CLOSE');
+    assert.equal(incident.legFailure?.failedSide, 'LONG');
+    assert.equal(incident.legFailure?.attempts, 2);
+    assert.ok(server.getPosition('binance', SYMBOL) > 0, 'LONG остался на бирже');
+    assert.equal(server.getPosition('mexc', SYMBOL), 0);
+    assert.equal(executor.getOpenPositions().size, 0);
+    assert.deepEqual(executor.getClosedPositions(), []);
+    assert.ok(executor.getTradingErrors().some((item) => item.operation === 'LEG_FAILURE' && item.exchange === 'binance'));
+  });
+
+  it('довносит изолированную маржу ног и берет цену ликвидации с бирж', async () => {
+    const executor = (await startDetector({ marginMode: 'isolated' }, {
+      margin: { refreshIntervalMs: 100, autoTopUp: { marginRatioPercent: 2, amountUSD: 3, maxPerLegUSD: 3 } },
+    })).getTradeExecutor();
+
+    openSpread();
+    await waitFor(() => executor.getOpenPositions().size === 1, 'открытие пары');
+    // При 5x поддерживающая маржа 0.5% объема - 2.5% от маржи ноги, выше порога 2%
+    await waitFor(
+      () => server.getAddedMargin('binance', SYMBOL) === 3 && server.getAddedMargin('mexc', SYMBOL) === 3,
+      'довнесение маржи'
+    );
+
+    const long = Array.from(executor.getOpenPositions().values())[0].longPosition;
+    const notional = long.quantity * long.entryPrice;
+    const liquidationPrice = long.entryPrice * (1 - ((notional / 5 + 3) / notional - 0.005));
+    await waitFor(() => Math.abs(long.liquidationPrice! - liquidationPrice) < 1e-9, 'цена ликвидации с биржи после довнесения');
+
+    // Символ переведен в изолированную маржу на обеих биржах до первого ордера
+    assert.equal(server.getMarginMode('binance', SYMBOL), 'isolated');
+    assert.equal(server.getMarginMode('mexc', SYMBOL), 'isolated');
+    assert.equal(long.marginMode, 'isolated');
+    assert.equal(long.marginTopUpUSD, 3);
+    assert.ok(Math.abs(long.margin! - (notional / 5 + 3)) < 1e-9);
+    assert.ok(long.marginRatio! < 2.5);
+  });
+
+  it('не открывает пару, если биржа не перевела символ в изолированную маржу', async () => {
+    server.enableMultiAssets();
+    const executor = (await startDetector({ marginMode: 'isolated' })).getTradeExecutor();
+
+    openSpread();
+    await waitFor(
+      () => executor.getSkippedOpportunities().some((skip) => skip.reason === 'MARGIN_MODE_FAILED'),
+      'пропуск без режима маржи'
+    );
+
+    assert.equal(executor.getOpenPositions().size, 0);
+    assert.equal(server.getOrders('binance').length, 0);
+    assert.equal(server.getOrders('mexc').length, 0);
+
+    const error = executor.getTradingErrors().find((item) => item.operation === 'SET_MARGIN_MODE');
+    assert.equal(error?.exchange, 'binance');
+    assert.equal(error?.errorCode, 'NOT_ALLOWED');
+  });
+
+  it('в изолированной марже не открывает пару без установленного плеча', async () => {
+    const executor = (await startDetector({ marginMode: 'isolated', leverage: 200 })).getTradeExecutor();
+
+    openSpread();
+    await waitFor(
+      () => executor.getSkippedOpportunities().some((skip) => skip.reason === 'LEVERAGE_FAILED'),
+      'пропуск без плеча'
+    );
+
+    assert.equal(server.getOrders('binance').length, 0);
+    assert.equal(server.getOrders('mexc').length, 0);
+    const error = executor.getTradingErrors().find((item) => item.operation === 'SET_LEVERAGE');
+    assert.equal(error?.errorCode, -4028);
+  });
+
+  it('не открывает пару, если биржа отклонила первую ногу', async () => {
+    const executor = (await startDetector()).getTradeExecutor();
+
+    server.rejectOrders('binance');
+    openSpread();
+    await waitFor(
+      () => executor.getSkippedOpportunities().some((skip) => skip.reason === 'ORDER_CREATION_FAILED'),
+      'пропуск после отказа'
+    );
+
+    assert.equal(executor.getOpenPositions().size, 0);
+    assert.equal(server.getOrders('binance').length, 0);
+    assert.equal(server.getOrders('mexc').length, 0);
+
+    const error = executor.getTradingErrors().find((item) => item.operation === 'OPEN_LONG');
+    assert.equal(error?.exchange, 'binance');
+    assert.equal(error?.errorCode, -2019);
+  });
+
+  /**
+   * Спред 1.2% по второму символу - одновременно с openSpread
+   */
+  function openSecondSpread(): void {
+    server.setQuote('binance', SECOND_SYMBOL, 1999.9, 2000.0);
+    server.setQuote('mexc', SECOND_SYMBOL, 2024.0, 2024.1);
+  }
+
+  it('открывает пары по разным символам одновременно', async () => {
+    const executor = (await startDetector({ maxOpenPositions: 2, maxConcurrentOpenings: 2 })).getTradeExecutor();
+
+    openSpread();
+    openSecondSpread();
+    await waitFor(() => executor.getOpenPositions().size === 2, 'открытие обеих пар');
+
+    const symbols = Array.from(executor.getOpenPositions().values()).map((pair) => pair.symbol).sort();
+    assert.deepEqual(symbols, [SECOND_SYMBOL, SYMBOL]);
+    assert.ok(server.getPosition('binance', SECOND_SYMBOL) > 0);
+    assert.ok(server.getPosition('mexc', SECOND_SYMBOL) < 0);
+    assert.ok(!executor.getSkippedOpportunities().some((skip) => skip.reason === 'OPENINGS_LIMIT_REACHED'));
+  });
+
+  it('не открывает больше maxConcurrentOpenings пар одновременно', async () => {
+    const executor = (await startDetector({ maxOpenPositions: 2 })).getTradeExecutor();
+
+    openSpread();
+    openSecondSpread();
+    await waitFor(() => executor.getOpenPositions().size >= 1, 'открытие первой пары');
+
+    // Второй символ пропущен, пока открывался первый
+    const skipped = executor.getSkippedOpportunities().find((skip) => skip.reason === 'OPENINGS_LIMIT_REACHED');
+    assert.ok(skipped, 'пропуск второго символа');
+    assert.equal(server.getOrders('binance')[0].symbol, skipped.symbol === SYMBOL ? SECOND_SYMBOL : SYMBOL);
+  });
+
+  it('не тратит капитал, зарезервированный открывающейся парой', async () => {
+    // 200$ хватает на одну пару (2 x positionSizeUSD)
+    const executor = (await startDetector({ maxOpenPositions: 2, maxConcurrentOpenings: 2, testBalanceUSD: 200 })).getTradeExecutor();
+
+    openSpread();
+    openSecondSpread();
+    await waitFor(() => executor.getOpenPositions().size === 1, 'открытие одной пары');
+
+    const skipped = executor.getSkippedOpportunities().find((skip) => skip.reason === 'INSUFFICIENT_BALANCE');
+    assert.ok(skipped, 'вторая пара пропущена по балансу');
+    assert.equal(skipped.availableBalance, 80);
+    assert.equal(skipped.requiredBalance, 120);
+  });
+
+  it('входит post-only ордерами по своей цене с комиссией maker', async () => {
+    const executor = (await startDetector({}, { execution: { mode: 'post-only', chaseIntervalMs: 50 } })).getTradeExecutor();
+
+    openSpread();
+    await waitFor(() => server.getLimitOrders('binance').length === 1, 'LONG в стакане Binance');
+    const [long] = server.getLimitOrders('binance');
+    assert.equal(long.price, 99.99);
+    assert.equal(long.timeInForce, 'POST_ONLY');
+
+    server.setQuote('binance', SYMBOL, 99.98, 99.99); // Продавец дошел до нашей цены
+    await waitFor(() => server.getLimitOrders('mexc').length === 1, 'SHORT в стакане MEXC');
+    assert.equal(server.getLimitOrders('mexc')[0].price, 101.21);
+
+    server.setQuote('mexc', SYMBOL, 101.21, 101.22);
+    await waitFor(() => executor.getOpenPositions().size === 1, 'открытие пары');
+
+    const pair = Array.from(executor.getOpenPositions().values())[0];
+    assert.equal(pair.longPosition.entryPrice, 99.99);
+    assert.equal(pair.shortPosition.entryPrice, 101.21);
+    // Binance maker 0.02%, MEXC maker 0%
+    assert.ok(Math.abs(pair.longPosition.entryFill!.commission - 99.99 * pair.longPosition.quantity * 0.0002) < 1e-9);
+    assert.equal(pair.shortPosition.entryFill!.commission, 0);
+    assert.equal(server.getOrders('binance').length, 1);
+    assert.equal(server.getOrders('mexc').length, 1);
+  });
+
+  it('к дедлайну снимает лимитные ордера и добивает рыночными', async () => {
+    const executor = (await startDetector({}, { execution: { mode: 'post-only', deadlineMs: 300, chaseIntervalMs: 50 } }))
+      .getTradeExecutor();
+
+    openSpread();
+    await waitFor(() => executor.getOpenPositions().size === 1, 'открытие пары');
+
+    assert.deepEqual(server.getLimitOrders('binance').map((order) => order.status), ['CANCELED']);
+    assert.deepEqual(server.getLimitOrders('mexc').map((order) => order.status), ['CANCELED']);
+
+    const pair = Array.from(executor.getOpenPositions().values())[0];
+    assert.equal(pair.longPosition.entryPrice, 100.0);
+    assert.equal(pair.shortPosition.entryPrice, 101.2);
+  });
+
+  it('без рыночного добора не открывает пару, если лимитный ордер не исполнен', async () => {
+    const execution = { mode: 'post-only' as const, deadlineMs: 200, chaseIntervalMs: 50, marketFallback: false };
+    const executor = (await startDetector({}, { execution })).getTradeExecutor();
+
+    openSpread();
+    await waitFor(
+      () => executor.getSkippedOpportunities().some((skip) => skip.reason === 'ORDER_CREATION_FAILED'),
+      'пропуск после дедлайна'
+    );
+
+    assert.equal(executor.getOpenPositions().size, 0);
+    assert.equal(server.getOrders('binance').length, 0);
+    assert.equal(server.getLimitOrders('binance')[0].status, 'CANCELED');
+    assert.equal(server.getLimitOrders('mexc').length, 0);
+  });
+
+  it('без рыночного добора открывает вторую ногу на исполненный объем первой', async () => {
+    const execution = { mode: 'ioc' as const, deadlineMs: 200, chaseIntervalMs: 50, marketFallback: false };
+    const executor = (await startDetector({}, { execution })).getTradeExecutor();
+
+    server.limitIocLiquidity('binance', SYMBOL, 0.3); // Из 0.6
+    openSpread();
+    await waitFor(() => executor.getOpenPositions().size === 1, 'открытие пары');
+
+    const pair = Array.from(executor.getOpenPositions().values())[0];
+    assert.ok(Math.abs(pair.longPosition.quantity - 0.3) < 1e-9);
+    assert.ok(Math.abs(pair.shortPosition.quantity - 0.3) < 1e-9);
+    assert.ok(Math.abs(server.getPosition('binance', SYMBOL) - 0.3) < 1e-9);
+    assert.ok(Math.abs(server.getPosition('mexc', SYMBOL) + 0.3) < 1e-9, 'хедж на исполненный объем LONG');
+  });
+
+  it('после частичного исполнения первой ноги откатывает исполненный объем', async () => {
+    const execution = { mode: 'ioc' as const, deadlineMs: 200, chaseIntervalMs: 50, marketFallback: false };
+    const executor = (await startDetector({}, { execution })).getTradeExecutor();
+
+    server.limitIocLiquidity('binance', SYMBOL, 0.3);
+    server.rejectOrders('mexc', 2); // Попытка + legRetryAttempts
+    openSpread();
+    await waitFor(() => executor.getLegIncidents().length === 1, 'инцидент ноги');
+
+    assert.equal(executor.getLegIncidents()[0].status, 'LEG_UNWOUND');
+    const unwind = server.getOrders('binance').filter((order) => order.reduceOnly);
+    assert.equal(unwind.length, 1);
+    assert.ok(Math.abs(unwind[0].quantity - 0.3) < 1e-9, 'reduce-only на исполненный объем');
+    assert.equal(server.getPosition('binance', SYMBOL), 0);
+  });
+
+  it('котирует на MEXC от цен Binance и хеджирует исполненную котировку', async () => {
+    const hedgedQuoting = { enabled: true, symbols: [SYMBOL], targetSpreadPercent: 0.5, requoteIntervalMs: 50, pollIntervalMs: 100 };
+    const executor = (await startDetector({}, { hedgedQuoting })).getTradeExecutor();
+    server.setQuote('binance', SYMBOL, 99.99, 100.0);
+
+    // Отступ 0.54%: целевой спред + MEXC maker 0% + Binance taker 0.04%
+    await waitFor(() => server.getLimitOrders('mexc').length === 2, 'котировки BUY и SELL на MEXC');
+    assert.deepEqual(server.getLimitOrders('mexc').map((order) => [order.side, order.price, order.timeInForce]), [
+      ['BUY', 99.45, 'POST_ONLY'],
+      ['SELL', 100.54, 'POST_ONLY'],
+    ]);
+    assert.equal(executor.isOpening(SYMBOL), true);
+
+    // Binance вырос - котировки переставляются (у MEXC снятием и новым ордером)
+    server.setQuote('binance', SYMBOL, 100.49, 100.5);
+    await waitFor(
+      () => server.getLimitOrders('mexc').filter((order) => order.status === 'NEW').map((order) => order.price).join() === '99.94,101.05',
+      'перестановка котировок'
+    );
+    assert.equal(server.getLimitOrders('mexc').filter((order) => order.status === 'CANCELED').length, 2);
+
+    // Продавец на MEXC дошел до котировки BUY
+    server.setQuote('mexc', SYMBOL, 99.8, 99.9);
+    await waitFor(() => executor.getOpenPositions().size === 1, 'открытие пары хеджем');
+
+    const pair = Array.from(executor.getOpenPositions().values())[0];
+    assert.equal(pair.longPosition.exchange, 'mexc');
+    assert.equal(pair.longPosition.entryPrice, 99.94);
+    assert.equal(pair.longPosition.entryFill!.commission, 0);
+    assert.equal(pair.shortPosition.exchange, 'binance');
+    assert.equal(pair.shortPosition.entryPrice, 100.49);
+    assert.ok(Math.abs(pair.shortPosition.quantity - pair.longPosition.quantity) < 1e-9, 'хедж того же объема');
+    assert.equal(server.getOrders('binance').length, 1);
+    assert.ok(server.getLimitOrders('mexc').every((order) => order.status !== 'NEW'), 'котировка SELL снята');
+    assert.equal(executor.isOpening(SYMBOL), false);
+  });
+
+  it('хеджирует исполненную котировку, даже если вторую снять не удалось, и снимает ее позже', async () => {
+    const hedgedQuoting = { enabled: true, symbols: [SYMBOL], targetSpreadPercent: 0.5, requoteIntervalMs: 50, pollIntervalMs: 100 };
+    const executor = (await startDetector({}, { hedgedQuoting })).getTradeExecutor();
+    server.setQuote('binance', SYMBOL, 99.99, 100.0);
+    await waitFor(() => server.getLimitOrders('mexc').length === 2, 'котировки BUY и SELL на MEXC');
+
+    // Котировку SELL биржа не снимает
+    server.holdCancels('mexc', 1000);
+    server.setQuote('mexc', SYMBOL, 99.3, 99.4);
+    await waitFor(() => executor.getOpenPositions().size === 1, 'открытие пары хеджем');
+    assert.equal(server.getOrders('binance').length, 1);
+    assert.deepEqual(server.getLimitOrders('mexc').filter((order) => order.status === 'NEW').map((order) => order.side), ['SELL']);
+    assert.equal(executor.isOpening(SYMBOL), true, 'слот котировок за неснятой котировкой');
+
+    server.holdCancels('mexc', 0);
+    await waitFor(
+      () => server.getLimitOrders('mexc').every((order) => order.status !== 'NEW'),
+      'повторное снятие котировки SELL'
+    );
+    assert.equal(server.getLimitOrders('mexc').length, 2, 'котировки не перевыставлялись');
+    await waitFor(() => !executor.isOpening(SYMBOL), 'освобождение слота котировок');
+  });
+
+  it('котировки не занимают слот открытия: детектор открывает пары по спреду параллельно', async () => {
+    const hedgedQuoting = { enabled: true, symbols: [SYMBOL], targetSpreadPercent: 0.5, requoteIntervalMs: 50, pollIntervalMs: 100 };
+    const executor = (await startDetector({ maxOpenPositions: 2, maxConcurrentOpenings: 1 }, { hedgedQuoting })).getTradeExecutor();
+    server.setQuote('binance', SYMBOL, 99.99, 100.0);
+    await waitFor(() => server.getLimitOrders('mexc').length === 2, 'котировки BUY и SELL на MEXC');
+
+    // Спред 1.2% по второму символу, пока котировки SOLUSDT стоят
+    server.setQuote('binance', SECOND_SYMBOL, 1999.9, 2000.0);
+    server.setQuote('mexc', SECOND_SYMBOL, 2024.0, 2024.1);
+    await waitFor(() => executor.getOpenPositions().size === 1, 'открытие пары по спреду');
+
+    assert.equal(Array.from(executor.getOpenPositions().values())[0].symbol, SECOND_SYMBOL);
+    assert.equal(executor.isOpening(SYMBOL), true, 'котировки SOLUSDT остались');
+    assert.ok(server.getLimitOrders('mexc').filter((order) => order.symbol === SYMBOL).some((order) => order.status === 'NEW'));
+    assert.ok(!executor.getSkippedOpportunities().some((skip) => skip.reason === 'OPENINGS_LIMIT_REACHED'));
+  });
+
+  it('stopTrading снимает котировки и больше не открывает пары, не отключаясь от бирж', async () => {
+    const hedgedQuoting = { enabled: true, symbols: [SYMBOL], targetSpreadPercent: 0.5, requoteIntervalMs: 50, pollIntervalMs: 100 };
+    const started = await startDetector({}, { hedgedQuoting });
+    const executor = started.getTradeExecutor();
+    server.setQuote('binance', SYMBOL, 99.99, 100.0);
+    await waitFor(() => server.getLimitOrders('mexc').length === 2, 'котировки BUY и SELL на MEXC');
+
+    await started.stopTrading();
+    assert.ok(server.getLimitOrders('mexc').every((order) => order.status === 'CANCELED'));
+    assert.equal(executor.isOpening(SYMBOL), false);
+
+    // Спред по второму символу после остановки торговли пару не открывает
+    server.setQuote('binance', SECOND_SYMBOL, 1999.9, 2000.0);
+    server.setQuote('mexc', SECOND_SYMBOL, 2024.0, 2024.1);
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    assert.equal(executor.getOpenPositions().size, 0);
+    assert.equal(server.getOrders('binance').length, 0);
+    assert.ok(server.isSubscribed('mexc', SECOND_SYMBOL));
+  });
+
+  it('при исполнении обеих котировок не хеджирует, а закрывает разницу объемов', async () => {
+    const hedgedQuoting = { enabled: true, symbols: [SYMBOL], targetSpreadPercent: 0.5, requoteIntervalMs: 50, pollIntervalMs: 100 };
+    const config = createConfig(server);
+    // Спред между биржами после исполнения котировок не должен открыть обычную пару
+    const executor = (await startDetector({}, {
+      hedgedQuoting,
+      arbitrage: { ...config.arbitrage, minSpreadPercent: 5 },
+    })).getTradeExecutor();
+    server.setQuote('binance', SYMBOL, 99.99, 100.0);
+    await waitFor(() => server.getLimitOrders('mexc').length === 2, 'котировки BUY и SELL на MEXC');
+
+    // Стакан MEXC прошел через обе котировки: BUY 0.6 @ 99.45, SELL 0.5 @ 100.54
+    server.setQuote('mexc', SYMBOL, 100.6, 99.4);
+    await waitFor(() => executor.getLegIncidents().length === 1, 'инцидент встречных котировок');
+
+    const incident = executor.getLegIncidents()[0];
+    assert.equal(incident.status, 'LEG_UNWOUND');
+    assert.equal(incident.legFailure?.stage, 'QUOTE');
+    assert.equal(incident.legFailure?.failedSide, 'SHORT');
+    assert.equal(incident.legFailure?.unwindAttempts, 1);
+
+    // Хеджа на Binance нет, остаток LONG 0.1 закрыт reduce-only рыночным ордером на MEXC
+    assert.equal(server.getOrders('binance').length, 0);
+    const unwind = server.getOrders('mexc').filter((order) => order.reduceOnly);
+    assert.deepEqual(unwind.map((order) => order.side), ['SELL']);
+    assert.equal(server.getPosition('mexc', SYMBOL), 0);
+    assert.equal(server.getPosition('binance', SYMBOL), 0);
+    assert.equal(executor.getOpenPositions().size, 0);
+    assert.ok(executor.getTradingErrors().some((item) => item.operation === 'LEG_FAILURE' && item.exchange === 'mexc'));
+  });
+
+  it('откатывает первую ногу, если вторая отклонена после всех повторов', async () => {
+    const executor = (await startDetector()).getTradeExecutor();
+
+    server.rejectOrders('mexc', 2); // Попытка + legRetryAttempts
+    openSpread();
+    await waitFor(() => executor.getLegIncidents().length === 1, 'инцидент ноги');
+
+    const incident = executor.getLegIncidents()[0];
+    assert.equal(incident.status, 'LEG_UNWOUND');
+    assert.equal(incident.legFailure?.failedSide, 'SHORT');
+    assert.equal(incident.legFailure?.attempts, 2);
+
+    const [open, unwind] = server.getOrders('binance');
+    assert.equal(open.side, 'BUY');
+    assert.equal(unwind.side, 'SELL');
+    assert.ok(unwind.reduceOnly);
+    assert.equal(server.getPosition('binance', SYMBOL), 0);
+    assert.equal(server.getOrders('mexc').length, 0);
+    assert.equal(executor.getOpenPositions().size, 0);
+
+    const codes = executor.getTradingErrors()
+      .filter((item) => item.operation === 'OPEN_SHORT')
+      .map((item) => item.errorCode);
+    assert.deepEqual(codes, [2005, 2005]);
+  });
+
+  it('переподключается после обрыва WebSocket и продолжает торговать', async () => {
+    const started = await startDetector();
+    const executor = started.getTradeExecutor();
+
+    assert.ok(server.dropConnections('mexc') > 0);
+    assert.ok(server.dropConnections('binance') > 0);
+    await waitFor(
+      () => server.getMarketConnections('mexc') === 2 && server.getMarketConnections('binance') === 2,
+      'переподключение обеих бирж'
+    );
+    await waitFor(
+      () => server.isSubscribed('binance', SYMBOL) && server.isSubscribed('mexc', SYMBOL),
+      'подписки после переподключения'
+    );
+
+    const downtimes = started.getWsMonitor().getDowntimes();
+    await waitFor(
+      () => ['binance', 'mexc'].every((name) => downtimes.some((downtime) => downtime.exchange === name)),
+      'обрывы в WebSocketMonitor'
+    );
+
+    openSpread();
+    await waitFor(() => executor.getOpenPositions().size === 1, 'открытие пары после переподключения');
+
+    const mexc = started.getExchanges().find((exchange) => exchange.name === 'mexc');
+    assert.equal(mexc?.getPrice(SYMBOL)?.bid, 101.2);
+  });
+
+  it('после disconnect не переподключается', async () => {
+    const started = await startDetector();
+    await started.stop();
+    detector = undefined;
+
+    await new Promise((resolve) => setTimeout(resolve, 300)); // reconnectDelayMs * 3
+    assert.equal(server.getMarketConnections('binance'), 1);
+    assert.equal(server.getMarketConnections('mexc'), 1);
+  });
+});
+
+describe('Подписи запросов', () => {
+  let server: MockExchangeServer;
+
+  beforeEach(async () => {
+    server = new MockExchangeServer({ contracts: [{ symbol: SYMBOL, stepSize: 0.01, contractSize: 0.1 }] });
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('принимает верные ключи', async () => {
+    const { binance, mexc } = server.getCredentials();
+    const logger = new QuietLogger();
+
+    const binanceAdapter = new BinanceFutures(
+      server.exchangeConfig('binance').restBaseUrl, '', 100, logger, undefined, binance.apiKey, binance.apiSecret
+    );
+    const mexcAdapter = new MexcFutures(
+      server.exchangeConfig('mexc').restBaseUrl, '', 100, logger, undefined, mexc.apiKey, mexc.apiSecret
+    );
+
+    assert.equal(await binanceAdapter.getBalance(), 1000);
+    assert.equal(await mexcAdapter.getBalance(), 1000);
+    assert.deepEqual(await binanceAdapter.getPositions(), []);
+    assert.deepEqual(await mexcAdapter.getPositions(), []);
+  });
+
+  it('отклоняет неверный секрет', async () => {
+    const { binance, mexc } = server.getCredentials();
+    const logger = new QuietLogger();
+
+    const binanceAdapter = new BinanceFutures(
+      server.exchangeConfig('binance').restBaseUrl, '', 100, logger, undefined, binance.apiKey, 'wrong-secret'
+    );
+    const mexcAdapter = new MexcFutures(
+      server.exchangeConfig('mexc').restBaseUrl, '', 100, logger, undefined, mexc.apiKey, 'wrong-secret'
+    );
+
+    await assert.rejects(binanceAdapter.getBalance(), /-1022/);
+    await assert.rejects(mexcAdapter.getBalance(), /602/);
+    await assert.rejects(binanceAdapter.createMarketOrder(SYMBOL, 'BUY', 0.5), /-1022/);
+    assert.equal(server.getAuthFailures('binance'), 2);
+    assert.equal(server.getAuthFailures('mexc'), 1);
+    assert.deepEqual(server.getOrders('binance'), []);
+  });
+});
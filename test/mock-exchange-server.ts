@@ -0,0 +1,1398 @@
+import http from 'http';
+import crypto from 'crypto';
+import type { AddressInfo } from 'net';
+import type { Duplex } from 'stream';
+import { WebSocketServer, WebSocket } from 'ws';
+import type { ExchangeConfig, ExchangeCredentials } from '../src/types/config.js';
+import type { LimitTimeInForce, OrderSide } from '../src/types/exchange.js';
+
+/**
+ * Биржи, которые умеет изображать сервер
+ */
+export type MockVenue = 'binance' | 'mexc';
+
+/**
+ * Контракт, торгуемый на обеих биржах
+ */
+export interface MockContract {
+  symbol: string;          // Общий формат (SOLUSDT)
+  stepSize: number;        // Binance: шаг количества в базовой валюте (он же минимум)
+  contractSize: number;    // MEXC: базовой валюты в одном контракте (шаг - 1 контракт)
+  volume24h?: number;      // Оборот в USDT, порядок в топе пар (default: 1e9)
+}
+
+export interface MockExchangeOptions {
+  contracts: MockContract[];
+  balanceUSD?: number;                                // Стартовый баланс каждой биржи (default: 1000)
+  takerFeePercent?: Partial<Record<MockVenue, number>>; // default: binance 0.04, mexc 0.03
+  makerFeePercent?: Partial<Record<MockVenue, number>>; // default: binance 0.02, mexc 0
+  credentials?: Partial<Record<MockVenue, Required<ExchangeCredentials>>>;
+}
+
+/**
+ * Исполнение ордера сервером (рыночного или лимитного). quantity - в базовой валюте на обеих биржах
+ */
+export interface MockOrder {
+  orderId: number;
+  symbol: string;
+  side: OrderSide;
+  reduceOnly: boolean;
+  quantity: number;
+  price: number;
+  commission: number;
+  time: number;
+}
+
+/**
+ * Отказ биржи: код и текст в формате биржи. HTTP статус - только для Binance (MEXC отвечает 200 + success: false)
+ */
+export interface MockRejection {
+  code: number;
+  msg: string;
+  status?: number;
+}
+
+interface MockQuote {
+  bid: number;
+  ask: number;
+  bidQty: number;
+  askQty: number;
+}
+
+/**
+ * Лимитный ордер: POST_ONLY лежит в стакане, пока котировка не дойдет до его цены, и исполняется целиком;
+ * IOC исполняется сразу (частично, если ограничена ликвидность limitIocLiquidity)
+ */
+interface MockLimitOrder {
+  orderId: number;
+  symbol: string;
+  side: OrderSide;
+  reduceOnly: boolean;
+  quantity: number;        // В базовой валюте
+  price: number;
+  timeInForce: LimitTimeInForce;
+  status: 'NEW' | 'FILLED' | 'CANCELED' | 'EXPIRED';
+  fill?: MockOrder;
+}
+
+interface MockPosition {
+  positionId: number;
+  quantity: number;        // > 0 - LONG, < 0 - SHORT (one-way), в базовой валюте
+  entryPrice: number;
+  addedMargin: number;     // Довнесенная изолированная маржа
+}
+
+/**
+ * Ставка поддерживающей маржи для цены ликвидации изолированной позиции
+ */
+const MAINTENANCE_MARGIN_RATE = 0.005;
+
+/**
+ * Подключение WebSocket: рыночные подписки и/или приватный стрим (MEXC - одно соединение для всего)
+ */
+interface MockClient {
+  venue: MockVenue;
+  symbols: Set<string>;
+  user: boolean;
+}
+
+interface VenueState {
+  quotes: Map<string, MockQuote>;
+  positions: Map<string, MockPosition>;
+  leverage: Map<string, number>;
+  isolated: Set<string>;   // Символы в изолированном режиме маржи (остальные - кросс)
+  walletBalance: number;
+  orders: MockOrder[];
+  limitOrders: Map<number, MockLimitOrder>;
+  iocLiquidity: Map<string, number>; // Сколько еще могут исполнить IOC ордера символа (нет - без ограничения)
+  rejections: MockRejection[];
+  throttles: MockThrottle[];
+  heldCancels: number;     // Сколько еще снятий лежащих ордеров не пройдут
+  authFailures: number;
+  marketConnections: number;
+  requests: number;
+  orderRequests: number;
+}
+
+/**
+ * Ответ лимита запросов: 429 (слишком часто) или 418 (бан IP у Binance)
+ */
+interface MockThrottle {
+  status: 429 | 418;
+  retryAfterSec?: number;
+}
+
+interface MockResponse {
+  status: number;
+  body: unknown;
+  headers?: Record<string, string>;
+}
+
+const DEFAULT_BALANCE_USD = 1000;
+const DEFAULT_TAKER_FEE_PERCENT: Record<MockVenue, number> = { binance: 0.04, mexc: 0.03 };
+const DEFAULT_MAKER_FEE_PERCENT: Record<MockVenue, number> = { binance: 0.02, mexc: 0 };
+const DEFAULT_LEVERAGE = 20;
+const MAX_LEVERAGE = 125;
+const BINANCE_RECV_WINDOW_MS = 5000;
+
+/**
+ * Отказы по умолчанию для rejectOrders: недостаточно маржи
+ */
+const DEFAULT_REJECTIONS: Record<MockVenue, MockRejection> = {
+  binance: { status: 400, code: -2019, msg: 'Margin is insufficient.' },
+  mexc: { code: 2005, msg: 'Balance insufficient' },
+};
+
+/**
+ * Локальная замена Binance USDT-M Futures и MEXC Contract API для интеграционных тестов.
+ * Один HTTP сервер, REST и WebSocket бирж под префиксами /binance и /mexc.
+ * Отвечает на вызовы адаптеров: топ пар, ping, контракты, ордера, плечо, сделки, позиции, балансы,
+ * bookTicker / sub.ticker, listenKey и login приватных стримов. Подписи проверяются по правилам бирж.
+ * Binance возвращает расход лимитов в заголовках X-MBX-*, 429/418 выдаются по throttle().
+ * Рыночные ордера исполняются сразу по текущей котировке (BUY по ask, SELL по bid), позиции - one-way.
+ * Лимитные POST_ONLY лежат, пока setQuote не сдвинет встречную цену до их цены, IOC - исполняются сразу или снимаются
+ */
+export class MockExchangeServer {
+  private server: http.Server;
+  private wss: WebSocketServer;
+  private port = 0;
+  private contracts: Map<string, MockContract>;
+  private credentials: Record<MockVenue, Required<ExchangeCredentials>>;
+  private takerFee: Record<MockVenue, number>;
+  private makerFee: Record<MockVenue, number>;
+  private venues: Record<MockVenue, VenueState>;
+  private clients: Map<WebSocket, MockClient> = new Map();
+  private listenKeys: Set<string> = new Set();
+  private orderSeq = 1000;
+  private multiAssets = false;
+
+  constructor(options: MockExchangeOptions) {
+    const balance = options.balanceUSD ?? DEFAULT_BALANCE_USD;
+
+    this.contracts = new Map(options.contracts.map((contract) => [contract.symbol, contract]));
+    this.credentials = {
+      binance: options.credentials?.binance ?? { apiKey: 'binance-test-key', apiSecret: 'binance-test-secret' },
+      mexc: options.credentials?.mexc ?? { apiKey: 'mexc-test-key', apiSecret: 'mexc-test-secret' },
+    };
+    this.takerFee = { ...DEFAULT_TAKER_FEE_PERCENT, ...options.takerFeePercent };
+    this.makerFee = { ...DEFAULT_MAKER_FEE_PERCENT, ...options.makerFeePercent };
+    this.venues = {
+      binance: MockExchangeServer.emptyVenue(balance),
+      mexc: MockExchangeServer.emptyVenue(balance),
+    };
+
+    this.server = http.createServer((req, res) => {
+      void this.handleHttp(req, res);
+    });
+    this.wss = new WebSocketServer({ noServer: true });
+    this.server.on('upgrade', (req, socket, head) => this.handleUpgrade(req, socket, head));
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    this.port = (this.server.address() as AddressInfo).port;
+  }
+
+  async stop(): Promise<void> {
+    for (const ws of this.clients.keys()) {
+      ws.terminate();
+    }
+    this.clients.clear();
+    this.wss.close();
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  /**
+   * Настройки биржи для config.exchanges, указывающие на этот сервер
+   */
+  exchangeConfig(venue: MockVenue): ExchangeConfig {
+    return {
+      name: venue,
+      restBaseUrl: `http://127.0.0.1:${this.port}/${venue}`,
+      wsBaseUrl: venue === 'binance' ? `ws://127.0.0.1:${this.port}/binance` : `ws://127.0.0.1:${this.port}/mexc/edge`,
+      enabled: true,
+    };
+  }
+
+  /**
+   * Ключи, которые принимает сервер (для ArbitrageDetector apiKeys)
+   */
+  getCredentials(): Record<MockVenue, Required<ExchangeCredentials>> {
+    return this.credentials;
+  }
+
+  /**
+   * Установить котировку и разослать ее подписчикам (bookTicker / push.ticker)
+   */
+  setQuote(venue: MockVenue, symbol: string, bid: number, ask: number, quantity = 1000): void {
+    const quote: MockQuote = { bid, ask, bidQty: quantity, askQty: quantity };
+    this.venues[venue].quotes.set(symbol, quote);
+
+    const message = JSON.stringify(venue === 'binance'
+      ? MockExchangeServer.binanceBookTicker(symbol, quote)
+      : MockExchangeServer.mexcTicker(symbol, quote));
+
+    for (const [ws, client] of this.clients) {
+      if (client.venue === venue && client.symbols.has(symbol) && ws.readyState === WebSocket.OPEN) {
+        ws.send(message);
+      }
+    }
+
+    for (const order of this.venues[venue].limitOrders.values()) {
+      if (order.symbol === symbol && order.status === 'NEW' && MockExchangeServer.crosses(order, quote)) {
+        this.fillLimitOrder(venue, order, order.price, this.makerFee[venue]);
+      }
+    }
+  }
+
+  /**
+   * Лимитные ордера биржи в порядке выставления
+   */
+  getLimitOrders(venue: MockVenue): Array<Omit<MockLimitOrder, 'fill'>> {
+    return Array.from(this.venues[venue].limitOrders.values()).map(({ fill: _fill, ...order }) => order);
+  }
+
+  /**
+   * Следующие count ордеров биржи будут отклонены (по умолчанию - недостаточно маржи)
+   */
+  rejectOrders(venue: MockVenue, count = 1, rejection: MockRejection = DEFAULT_REJECTIONS[venue]): void {
+    for (let i = 0; i < count; i++) {
+      this.venues[venue].rejections.push(rejection);
+    }
+  }
+
+  /**
+   * IOC ордерам символа доступно всего quantity в базовой валюте: исполненное вычитается, остаток ордера снимается.
+   * Котировка и стакан не меняются - детектор видит полную ликвидность
+   */
+  limitIocLiquidity(venue: MockVenue, symbol: string, quantity: number): void {
+    this.venues[venue].iocLiquidity.set(symbol, quantity);
+  }
+
+  /**
+   * Следующие count снятий лежащих (NEW) ордеров биржа не выполнит: ордер остается NEW (0 - снова снимать)
+   */
+  holdCancels(venue: MockVenue, count = 1): void {
+    this.venues[venue].heldCancels = count;
+  }
+
+  /**
+   * Следующие count REST запросов к бирже получат 429/418 (Retry-After - если задан)
+   */
+  throttle(venue: MockVenue, count = 1, status: 429 | 418 = 429, retryAfterSec?: number): void {
+    for (let i = 0; i < count; i++) {
+      this.venues[venue].throttles.push({ status, retryAfterSec });
+    }
+  }
+
+  /**
+   * Сколько REST запросов получила биржа (включая отклоненные)
+   */
+  getRequestCount(venue: MockVenue): number {
+    return this.venues[venue].requests;
+  }
+
+  /**
+   * Оборвать все WebSocket соединения биржи (рыночные и приватные), как при сбое сети
+   */
+  dropConnections(venue: MockVenue): number {
+    let dropped = 0;
+    for (const [ws, client] of this.clients) {
+      if (client.venue !== venue) continue;
+      ws.terminate();
+      this.clients.delete(ws);
+      dropped++;
+    }
+    return dropped;
+  }
+
+  /**
+   * Есть ли подписка на котировки символа (адаптер подключился и подписался)
+   */
+  isSubscribed(venue: MockVenue, symbol: string): boolean {
+    return Array.from(this.clients.values()).some((client) => client.venue === venue && client.symbols.has(symbol));
+  }
+
+  /**
+   * Сколько раз адаптер подключался к рыночному стриму (с переподключениями)
+   */
+  getMarketConnections(venue: MockVenue): number {
+    return this.venues[venue].marketConnections;
+  }
+
+  getOrders(venue: MockVenue): MockOrder[] {
+    return this.venues[venue].orders;
+  }
+
+  /**
+   * Позиция в базовой валюте со знаком (0 - нет позиции)
+   */
+  getPosition(venue: MockVenue, symbol: string): number {
+    return this.venues[venue].positions.get(symbol)?.quantity ?? 0;
+  }
+
+  getLeverage(venue: MockVenue, symbol: string): number {
+    return this.venues[venue].leverage.get(symbol) ?? DEFAULT_LEVERAGE;
+  }
+
+  /**
+   * Binance Multi-Assets: изолированная маржа недоступна (-4168)
+   */
+  enableMultiAssets(): void {
+    this.multiAssets = true;
+  }
+
+  getMarginMode(venue: MockVenue, symbol: string): 'isolated' | 'cross' {
+    return this.venues[venue].isolated.has(symbol) ? 'isolated' : 'cross';
+  }
+
+  /**
+   * Довнесенная изолированная маржа открытой позиции
+   */
+  getAddedMargin(venue: MockVenue, symbol: string): number {
+    return this.venues[venue].positions.get(symbol)?.addedMargin ?? 0;
+  }
+
+  getWalletBalance(venue: MockVenue): number {
+    return this.venues[venue].walletBalance;
+  }
+
+  /**
+   * Сколько подписанных запросов отклонено (неверный ключ, подпись или timestamp)
+   */
+  getAuthFailures(venue: MockVenue): number {
+    return this.venues[venue].authFailures;
+  }
+
+  // === HTTP ===
+
+  private async handleHttp(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', `http://${req.headers.host}`);
+    const [, venue, ...rest] = url.pathname.split('/');
+    const path = `/${rest.join('/')}`;
+    const body = await MockExchangeServer.readBody(req);
+
+    let response: MockResponse;
+    try {
+      const throttle = venue === 'binance' || venue === 'mexc' ? this.nextThrottle(venue) : undefined;
+      if (throttle) {
+        response = throttle;
+      } else if (venue === 'binance') {
+        response = this.handleBinance(req.method ?? 'GET', path, url, req.headers);
+      } else if (venue === 'mexc') {
+        response = this.handleMexc(req.method ?? 'GET', path, req.headers, body);
+      } else {
+        response = { status: 404, body: { msg: 'Not found' } };
+      }
+    } catch (error) {
+      response = { status: 500, body: { msg: error instanceof Error ? error.message : String(error) } };
+    }
+
+    if (venue === 'binance') {
+      if (req.method === 'POST' && path === '/fapi/v1/order') this.venues.binance.orderRequests++;
+      response.headers = { ...this.binanceUsageHeaders(), ...response.headers };
+    }
+
+    res.writeHead(response.status, { 'Content-Type': 'application/json', ...response.headers });
+    res.end(JSON.stringify(response.body));
+  }
+
+  /**
+   * Учесть запрос и выдать очередной 429/418 из throttle()
+   */
+  private nextThrottle(venue: MockVenue): MockResponse | undefined {
+    this.venues[venue].requests++;
+    const throttle = this.venues[venue].throttles.shift();
+    if (!throttle) return undefined;
+
+    return {
+      status: throttle.status,
+      body: venue === 'binance'
+        ? { code: -1003, msg: 'Too many requests; current limit is 2400 request weight per 1 MINUTE.' }
+        : { success: false, code: 510, message: 'Requests are too frequent!' },
+      headers: throttle.retryAfterSec !== undefined ? { 'Retry-After': String(throttle.retryAfterSec) } : undefined,
+    };
+  }
+
+  // === BINANCE ===
+
+  private handleBinance(method: string, path: string, url: URL, headers: http.IncomingHttpHeaders): MockResponse {
+    const ok = (body: unknown): MockResponse => ({ status: 200, body });
+    const route = `${method} ${path}`;
+
+    switch (route) {
+      case 'GET /fapi/v1/ping':
+        return ok({});
+      case 'GET /fapi/v1/ticker/24hr':
+        return ok(Array.from(this.contracts.values()).map((contract) => ({
+          symbol: contract.symbol,
+          lastPrice: String(this.venues.binance.quotes.get(contract.symbol)?.bid ?? 0),
+          quoteVolume: String(contract.volume24h ?? 1e9),
+        })));
+      case 'GET /fapi/v1/exchangeInfo':
+        return ok({
+          symbols: Array.from(this.contracts.values()).map((contract) => ({
+            symbol: contract.symbol,
+            status: 'TRADING',
+            contractType: 'PERPETUAL',
+            quoteAsset: 'USDT',
+            filters: [
+              { filterType: 'PRICE_FILTER', tickSize: '0.01' },
+              { filterType: 'MARKET_LOT_SIZE', stepSize: String(contract.stepSize), minQty: String(contract.stepSize), maxQty: '1000000' },
+              { filterType: 'MIN_NOTIONAL', notional: '5' },
+            ],
+          })),
+        });
+      case 'GET /fapi/v1/premiumIndex':
+        return ok(Array.from(this.contracts.keys()).map((symbol) => ({
+          symbol,
+          lastFundingRate: '0.0001',
+          nextFundingTime: MockExchangeServer.nextFundingTime(),
+        })));
+      case 'GET /fapi/v1/depth': {
+        const quote = this.venues.binance.quotes.get(url.searchParams.get('symbol') ?? '');
+        return ok({
+          lastUpdateId: 1,
+          T: Date.now(),
+          bids: quote ? [[String(quote.bid), String(quote.bidQty)]] : [],
+          asks: quote ? [[String(quote.ask), String(quote.askQty)]] : [],
+        });
+      }
+      case 'POST /fapi/v1/listenKey':
+      case 'PUT /fapi/v1/listenKey': {
+        if (headers['x-mbx-apikey'] !== this.credentials.binance.apiKey) {
+          this.venues.binance.authFailures++;
+          return MockExchangeServer.binanceError({ status: 401, code: -2015, msg: 'Invalid API-key, IP, or permissions for action.' });
+        }
+        const listenKey = crypto.randomBytes(16).toString('hex');
+        this.listenKeys.add(listenKey);
+        return ok({ listenKey });
+      }
+    }
+
+    const authError = this.verifyBinanceSignature(url, headers);
+    if (authError) {
+      this.venues.binance.authFailures++;
+      return MockExchangeServer.binanceError(authError);
+    }
+
+    const params = url.searchParams;
+    switch (route) {
+      case 'POST /fapi/v1/order': {
+        const symbol = params.get('symbol') ?? '';
+        const side = params.get('side') as OrderSide;
+
+        if (params.get('type') === 'LIMIT') {
+          const timeInForce: LimitTimeInForce = params.get('timeInForce') === 'GTX' ? 'POST_ONLY' : 'IOC';
+          const order = this.placeLimitOrder(
+            'binance', symbol, side, Number(params.get('quantity')), Number(params.get('price')), timeInForce,
+            params.get('reduceOnly') === 'true'
+          );
+          if ('code' in order) return MockExchangeServer.binanceError(order);
+          // GTX, который исполнился бы сразу, Binance отклоняет
+          if (order.timeInForce === 'POST_ONLY' && order.status === 'EXPIRED') {
+            return MockExchangeServer.binanceError({
+              status: 400, code: -5022, msg: 'Due to the order could not be executed as maker, the Post Only order will be rejected.',
+            });
+          }
+          return ok(this.binanceOrderInfo(order.orderId));
+        }
+
+        const result = this.execute('binance', symbol, side, Number(params.get('quantity')), params.get('reduceOnly') === 'true');
+        if ('code' in result) return MockExchangeServer.binanceError(result);
+
+        return ok({
+          orderId: result.orderId,
+          symbol,
+          status: 'NEW',
+          side,
+          type: 'MARKET',
+          origQty: String(result.quantity),
+          executedQty: '0',
+          reduceOnly: result.reduceOnly,
+          updateTime: result.time,
+        });
+      }
+      case 'GET /fapi/v1/order': {
+        const info = this.binanceOrderInfo(Number(params.get('orderId')));
+        return info ? ok(info) : MockExchangeServer.binanceError({ status: 400, code: -2013, msg: 'Order does not exist.' });
+      }
+      case 'DELETE /fapi/v1/order': {
+        const order = this.venues.binance.limitOrders.get(Number(params.get('orderId')));
+        if (!order || order.status !== 'NEW' || this.holdCancel('binance')) {
+          return MockExchangeServer.binanceError({ status: 400, code: -2011, msg: 'Unknown order sent.' });
+        }
+        order.status = 'CANCELED';
+        return ok(this.binanceOrderInfo(order.orderId));
+      }
+      case 'PUT /fapi/v1/order': {
+        const order = this.venues.binance.limitOrders.get(Number(params.get('orderId')));
+        if (!order || order.status !== 'NEW') {
+          return MockExchangeServer.binanceError({ status: 400, code: -2013, msg: 'Order does not exist.' });
+        }
+        order.quantity = Number(params.get('quantity'));
+        order.price = Number(params.get('price'));
+        // GTX, который по новой цене исполнился бы сразу, снимается
+        if (MockExchangeServer.crosses(order, this.venues.binance.quotes.get(order.symbol)!)) {
+          order.status = 'EXPIRED';
+          return MockExchangeServer.binanceError({
+            status: 400, code: -5022, msg: 'Due to the order could not be executed as maker, the Post Only order will be rejected.',
+          });
+        }
+        return ok(this.binanceOrderInfo(order.orderId));
+      }
+      case 'POST /fapi/v1/leverage': {
+        const symbol = params.get('symbol') ?? '';
+        const leverage = Number(params.get('leverage'));
+        const error = this.applyLeverage('binance', symbol, leverage);
+        if (error) return MockExchangeServer.binanceError({ status: 400, ...error });
+        return ok({ symbol, leverage, maxNotionalValue: '1000000' });
+      }
+      case 'GET /fapi/v1/userTrades': {
+        const orderId = Number(params.get('orderId'));
+        return ok(this.venues.binance.orders
+          .filter((order) => order.orderId === orderId)
+          .map((order) => ({
+            orderId: order.orderId,
+            symbol: order.symbol,
+            side: order.side,
+            price: String(order.price),
+            qty: String(order.quantity),
+            quoteQty: String(order.price * order.quantity),
+            commission: String(order.commission),
+            commissionAsset: 'USDT',
+            time: order.time,
+          })));
+      }
+      case 'GET /fapi/v2/positionRisk':
+        return ok(Array.from(this.venues.binance.positions.entries()).map(([symbol, position]) => ({
+          symbol,
+          positionAmt: String(position.quantity),
+          entryPrice: String(position.entryPrice),
+          unRealizedProfit: String(this.unrealizedPnl('binance', symbol, position)),
+          leverage: String(this.getLeverage('binance', symbol)),
+          positionSide: 'BOTH',
+          updateTime: Date.now(),
+          markPrice: String(this.markPrice('binance', symbol, position)),
+          liquidationPrice: String(this.liquidationPrice('binance', symbol, position)),
+          marginType: this.venues.binance.isolated.has(symbol) ? 'isolated' : 'cross',
+          isolatedWallet: String(this.venues.binance.isolated.has(symbol) ? this.positionMargin('binance', symbol, position) : 0),
+        })));
+      case 'POST /fapi/v1/marginType': {
+        const symbol = params.get('symbol') ?? '';
+        const isolated = params.get('marginType') === 'ISOLATED';
+        if (this.venues.binance.isolated.has(symbol) === isolated) {
+          return MockExchangeServer.binanceError({ status: 400, code: -4046, msg: 'No need to change margin type.' });
+        }
+        if (this.venues.binance.positions.has(symbol)) {
+          return MockExchangeServer.binanceError({ status: 400, code: -4048, msg: 'Margin type cannot be changed if there exists position.' });
+        }
+        if (isolated && this.multiAssets) {
+          return MockExchangeServer.binanceError({
+            status: 400, code: -4168, msg: 'Unable to adjust to isolated-margin mode under the Multi-Assets mode.',
+          });
+        }
+        this.setMarginMode('binance', symbol, isolated ? 'isolated' : 'cross');
+        return ok({ code: 200, msg: 'success' });
+      }
+      case 'POST /fapi/v1/positionMargin': {
+        const symbol = params.get('symbol') ?? '';
+        const amount = Number(params.get('amount'));
+        if (params.get('type') !== '1') return MockExchangeServer.binanceError({ code: -1102, msg: 'Only type=1 is supported' });
+        const error = this.addMargin('binance', symbol, amount);
+        if (error) return MockExchangeServer.binanceError({ status: 400, ...error });
+        return ok({ amount, code: 200, msg: 'Successfully modify position margin.', type: 1 });
+      }
+      case 'GET /fapi/v2/balance':
+        return ok([{
+          asset: 'USDT',
+          balance: String(this.venues.binance.walletBalance),
+          availableBalance: String(this.availableBalance('binance')),
+        }]);
+      default:
+        return { status: 404, body: { code: -5000, msg: `Path ${path} not found` } };
+    }
+  }
+
+  /**
+   * HMAC-SHA256 query string без signature, ключ в X-MBX-APIKEY, timestamp в пределах recvWindow
+   */
+  private verifyBinanceSignature(url: URL, headers: http.IncomingHttpHeaders): MockRejection | undefined {
+    if (headers['x-mbx-apikey'] !== this.credentials.binance.apiKey) {
+      return { status: 401, code: -2015, msg: 'Invalid API-key, IP, or permissions for action.' };
+    }
+
+    const query = url.search.slice(1);
+    const index = query.lastIndexOf('&signature=');
+    if (index < 0) {
+      return { status: 400, code: -1102, msg: "Mandatory parameter 'signature' was not sent, was empty/null, or malformed." };
+    }
+
+    const expected = crypto.createHmac('sha256', this.credentials.binance.apiSecret).update(query.slice(0, index)).digest('hex');
+    if (query.slice(index + '&signature='.length) !== expected) {
+      return { status: 400, code: -1022, msg: 'Signature for this request is not valid.' };
+    }
+
+    const timestamp = Number(url.searchParams.get('timestamp'));
+    const recvWindow = Number(url.searchParams.get('recvWindow') ?? BINANCE_RECV_WINDOW_MS);
+    if (!(Math.abs(Date.now() - timestamp) <= recvWindow)) {
+      return { status: 400, code: -1021, msg: 'Timestamp for this request is outside of the recvWindow.' };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Расход лимитов, как в заголовках Binance (упрощенно: вес любого запроса - 1, окна не сбрасываются)
+   */
+  private binanceUsageHeaders(): Record<string, string> {
+    const { requests, orderRequests } = this.venues.binance;
+    return {
+      'X-MBX-USED-WEIGHT-1M': String(requests),
+      'X-MBX-ORDER-COUNT-10S': String(orderRequests),
+      'X-MBX-ORDER-COUNT-1M': String(orderRequests),
+    };
+  }
+
+  /**
+   * Ордер в формате GET /fapi/v1/order (рыночные - исполненные, лимитные - по статусу)
+   */
+  private binanceOrderInfo(orderId: number): unknown {
+    const state = this.venues.binance;
+    const limit = state.limitOrders.get(orderId);
+    const fill = limit ? limit.fill : state.orders.find((order) => order.orderId === orderId);
+    if (!limit && !fill) return undefined;
+
+    return {
+      orderId,
+      symbol: limit?.symbol ?? fill?.symbol,
+      status: limit?.status ?? 'FILLED',
+      type: limit ? 'LIMIT' : 'MARKET',
+      timeInForce: limit ? (limit.timeInForce === 'POST_ONLY' ? 'GTX' : 'IOC') : 'GTC',
+      price: String(limit?.price ?? 0),
+      origQty: String(limit?.quantity ?? fill?.quantity),
+      executedQty: String(fill?.quantity ?? 0),
+      avgPrice: String(fill?.price ?? 0),
+      updateTime: fill?.time ?? Date.now(),
+    };
+  }
+
+  private static binanceError(rejection: MockRejection): MockResponse {
+    return { status: rejection.status ?? 400, body: { code: rejection.code, msg: rejection.msg } };
+  }
+
+  private static binanceBookTicker(symbol: string, quote: MockQuote): unknown {
+    const now = Date.now();
+    return {
+      stream: `${symbol.toLowerCase()}@bookTicker`,
+      data: {
+        e: 'bookTicker',
+        u: now,
+        s: symbol,
+        b: String(quote.bid),
+        B: String(quote.bidQty),
+        a: String(quote.ask),
+        A: String(quote.askQty),
+        T: now,
+        E: now,
+      },
+    };
+  }
+
+  // === MEXC ===
+
+  private handleMexc(method: string, path: string, headers: http.IncomingHttpHeaders, body: string): MockResponse {
+    const ok = (data: unknown): MockResponse => ({ status: 200, body: { success: true, code: 0, data } });
+
+    if (method === 'GET' && path === '/api/v1/contract/ping') return ok(Date.now());
+    if (method === 'GET' && path === '/api/v1/contract/ticker') {
+      return ok(Array.from(this.contracts.values()).map((contract) => {
+        const quote = this.venues.mexc.quotes.get(contract.symbol);
+        return {
+          symbol: MockExchangeServer.toMexcSymbol(contract.symbol),
+          lastPrice: quote?.bid ?? 0,
+          bid1: quote?.bid ?? 0,
+          ask1: quote?.ask ?? 0,
+          volume24: 0,
+          amount24: contract.volume24h ?? 1e9,
+          holdVol: 0,
+          riseFallRate: 0,
+          timestamp: Date.now(),
+        };
+      }));
+    }
+    if (method === 'GET' && path === '/api/v1/contract/detail') {
+      return ok(Array.from(this.contracts.values()).map((contract) => ({
+        symbol: MockExchangeServer.toMexcSymbol(contract.symbol),
+        quoteCoin: 'USDT',
+        contractSize: contract.contractSize,
+        priceUnit: 0.01,
+        volUnit: 1,
+        minVol: 1,
+        maxVol: 1000000,
+        state: 0,
+      })));
+    }
+    if (method === 'GET' && path.startsWith('/api/v1/contract/depth/')) {
+      const symbol = MockExchangeServer.fromMexcSymbol(path.split('/').pop() ?? '');
+      const quote = this.venues.mexc.quotes.get(symbol);
+      const contractSize = this.contracts.get(symbol)?.contractSize ?? 1;
+      return ok({
+        version: 1,
+        timestamp: Date.now(),
+        bids: quote ? [[quote.bid, quote.bidQty / contractSize, 1]] : [],
+        asks: quote ? [[quote.ask, quote.askQty / contractSize, 1]] : [],
+      });
+    }
+    if (method === 'GET' && path.startsWith('/api/v1/contract/funding_rate/')) {
+      return ok({
+        symbol: path.split('/').pop(),
+        fundingRate: 0.0001,
+        collectCycle: 8,
+        nextSettleTime: MockExchangeServer.nextFundingTime(),
+      });
+    }
+
+    if (!path.startsWith('/api/v1/private/')) {
+      return { status: 404, body: { success: false, code: 404, message: `Path ${path} not found` } };
+    }
+
+    const authError = this.verifyMexcSignature(headers, method === 'POST' ? body : '');
+    if (authError) {
+      this.venues.mexc.authFailures++;
+      return MockExchangeServer.mexcError(authError);
+    }
+
+    if (method === 'POST' && path === '/api/v1/private/order/submit') {
+      const order = JSON.parse(body) as {
+        symbol: string; vol: number; side: 1 | 2 | 3 | 4; type: number; price: number; openType: number; leverage?: number;
+      };
+      const symbol = MockExchangeServer.fromMexcSymbol(order.symbol);
+      const contractSize = this.contracts.get(symbol)?.contractSize ?? 1;
+      // 1 = Open Long, 2 = Close Short, 3 = Open Short, 4 = Close Long
+      const side: OrderSide = order.side === 1 || order.side === 2 ? 'BUY' : 'SELL';
+      const reduceOnly = order.side === 2 || order.side === 4;
+
+      if (!Number.isInteger(order.vol)) return MockExchangeServer.mexcError({ code: 600, msg: 'Parameter error' });
+
+      // openType: 1 = изолированная (нужно плечо), 2 = кросс; у открытой позиции режим не меняется
+      const isolated = order.openType === 1;
+      if ((order.openType !== 1 && order.openType !== 2) || (isolated && !((order.leverage ?? 0) > 0))) {
+        return MockExchangeServer.mexcError({ code: 600, msg: 'Parameter error' });
+      }
+      if (this.venues.mexc.positions.has(symbol)) {
+        if (this.venues.mexc.isolated.has(symbol) !== isolated) {
+          return MockExchangeServer.mexcError({ code: 3001, msg: 'Open type does not match the position' });
+        }
+      } else {
+        this.setMarginMode('mexc', symbol, isolated ? 'isolated' : 'cross');
+      }
+
+      // 2 = post only, 3 = IOC; post only, который исполнился бы сразу, MEXC принимает и снимает
+      if (order.type === 2 || order.type === 3) {
+        const result = this.placeLimitOrder(
+          'mexc', symbol, side, order.vol * contractSize, order.price, order.type === 2 ? 'POST_ONLY' : 'IOC', reduceOnly
+        );
+        if ('code' in result) return MockExchangeServer.mexcError(result);
+        return ok({ orderId: String(result.orderId), ts: Date.now() });
+      }
+
+      const result = this.execute('mexc', symbol, side, order.vol * contractSize, reduceOnly);
+      if ('code' in result) return MockExchangeServer.mexcError(result);
+      return ok({ orderId: String(result.orderId), ts: result.time });
+    }
+
+    if (method === 'POST' && path === '/api/v1/private/position/leverage') {
+      const request = JSON.parse(body) as { symbol: string; leverage: number };
+      const error = this.applyLeverage('mexc', MockExchangeServer.fromMexcSymbol(request.symbol), request.leverage);
+      return error ? MockExchangeServer.mexcError(error) : ok(undefined);
+    }
+
+    if (method === 'GET' && path.startsWith('/api/v1/private/order/get/')) {
+      const orderId = Number(path.split('/').pop());
+      const limit = this.venues.mexc.limitOrders.get(orderId);
+      const fill = limit ? limit.fill : this.venues.mexc.orders.find((order) => order.orderId === orderId);
+      if (!limit && !fill) return MockExchangeServer.mexcError({ code: 2040, msg: 'Order does not exist' });
+
+      const contractSize = this.contracts.get(limit?.symbol ?? fill?.symbol ?? '')?.contractSize ?? 1;
+      // 2 = uncompleted, 3 = completed, 4 = cancelled
+      const states = { NEW: 2, FILLED: 3, CANCELED: 4, EXPIRED: 4 };
+      return ok({
+        orderId: String(orderId),
+        state: states[limit?.status ?? 'FILLED'],
+        dealVol: (fill?.quantity ?? 0) / contractSize,
+        dealAvgPrice: fill?.price ?? 0,
+      });
+    }
+
+    if (method === 'POST' && path === '/api/v1/private/order/cancel') {
+      const orderIds = JSON.parse(body) as string[];
+      return ok(orderIds.map((id) => {
+        const order = this.venues.mexc.limitOrders.get(Number(id));
+        if (!order || order.status !== 'NEW' || this.holdCancel('mexc')) {
+          return { orderId: id, errorCode: 2041, errorMsg: 'Order state cannot be cancelled' };
+        }
+        order.status = 'CANCELED';
+        return { orderId: id, errorCode: 0, errorMsg: 'success' };
+      }));
+    }
+
+    if (method === 'GET' && path.startsWith('/api/v1/private/order/deal_details/')) {
+      const orderId = Number(path.split('/').pop());
+      return ok(this.venues.mexc.orders
+        .filter((order) => order.orderId === orderId)
+        .map((order) => ({
+          orderId: String(order.orderId),
+          symbol: MockExchangeServer.toMexcSymbol(order.symbol),
+          price: order.price,
+          vol: order.quantity / (this.contracts.get(order.symbol)?.contractSize ?? 1),
+          fee: order.commission,
+          feeCurrency: 'USDT',
+          timestamp: order.time,
+        })));
+    }
+
+    if (method === 'GET' && path === '/api/v1/private/position/open_positions') {
+      return ok(Array.from(this.venues.mexc.positions.entries()).map(([symbol, position]) => ({
+        positionId: position.positionId,
+        symbol: MockExchangeServer.toMexcSymbol(symbol),
+        positionType: position.quantity > 0 ? 1 : 2,
+        openType: this.venues.mexc.isolated.has(symbol) ? 1 : 2,
+        holdVol: Math.abs(position.quantity) / (this.contracts.get(symbol)?.contractSize ?? 1),
+        holdAvgPrice: position.entryPrice,
+        leverage: this.getLeverage('mexc', symbol),
+        liquidatePrice: this.liquidationPrice('mexc', symbol, position),
+        im: this.positionMargin('mexc', symbol, position),
+        updateTime: Date.now(),
+      })));
+    }
+
+    if (method === 'POST' && path === '/api/v1/private/position/change_margin') {
+      const request = JSON.parse(body) as { positionId: number; amount: number; type: 'ADD' | 'SUB' };
+      const entry = Array.from(this.venues.mexc.positions.entries()).find(([, position]) => position.positionId === request.positionId);
+      if (!entry || request.type !== 'ADD') return MockExchangeServer.mexcError({ code: 2009, msg: 'Position does not exist' });
+      const error = this.addMargin('mexc', entry[0], request.amount);
+      return error ? MockExchangeServer.mexcError(error) : ok(undefined);
+    }
+
+    if (method === 'GET' && path === '/api/v1/private/account/assets') {
+      return ok([{
+        currency: 'USDT',
+        cashBalance: this.venues.mexc.walletBalance,
+        availableBalance: this.availableBalance('mexc'),
+      }]);
+    }
+
+    return { status: 404, body: { success: false, code: 404, message: `Path ${path} not found` } };
+  }
+
+  /**
+   * HMAC-SHA256 от ApiKey + Request-Time + тело запроса (у GET без параметров - пустая строка)
+   */
+  private verifyMexcSignature(headers: http.IncomingHttpHeaders, payload: string): MockRejection | undefined {
+    const apiKey = headers['apikey'];
+    if (apiKey !== this.credentials.mexc.apiKey) {
+      return { code: 401, msg: 'Not logged in' };
+    }
+
+    const expected = crypto
+      .createHmac('sha256', this.credentials.mexc.apiSecret)
+      .update(`${apiKey}${headers['request-time'] ?? ''}${payload}`)
+      .digest('hex');
+    if (headers['signature'] !== expected) {
+      return { code: 602, msg: 'Signature verification failed!' };
+    }
+
+    return undefined;
+  }
+
+  private static mexcError(rejection: MockRejection): MockResponse {
+    return { status: 200, body: { success: false, code: rejection.code, message: rejection.msg } };
+  }
+
+  private static mexcTicker(symbol: string, quote: MockQuote): unknown {
+    const mexcSymbol = MockExchangeServer.toMexcSymbol(symbol);
+    const now = Date.now();
+    return {
+      channel: 'push.ticker',
+      symbol: mexcSymbol,
+      ts: now,
+      data: {
+        symbol: mexcSymbol,
+        lastPrice: quote.bid,
+        bid1: quote.bid,
+        ask1: quote.ask,
+        timestamp: now,
+      },
+    };
+  }
+
+  private static toMexcSymbol(symbol: string): string {
+    return symbol.replace('USDT', '_USDT');
+  }
+
+  private static fromMexcSymbol(symbol: string): string {
+    return symbol.replace('_', '');
+  }
+
+  // === WEBSOCKET ===
+
+  /**
+   * Binance: /binance/stream?streams=... (рынок), /binance/ws/<listenKey> (приватный стрим);
+   * MEXC: /mexc/edge (подписки и login в одном соединении)
+   */
+  private handleUpgrade(req: http.IncomingMessage, socket: Duplex, head: Buffer): void {
+    const url = new URL(req.url ?? '/', `http://${req.headers.host}`);
+    let client: MockClient;
+
+    if (url.pathname === '/binance/stream') {
+      const symbols = (url.searchParams.get('streams') ?? '')
+        .split('/')
+        .filter((stream) => stream.endsWith('@bookTicker'))
+        .map((stream) => stream.split('@')[0].toUpperCase());
+      client = { venue: 'binance', symbols: new Set(symbols), user: false };
+      this.venues.binance.marketConnections++;
+    } else if (url.pathname.startsWith('/binance/ws/') && this.listenKeys.has(url.pathname.split('/').pop() ?? '')) {
+      client = { venue: 'binance', symbols: new Set(), user: true };
+    } else if (url.pathname === '/mexc/edge') {
+      client = { venue: 'mexc', symbols: new Set(), user: false };
+    } else {
+      socket.write('HTTP/1.1 404 Not Found\r\n\r\n');
+      socket.destroy();
+      return;
+    }
+
+    this.wss.handleUpgrade(req, socket, head, (ws) => {
+      this.clients.set(ws, client);
+      ws.on('close', () => this.clients.delete(ws));
+      if (client.venue === 'mexc') {
+        ws.on('message', (data: Buffer) => this.onMexcMessage(ws, client, data.toString()));
+      }
+    });
+  }
+
+  private onMexcMessage(ws: WebSocket, client: MockClient, text: string): void {
+    let message: { method?: string; param?: Record<string, string> };
+    try {
+      message = JSON.parse(text);
+    } catch {
+      return;
+    }
+
+    const reply = (channel: string, data: unknown) => ws.send(JSON.stringify({ channel, data, ts: Date.now() }));
+
+    switch (message.method) {
+      case 'ping':
+        reply('pong', Date.now());
+        break;
+      case 'sub.ticker': {
+        if (client.symbols.size === 0) this.venues.mexc.marketConnections++;
+        const symbol = MockExchangeServer.fromMexcSymbol(message.param?.symbol ?? '');
+        client.symbols.add(symbol);
+        reply('rs.sub.ticker', 'success');
+
+        const quote = this.venues.mexc.quotes.get(symbol);
+        if (quote) ws.send(JSON.stringify(MockExchangeServer.mexcTicker(symbol, quote)));
+        break;
+      }
+      case 'sub.depth':
+        reply('rs.sub.depth', 'success');
+        break;
+      case 'login': {
+        const { apiKey, reqTime, signature } = message.param ?? {};
+        const expected = crypto
+          .createHmac('sha256', this.credentials.mexc.apiSecret)
+          .update(`${apiKey}${reqTime}`)
+          .digest('hex');
+        client.user = apiKey === this.credentials.mexc.apiKey && signature === expected;
+        if (!client.user) this.venues.mexc.authFailures++;
+        reply('rs.login', client.user ? 'success' : 'Signature verification failed!');
+        break;
+      }
+    }
+  }
+
+  // === ИСПОЛНЕНИЕ ===
+
+  /**
+   * Исполнить рыночный ордер по текущей котировке (или первый отказ из очереди rejectOrders)
+   */
+  private execute(venue: MockVenue, symbol: string, side: OrderSide, quantity: number, reduceOnly: boolean): MockOrder | MockRejection {
+    const state = this.venues[venue];
+
+    const rejection = state.rejections.shift() ?? this.validateOrder(venue, symbol, side, quantity, reduceOnly);
+    if (rejection) return rejection;
+
+    const quote = state.quotes.get(symbol)!;
+    return this.fill(venue, ++this.orderSeq, symbol, side, quantity, reduceOnly, side === 'BUY' ? quote.ask : quote.bid, this.takerFee[venue]);
+  }
+
+  /**
+   * Выставить лимитный ордер (или первый отказ из очереди rejectOrders).
+   * IOC исполняется по текущей котировке, если она не хуже лимита, иначе снимается;
+   * POST_ONLY, который исполнился бы сразу, снимается, остальные ждут котировку в setQuote
+   */
+  private placeLimitOrder(
+    venue: MockVenue,
+    symbol: string,
+    side: OrderSide,
+    quantity: number,
+    price: number,
+    timeInForce: LimitTimeInForce,
+    reduceOnly: boolean
+  ): MockLimitOrder | MockRejection {
+    const state = this.venues[venue];
+
+    const rejection = state.rejections.shift() ?? this.validateOrder(venue, symbol, side, quantity, reduceOnly);
+    if (rejection) return rejection;
+    if (!(price > 0)) {
+      return venue === 'binance' ? { status: 400, code: -1013, msg: 'Invalid price.' } : { code: 600, msg: 'Parameter error' };
+    }
+
+    const order: MockLimitOrder = { orderId: ++this.orderSeq, symbol, side, reduceOnly, quantity, price, timeInForce, status: 'NEW' };
+    state.limitOrders.set(order.orderId, order);
+
+    const quote = state.quotes.get(symbol)!;
+    if (!MockExchangeServer.crosses(order, quote)) {
+      if (timeInForce === 'IOC') order.status = 'EXPIRED';
+    } else if (timeInForce === 'POST_ONLY') {
+      order.status = 'EXPIRED';
+    } else {
+      const available = state.iocLiquidity.get(symbol) ?? quantity;
+      const filled = Math.min(quantity, available);
+      if (filled > 0) {
+        this.fillLimitOrder(venue, order, side === 'BUY' ? quote.ask : quote.bid, this.takerFee[venue], filled);
+      } else {
+        order.status = 'EXPIRED';
+      }
+      if (state.iocLiquidity.has(symbol) && order.fill) {
+        state.iocLiquidity.set(symbol, available - order.fill.quantity);
+      }
+    }
+
+    return order;
+  }
+
+  /**
+   * Исполнить лимитный ордер целиком или на quantity (IOC - остаток снимается). Без маржи ордер снимается
+   */
+  private fillLimitOrder(venue: MockVenue, order: MockLimitOrder, price: number, feePercent: number, quantity = order.quantity): void {
+    const result = this.validateOrder(venue, order.symbol, order.side, quantity, order.reduceOnly)
+      ?? this.fill(venue, order.orderId, order.symbol, order.side, quantity, order.reduceOnly, price, feePercent);
+
+    if ('code' in result) {
+      order.status = 'CANCELED';
+    } else {
+      order.status = quantity < order.quantity ? 'EXPIRED' : 'FILLED';
+      order.fill = result;
+    }
+  }
+
+  /**
+   * Проверка символа, шага объема и reduceOnly
+   */
+  private validateOrder(venue: MockVenue, symbol: string, side: OrderSide, quantity: number, reduceOnly: boolean): MockRejection | undefined {
+    const state = this.venues[venue];
+    const binance = venue === 'binance';
+
+    const contract = this.contracts.get(symbol);
+    const quote = state.quotes.get(symbol);
+    if (!contract || !quote) {
+      return binance ? { status: 400, code: -1121, msg: 'Invalid symbol.' } : { code: 1001, msg: 'Contract not exist' };
+    }
+
+    const minQty = binance ? contract.stepSize : contract.contractSize;
+    const steps = quantity / minQty;
+    if (!(quantity > 0) || Math.abs(steps - Math.round(steps)) > 1e-9 || Math.round(steps) < 1) {
+      return binance ? { status: 400, code: -4003, msg: 'Quantity less than or equal to zero.' } : { code: 600, msg: 'Parameter error' };
+    }
+
+    const position = state.positions.get(symbol) ?? { quantity: 0, entryPrice: 0 };
+    const direction = side === 'BUY' ? 1 : -1;
+
+    if (reduceOnly && (position.quantity * direction >= 0 || quantity > Math.abs(position.quantity) * (1 + 1e-9))) {
+      return binance
+        ? { status: 400, code: -2022, msg: 'ReduceOnly Order is rejected.' }
+        : { code: 2009, msg: 'The position does not exist' };
+    }
+    return undefined;
+  }
+
+  /**
+   * Сделка по цене: маржа, позиция, баланс, комиссия и события приватного стрима
+   */
+  private fill(
+    venue: MockVenue,
+    orderId: number,
+    symbol: string,
+    side: OrderSide,
+    quantity: number,
+    reduceOnly: boolean,
+    price: number,
+    feePercent: number
+  ): MockOrder | MockRejection {
+    const state = this.venues[venue];
+    const position = state.positions.get(symbol) ?? { positionId: ++this.orderSeq, quantity: 0, entryPrice: 0, addedMargin: 0 };
+    const direction = side === 'BUY' ? 1 : -1;
+
+    const notional = price * quantity;
+    const commission = notional * feePercent / 100;
+    const opening = position.quantity * direction >= 0;
+
+    if (opening && notional / this.getLeverage(venue, symbol) + commission > this.availableBalance(venue)) {
+      return DEFAULT_REJECTIONS[venue];
+    }
+
+    if (opening) {
+      const total = Math.abs(position.quantity) + quantity;
+      position.entryPrice = (position.entryPrice * Math.abs(position.quantity) + price * quantity) / total;
+      position.quantity += direction * quantity;
+    } else {
+      state.walletBalance += -direction * (price - position.entryPrice) * quantity;
+      position.quantity += direction * quantity;
+      if (Math.abs(position.quantity) < 1e-12) position.quantity = 0;
+    }
+    state.walletBalance -= commission;
+
+    if (position.quantity === 0) {
+      state.positions.delete(symbol);
+    } else {
+      state.positions.set(symbol, position);
+    }
+
+    const order: MockOrder = {
+      orderId,
+      symbol,
+      side,
+      reduceOnly,
+      quantity,
+      price,
+      commission,
+      time: Date.now(),
+    };
+    state.orders.push(order);
+    this.publishUserData(venue, order, position);
+
+    return order;
+  }
+
+  /**
+   * Цена лимитного ордера достает до встречной цены котировки
+   */
+  private static crosses(order: MockLimitOrder, quote: MockQuote): boolean {
+    return order.side === 'BUY' ? quote.ask <= order.price : quote.bid >= order.price;
+  }
+
+  /**
+   * Снятие ордера задержано holdCancels
+   */
+  private holdCancel(venue: MockVenue): boolean {
+    if (this.venues[venue].heldCancels === 0) return false;
+    this.venues[venue].heldCancels--;
+    return true;
+  }
+
+  private applyLeverage(venue: MockVenue, symbol: string, leverage: number): MockRejection | undefined {
+    if (!this.contracts.has(symbol)) {
+      return venue === 'binance' ? { code: -1121, msg: 'Invalid symbol.' } : { code: 1001, msg: 'Contract not exist' };
+    }
+    if (!Number.isInteger(leverage) || leverage < 1 || leverage > MAX_LEVERAGE) {
+      return venue === 'binance' ? { code: -4028, msg: `Leverage ${leverage} is not valid` } : { code: 600, msg: 'Parameter error' };
+    }
+
+    this.venues[venue].leverage.set(symbol, leverage);
+    return undefined;
+  }
+
+  /**
+   * События приватного стрима после исполнения: ордер, позиция, баланс
+   */
+  private publishUserData(venue: MockVenue, order: MockOrder, position: MockPosition): void {
+    const state = this.venues[venue];
+    const messages: unknown[] = [];
+
+    if (venue === 'binance') {
+      messages.push(
+        {
+          e: 'ORDER_TRADE_UPDATE',
+          E: order.time,
+          o: {
+            s: order.symbol,
+            c: `mock-${order.orderId}`,
+            S: order.side,
+            X: 'FILLED',
+            i: order.orderId,
+            z: String(order.quantity),
+            ap: String(order.price),
+            n: String(order.commission),
+            N: 'USDT',
+            T: order.time,
+            R: order.reduceOnly,
+          },
+        },
+        {
+          e: 'ACCOUNT_UPDATE',
+          E: order.time,
+          a: {
+            B: [{ a: 'USDT', wb: String(state.walletBalance), cw: String(state.walletBalance) }],
+            P: [{
+              s: order.symbol,
+              pa: String(position.quantity),
+              ep: String(position.entryPrice),
+              up: String(this.unrealizedPnl(venue, order.symbol, position)),
+              ps: 'BOTH',
+            }],
+          },
+        }
+      );
+    } else {
+      const mexcSymbol = MockExchangeServer.toMexcSymbol(order.symbol);
+      const contractSize = this.contracts.get(order.symbol)?.contractSize ?? 1;
+      const mexcSide = order.side === 'BUY' ? (order.reduceOnly ? 2 : 1) : (order.reduceOnly ? 4 : 3);
+
+      messages.push(
+        {
+          channel: 'push.personal.order',
+          ts: order.time,
+          data: {
+            orderId: String(order.orderId),
+            symbol: mexcSymbol,
+            side: mexcSide,
+            state: 3,
+            category: 1,
+            dealVol: order.quantity / contractSize,
+            dealAvgPrice: order.price,
+            takerFee: order.commission,
+            makerFee: 0,
+            feeCurrency: 'USDT',
+            updateTime: order.time,
+          },
+        },
+        {
+          channel: 'push.personal.position',
+          ts: order.time,
+          data: {
+            symbol: mexcSymbol,
+            // Закрытая позиция приходит со стороной, которую закрыли
+            positionType: (position.quantity === 0 ? order.side === 'BUY' : position.quantity < 0) ? 2 : 1,
+            holdVol: Math.abs(position.quantity) / contractSize,
+            holdAvgPrice: position.entryPrice,
+            state: position.quantity === 0 ? 3 : 1,
+          },
+        },
+        {
+          channel: 'push.personal.asset',
+          ts: order.time,
+          data: { currency: 'USDT', cashBalance: state.walletBalance, availableBalance: this.availableBalance(venue) },
+        }
+      );
+    }
+
+    for (const [ws, client] of this.clients) {
+      if (client.venue !== venue || !client.user || ws.readyState !== WebSocket.OPEN) continue;
+      for (const message of messages) {
+        ws.send(JSON.stringify(message));
+      }
+    }
+  }
+
+  private availableBalance(venue: MockVenue): number {
+    let available = this.venues[venue].walletBalance;
+
+    for (const [symbol, position] of this.venues[venue].positions) {
+      available += this.unrealizedPnl(venue, symbol, position);
+      available -= this.positionMargin(venue, symbol, position);
+    }
+    return available;
+  }
+
+  /**
+   * Режим маржи символа (по умолчанию кросс)
+   */
+  private setMarginMode(venue: MockVenue, symbol: string, mode: 'isolated' | 'cross'): void {
+    if (mode === 'isolated') {
+      this.venues[venue].isolated.add(symbol);
+    } else {
+      this.venues[venue].isolated.delete(symbol);
+    }
+  }
+
+  private positionMargin(venue: MockVenue, symbol: string, position: MockPosition): number {
+    return Math.abs(position.quantity) * position.entryPrice / this.getLeverage(venue, symbol) + position.addedMargin;
+  }
+
+  /**
+   * Цена ликвидации изолированной позиции: убыток съедает маржу за вычетом поддерживающей (кросс - 0, нет)
+   */
+  private liquidationPrice(venue: MockVenue, symbol: string, position: MockPosition): number {
+    if (!this.venues[venue].isolated.has(symbol)) return 0;
+
+    const notional = Math.abs(position.quantity) * position.entryPrice;
+    const move = this.positionMargin(venue, symbol, position) / notional - MAINTENANCE_MARGIN_RATE;
+    return position.quantity > 0 ? position.entryPrice * (1 - move) : position.entryPrice * (1 + move);
+  }
+
+  private markPrice(venue: MockVenue, symbol: string, position: MockPosition): number {
+    const quote = this.venues[venue].quotes.get(symbol);
+    return quote ? (quote.bid + quote.ask) / 2 : position.entryPrice;
+  }
+
+  /**
+   * Довнести маржу в изолированную позицию
+   */
+  private addMargin(venue: MockVenue, symbol: string, amount: number): MockRejection | undefined {
+    const position = this.venues[venue].positions.get(symbol);
+    if (!position || !this.venues[venue].isolated.has(symbol)) {
+      return { code: venue === 'binance' ? -4046 : 6005, msg: 'Position is not isolated' };
+    }
+    if (!(amount > 0) || amount > this.availableBalance(venue)) {
+      return DEFAULT_REJECTIONS[venue];
+    }
+    position.addedMargin += amount;
+    return undefined;
+  }
+
+  private unrealizedPnl(venue: MockVenue, symbol: string, position: MockPosition): number {
+    const quote = this.venues[venue].quotes.get(symbol);
+    if (!quote) return 0;
+    return ((quote.bid + quote.ask) / 2 - position.entryPrice) * position.quantity;
+  }
+
+  private static emptyVenue(balance: number): VenueState {
+    return {
+      quotes: new Map(),
+      positions: new Map(),
+      leverage: new Map(),
+      isolated: new Set(),
+      walletBalance: balance,
+      orders: [],
+      limitOrders: new Map(),
+      iocLiquidity: new Map(),
+      rejections: [],
+      throttles: [],
+      heldCancels: 0,
+      authFailures: 0,
+      marketConnections: 0,
+      requests: 0,
+      orderRequests: 0,
+    };
+  }
+
+  private static nextFundingTime(): number {
+    const period = 8 * 60 * 60 * 1000;
+    return Math.ceil(Date.now() / period) * period;
+  }
+
+  private static readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      let body = '';
+      req.setEncoding('utf8');
+      req.on('data', (chunk: string) => {
+        body += chunk;
+      });
+      req.on('end', () => resolve(body));
+      req.on('error', reject);
+    });
+  }
+}
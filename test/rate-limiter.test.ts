@@ -0,0 +1,135 @@
+import { describe, it, before, after, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BinanceFutures } from '../src/exchanges/binance-futures.js';
+import { MexcFutures } from '../src/exchanges/mexc-futures.js';
+import { Logger } from '../src/utils/logger.js';
+import { RateLimiter, type RequestPriority } from '../src/utils/rate-limiter.js';
+import { MockExchangeServer } from './mock-exchange-server.js';
+
+/**
+ * Логгер без вывода в консоль (файлы пишутся во временный каталог теста)
+ */
+class QuietLogger extends Logger {
+  info(): void {}
+  success(): void {}
+  warn(): void {}
+  error(): void {}
+  trade(): void {}
+  header(): void {}
+}
+
+// Логгер пишет файлы относительно cwd - тесты работают во временном каталоге
+const originalDir = process.cwd();
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rate-limiter-'));
+
+before(() => process.chdir(workDir));
+after(() => {
+  process.chdir(originalDir);
+  fs.rmSync(workDir, { recursive: true, force: true });
+});
+
+describe('RateLimiter', () => {
+  it('пропускает закрытие вперед открытия, когда окно заполнено', async () => {
+    const limiter = new RateLimiter('test', [{ counter: 'orders', limit: 1, intervalMs: 100 }], new QuietLogger());
+    const started: RequestPriority[] = [];
+
+    await limiter.acquire({ orders: 1 }, 'OPEN');
+    await Promise.all((['OPEN', 'DEFAULT', 'CLOSE'] as RequestPriority[]).map(async (priority) => {
+      await limiter.acquire({ orders: 1 }, priority);
+      started.push(priority);
+    }));
+
+    assert.deepEqual(started, ['CLOSE', 'OPEN', 'DEFAULT']);
+  });
+
+  it('не держит запросы к другим счетчикам за ждущим запросом', async () => {
+    const limiter = new RateLimiter('test', [
+      { counter: 'order', limit: 1, intervalMs: 300 },
+      { counter: 'ticker', limit: 20, intervalMs: 300 },
+    ], new QuietLogger());
+
+    await limiter.acquire({ order: 1 }, 'CLOSE');
+    const waiting = limiter.acquire({ order: 1 }, 'CLOSE');
+
+    const startedAt = Date.now();
+    await limiter.acquire({ ticker: 1 });
+    assert.ok(Date.now() - startedAt < 100, 'ticker не ждет окна order');
+    assert.equal(limiter.getQueueLength(), 1);
+    await waiting;
+  });
+
+  it('догоняет расход из заголовка биржи', async () => {
+    const limiter = new RateLimiter('test', [
+      { counter: 'weight', limit: 10, intervalMs: 300, usedHeader: 'x-mbx-used-weight-1m' },
+    ], new QuietLogger());
+
+    limiter.observe(new Response(null, { headers: { 'X-MBX-USED-WEIGHT-1M': '10' } }));
+
+    const startedAt = Date.now();
+    await limiter.acquire({ weight: 1 });
+    assert.ok(Date.now() - startedAt >= 250, 'ждет освобождения окна');
+  });
+});
+
+describe('Лимиты запросов адаптеров', () => {
+  let server: MockExchangeServer;
+
+  beforeEach(async () => {
+    server = new MockExchangeServer({ contracts: [{ symbol: 'SOLUSDT', stepSize: 0.01, contractSize: 0.1 }] });
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  function createAdapters(): { binance: BinanceFutures; mexc: MexcFutures } {
+    const credentials = server.getCredentials();
+    const logger = new QuietLogger();
+    return {
+      binance: new BinanceFutures(
+        server.exchangeConfig('binance').restBaseUrl, '', 100, logger, undefined,
+        credentials.binance.apiKey, credentials.binance.apiSecret
+      ),
+      mexc: new MexcFutures(
+        server.exchangeConfig('mexc').restBaseUrl, '', 100, logger, undefined,
+        credentials.mexc.apiKey, credentials.mexc.apiSecret
+      ),
+    };
+  }
+
+  it('после 429 ждет Retry-After и повторяет запрос', async () => {
+    const { binance, mexc } = createAdapters();
+    server.throttle('binance', 1, 429, 1);
+    server.throttle('mexc', 1, 429, 1);
+
+    const startedAt = Date.now();
+    const balances = Promise.all([binance.getBalance(), mexc.getBalance()]);
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    assert.ok(binance.isRateLimited());
+    assert.ok(mexc.isRateLimited());
+
+    assert.deepEqual(await balances, [1000, 1000]);
+    assert.ok(Date.now() - startedAt >= 1000, 'повтор после Retry-After');
+    assert.equal(server.getRequestCount('binance'), 2);
+    assert.equal(server.getRequestCount('mexc'), 2);
+    assert.ok(!binance.isRateLimited());
+  });
+
+  it('после 418 не повторяет запрос и держит паузу', async () => {
+    const { binance } = createAdapters();
+    server.throttle('binance', 1, 418, 1);
+
+    await assert.rejects(binance.getBalance(), /418/);
+    assert.ok(binance.isRateLimited());
+    assert.equal(server.getRequestCount('binance'), 1);
+
+    // Запрос во время бана ждет его окончания
+    const startedAt = Date.now();
+    assert.equal(await binance.healthCheck(), true);
+    assert.ok(Date.now() - startedAt >= 500);
+  });
+});
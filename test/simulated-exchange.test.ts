@@ -0,0 +1,274 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SimulatedExchange } from '../src/exchanges/simulated-exchange.js';
+import { Logger } from '../src/utils/logger.js';
+import type { Config, PaperTradingConfig } from '../src/types/config.js';
+import type {
+  ContractSpec,
+  ExchangeName,
+  ExchangePosition,
+  FundingRate,
+  FuturesExchange,
+  MarginModeStatus,
+  OrderBook,
+  OrderBookLevel,
+  OrderFill,
+  OrderResult,
+  OrderState,
+  TickerPrice,
+  TradingPair,
+} from '../src/types/exchange.js';
+
+const SYMBOL = 'SOLUSDT';
+
+/**
+ * Логгер без вывода в консоль (файлы пишутся во временный каталог теста)
+ */
+class QuietLogger extends Logger {
+  info(): void {}
+  success(): void {}
+  warn(): void {}
+  error(): void {}
+  trade(): void {}
+  header(): void {}
+}
+
+/**
+ * Рыночные данные для симулятора: котировка и стакан задаются тестом, ордера сюда не доходят
+ */
+class StubMarket implements FuturesExchange {
+  readonly name: ExchangeName = 'binance';
+  private prices: Map<string, TickerPrice> = new Map();
+  private books: Map<string, OrderBook> = new Map();
+
+  setBook(symbol: string, bids: OrderBookLevel[], asks: OrderBookLevel[]): void {
+    const timestamp = Date.now();
+    this.books.set(symbol, { symbol, exchange: this.name, bids, asks, timestamp });
+    this.prices.set(symbol, {
+      symbol,
+      price: asks[0].price,
+      bid: bids[0].price,
+      ask: asks[0].price,
+      bidQty: bids[0].quantity,
+      askQty: asks[0].quantity,
+      timestamp,
+      exchange: this.name,
+    });
+  }
+
+  async getTopPairs(): Promise<TradingPair[]> {
+    return [];
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return true;
+  }
+
+  connectWebSocket(): void {}
+
+  disconnect(): void {}
+
+  getPrice(symbol: string): TickerPrice | undefined {
+    return this.prices.get(symbol);
+  }
+
+  getAllPrices(): Map<string, TickerPrice> {
+    return this.prices;
+  }
+
+  getOrderBook(symbol: string): OrderBook | undefined {
+    return this.books.get(symbol);
+  }
+
+  async getContractSpecs(): Promise<ContractSpec[]> {
+    return [{ symbol: SYMBOL, exchange: this.name, contractSize: 1, tickSize: 0.01, stepSize: 0.01, minQty: 0.01, minNotional: 5 }];
+  }
+
+  async getFundingRates(): Promise<FundingRate[]> {
+    return [];
+  }
+
+  createMarketOrder(): Promise<OrderResult> {
+    return StubMarket.unsupported();
+  }
+
+  createLimitOrder(): Promise<OrderResult> {
+    return StubMarket.unsupported();
+  }
+
+  cancelOrder(): Promise<void> {
+    return StubMarket.unsupported();
+  }
+
+  amendOrder(): Promise<OrderResult> {
+    return StubMarket.unsupported();
+  }
+
+  getOrderStatus(): Promise<OrderState> {
+    return StubMarket.unsupported();
+  }
+
+  setLeverage(): Promise<void> {
+    return StubMarket.unsupported();
+  }
+
+  setMarginMode(): Promise<MarginModeStatus> {
+    return StubMarket.unsupported();
+  }
+
+  getBalance(): Promise<number> {
+    return StubMarket.unsupported();
+  }
+
+  getOrderFill(): Promise<OrderFill> {
+    return StubMarket.unsupported();
+  }
+
+  getPositions(): Promise<ExchangePosition[]> {
+    return StubMarket.unsupported();
+  }
+
+  addIsolatedMargin(): Promise<void> {
+    return StubMarket.unsupported();
+  }
+
+  async connectUserDataStream(): Promise<void> {}
+
+  isRateLimited(): boolean {
+    return false;
+  }
+
+  private static async unsupported(): Promise<never> {
+    throw new Error('StubMarket: ордера исполняет симулятор');
+  }
+}
+
+/**
+ * Симулятор без задержек: баланс 1000, плечо 5, taker 0.04%, проскальзывание за стаканом 0.05%
+ */
+function createConfig(paper: Partial<PaperTradingConfig> = {}): Config {
+  return {
+    exchanges: {
+      binance: { name: 'binance', restBaseUrl: 'http://127.0.0.1', wsBaseUrl: 'ws://127.0.0.1', enabled: true },
+    },
+    arbitrage: {
+      minSpreadPercent: 0.5,
+      topPairsCount: 10,
+      useWebSocket: true,
+      restFallbackIntervalMs: 5000,
+      reconnectDelayMs: 100,
+      excludePairs: [],
+    },
+    notifications: {
+      logToConsole: false,
+      minSpreadToNotify: 1,
+      showTimestamp: false,
+      coloredOutput: false,
+    },
+    fees: {
+      binance: { maker: 0.02, taker: 0.04 },
+    },
+    slippage: { percent: 0.05 },
+    trading: {
+      enabled: true,
+      testMode: false,
+      testBalanceUSD: 1000,
+      positionSizeUSD: 60,
+      marginMode: 'cross',
+      leverage: 5,
+      maxOpenPositions: 1,
+      positionTimeoutSeconds: 600,
+      closeOnSpreadConvergence: true,
+      closeOnNewOpportunity: false,
+      priceConvergencePercent: 0.05,
+    },
+    paper: { enabled: true, latencyMs: 0, ...paper },
+  };
+}
+
+// Логгер пишет файлы относительно cwd - тесты работают во временном каталоге
+const originalDir = process.cwd();
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'simulated-exchange-'));
+
+before(() => process.chdir(workDir));
+after(() => {
+  process.chdir(originalDir);
+  fs.rmSync(workDir, { recursive: true, force: true });
+});
+
+describe('SimulatedExchange', () => {
+  async function createExchange(paper: Partial<PaperTradingConfig> = {}): Promise<{ exchange: SimulatedExchange; market: StubMarket }> {
+    const market = new StubMarket();
+    market.setBook(SYMBOL, [{ price: 99.9, quantity: 5 }], [{ price: 100, quantity: 1 }, { price: 101, quantity: 2 }]);
+
+    const exchange = new SimulatedExchange(market, createConfig(paper), new QuietLogger());
+    await exchange.getContractSpecs();
+    return { exchange, market };
+  }
+
+  it('отклоняет ордер без начальной маржи и не открывает позицию', async () => {
+    const { exchange } = await createExchange({ balanceUSD: { binance: 100 } });
+
+    // 6 SOL по ~100.7 при плече 5: маржа ~121 > баланса 100
+    await assert.rejects(exchange.createMarketOrder(SYMBOL, 'BUY', 6), /-2019/);
+    assert.deepEqual(await exchange.getPositions(), []);
+    assert.equal(await exchange.getBalance(), 100);
+
+    // 2 SOL: маржа ~40 - проходит
+    await exchange.createMarketOrder(SYMBOL, 'BUY', 2);
+    const [position] = await exchange.getPositions();
+    assert.equal(position.side, 'LONG');
+    assert.equal(position.quantity, 2);
+  });
+
+  it('исполняет рыночный ордер по уровням стакана, остаток сверх глубины - с проскальзыванием', async () => {
+    const { exchange } = await createExchange();
+
+    const partial = await exchange.createMarketOrder(SYMBOL, 'BUY', 2);
+    const partialFill = await exchange.getOrderFill(SYMBOL, partial.orderId!);
+    assert.equal(partialFill.avgPrice, (100 + 101) / 2);
+    assert.ok(Math.abs(partialFill.commission - 2 * 100.5 * 0.04 / 100) < 1e-9, 'комиссия taker');
+
+    // 1 @ 100 + 2 @ 101 + 1 сверх стакана @ 101 * 1.0005
+    const deep = await exchange.createMarketOrder(SYMBOL, 'BUY', 4);
+    const deepFill = await exchange.getOrderFill(SYMBOL, deep.orderId!);
+    assert.ok(Math.abs(deepFill.avgPrice - (100 + 2 * 101 + 101 * 1.0005) / 4) < 1e-9);
+
+    const [position] = await exchange.getPositions();
+    assert.equal(position.quantity, 6);
+  });
+
+  it('снимает IOC ордер, если средняя цена по стакану хуже лимита', async () => {
+    const { exchange } = await createExchange();
+
+    // Средняя цена 2 SOL - 100.5, лимит 100.4
+    const expired = await exchange.createLimitOrder(SYMBOL, 'BUY', 2, 100.4, 'IOC');
+    assert.equal(expired.status, 'EXPIRED');
+    assert.deepEqual(await exchange.getPositions(), []);
+
+    const filled = await exchange.createLimitOrder(SYMBOL, 'BUY', 2, 100.5, 'IOC');
+    assert.equal(filled.status, 'FILLED');
+    const state = await exchange.getOrderStatus(SYMBOL, filled.orderId!);
+    assert.equal(state.executedQty, 2);
+    assert.equal(state.avgPrice, 100.5);
+  });
+
+  it('с rejectRate 1 отклоняет каждый ордер, с 0 - ни одного', async () => {
+    const { exchange: rejecting } = await createExchange({ rejectRate: 1 });
+    for (let i = 0; i < 3; i++) {
+      await assert.rejects(rejecting.createMarketOrder(SYMBOL, 'BUY', 0.1), /Simulated rejection/);
+    }
+    await assert.rejects(rejecting.createLimitOrder(SYMBOL, 'BUY', 0.1, 99, 'POST_ONLY'), /Simulated rejection/);
+    assert.deepEqual(await rejecting.getPositions(), []);
+
+    const { exchange: accepting } = await createExchange({ rejectRate: 0 });
+    for (let i = 0; i < 3; i++) {
+      await accepting.createMarketOrder(SYMBOL, 'BUY', 0.1);
+    }
+    const [position] = await accepting.getPositions();
+    assert.ok(Math.abs(position.quantity - 0.3) < 1e-9);
+  });
+});